@@ -25,18 +25,19 @@ class PCMCaptureProcessor extends AudioWorkletProcessor {
     
     // Only process if we have input data
     if (input && input.length > 0 && input[0].length > 0) {
-      // Get the first channel (mono) - if stereo, we'll mix down in the service
-      const channelData = input[0]
-      
-      // Create a copy of the samples (the buffer is reused by the audio system)
-      const samples = new Float32Array(channelData.length)
-      samples.set(channelData)
+      // Copy every channel (the buffers are reused by the audio system) -
+      // the service keeps them separate and mixes down to mono
+      const channels = input.map((channelData) => {
+        const samples = new Float32Array(channelData.length)
+        samples.set(channelData)
+        return samples
+      })
       
       // Send samples to the main thread
       this.port.postMessage({
         type: 'samples',
-        samples: samples
-      }, [samples.buffer]) // Transfer ownership for efficiency
+        channels: channels
+      }, channels.map((samples) => samples.buffer)) // Transfer ownership for efficiency
     }
 
     // Return true to keep the processor running
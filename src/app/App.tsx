@@ -5,6 +5,7 @@ import { RecorderCard } from '../components/recorder'
 import { HarmonicFieldsPanel } from '../components/harmony'
 import { ChordsPanel } from '../components/chords'
 import { ProgressionsPanel } from '../components/progressions'
+import { TakesPanel } from '../components/takes'
 import { AppProvider, mockAnalyzedState, useAppState } from '../domain/state'
 import { transcriptionService } from '../services/transcriptionService'
 
@@ -12,7 +13,7 @@ import { transcriptionService } from '../services/transcriptionService'
 const USE_MOCK_DATA = false
 
 function MainContent() {
-  const { status } = useAppState()
+  const { status, takes } = useAppState()
   const hasAnalysis = status === 'analyzed'
 
   // Preload the Basic Pitch model on app mount
@@ -34,6 +35,13 @@ function MainContent() {
           <HarmonicFieldsPanel />
         </div>
 
+        {/* Takes recorded or imported this session */}
+        {takes.length > 0 && (
+          <div className="mt-6">
+            <TakesPanel />
+          </div>
+        )}
+
         {/* Bottom section: Chords + Progressions (full width after analysis) */}
         {hasAnalysis && (
           <div className="mt-6 space-y-6">
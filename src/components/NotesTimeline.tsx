@@ -2,7 +2,8 @@ import { useState, useMemo, useRef, useEffect } from 'react'
 import { midiPlayer } from '../services/midiPlayer'
 import { midiToNoteName } from '../services/transcriptionService'
 import { PlayIcon, StopIcon } from './icons'
-import type { TranscribedNote } from '../domain/types'
+import { QUANTIZE_GRIDS } from '../services/quantization'
+import type { TranscribedNote, Bar, Quantization, QuantizeGrid } from '../domain/types'
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Constants
@@ -31,8 +32,18 @@ const OCTAVE_COLORS = [
 // Types
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** Which timings the timeline draws: as played or snapped to the grid */
+export type NotesView = 'played' | 'quantized'
+
 interface NotesTimelineProps {
   notes: TranscribedNote[]
+  /** Bars to draw bar lines for (a seconds grid is drawn without them) */
+  bars?: Bar[]
+  /** The notes snapped to a grid, drawn in the quantized view */
+  quantization?: Quantization
+  view?: NotesView
+  onViewChange?: (view: NotesView) => void
+  onGridChange?: (grid: QuantizeGrid) => void
   isPlaying?: boolean
   currentNoteIndex?: number
   onPlayAll?: () => void
@@ -44,19 +55,32 @@ interface NotesTimelineProps {
 // ─────────────────────────────────────────────────────────────────────────────
 
 export function NotesTimeline({
-  notes,
+  notes: playedNotes,
+  bars,
+  quantization,
+  view = 'played',
+  onViewChange,
+  onGridChange,
   isPlaying = false,
   currentNoteIndex = -1,
   onPlayAll,
   onStop,
 }: NotesTimelineProps) {
+  const notes = view === 'quantized' && quantization ? quantization.notes : playedNotes
   const [playingNoteId, setPlayingNoteId] = useState<number | null>(null)
   const containerRef = useRef<HTMLDivElement>(null)
 
   // Calculate timeline dimensions
-  const { rows, totalDuration, minMidi, maxMidi, timelineWidth } = useMemo(() => {
+  const { rows, startTime, totalDuration, minMidi, maxMidi, timelineWidth } = useMemo(() => {
     if (notes.length === 0) {
-      return { rows: [], totalDuration: 0, minMidi: 60, maxMidi: 72, timelineWidth: 0 }
+      return {
+        rows: [],
+        startTime: 0,
+        totalDuration: 0,
+        minMidi: 60,
+        maxMidi: 72,
+        timelineWidth: 0,
+      }
     }
 
     // Get time bounds
@@ -91,9 +115,23 @@ export function NotesTimeline({
 
     const timelineWidth = totalDuration * PIXELS_PER_SECOND
 
-    return { rows, totalDuration, minMidi, maxMidi, timelineWidth }
+    return { rows, startTime, totalDuration, minMidi, maxMidi, timelineWidth }
   }, [notes])
 
+  // Bar and beat lines within the notes' time span
+  const barLines = useMemo(() => {
+    if (!bars || totalDuration <= 0) return []
+    const toPercent = (timeSec: number) => ((timeSec - startTime) / totalDuration) * 100
+    const inView = (percent: number) => percent >= 0 && percent <= 100
+    return bars
+      .map((bar) => ({
+        number: bar.number,
+        leftPercent: toPercent(bar.startSec),
+        beatPercents: bar.beats.slice(1).map(toPercent).filter(inView),
+      }))
+      .filter((bar) => inView(bar.leftPercent) || bar.beatPercents.length > 0)
+  }, [bars, startTime, totalDuration])
+
   // Auto-scroll to current note during playback
   useEffect(() => {
     if (isPlaying && currentNoteIndex >= 0 && containerRef.current) {
@@ -154,6 +192,45 @@ export function NotesTimeline({
               </>
             )}
           </button>
+          {quantization && onViewChange && (
+            <div className="flex rounded-full bg-stone-800 p-0.5 text-[10px] sm:text-xs">
+              {(['played', 'quantized'] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => onViewChange(option)}
+                  className={`cursor-pointer rounded-full px-2 py-0.5 font-medium transition-colors ${
+                    view === option
+                      ? 'bg-stone-600 text-stone-100'
+                      : 'text-stone-400 hover:text-stone-300'
+                  }`}
+                >
+                  {option === 'played' ? 'As played' : 'Quantized'}
+                </button>
+              ))}
+            </div>
+          )}
+          {quantization && view === 'quantized' && onGridChange && (
+            <select
+              value={quantization.grid}
+              onChange={(e) => onGridChange(e.target.value as QuantizeGrid)}
+              title="Grid the notes are snapped to"
+              className="cursor-pointer rounded-lg border border-stone-700 bg-stone-800/50 px-1.5 py-0.5 text-[10px] text-stone-300 outline-none focus:border-stone-500 sm:text-xs"
+            >
+              {QUANTIZE_GRIDS.map((grid) => (
+                <option key={grid.id} value={grid.id}>
+                  {grid.label}
+                </option>
+              ))}
+            </select>
+          )}
+          {quantization && view === 'quantized' && quantization.swingRatio > 1 && (
+            <span
+              className="text-[10px] text-stone-500 tabular-nums sm:text-xs"
+              title="Long to short ratio of the swung note pairs"
+            >
+              Swing {quantization.swingRatio.toFixed(1)}:1
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-1.5 text-[10px] tabular-nums text-stone-500 sm:gap-3 sm:text-xs">
           <span>{notes.length} notes</span>
@@ -163,6 +240,12 @@ export function NotesTimeline({
           </span>
           <span>•</span>
           <span>{totalDuration.toFixed(1)}s</span>
+          {barLines.length > 0 && (
+            <>
+              <span>•</span>
+              <span>{barLines.filter((bar) => bar.number > 0).length} bars</span>
+            </>
+          )}
         </div>
       </div>
 
@@ -181,21 +264,45 @@ export function NotesTimeline({
               minWidth: '100%',
             }}
           >
+            {/* Bar lines, with fainter beat lines */}
+            {barLines.map((bar) => (
+              <div key={`bar-${bar.number}`}>
+                {bar.leftPercent >= 0 && (
+                  <div
+                    className="absolute top-0 h-full border-l border-stone-600/60"
+                    style={{ left: `${bar.leftPercent}%` }}
+                  >
+                    <span className="absolute -bottom-4 left-0.5 text-[9px] text-stone-500 sm:-bottom-5 sm:left-1 sm:text-[10px]">
+                      {bar.number === 0 ? 'pickup' : bar.number}
+                    </span>
+                  </div>
+                )}
+                {bar.beatPercents.map((leftPercent) => (
+                  <div
+                    key={leftPercent}
+                    className="absolute top-0 h-full border-l border-stone-800/40"
+                    style={{ left: `${leftPercent}%` }}
+                  />
+                ))}
+              </div>
+            ))}
+
             {/* Grid lines (time markers) */}
-            {Array.from({ length: Math.ceil(totalDuration) + 1 }).map((_, i) => {
-              const leftPercent = (i / totalDuration) * 100
-              return (
-                <div
-                  key={`grid-${i}`}
-                  className="absolute top-0 h-full border-l border-stone-800/50"
-                  style={{ left: `${leftPercent}%` }}
-                >
-                  <span className="absolute -bottom-4 left-0.5 text-[9px] text-stone-600 sm:-bottom-5 sm:left-1 sm:text-[10px]">
-                    {i}s
-                  </span>
-                </div>
-              )
-            })}
+            {barLines.length === 0 &&
+              Array.from({ length: Math.ceil(totalDuration) + 1 }).map((_, i) => {
+                const leftPercent = (i / totalDuration) * 100
+                return (
+                  <div
+                    key={`grid-${i}`}
+                    className="absolute top-0 h-full border-l border-stone-800/50"
+                    style={{ left: `${leftPercent}%` }}
+                  >
+                    <span className="absolute -bottom-4 left-0.5 text-[9px] text-stone-600 sm:-bottom-5 sm:left-1 sm:text-[10px]">
+                      {i}s
+                    </span>
+                  </div>
+                )
+              })}
 
             {/* Notes */}
             {rows.map((note, i) => {
@@ -8,7 +8,7 @@ import { MusicNoteIcon } from '../icons'
 import { FieldCard } from './FieldCard'
 
 export function HarmonicFieldsPanel() {
-  const { status, harmony, recording, features } = useAppState()
+  const { status, harmony, recording, features, activeTakeId } = useAppState()
   const dispatch = useAppDispatch()
 
   // Track which scale/drone is playing
@@ -17,7 +17,9 @@ export function HarmonicFieldsPanel() {
   const audioRef = useRef<HTMLAudioElement | null>(null)
 
   const isLoading = ['decoding', 'transcribing'].includes(status)
-  const hasResults = status === 'analyzed' && harmony
+  // Keys found so far while a new take is recorded with live notes
+  const isLive = status === 'recording' && !activeTakeId && !!harmony
+  const hasResults = (status === 'analyzed' || isLive) && harmony
 
   // Cleanup drone when component unmounts or harmony changes
   useEffect(() => {
@@ -113,6 +115,7 @@ export function HarmonicFieldsPanel() {
         </h2>
         {hasResults && (
           <span className="ml-auto text-xs text-stone-500">
+            {isLive ? 'Live • ' : ''}
             {harmony.candidates.length} candidates
           </span>
         )}
@@ -3,13 +3,21 @@ import { useAppState } from '../../domain/state'
 import { midiPlayer } from '../../services/midiPlayer'
 import { generateProgressions } from '../../services/progressionService'
 import { getChordTones } from '../../services/chordUtils'
+import { getStrumSchedule } from '../../services/strumDetection'
 import { ChartIcon } from '../icons'
 import { WeirdnessKnob } from '../ui/WeirdnessKnob'
 import { ProgressionCard } from './ProgressionCard'
 import type { ProgressionSuggestion } from '../../domain/types'
 
 export function ProgressionsPanel() {
-  const { status, progressions: stateProgressions, harmony, chords, features } = useAppState()
+  const {
+    status,
+    progressions: stateProgressions,
+    harmony,
+    chords,
+    features,
+    transcription,
+  } = useAppState()
   const [playingIndex, setPlayingIndex] = useState<number | null>(null)
   const [currentChordIndex, setCurrentChordIndex] = useState(0)
   const playbackRef = useRef<{ timeoutIds: number[] }>({ timeoutIds: [] })
@@ -73,19 +81,36 @@ export function ProgressionsPanel() {
       setPlayingIndex(index)
       setCurrentChordIndex(0)
 
-      const chordDuration = 800 // ms per chord
-      const gap = 100 // ms between chords
+      // With a strum pattern from the recording, each chord is strummed with it
+      // for a bar at the recording's tempo; otherwise it's a single strum
+      const strumPattern = transcription?.strumPattern
+      const strokes = strumPattern
+        ? getStrumSchedule(strumPattern)
+        : [{ offsetMs: 0, direction: 'down' as const }]
+      const chordDuration = strumPattern
+        ? (strumPattern.pattern.length / strumPattern.stepsPerBeat) * strumPattern.beatSec * 1000
+        : 800 // ms per chord
+      const gap = strumPattern ? 0 : 100 // ms between chords
 
       progression.chords.forEach((chord, i) => {
         const delay = i * (chordDuration + gap)
 
-        const timeoutId = window.setTimeout(() => {
-          setCurrentChordIndex(i)
-          // Parse chord and play (extract root and type)
-          midiPlayer.playChord(getChordTones(chord), 3, chordDuration, 0.35)
-        }, delay)
-
-        playbackRef.current.timeoutIds.push(timeoutId)
+        strokes.forEach((stroke, j) => {
+          const strokeDuration = (strokes[j + 1]?.offsetMs ?? chordDuration) - stroke.offsetMs
+          const timeoutId = window.setTimeout(() => {
+            if (j === 0) setCurrentChordIndex(i)
+            // Parse chord and play (extract root and type); up strokes are lighter
+            midiPlayer.playChord(
+              getChordTones(chord),
+              3,
+              strokeDuration,
+              stroke.direction === 'up' ? 0.25 : 0.35,
+              stroke.direction
+            )
+          }, delay + stroke.offsetMs)
+
+          playbackRef.current.timeoutIds.push(timeoutId)
+        })
       })
 
       // Stop playing state after all chords
@@ -96,7 +121,7 @@ export function ProgressionsPanel() {
       }, totalDuration)
       playbackRef.current.timeoutIds.push(endTimeout)
     },
-    [progressions]
+    [progressions, transcription]
   )
 
   // Stop playback
@@ -0,0 +1,198 @@
+import { useState } from 'react'
+import { ChevronDownIcon } from '../icons'
+import {
+  PREPROCESSING_STAGES,
+  STAGE_PARAM_CONTROLS,
+  DEFAULT_PREPROCESSING_CONFIG,
+  isConfigurableStage,
+  type ConfigurableStageId,
+  type PreprocessingConfig,
+} from '../../services/preprocessingPipeline'
+import { ONSET_DETECTORS, DEFAULT_ONSET_DETECTORS } from '../../services/onsetDetection'
+import {
+  TRANSCRIPTION_ENGINES,
+  type TranscriptionEngineChoice,
+} from '../../services/transcriptionEngine'
+import type { OnsetDetector, PreprocessingParams, TranscriptionPreset } from '../../domain/types'
+
+const PRESET_LABELS: Record<TranscriptionPreset, string> = { lead: 'Lead', chord: 'Chords' }
+
+interface AdvancedAudioPanelProps {
+  config: PreprocessingConfig
+  onChange: (config: PreprocessingConfig) => void
+  /** Onset detection function for each preset */
+  onsetDetectors: Record<TranscriptionPreset, OnsetDetector>
+  onOnsetDetectorsChange: (onsetDetectors: Record<TranscriptionPreset, OnsetDetector>) => void
+  /** Transcription engine for lead parts */
+  leadEngine: TranscriptionEngineChoice
+  onLeadEngineChange: (engine: TranscriptionEngineChoice) => void
+}
+
+export function AdvancedAudioPanel({
+  config,
+  onChange,
+  onsetDetectors,
+  onOnsetDetectorsChange,
+  leadEngine,
+  onLeadEngineChange,
+}: AdvancedAudioPanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  const updateStage = (
+    stage: ConfigurableStageId,
+    changes: { enabled?: boolean; params?: PreprocessingParams }
+  ) =>
+    onChange({
+      ...config,
+      [stage]: {
+        enabled: changes.enabled ?? config[stage].enabled,
+        params: { ...config[stage].params, ...changes.params },
+      },
+    } as PreprocessingConfig)
+
+  const isDefault =
+    JSON.stringify(config) === JSON.stringify(DEFAULT_PREPROCESSING_CONFIG) &&
+    JSON.stringify(onsetDetectors) === JSON.stringify(DEFAULT_ONSET_DETECTORS) &&
+    leadEngine === 'auto'
+
+  return (
+    <div className="mb-4 sm:mb-6">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="mx-auto flex cursor-pointer items-center gap-1.5 text-[10px] text-stone-500 transition-colors hover:text-stone-400 sm:text-xs"
+      >
+        <span>Advanced audio{isDefault ? '' : ' (customized)'}</span>
+        <ChevronDownIcon
+          className={`h-2.5 w-2.5 transition-transform sm:h-3 sm:w-3 ${isOpen ? 'rotate-180' : ''}`}
+        />
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 space-y-2 rounded-xl border border-stone-800 bg-stone-950/40 p-3 text-[10px] text-stone-500 sm:text-xs">
+          {PREPROCESSING_STAGES.filter((stage) => isConfigurableStage(stage.id)).map((stage) => {
+            const id = stage.id as ConfigurableStageId
+            const { enabled, params } = config[id]
+            return (
+              <div key={id} className="space-y-1.5">
+                <label className="flex cursor-pointer items-center gap-2" title={stage.description}>
+                  <input
+                    type="checkbox"
+                    checked={enabled}
+                    onChange={(e) => updateStage(id, { enabled: e.target.checked })}
+                    className="cursor-pointer accent-amber-500"
+                  />
+                  <span className={enabled ? 'text-stone-300' : ''}>{stage.name}</span>
+                  <span className="text-stone-600">{stage.description}</span>
+                </label>
+
+                {enabled && id === 'filter' && (
+                  <label className="ml-5 flex cursor-pointer items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={config.filter.params.humNotch}
+                      onChange={(e) =>
+                        updateStage('filter', { params: { humNotch: e.target.checked } })
+                      }
+                      className="cursor-pointer accent-amber-500"
+                    />
+                    <span>Notch detected mains hum</span>
+                  </label>
+                )}
+
+                {enabled &&
+                  STAGE_PARAM_CONTROLS.filter(
+                    (control) =>
+                      control.stage === id &&
+                      // The harmonic count only matters while hum is notched
+                      (control.key !== 'humHarmonics' || config.filter.params.humNotch)
+                  ).map((control) => (
+                    <label key={control.key} className="ml-5 block">
+                      <span className="mb-1 flex justify-between">
+                        <span>{control.label}</span>
+                        <span className="tabular-nums text-stone-400">
+                          {params[control.key]} {control.unit}
+                        </span>
+                      </span>
+                      <input
+                        type="range"
+                        min={control.min}
+                        max={control.max}
+                        step={control.step}
+                        value={Number(params[control.key])}
+                        onChange={(e) =>
+                          updateStage(id, { params: { [control.key]: Number(e.target.value) } })
+                        }
+                        className="w-full cursor-pointer accent-amber-500"
+                      />
+                    </label>
+                  ))}
+              </div>
+            )
+          })}
+
+          <div className="space-y-1.5">
+            <span className="text-stone-400">Onset detection</span>
+            {(Object.keys(PRESET_LABELS) as TranscriptionPreset[]).map((preset) => {
+              const detector = ONSET_DETECTORS.find((d) => d.id === onsetDetectors[preset])
+              return (
+                <label key={preset} className="ml-5 flex items-center gap-2">
+                  <span className="w-12">{PRESET_LABELS[preset]}</span>
+                  <select
+                    value={onsetDetectors[preset]}
+                    onChange={(e) =>
+                      onOnsetDetectorsChange({
+                        ...onsetDetectors,
+                        [preset]: e.target.value as OnsetDetector,
+                      })
+                    }
+                    className="cursor-pointer rounded bg-stone-800 px-1.5 py-0.5 text-stone-300"
+                  >
+                    {ONSET_DETECTORS.map((option) => (
+                      <option key={option.id} value={option.id}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="text-stone-600">{detector?.description}</span>
+                </label>
+              )
+            })}
+          </div>
+
+          <label className="flex items-center gap-2">
+            <span className="text-stone-400">Lead engine</span>
+            <select
+              value={leadEngine}
+              onChange={(e) => onLeadEngineChange(e.target.value as TranscriptionEngineChoice)}
+              className="cursor-pointer rounded bg-stone-800 px-1.5 py-0.5 text-stone-300"
+            >
+              {TRANSCRIPTION_ENGINES.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <span className="text-stone-600">
+              {TRANSCRIPTION_ENGINES.find((option) => option.id === leadEngine)?.description}
+            </span>
+          </label>
+
+          {!isDefault && (
+            <div className="flex justify-end">
+              <button
+                onClick={() => {
+                  onChange(DEFAULT_PREPROCESSING_CONFIG)
+                  onOnsetDetectorsChange(DEFAULT_ONSET_DETECTORS)
+                  onLeadEngineChange('auto')
+                }}
+                className="cursor-pointer rounded-full bg-stone-800 px-3 py-1 text-stone-400 transition-colors hover:bg-stone-700 hover:text-stone-300"
+              >
+                Reset to defaults
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,11 +1,56 @@
-import type { RecordingAsset } from '../../domain/types'
+import { useEffect, useRef } from 'react'
+import type { RecordingAsset, TimeRange } from '../../domain/types'
 import { CheckIcon } from '../icons'
 
 interface AudioPlaybackProps {
   recordingAsset: RecordingAsset
+  /** Only play this region (whole recording when null) */
+  region?: TimeRange | null
 }
 
-export function AudioPlayback({ recordingAsset }: AudioPlaybackProps) {
+export function AudioPlayback({ recordingAsset, region }: AudioPlaybackProps) {
+  const audioRef = useRef<HTMLAudioElement>(null)
+
+  // Keep playback inside the region: start from its beginning, stop at its end
+  useEffect(() => {
+    const audio = audioRef.current
+    if (!audio || !region) return
+
+    let frameId: number | null = null
+
+    const checkPosition = () => {
+      if (audio.currentTime >= region.endSec) {
+        audio.pause()
+        audio.currentTime = region.startSec
+        return
+      }
+      frameId = requestAnimationFrame(checkPosition)
+    }
+
+    const handlePlay = () => {
+      if (audio.currentTime < region.startSec || audio.currentTime >= region.endSec) {
+        audio.currentTime = region.startSec
+      }
+      frameId = requestAnimationFrame(checkPosition)
+    }
+
+    const handlePause = () => {
+      if (frameId !== null) cancelAnimationFrame(frameId)
+      frameId = null
+    }
+
+    // Move an idle playhead into the new region
+    if (audio.paused) audio.currentTime = region.startSec
+
+    audio.addEventListener('play', handlePlay)
+    audio.addEventListener('pause', handlePause)
+    return () => {
+      handlePause()
+      audio.removeEventListener('play', handlePlay)
+      audio.removeEventListener('pause', handlePause)
+    }
+  }, [region])
+
   return (
     <div className="mb-4 sm:mb-6">
       {/* HQ Capture indicator */}
@@ -19,6 +64,7 @@ export function AudioPlayback({ recordingAsset }: AudioPlaybackProps) {
         </div>
       )}
       <audio
+        ref={audioRef}
         controls
         src={recordingAsset.audioUrl}
         className="h-10 w-full rounded-lg sm:h-12"
@@ -27,6 +73,11 @@ export function AudioPlayback({ recordingAsset }: AudioPlaybackProps) {
           opacity: 0.7,
         }}
       />
+      {region && (
+        <p className="mt-1 text-center text-[10px] text-stone-500 sm:text-xs">
+          Playing selection only ({region.startSec.toFixed(1)}s – {region.endSec.toFixed(1)}s)
+        </p>
+      )}
     </div>
   )
 }
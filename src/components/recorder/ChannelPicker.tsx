@@ -0,0 +1,31 @@
+import type { ChannelSelection } from '../../domain/types'
+
+interface ChannelPickerProps {
+  channelCount: number
+  channel: ChannelSelection
+  /** Omit to make the choice read-only (e.g. after analysis) */
+  onChannelChange?: (channel: ChannelSelection) => void
+}
+
+export function ChannelPicker({ channelCount, channel, onChannelChange }: ChannelPickerProps) {
+  return (
+    <label className="-mt-2 mb-4 flex items-center justify-center gap-2 text-[10px] text-stone-500 sm:-mt-4 sm:mb-6 sm:text-xs">
+      <span>🔀 Transcribe</span>
+      <select
+        value={String(channel)}
+        disabled={!onChannelChange}
+        onChange={(e) =>
+          onChannelChange?.(e.target.value === 'mix' ? 'mix' : Number(e.target.value))
+        }
+        className="cursor-pointer rounded-lg border border-stone-700 bg-stone-800/50 px-2 py-1.5 text-stone-300 outline-none focus:border-stone-500 disabled:cursor-default disabled:opacity-60"
+      >
+        <option value="mix">Mix of all {channelCount} channels</option>
+        {Array.from({ length: channelCount }, (_, ch) => (
+          <option key={ch} value={ch}>
+            Channel {ch + 1}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
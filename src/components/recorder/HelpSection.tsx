@@ -1,5 +1,12 @@
 import { useState } from 'react'
-import { HelpIcon, ChevronDownIcon, LightbulbIcon, ShieldIcon, ClockIcon } from '../icons'
+import {
+  HelpIcon,
+  ChevronDownIcon,
+  LightbulbIcon,
+  ShieldIcon,
+  ClockIcon,
+  UploadIcon,
+} from '../icons'
 
 export function HelpSection() {
   const [isHelpOpen, setIsHelpOpen] = useState(false)
@@ -35,6 +42,18 @@ export function HelpSection() {
             icon={<ClockIcon className="mt-0.5 h-3.5 w-3.5 shrink-0 text-blue-500 sm:h-4 sm:w-4" />}
             text="Keep recordings short (5-15s) for faster results."
           />
+          <HelpTip
+            icon={
+              <ClockIcon className="mt-0.5 h-3.5 w-3.5 shrink-0 text-amber-500 sm:h-4 sm:w-4" />
+            }
+            text="Recording with the click or an overdub backing on? Use headphones so it doesn't end up in the take."
+          />
+          <HelpTip
+            icon={
+              <UploadIcon className="mt-0.5 h-3.5 w-3.5 shrink-0 text-stone-400 sm:h-4 sm:w-4" />
+            }
+            text="Drop a WAV, MP3, OGG or FLAC file onto the recorder to analyze an existing take. Lossless files give the best results."
+          />
         </div>
       )}
     </div>
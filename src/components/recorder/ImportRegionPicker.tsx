@@ -0,0 +1,105 @@
+import { useState } from 'react'
+import type { TimeRange } from '../../domain/types'
+import { formatTime } from '../../services/audioRecorder'
+import { getDefaultImportRegion, clampImportRegion } from '../../services/audioImport'
+
+interface ImportRegionPickerProps {
+  fileName: string
+  durationMs: number
+  maxDurationMs: number
+  onConfirm: (region: TimeRange) => void
+  onCancel: () => void
+}
+
+export function ImportRegionPicker({
+  fileName,
+  durationMs,
+  maxDurationMs,
+  onConfirm,
+  onCancel,
+}: ImportRegionPickerProps) {
+  const durationSec = durationMs / 1000
+  const maxDurationSec = maxDurationMs / 1000
+
+  const [region, setRegion] = useState<TimeRange>(() =>
+    getDefaultImportRegion(durationSec, maxDurationSec)
+  )
+  const lengthSec = region.endSec - region.startSec
+
+  // Move the region, keeping its length
+  const handleStartChange = (startSec: number) => {
+    setRegion(
+      clampImportRegion({ startSec, endSec: startSec + lengthSec }, durationSec, maxDurationSec)
+    )
+  }
+
+  // Resize the region from its start
+  const handleLengthChange = (newLengthSec: number) => {
+    setRegion(
+      clampImportRegion(
+        { startSec: region.startSec, endSec: region.startSec + newLengthSec },
+        durationSec,
+        maxDurationSec
+      )
+    )
+  }
+
+  return (
+    <div className="mb-4 rounded-xl border border-amber-900/50 bg-amber-950/20 p-3 sm:mb-6 sm:p-4">
+      <p className="mb-1 truncate text-xs font-medium text-stone-300 sm:text-sm">{fileName}</p>
+      <p className="mb-3 text-[11px] text-stone-500 sm:text-xs">
+        This file is {formatTime(durationMs)} long. Choose a region of up to{' '}
+        {Math.round(maxDurationSec)} seconds to analyze.
+      </p>
+
+      <label className="mb-2 block text-[10px] text-stone-500 sm:text-xs">
+        <span className="mb-1 flex justify-between">
+          <span>Start</span>
+          <span className="tabular-nums text-stone-400">
+            {formatTime(region.startSec * 1000)} – {formatTime(region.endSec * 1000)}
+          </span>
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, durationSec - lengthSec)}
+          step={0.1}
+          value={region.startSec}
+          onChange={(e) => handleStartChange(Number(e.target.value))}
+          className="w-full cursor-pointer accent-amber-500"
+        />
+      </label>
+
+      <label className="mb-3 block text-[10px] text-stone-500 sm:text-xs">
+        <span className="mb-1 flex justify-between">
+          <span>Length</span>
+          <span className="tabular-nums text-stone-400">{lengthSec.toFixed(1)}s</span>
+        </span>
+        <input
+          type="range"
+          min={1}
+          max={Math.min(maxDurationSec, durationSec)}
+          step={0.5}
+          value={lengthSec}
+          onChange={(e) => handleLengthChange(Number(e.target.value))}
+          className="w-full cursor-pointer accent-amber-500"
+        />
+      </label>
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="cursor-pointer rounded-full bg-stone-800 px-3 py-1 text-[11px] text-stone-400 transition-colors hover:bg-stone-700 hover:text-stone-300 sm:text-xs"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onConfirm(region)}
+          className="cursor-pointer rounded-full bg-amber-600 px-3 py-1 text-[11px] font-medium text-white transition-colors hover:bg-amber-500 sm:text-xs"
+        >
+          Use region
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+import type { InputLevel } from '../../services/levelMeter'
+
+interface InputLevelMeterProps {
+  level: InputLevel | null
+}
+
+// Meter range in dBFS
+const METER_MIN_DB = -60
+
+const warningMessages = {
+  clipping: 'Input is clipping - turn the gain down or move away from the mic',
+  low: 'Input is very quiet - turn the gain up or play closer to the mic',
+}
+
+// Map a dBFS level to a 0-100% bar width
+function toPercent(db: number): number {
+  if (!Number.isFinite(db)) return 0
+  return Math.max(0, Math.min(100, ((db - METER_MIN_DB) / -METER_MIN_DB) * 100))
+}
+
+export function InputLevelMeter({ level }: InputLevelMeterProps) {
+  const rmsPercent = toPercent(level?.rmsLevelDb ?? -Infinity)
+  const peakPercent = toPercent(level?.peakLevelDb ?? -Infinity)
+  const warning = level?.warning ?? null
+  const rmsLabel =
+    level && Number.isFinite(level.rmsLevelDb) ? `${level.rmsLevelDb.toFixed(0)} dB` : '–'
+
+  return (
+    <div className="mx-auto mb-3 w-full max-w-xs sm:mb-4">
+      <div className="relative h-1.5 overflow-hidden rounded-full bg-stone-800">
+        {/* RMS bar */}
+        <div
+          className={`absolute inset-y-0 left-0 rounded-full transition-[width] duration-75 ${
+            warning === 'clipping' ? 'bg-red-500' : 'bg-emerald-500'
+          }`}
+          style={{ width: `${rmsPercent}%` }}
+        />
+        {/* Peak marker */}
+        <div
+          className="absolute inset-y-0 w-0.5 bg-stone-200/80"
+          style={{ left: `calc(${peakPercent}% - 1px)` }}
+        />
+      </div>
+
+      <div className="mt-1 flex justify-between text-[10px] tabular-nums text-stone-600">
+        <span>{rmsLabel}</span>
+        <span>0 dB</span>
+      </div>
+
+      {warning && (
+        <p
+          className={`mt-1 text-center text-[10px] sm:text-xs ${
+            warning === 'clipping' ? 'text-red-400' : 'text-amber-400'
+          }`}
+        >
+          {warningMessages[warning]}
+        </p>
+      )}
+    </div>
+  )
+}
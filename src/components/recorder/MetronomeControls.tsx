@@ -0,0 +1,76 @@
+import {
+  TIME_SIGNATURES,
+  MIN_BPM,
+  MAX_BPM,
+  clampBpm,
+  formatTimeSignature,
+  type MetronomeSettings,
+} from '../../services/metronome'
+
+interface MetronomeControlsProps {
+  settings: MetronomeSettings
+  onChange: (settings: MetronomeSettings) => void
+}
+
+export function MetronomeControls({ settings, onChange }: MetronomeControlsProps) {
+  const update = (changes: Partial<MetronomeSettings>) => onChange({ ...settings, ...changes })
+
+  const handleTimeSignatureChange = (value: string) => {
+    const timeSignature = TIME_SIGNATURES.find((ts) => formatTimeSignature(ts) === value)
+    if (timeSignature) update({ timeSignature })
+  }
+
+  return (
+    <div className="col-span-2 flex flex-wrap items-center justify-center gap-2 text-[10px] text-stone-500 sm:text-xs">
+      <button
+        onClick={() => update({ enabled: !settings.enabled })}
+        className={`cursor-pointer rounded-lg border px-2.5 py-1.5 transition-colors ${
+          settings.enabled
+            ? 'border-amber-700 bg-amber-950/40 text-amber-400'
+            : 'border-stone-700 bg-stone-800/50 text-stone-400 hover:text-stone-300'
+        }`}
+      >
+        🥁 Click {settings.enabled ? 'on' : 'off'}
+      </button>
+
+      {settings.enabled && (
+        <>
+          <label className="flex items-center gap-1">
+            <input
+              type="number"
+              min={MIN_BPM}
+              max={MAX_BPM}
+              value={settings.bpm}
+              onChange={(e) => update({ bpm: Number(e.target.value) })}
+              onBlur={() => update({ bpm: clampBpm(settings.bpm) })}
+              className="w-14 rounded-lg border border-stone-700 bg-stone-800/50 px-2 py-1.5 tabular-nums text-stone-300 outline-none focus:border-stone-500"
+            />
+            <span>BPM</span>
+          </label>
+
+          <select
+            value={formatTimeSignature(settings.timeSignature)}
+            onChange={(e) => handleTimeSignatureChange(e.target.value)}
+            className="cursor-pointer rounded-lg border border-stone-700 bg-stone-800/50 px-2 py-1.5 text-stone-300 outline-none focus:border-stone-500"
+          >
+            {TIME_SIGNATURES.map((ts) => (
+              <option key={formatTimeSignature(ts)} value={formatTimeSignature(ts)}>
+                {formatTimeSignature(ts)}
+              </option>
+            ))}
+          </select>
+
+          <label className="flex cursor-pointer items-center gap-1.5">
+            <input
+              type="checkbox"
+              checked={settings.countIn}
+              onChange={(e) => update({ countIn: e.target.checked })}
+              className="cursor-pointer accent-amber-500"
+            />
+            <span>1-bar count-in</span>
+          </label>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+import type { NoiseProfile } from '../../services/spectralProcessing'
+import { ROOM_TONE_CAPTURE_MS } from '../../services/noiseProfile'
+
+interface NoiseProfileControlsProps {
+  /** Saved profile of the selected input (null when none) */
+  profile: NoiseProfile | null
+  isCapturing: boolean
+  error: string | null
+  onCapture: () => void
+  onClear: () => void
+}
+
+export function NoiseProfileControls({
+  profile,
+  isCapturing,
+  error,
+  onCapture,
+  onClear,
+}: NoiseProfileControlsProps) {
+  return (
+    <div className="col-span-2 flex flex-wrap items-center justify-center gap-2 text-[10px] text-stone-500 sm:text-xs">
+      <button
+        onClick={onCapture}
+        disabled={isCapturing}
+        title={`Record ${ROOM_TONE_CAPTURE_MS / 1000}s of silence so background noise can be removed from this input's takes`}
+        className={`cursor-pointer rounded-lg border px-2.5 py-1.5 transition-colors disabled:cursor-wait ${
+          isCapturing
+            ? 'border-amber-700 bg-amber-950/40 text-amber-400'
+            : 'border-stone-700 bg-stone-800/50 text-stone-400 hover:text-stone-300'
+        }`}
+      >
+        🔇 {isCapturing ? 'Stay quiet...' : profile ? 'Recapture room tone' : 'Capture room tone'}
+      </button>
+
+      {profile && !isCapturing && (
+        <span className="flex items-center gap-1">
+          <span className="tabular-nums">
+            Noise profile saved ({Math.round(profile.noiseFloorDb)} dB)
+          </span>
+          <button
+            onClick={onClear}
+            aria-label="Forget noise profile"
+            className="cursor-pointer rounded-lg px-1.5 py-1 text-stone-500 transition-colors hover:text-red-400"
+          >
+            ✕
+          </button>
+        </span>
+      )}
+
+      {error && <span className="w-full text-center text-red-400">{error}</span>}
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+/** What to play while recording: nothing (a new take), the take, or a chord progression */
+export type OverdubSource = 'off' | 'take' | 'progression'
+
+interface OverdubControlsProps {
+  source: OverdubSource
+  onChange: (source: OverdubSource) => void
+  /** Chords of the progression that can be played as a backing (null when none) */
+  progressionChords: string[] | null
+}
+
+export function OverdubControls({ source, onChange, progressionChords }: OverdubControlsProps) {
+  const isOn = source !== 'off'
+
+  return (
+    <div className="col-span-2 flex flex-wrap items-center justify-center gap-2 text-[10px] text-stone-500 sm:text-xs">
+      <button
+        onClick={() => onChange(isOn ? 'off' : 'take')}
+        className={`cursor-pointer rounded-lg border px-2.5 py-1.5 transition-colors ${
+          isOn
+            ? 'border-amber-700 bg-amber-950/40 text-amber-400'
+            : 'border-stone-700 bg-stone-800/50 text-stone-400 hover:text-stone-300'
+        }`}
+      >
+        🎛️ Overdub {isOn ? 'on' : 'off'}
+      </button>
+
+      {isOn && (
+        <select
+          value={source}
+          onChange={(e) => onChange(e.target.value as OverdubSource)}
+          className="cursor-pointer rounded-lg border border-stone-700 bg-stone-800/50 px-2 py-1.5 text-stone-300 outline-none focus:border-stone-500"
+        >
+          <option value="take">Play this take</option>
+          <option value="progression" disabled={!progressionChords}>
+            {progressionChords
+              ? `Play ${progressionChords.join(' ')}`
+              : 'Play a progression (analyze first)'}
+          </option>
+        </select>
+      )}
+    </div>
+  )
+}
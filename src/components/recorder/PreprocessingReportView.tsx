@@ -0,0 +1,115 @@
+import { useState } from 'react'
+import { ChevronDownIcon } from '../icons'
+import type { AudioMetrics, PreprocessingReport } from '../../domain/types'
+
+interface PreprocessingReportViewProps {
+  report: PreprocessingReport
+}
+
+type LevelMetric = Extract<
+  keyof AudioMetrics,
+  'peakLevelDb' | 'rmsLevelDb' | 'noiseFloorDb' | 'dynamicRangeDb'
+>
+
+// Metrics compared before and after pre-processing
+const METRIC_ROWS: Array<{ key: LevelMetric; label: string }> = [
+  { key: 'peakLevelDb', label: 'Peak' },
+  { key: 'rmsLevelDb', label: 'RMS' },
+  { key: 'noiseFloorDb', label: 'Noise floor' },
+  { key: 'dynamicRangeDb', label: 'Dynamic range' },
+]
+
+function formatMetric(value: number | boolean): string {
+  if (typeof value === 'boolean') return value ? 'yes' : 'no'
+  return Number.isFinite(value) ? `${value.toFixed(1)} dB` : '-∞ dB'
+}
+
+function formatParams(params: PreprocessingReport['stages'][number]['params']): string {
+  return Object.entries(params)
+    .map(([key, value]) => `${key} ${value}`)
+    .join(', ')
+}
+
+export function PreprocessingReportView({ report }: PreprocessingReportViewProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  return (
+    <div className="mb-4 sm:mb-6">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="mx-auto flex cursor-pointer items-center gap-1.5 text-[10px] text-stone-500 transition-colors hover:text-stone-400 sm:text-xs"
+      >
+        <span>
+          Pre-processing: {report.stages.filter((stage) => stage.ran).length} of{' '}
+          {report.stages.length} stages ran
+        </span>
+        <ChevronDownIcon
+          className={`h-2.5 w-2.5 transition-transform sm:h-3 sm:w-3 ${isOpen ? 'rotate-180' : ''}`}
+        />
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 space-y-3 rounded-xl border border-stone-800 bg-stone-950/40 p-3 text-[10px] text-stone-500 sm:text-xs">
+          <ol className="space-y-1">
+            {report.stages.map((stage) => (
+              <li key={stage.id} className="flex flex-wrap items-baseline gap-x-2">
+                <span
+                  className={
+                    stage.ran
+                      ? 'text-emerald-400'
+                      : stage.enabled
+                        ? 'text-stone-400'
+                        : 'text-stone-600'
+                  }
+                >
+                  {stage.ran ? '✓' : stage.enabled ? '–' : '✕'} {stage.name}
+                </span>
+                {stage.note && <span className="text-stone-500">{stage.note}</span>}
+                {Object.keys(stage.params).length > 0 && (
+                  <span className="tabular-nums text-stone-600">{formatParams(stage.params)}</span>
+                )}
+              </li>
+            ))}
+          </ol>
+
+          <table className="w-full tabular-nums">
+            <thead>
+              <tr className="text-stone-600">
+                <th className="text-left font-normal" />
+                <th className="text-right font-normal">Before</th>
+                <th className="text-right font-normal">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {METRIC_ROWS.map(({ key, label }) => (
+                <tr key={key}>
+                  <td>{label}</td>
+                  <td className="text-right text-stone-400">{formatMetric(report.before[key])}</td>
+                  <td className="text-right text-stone-300">{formatMetric(report.after[key])}</td>
+                </tr>
+              ))}
+              <tr>
+                <td>Transients</td>
+                <td className="text-right text-stone-400">
+                  {formatMetric(report.before.hasTransients)}
+                </td>
+                <td className="text-right text-stone-300">
+                  {formatMetric(report.after.hasTransients)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+
+          <p className="tabular-nums">Clipped samples repaired: {report.repairedSamples}</p>
+
+          <p className="tabular-nums">
+            Mains hum:{' '}
+            {report.before.hum
+              ? `${report.before.hum.frequency}Hz (harmonics at ${report.before.hum.harmonics.join(', ')}Hz)`
+              : 'none found'}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
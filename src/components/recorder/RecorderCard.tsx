@@ -1,17 +1,66 @@
-import { useState, useCallback, useMemo } from 'react'
+import {
+  useState,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  type ChangeEvent,
+  type DragEvent,
+} from 'react'
 import { useAppState, useAppDispatch } from '../../domain/state'
-import { useAudioRecorder } from '../../services/audioRecorder'
+import { useAudioRecorder, MAX_RECORDING_MS } from '../../services/audioRecorder'
+import { useAudioInputDevices } from '../../services/audioDevices'
+import { DEFAULT_METRONOME_SETTINGS, type MetronomeSettings } from '../../services/metronome'
+import {
+  DEFAULT_VOICE_ACTIVATION_SETTINGS,
+  type VoiceActivationSettings,
+} from '../../services/voiceActivation'
+import { useWaveformPeaks, isFullSelection } from '../../services/waveform'
+import { useTuner, DEFAULT_TUNER_SETTINGS, type TunerSettings } from '../../services/tuner'
+import { useNoiseProfile, loadNoiseProfile } from '../../services/noiseProfile'
+import {
+  DEFAULT_PREPROCESSING_CONFIG,
+  type PreprocessingConfig,
+} from '../../services/preprocessingPipeline'
+import { measureRecordingQuality, assessRecordingQuality } from '../../services/recordingQuality'
+import {
+  ACCEPTED_AUDIO_FILES,
+  isSupportedAudioFile,
+  decodeAudioFile,
+  createImportedAsset,
+  type DecodedAudioFile,
+} from '../../services/audioImport'
 import {
   transcriptionService,
   TranscriptionCancelledError,
 } from '../../services/transcriptionService'
-import { extractFeatures } from '../../services/featureExtraction'
+import type { TranscriptionEngineChoice } from '../../services/transcriptionEngine'
+import { combineLayerFeatures } from '../../services/layerAnalysis'
+import { getBackingChordDurationMs, type OverdubBacking } from '../../services/overdub'
+import { trackBeatsAtTempo } from '../../services/beatTracking'
+import { analyzeRhythm } from '../../services/rhythmAnalysis'
+import { quantizeNotes } from '../../services/quantization'
+import { DEFAULT_ONSET_DETECTORS } from '../../services/onsetDetection'
 import { analyzeHarmony } from '../../services/harmonyAnalysis'
 import { generateChordSuggestions } from '../../services/chordSuggestion'
 import { generateProgressions } from '../../services/progressionService'
 import { midiPlayer } from '../../services/midiPlayer'
-import { NotesTimeline } from '../NotesTimeline'
-import type { RecordingStatus, TranscriptionPreset } from '../../domain/types'
+import { NotesTimeline, type NotesView } from '../NotesTimeline'
+import { AdvancedAudioPanel } from './AdvancedAudioPanel'
+import { PreprocessingReportView } from './PreprocessingReportView'
+import { RecordingQualityReport } from './RecordingQualityReport'
+import type {
+  AudioMetrics,
+  ChannelSelection,
+  OnsetDetector,
+  QuantizeGrid,
+  RecordingAsset,
+  RecordingStatus,
+  TakeLayer,
+  TimeRange,
+  TranscriptionPreset,
+  TranscriptionResult,
+} from '../../domain/types'
 
 // Sub-components
 import { RecorderHeader } from './RecorderHeader'
@@ -21,14 +70,32 @@ import { RecorderSettings } from './RecorderSettings'
 import { AudioPlayback } from './AudioPlayback'
 import { RecorderControls } from './RecorderControls'
 import { HelpSection } from './HelpSection'
+import { ImportRegionPicker } from './ImportRegionPicker'
+import { InputLevelMeter } from './InputLevelMeter'
+import { TakeLayers } from './TakeLayers'
+import { ChannelPicker } from './ChannelPicker'
+import { TunerView } from './TunerView'
+import type { OverdubSource } from './OverdubControls'
+
+/**
+ * Whether two regions are the same (null = the whole recording).
+ */
+function isSameRegion(a: TimeRange | null | undefined, b: TimeRange | null | undefined): boolean {
+  if (!a || !b) return !a && !b
+  return a.startSec === b.startSec && a.endSec === b.endSec
+}
 
 export function RecorderCard() {
   const {
     status,
+    recording: recordingAsset,
     error: appError,
     transcription,
     transcriptionProgress,
     transcriptionMessage,
+    progressions,
+    takes,
+    activeTakeId,
   } = useAppState()
   const dispatch = useAppDispatch()
 
@@ -38,25 +105,140 @@ export function RecorderCard() {
   // Transcription preset: 'lead' for single notes/riffs, 'chord' for strumming
   const [preset, setPreset] = useState<TranscriptionPreset>('lead')
 
+  // Input device ('' = system default)
+  const { devices, refresh: refreshDevices } = useAudioInputDevices()
+  const [deviceId, setDeviceId] = useState('')
+
+  // Room-tone noise profile of the selected input
+  const noiseProfile = useNoiseProfile(deviceId, musicMode)
+
+  // Pre-processing stages and their params (Advanced audio)
+  const [preprocessing, setPreprocessing] = useState<PreprocessingConfig>(
+    DEFAULT_PREPROCESSING_CONFIG
+  )
+
+  // Onset detection function for each preset (Advanced audio)
+  const [onsetDetectors, setOnsetDetectors] =
+    useState<Record<TranscriptionPreset, OnsetDetector>>(DEFAULT_ONSET_DETECTORS)
+
+  // Transcription engine for lead parts (Advanced audio)
+  const [leadEngine, setLeadEngine] = useState<TranscriptionEngineChoice>('auto')
+
+  // Click track and count-in
+  const [metronome, setMetronome] = useState<MetronomeSettings>(DEFAULT_METRONOME_SETTINGS)
+
+  // Armed mode: start when playing begins, stop after silence
+  const [voiceActivation, setVoiceActivation] = useState<VoiceActivationSettings>(
+    DEFAULT_VOICE_ACTIVATION_SETTINGS
+  )
+
+  // Tuner (listens only while shown and not recording)
+  const [showTuner, setShowTuner] = useState(false)
+  const [tunerSettings, setTunerSettings] = useState<TunerSettings>(DEFAULT_TUNER_SETTINGS)
+
+  // Live notes: transcribe while recording
+  const [liveNotes, setLiveNotes] = useState(false)
+
+  // Overdub: record a new layer over the active take
+  const activeTake = takes.find((take) => take.id === activeTakeId) ?? null
+  const layers = activeTake?.layers ?? []
+  const [overdubSource, setOverdubSource] = useState<OverdubSource>('off')
+  const progressionChords = progressions?.[0]?.chords ?? null
+  const overdub = useMemo<OverdubBacking | undefined>(() => {
+    if (!recordingAsset || overdubSource === 'off') return undefined
+    if (overdubSource === 'progression' && progressionChords) {
+      return {
+        kind: 'progression',
+        chords: progressionChords,
+        chordDurationMs: getBackingChordDurationMs(metronome),
+      }
+    }
+    return { kind: 'take', audioUrl: recordingAsset.audioUrl }
+  }, [recordingAsset, overdubSource, progressionChords, metronome])
+
+  // Whether the recording in progress is an overdub (decided when it starts)
+  const isOverdubRecordingRef = useRef(false)
+
+  // Each finished recording becomes a new take, or a layer of the active one when overdubbing.
+  // New layers default to the other preset (e.g., a lead over a chord part)
+  const handleRecordingComplete = useCallback(
+    (asset: RecordingAsset) => {
+      if (isOverdubRecordingRef.current) {
+        dispatch({
+          type: 'ADD_LAYER',
+          payload: { recording: asset, preset: preset === 'lead' ? 'chord' : 'lead' },
+        })
+      } else {
+        dispatch({ type: 'STOP_RECORDING', payload: asset })
+      }
+    },
+    [dispatch, preset]
+  )
+
   const {
     isRecording,
     elapsedMs,
-    recordingAsset,
     error: recordError,
     isHQCapture,
+    inputLevel,
+    countInBeat,
+    isArmed,
+    liveSource,
     startRecording,
     stopRecording,
     reset: resetRecorder,
-  } = useAudioRecorder({ musicMode })
+  } = useAudioRecorder({
+    musicMode,
+    deviceId: deviceId || undefined,
+    metronome,
+    overdub,
+    voiceActivation,
+    onRecordingComplete: handleRecordingComplete,
+  })
+
+  // Stream the recording through transcription and keep the notes and keys up to date
+  const isLiveTranscribing = !!liveSource && liveNotes
+  useEffect(() => {
+    if (!liveSource || !liveNotes) return
+
+    const abort = new AbortController()
+    transcriptionService
+      .transcribeLive(
+        liveSource,
+        preset,
+        (result) => {
+          const features = combineLayerFeatures([{ preset, notes: result.notes }])
+          dispatch({
+            type: 'LIVE_TRANSCRIPTION_UPDATE',
+            payload: { transcription: result, features, harmony: analyzeHarmony(features) },
+          })
+        },
+        abort.signal,
+        leadEngine
+      )
+      .catch((err) => console.warn('Live transcription stopped:', err))
+    return () => abort.abort()
+  }, [liveSource, liveNotes, preset, leadEngine, dispatch])
+
+  // Device labels are hidden until mic permission is granted - re-list once recording starts
+  useEffect(() => {
+    if (isRecording) refreshDevices()
+  }, [isRecording, refreshDevices])
+
+  // Fall back to the default input if the selected device is unplugged
+  useEffect(() => {
+    if (deviceId && devices.length > 0 && !devices.some((d) => d.deviceId === deviceId)) {
+      setDeviceId('')
+    }
+  }, [devices, deviceId])
 
   // Determine effective status for UI
+  // (status stays 'recording' if the recorder failed to start, e.g. permission denied)
   const effectiveStatus: RecordingStatus = isRecording
     ? 'recording'
-    : status === 'transcribing'
-      ? 'transcribing'
-      : recordingAsset && status !== 'analyzed'
-        ? 'recorded'
-        : status
+    : status === 'recording'
+      ? 'idle'
+      : status
 
   const isProcessing = ['decoding', 'transcribing'].includes(effectiveStatus)
   const isTranscribing = effectiveStatus === 'transcribing'
@@ -64,24 +246,65 @@ export function RecorderCard() {
   const hasAnalysis = status === 'analyzed' && !!transcription
   const currentError = recordError || appError
 
+  // Pre-flight quality check of a new take (measured once, suggestions follow the settings)
+  const [quality, setQuality] = useState<{
+    asset: RecordingAsset
+    metrics: AudioMetrics
+  } | null>(null)
+  const needsQualityCheck =
+    status === 'recorded' && !!recordingAsset && quality?.asset !== recordingAsset
+  useEffect(() => {
+    if (!needsQualityCheck || !recordingAsset) return
+
+    const abort = new AbortController()
+    measureRecordingQuality(recordingAsset, abort.signal)
+      .then((metrics) => setQuality({ asset: recordingAsset, metrics }))
+      .catch((err) => {
+        if (!abort.signal.aborted) console.warn('Quality check failed:', err)
+      })
+    return () => abort.abort()
+  }, [needsQualityCheck, recordingAsset])
+
+  const qualityReport = useMemo(
+    () =>
+      quality && quality.asset === recordingAsset
+        ? assessRecordingQuality(quality.metrics, {
+            musicMode,
+            hasNoiseProfile: !!noiseProfile.profile,
+            humNotch: preprocessing.filter.enabled && preprocessing.filter.params.humNotch,
+          })
+        : null,
+    [quality, recordingAsset, musicMode, noiseProfile.profile, preprocessing.filter]
+  )
+
+  const isTunerActive = showTuner && !isRecording && !isProcessing
+  const tuner = useTuner(isTunerActive, tunerSettings, deviceId || undefined)
+
   // Playback state
   const [isPlayingSequence, setIsPlayingSequence] = useState(false)
   const [playingNoteIndex, setPlayingNoteIndex] = useState<number | null>(null)
 
+  // Notes as played or snapped to the grid (timeline and playback)
+  const [notesView, setNotesView] = useState<NotesView>('played')
+  const shownNotes =
+    notesView === 'quantized' && transcription?.quantization
+      ? transcription.quantization.notes
+      : transcription?.notes
+
   // Play all notes in sequence
   const handlePlayAll = useCallback(() => {
-    if (!transcription?.notes.length) return
+    if (!shownNotes?.length) return
 
     setIsPlayingSequence(true)
     midiPlayer.playSequence(
-      transcription.notes,
+      shownNotes,
       (index) => setPlayingNoteIndex(index),
       () => {
         setIsPlayingSequence(false)
         setPlayingNoteIndex(null)
       }
     )
-  }, [transcription])
+  }, [shownNotes])
 
   // Stop playback
   const handleStopPlayback = useCallback(() => {
@@ -95,11 +318,170 @@ export function RecorderCard() {
     if (isRecording) {
       stopRecording()
     } else {
-      dispatch({ type: 'START_RECORDING' })
+      setPendingImport(null)
+      isOverdubRecordingRef.current = !!overdub
+      dispatch({ type: overdub ? 'START_OVERDUB' : 'START_RECORDING' })
       await startRecording()
     }
   }
 
+  // Waveform and region selection
+  // The selection belongs to the asset it was made on; analyzed takes show the region they used
+  const peaks = useWaveformPeaks(isRecording ? null : recordingAsset)
+  const durationSec = recordingAsset ? recordingAsset.durationMs / 1000 : 0
+  const [selection, setSelection] = useState<{ asset: RecordingAsset; range: TimeRange } | null>(
+    null
+  )
+  const selectedRange = hasAnalysis
+    ? (transcription?.region ?? null)
+    : selection && selection.asset === recordingAsset
+      ? selection.range
+      : null
+  const trimRange =
+    selectedRange && !isFullSelection(selectedRange, durationSec) ? selectedRange : null
+
+  const handleSelectionChange = useCallback(
+    (range: TimeRange) => {
+      if (recordingAsset) setSelection({ asset: recordingAsset, range })
+    },
+    [recordingAsset]
+  )
+
+  // Tempo picked from the alternatives or tapped in: re-align the beat grid and all that follows
+  const handleTempoChange = useCallback(
+    (bpm: number, tapped: boolean) => {
+      if (!transcription?.onsets) return
+      const { region } = transcription
+      const lengthSec = region ? region.endSec - region.startSec : durationSec
+      const tempo = trackBeatsAtTempo(transcription.onsets, lengthSec, bpm, tapped)
+      dispatch({
+        type: 'SET_TEMPO',
+        payload: analyzeRhythm(tempo, transcription, transcription.quantization?.grid),
+      })
+    },
+    [transcription, durationSec, dispatch]
+  )
+
+  // Another quantize grid picked in the notes timeline
+  const handleGridChange = useCallback(
+    (grid: QuantizeGrid) => {
+      if (!transcription?.tempo || !transcription.meter) return
+      dispatch({
+        type: 'SET_QUANTIZATION',
+        payload: quantizeNotes(transcription.notes, transcription.tempo, transcription.meter, grid),
+      })
+    },
+    [transcription, dispatch]
+  )
+
+  // Channel choice for multichannel recordings (also tied to its asset)
+  const channelCount = peaks?.length ?? 1
+  const [channelChoice, setChannelChoice] = useState<{
+    asset: RecordingAsset
+    channel: ChannelSelection
+  } | null>(null)
+  const selectedChannel: ChannelSelection = hasAnalysis
+    ? (transcription?.channel ?? 'mix')
+    : channelChoice && channelChoice.asset === recordingAsset
+      ? channelChoice.channel
+      : 'mix'
+  const transcribeChannel = channelCount > 1 ? selectedChannel : undefined
+
+  const handleChannelChange = useCallback(
+    (channel: ChannelSelection) => {
+      if (recordingAsset) setChannelChoice({ asset: recordingAsset, channel })
+    },
+    [recordingAsset]
+  )
+
+  // File import state
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [pendingImport, setPendingImport] = useState<DecodedAudioFile | null>(null)
+  const [isDraggingFile, setIsDraggingFile] = useState(false)
+  const canImport = !isRecording && !isProcessing
+
+  // Add an imported asset as a new take
+  const loadImportedAsset = (asset: RecordingAsset) => {
+    dispatch({ type: 'IMPORT_RECORDING', payload: asset })
+  }
+
+  // Handle an audio file from the file picker or a drop
+  const handleImportFile = async (file: File) => {
+    if (!isSupportedAudioFile(file)) {
+      dispatch({
+        type: 'SET_ERROR',
+        payload: {
+          stage: 'decode',
+          message: `"${file.name}" is not a supported audio file. Try WAV, MP3, OGG or FLAC.`,
+        },
+      })
+      return
+    }
+
+    transcriptionService.cancel()
+    resetRecorder()
+    setPendingImport(null)
+    dispatch({ type: 'RESET' })
+    dispatch({ type: 'START_DECODE' })
+
+    try {
+      const decoded = await decodeAudioFile(file)
+
+      if (decoded.durationMs > MAX_RECORDING_MS) {
+        // Too long to analyze in one go - ask the user for a region
+        dispatch({ type: 'RESET' })
+        setPendingImport(decoded)
+        return
+      }
+
+      loadImportedAsset(createImportedAsset(decoded))
+    } catch (err) {
+      console.error('Audio import error:', err)
+      dispatch({
+        type: 'SET_ERROR',
+        payload: {
+          stage: 'decode',
+          message: `Could not decode "${file.name}". The file may be damaged or in an unsupported format.`,
+        },
+      })
+    }
+  }
+
+  // Handle region confirmation for long files
+  const handleImportRegionConfirm = (region: TimeRange) => {
+    if (!pendingImport) return
+    loadImportedAsset(createImportedAsset(pendingImport, region))
+    setPendingImport(null)
+  }
+
+  // Handle file picker selection
+  const handleFileInputChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Clear the input so picking the same file again still triggers a change
+    event.target.value = ''
+    if (file) handleImportFile(file)
+  }
+
+  // Drag-and-drop handlers
+  const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
+    if (!canImport || !event.dataTransfer.types.includes('Files')) return
+    event.preventDefault()
+    setIsDraggingFile(true)
+  }
+
+  const handleDragLeave = (event: DragEvent<HTMLDivElement>) => {
+    // Ignore leave events fired when moving between child elements
+    if (event.currentTarget.contains(event.relatedTarget as Node | null)) return
+    setIsDraggingFile(false)
+  }
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setIsDraggingFile(false)
+    const file = event.dataTransfer.files[0]
+    if (file && canImport) handleImportFile(file)
+  }
+
   // Handle transcribe button click
   const handleTranscribe = async () => {
     if (!recordingAsset?.blob) return
@@ -108,23 +490,91 @@ export function RecorderCard() {
 
     try {
       // Step 1: Transcribe audio to notes
-      const transcriptionResult = await transcriptionService.transcribe(
-        recordingAsset,
-        preset,
-        (percent, message) => {
-          dispatch({
-            type: 'SET_TRANSCRIPTION_PROGRESS',
-            payload: { percent: percent * 0.8, message },
-          })
-        }
-      )
+      // With overdubs, parts already transcribed with the same settings are reused
+      const isCurrent = (
+        result: TranscriptionResult | null,
+        partPreset: TranscriptionPreset,
+        channel?: ChannelSelection
+      ) =>
+        !!result &&
+        result.preset === partPreset &&
+        result.channel === channel &&
+        isSameRegion(result.region, trimRange)
+      const reuseBase = layers.length > 0 && isCurrent(transcription, preset, transcribeChannel)
+      const pendingLayers = layers.filter((layer) => !isCurrent(layer.transcription, layer.preset))
+      const partCount = (reuseBase ? 0 : 1) + pendingLayers.length
+      let partIndex = 0
+
+      const transcribePart = async (
+        asset: RecordingAsset,
+        partPreset: TranscriptionPreset,
+        label?: string,
+        channel?: ChannelSelection
+      ) => {
+        const offset = (partIndex * 80) / partCount
+        const result = await transcriptionService.transcribe(
+          asset,
+          partPreset,
+          (percent, message) => {
+            dispatch({
+              type: 'SET_TRANSCRIPTION_PROGRESS',
+              payload: {
+                percent: offset + (percent * 0.8) / partCount,
+                message: label && message ? `${label}: ${message}` : message,
+              },
+            })
+          },
+          {
+            range: trimRange ?? undefined,
+            channel,
+            // Recordings use the room tone of the input they were made with
+            noiseProfile:
+              asset.inputDeviceId !== undefined
+                ? (loadNoiseProfile(asset.inputDeviceId) ?? undefined)
+                : undefined,
+            preprocessing,
+            onsetDetector: onsetDetectors[partPreset],
+            engine: leadEngine,
+          }
+        )
+        partIndex++
+        return result
+      }
+
+      const transcriptionResult =
+        reuseBase && transcription
+          ? transcription
+          : await transcribePart(
+              recordingAsset,
+              preset,
+              layers.length > 0 ? 'Take' : undefined,
+              transcribeChannel
+            )
+
+      const analyzedLayers: TakeLayer[] = []
+      for (const layer of layers) {
+        analyzedLayers.push(
+          pendingLayers.includes(layer)
+            ? {
+                ...layer,
+                transcription: await transcribePart(layer.recording, layer.preset, layer.name),
+              }
+            : layer
+        )
+      }
 
-      // Step 2: Extract pitch class features
+      // Step 2: Extract pitch class features (key from every layer, chords from the rhythm part)
       dispatch({
         type: 'SET_TRANSCRIPTION_PROGRESS',
         payload: { percent: 85, message: 'Analyzing pitch classes...' },
       })
-      const features = extractFeatures(transcriptionResult.notes)
+      const features = combineLayerFeatures([
+        { preset, notes: transcriptionResult.notes },
+        ...analyzedLayers.map((layer) => ({
+          preset: layer.preset,
+          notes: layer.transcription?.notes ?? [],
+        })),
+      ])
 
       // Step 3: Analyze harmony (rank keys/modes)
       dispatch({
@@ -160,12 +610,13 @@ export function RecorderCard() {
           harmony,
           chords,
           progressions,
+          ...(layers.length > 0 ? { layers: analyzedLayers } : {}),
         },
       })
     } catch (err) {
       // Handle cancellation gracefully - just reset to recorded state
       if (err instanceof TranscriptionCancelledError) {
-        dispatch({ type: 'STOP_RECORDING', payload: recordingAsset })
+        dispatch({ type: 'CANCEL_TRANSCRIPTION' })
         return
       }
 
@@ -182,6 +633,17 @@ export function RecorderCard() {
     }
   }
 
+  // Overdub layer editing
+  const handleLayerPresetChange = (layerId: string, layerPreset: TranscriptionPreset) => {
+    dispatch({ type: 'SET_LAYER_PRESET', payload: { layerId, preset: layerPreset } })
+  }
+
+  const handleDeleteLayer = (layer: TakeLayer) => {
+    // The take owns its layers' object URLs
+    URL.revokeObjectURL(layer.recording.audioUrl)
+    dispatch({ type: 'DELETE_LAYER', payload: { layerId: layer.id } })
+  }
+
   // Handle cancel transcription
   const handleCancelTranscription = () => {
     transcriptionService.cancel()
@@ -191,6 +653,7 @@ export function RecorderCard() {
   const handleReset = () => {
     transcriptionService.cancel()
     resetRecorder()
+    setPendingImport(null)
     dispatch({ type: 'RESET' })
   }
 
@@ -200,16 +663,39 @@ export function RecorderCard() {
       return `${transcription.noteCount} notes • MIDI ${transcription.range.minMidi}-${transcription.range.maxMidi}`
     }
     if (hasRecording && !isTranscribing) {
-      return 'Click Analyze to detect notes'
+      return layers.length > 0
+        ? 'Click Analyze to detect notes in every layer'
+        : 'Click Analyze to detect notes'
     }
     if (isTranscribing) {
       return 'Analyzing audio...'
     }
-    return 'Click to record a short guitar riff (max 20 seconds)'
-  }, [hasAnalysis, transcription, hasRecording, isTranscribing])
+    return 'Click to record a short guitar riff (max 20 seconds) or drop an audio file'
+  }, [hasAnalysis, transcription, hasRecording, isTranscribing, layers.length])
 
   return (
-    <div className="rounded-2xl border border-stone-800 bg-gradient-to-b from-stone-900 to-stone-900/50 p-4 shadow-xl shadow-black/20 sm:p-6">
+    <div
+      className="relative rounded-2xl border border-stone-800 bg-gradient-to-b from-stone-900 to-stone-900/50 p-4 shadow-xl shadow-black/20 sm:p-6"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {/* Drop overlay */}
+      {isDraggingFile && (
+        <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center rounded-2xl border-2 border-dashed border-amber-500/70 bg-stone-950/80">
+          <span className="text-sm text-amber-400">Drop an audio file to analyze it</span>
+        </div>
+      )}
+
+      {/* Hidden file picker */}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={ACCEPTED_AUDIO_FILES}
+        className="hidden"
+        onChange={handleFileInputChange}
+      />
+
       <RecorderHeader
         isRecording={isRecording}
         isProcessing={isProcessing}
@@ -218,6 +704,7 @@ export function RecorderCard() {
         transcription={transcription}
         recordingAsset={recordingAsset}
         isTranscribing={isTranscribing}
+        onTempoChange={transcription?.onsets ? handleTempoChange : undefined}
       />
 
       <WaveformDisplay
@@ -227,16 +714,47 @@ export function RecorderCard() {
         transcription={transcription}
         transcriptionProgress={transcriptionProgress}
         transcriptionMessage={transcriptionMessage}
+        peaks={peaks}
+        channel={selectedChannel}
+        durationSec={durationSec}
+        selection={selectedRange}
+        onSelectionChange={hasRecording && !hasAnalysis ? handleSelectionChange : undefined}
       />
 
+      {/* Channel choice for multi-input recordings */}
+      {channelCount > 1 && !isRecording && !isTranscribing && (
+        <ChannelPicker
+          channelCount={channelCount}
+          channel={selectedChannel}
+          onChannelChange={hasAnalysis ? undefined : handleChannelChange}
+        />
+      )}
+
       <RecorderTimer
         isRecording={isRecording}
         elapsedMs={elapsedMs}
         isHQCapture={isHQCapture}
         error={currentError}
         effectiveStatus={effectiveStatus}
+        countInBeat={countInBeat}
+        beatsPerBar={metronome.timeSignature.beatsPerBar}
+        isArmed={isArmed}
       />
 
+      {/* Live input level while recording */}
+      {isRecording && <InputLevelMeter level={inputLevel} />}
+
+      {/* Region picker for imported files longer than the maximum */}
+      {pendingImport && (
+        <ImportRegionPicker
+          fileName={pendingImport.file.name}
+          durationMs={pendingImport.durationMs}
+          maxDurationMs={MAX_RECORDING_MS}
+          onConfirm={handleImportRegionConfirm}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
       {/* Settings Toggles - only show when not recording/transcribing */}
       {!isRecording && !isTranscribing && (
         <RecorderSettings
@@ -244,18 +762,79 @@ export function RecorderCard() {
           onMusicModeChange={() => setMusicMode(!musicMode)}
           preset={preset}
           onPresetChange={() => setPreset((p) => (p === 'lead' ? 'chord' : 'lead'))}
+          devices={devices}
+          deviceId={deviceId}
+          onDeviceChange={setDeviceId}
+          noiseProfile={noiseProfile}
+          metronome={metronome}
+          onMetronomeChange={setMetronome}
+          voiceActivation={voiceActivation}
+          onVoiceActivationChange={setVoiceActivation}
+          liveNotes={liveNotes}
+          onLiveNotesChange={() => setLiveNotes(!liveNotes)}
+          showTuner={showTuner}
+          onTunerToggle={() => setShowTuner(!showTuner)}
+          canOverdub={hasRecording}
+          overdubSource={overdubSource}
+          onOverdubSourceChange={setOverdubSource}
+          progressionChords={progressionChords}
+        />
+      )}
+
+      {!isRecording && !isTranscribing && (
+        <AdvancedAudioPanel
+          config={preprocessing}
+          onChange={setPreprocessing}
+          onsetDetectors={onsetDetectors}
+          onOnsetDetectorsChange={setOnsetDetectors}
+          leadEngine={leadEngine}
+          onLeadEngineChange={setLeadEngine}
+        />
+      )}
+
+      {/* Tuner */}
+      {isTunerActive && (
+        <TunerView
+          reading={tuner.reading}
+          error={tuner.error}
+          settings={tunerSettings}
+          onSettingsChange={setTunerSettings}
+        />
+      )}
+
+      {/* Overdub layers of the active take */}
+      {layers.length > 0 && !isRecording && (
+        <TakeLayers
+          layers={layers}
+          basePreset={preset}
+          disabled={isTranscribing}
+          onPresetChange={handleLayerPresetChange}
+          onDelete={handleDeleteLayer}
         />
       )}
 
       {/* Audio Playback */}
       {hasRecording && !isRecording && !isTranscribing && recordingAsset && (
-        <AudioPlayback recordingAsset={recordingAsset} />
+        <AudioPlayback recordingAsset={recordingAsset} region={trimRange} />
+      )}
+
+      {/* Pre-flight check of the take, until it is transcribed */}
+      {status === 'recorded' && qualityReport && <RecordingQualityReport report={qualityReport} />}
+
+      {/* Notes found so far while recording */}
+      {isRecording && isLiveTranscribing && transcription && transcription.notes.length > 0 && (
+        <NotesTimeline notes={transcription.notes} />
       )}
 
       {/* Notes Timeline (after transcription) */}
       {hasAnalysis && transcription && transcription.notes.length > 0 && (
         <NotesTimeline
           notes={transcription.notes}
+          bars={transcription.bars}
+          quantization={transcription.quantization}
+          view={notesView}
+          onViewChange={setNotesView}
+          onGridChange={handleGridChange}
           isPlaying={isPlayingSequence}
           currentNoteIndex={playingNoteIndex ?? -1}
           onPlayAll={handlePlayAll}
@@ -263,6 +842,11 @@ export function RecorderCard() {
         />
       )}
 
+      {/* What pre-processing did to the audio */}
+      {hasAnalysis && transcription?.preprocessing && (
+        <PreprocessingReportView report={transcription.preprocessing} />
+      )}
+
       <RecorderControls
         isRecording={isRecording}
         isProcessing={isProcessing}
@@ -271,6 +855,7 @@ export function RecorderCard() {
         hasAnalysis={hasAnalysis}
         hasError={!!currentError}
         onRecordClick={handleRecordClick}
+        onImportClick={() => fileInputRef.current?.click()}
         onTranscribe={handleTranscribe}
         onCancelTranscription={handleCancelTranscription}
         onReset={handleReset}
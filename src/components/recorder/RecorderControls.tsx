@@ -1,4 +1,4 @@
-import { MusicNoteIcon, CancelIcon, ResetIcon } from '../icons'
+import { MusicNoteIcon, CancelIcon, ResetIcon, UploadIcon } from '../icons'
 
 interface RecorderControlsProps {
   isRecording: boolean
@@ -8,6 +8,7 @@ interface RecorderControlsProps {
   hasAnalysis: boolean
   hasError: boolean
   onRecordClick: () => void
+  onImportClick: () => void
   onTranscribe: () => void
   onCancelTranscription: () => void
   onReset: () => void
@@ -21,6 +22,7 @@ export function RecorderControls({
   hasAnalysis,
   hasError,
   onRecordClick,
+  onImportClick,
   onTranscribe,
   onCancelTranscription,
   onReset,
@@ -47,6 +49,20 @@ export function RecorderControls({
         </span>
       </button>
 
+      {/* Import Button - pick an existing audio file instead of recording */}
+      {!isRecording && !isTranscribing && (
+        <button
+          onClick={onImportClick}
+          disabled={isProcessing}
+          className="group relative flex h-14 w-14 cursor-pointer items-center justify-center rounded-full bg-gradient-to-b from-stone-700 to-stone-800 shadow-lg ring-4 ring-stone-800 transition-all hover:ring-stone-700 disabled:cursor-not-allowed disabled:opacity-50 sm:h-16 sm:w-16"
+        >
+          <UploadIcon className="h-5 w-5 text-stone-400 sm:h-6 sm:w-6" />
+          <span className="absolute -bottom-6 text-[10px] text-stone-500 sm:-bottom-8 sm:text-xs">
+            Import
+          </span>
+        </button>
+      )}
+
       {/* Transcribe Button - shown when we have a recording but not analyzing */}
       {hasRecording && !hasAnalysis && !isRecording && !isTranscribing && (
         <button
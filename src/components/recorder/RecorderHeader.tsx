@@ -1,5 +1,6 @@
 import type { TranscriptionResult, RecordingAsset } from '../../domain/types'
 import { formatTime } from '../../services/audioRecorder'
+import { TempoDisplay } from './TempoDisplay'
 
 interface RecorderHeaderProps {
   isRecording: boolean
@@ -9,6 +10,7 @@ interface RecorderHeaderProps {
   transcription: TranscriptionResult | null
   recordingAsset: RecordingAsset | null
   isTranscribing: boolean
+  onTempoChange?: (bpm: number, tapped: boolean) => void
 }
 
 export function RecorderHeader({
@@ -19,6 +21,7 @@ export function RecorderHeader({
   transcription,
   recordingAsset,
   isTranscribing,
+  onTempoChange,
 }: RecorderHeaderProps) {
   return (
     <div className="mb-3 flex items-center gap-2 sm:mb-4">
@@ -37,13 +40,39 @@ export function RecorderHeader({
       />
       <h2 className="text-sm font-semibold uppercase tracking-wider text-stone-400">Recorder</h2>
       {hasAnalysis && transcription && (
-        <span className="ml-auto text-xs text-stone-500 tabular-nums">
-          {transcription.noteCount} notes detected
+        <span className="ml-auto flex items-center gap-3 text-xs text-stone-500 tabular-nums">
+          {transcription.tempo && (
+            <TempoDisplay
+              tempo={transcription.tempo}
+              meter={transcription.meter}
+              onTempoChange={onTempoChange}
+            />
+          )}
+          {transcription.strumPattern && (
+            <span
+              className="font-mono tracking-wider text-stone-400"
+              title="Strumming pattern, one bar in eighth notes (D down, U up, - no strum)"
+            >
+              {transcription.strumPattern.pattern}
+            </span>
+          )}
+          <span
+            title={
+              transcription.engine === 'monophonic'
+                ? 'Transcribed one note at a time by pitch tracking'
+                : undefined
+            }
+          >
+            {transcription.noteCount} notes detected
+            {transcription.engine === 'monophonic' && ' (pitch tracking)'}
+          </span>
         </span>
       )}
       {hasRecording && !hasAnalysis && !isTranscribing && recordingAsset && (
         <span className="ml-auto text-xs text-stone-500 tabular-nums">
-          {formatTime(recordingAsset.durationMs)} recorded
+          {formatTime(recordingAsset.durationMs)}{' '}
+          {recordingAsset.sourceName ? 'imported' : 'recorded'}
+          {recordingAsset.tempo && ` at ${recordingAsset.tempo.bpm} BPM`}
         </span>
       )}
     </div>
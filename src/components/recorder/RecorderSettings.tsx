@@ -1,11 +1,39 @@
 import { Toggle } from '../ui/Toggle'
 import type { TranscriptionPreset } from '../../domain/types'
+import type { AudioInputDevice } from '../../services/audioDevices'
+import type { MetronomeSettings } from '../../services/metronome'
+import type { VoiceActivationSettings } from '../../services/voiceActivation'
+import type { UseNoiseProfileReturn } from '../../services/noiseProfile'
+import { MetronomeControls } from './MetronomeControls'
+import { OverdubControls, type OverdubSource } from './OverdubControls'
+import { VoiceActivationControls } from './VoiceActivationControls'
+import { NoiseProfileControls } from './NoiseProfileControls'
 
 interface RecorderSettingsProps {
   musicMode: boolean
   onMusicModeChange: () => void
   preset: TranscriptionPreset
   onPresetChange: () => void
+  devices: AudioInputDevice[]
+  /** Selected input device ('' = system default) */
+  deviceId: string
+  onDeviceChange: (deviceId: string) => void
+  /** Room-tone noise profile of the selected input */
+  noiseProfile: UseNoiseProfileReturn
+  metronome: MetronomeSettings
+  onMetronomeChange: (settings: MetronomeSettings) => void
+  voiceActivation: VoiceActivationSettings
+  onVoiceActivationChange: (settings: VoiceActivationSettings) => void
+  /** Transcribe while recording */
+  liveNotes: boolean
+  onLiveNotesChange: () => void
+  showTuner: boolean
+  onTunerToggle: () => void
+  /** Whether there's a take to record an overdub on */
+  canOverdub: boolean
+  overdubSource: OverdubSource
+  onOverdubSourceChange: (source: OverdubSource) => void
+  progressionChords: string[] | null
 }
 
 export function RecorderSettings({
@@ -13,6 +41,22 @@ export function RecorderSettings({
   onMusicModeChange,
   preset,
   onPresetChange,
+  devices,
+  deviceId,
+  onDeviceChange,
+  noiseProfile,
+  metronome,
+  onMetronomeChange,
+  voiceActivation,
+  onVoiceActivationChange,
+  liveNotes,
+  onLiveNotesChange,
+  showTuner,
+  onTunerToggle,
+  canOverdub,
+  overdubSource,
+  onOverdubSourceChange,
+  progressionChords,
 }: RecorderSettingsProps) {
   return (
     <div className="mb-4 grid grid-cols-2 gap-2 sm:mb-6 sm:flex sm:flex-wrap sm:items-center sm:justify-center sm:gap-4">
@@ -41,6 +85,75 @@ export function RecorderSettings({
         offColor="teal"
         hint={preset === 'lead' ? 'Single notes & riffs' : 'Strumming & chords'}
       />
+
+      {/* Click Track */}
+      <MetronomeControls settings={metronome} onChange={onMetronomeChange} />
+
+      {/* Armed recording */}
+      <VoiceActivationControls settings={voiceActivation} onChange={onVoiceActivationChange} />
+
+      {/* Live transcription and tuner */}
+      <div className="col-span-2 flex justify-center gap-2 text-[10px] text-stone-500 sm:text-xs">
+        <button
+          onClick={onLiveNotesChange}
+          title="Show notes and keys while you play (needs HQ capture)"
+          className={`cursor-pointer rounded-lg border px-2.5 py-1.5 transition-colors ${
+            liveNotes
+              ? 'border-amber-700 bg-amber-950/40 text-amber-400'
+              : 'border-stone-700 bg-stone-800/50 text-stone-400 hover:text-stone-300'
+          }`}
+        >
+          ⚡ Live notes {liveNotes ? 'on' : 'off'}
+        </button>
+        <button
+          onClick={onTunerToggle}
+          title="Tune up before recording - out-of-tune strings transcribe as the wrong notes"
+          className={`cursor-pointer rounded-lg border px-2.5 py-1.5 transition-colors ${
+            showTuner
+              ? 'border-amber-700 bg-amber-950/40 text-amber-400'
+              : 'border-stone-700 bg-stone-800/50 text-stone-400 hover:text-stone-300'
+          }`}
+        >
+          🎛️ Tuner
+        </button>
+      </div>
+
+      {/* Overdub */}
+      {canOverdub && (
+        <OverdubControls
+          source={overdubSource}
+          onChange={onOverdubSourceChange}
+          progressionChords={progressionChords}
+        />
+      )}
+
+      {/* Input Device */}
+      {devices.length > 0 && (
+        <label className="col-span-2 flex items-center gap-2 text-[10px] text-stone-500 sm:text-xs">
+          <span className="shrink-0">🎚️ Input</span>
+          <select
+            value={deviceId}
+            onChange={(e) => onDeviceChange(e.target.value)}
+            className="min-w-0 flex-1 cursor-pointer truncate rounded-lg border border-stone-700 bg-stone-800/50 px-2 py-1.5 text-stone-300 outline-none focus:border-stone-500 sm:max-w-[14rem]"
+          >
+            <option value="">System default</option>
+            {devices.map((device) => (
+              <option key={device.deviceId} value={device.deviceId}>
+                {device.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {/* Room tone for noise reduction */}
+      <NoiseProfileControls
+        profile={noiseProfile.profile}
+        isCapturing={noiseProfile.isCapturing}
+        error={noiseProfile.error}
+        onCapture={noiseProfile.capture}
+        onClear={noiseProfile.clear}
+      />
     </div>
   )
 }
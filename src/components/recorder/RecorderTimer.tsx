@@ -7,6 +7,11 @@ interface RecorderTimerProps {
   isHQCapture: boolean
   error: { message: string } | null
   effectiveStatus: RecordingStatus
+  /** Current count-in beat (1-based), null once capture has started */
+  countInBeat: number | null
+  beatsPerBar: number
+  /** Armed recording waiting for playing to start */
+  isArmed: boolean
 }
 
 const statusMessages: Record<RecordingStatus, string> = {
@@ -25,10 +30,27 @@ export function RecorderTimer({
   isHQCapture,
   error,
   effectiveStatus,
+  countInBeat,
+  beatsPerBar,
+  isArmed,
 }: RecorderTimerProps) {
   return (
     <div className="mb-3 text-center sm:mb-4">
-      {isRecording ? (
+      {isRecording && countInBeat !== null ? (
+        <div className="flex flex-col items-center gap-0.5 sm:gap-1">
+          <span className="font-mono text-xl font-bold tabular-nums text-amber-400 sm:text-2xl">
+            {countInBeat} / {beatsPerBar}
+          </span>
+          <span className="text-[10px] text-stone-500 sm:text-xs">Count-in</span>
+        </div>
+      ) : isRecording && isArmed ? (
+        <div className="flex flex-col items-center gap-0.5 sm:gap-1">
+          <span className="text-sm font-semibold text-amber-400 sm:text-base">Armed</span>
+          <span className="text-[10px] text-stone-500 sm:text-xs">
+            Recording starts when you play
+          </span>
+        </div>
+      ) : isRecording ? (
         <div className="flex flex-col items-center gap-0.5 sm:gap-1">
           <span className="font-mono text-xl font-bold tabular-nums text-red-400 sm:text-2xl">
             {formatTime(elapsedMs)}
@@ -0,0 +1,46 @@
+import type { QualityReport, TranscriptionOutlook } from '../../services/recordingQuality'
+
+interface RecordingQualityReportProps {
+  report: QualityReport
+}
+
+const OUTLOOK_LABELS: Record<TranscriptionOutlook, { text: string; className: string }> = {
+  likely: { text: 'Good take - transcription should work well', className: 'text-emerald-400' },
+  uncertain: { text: 'Transcription may miss or invent notes', className: 'text-amber-400' },
+  unlikely: { text: 'Transcription is unlikely to work well', className: 'text-red-400' },
+}
+
+function formatDb(db: number): string {
+  return Number.isFinite(db) ? `${Math.round(db)} dB` : '-∞ dB'
+}
+
+export function RecordingQualityReport({ report }: RecordingQualityReportProps) {
+  const { metrics, issues, outlook } = report
+  const { hum } = metrics
+  const label = OUTLOOK_LABELS[outlook]
+
+  return (
+    <div className="mb-4 rounded-xl border border-stone-800 bg-stone-950/40 p-3 text-[10px] text-stone-500 sm:mb-6 sm:text-xs">
+      <p className={`text-center font-medium ${label.className}`}>{label.text}</p>
+
+      {issues.length > 0 && (
+        <ul className="mt-2 space-y-1.5">
+          {issues.map((issue) => (
+            <li key={issue.id}>
+              <span className={issue.severity === 'problem' ? 'text-red-400' : 'text-amber-400'}>
+                {issue.severity === 'problem' ? '✕' : '!'} {issue.message}
+              </span>
+              <span className="block pl-3 text-stone-500">{issue.suggestion}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="mt-2 text-center tabular-nums text-stone-600">
+        Peak {formatDb(metrics.peakLevelDb)} • RMS {formatDb(metrics.rmsLevelDb)} • Noise{' '}
+        {formatDb(metrics.noiseFloorDb)}
+        {hum && ` • ${hum.frequency}Hz hum ${formatDb(hum.levelDb)}`}
+      </p>
+    </div>
+  )
+}
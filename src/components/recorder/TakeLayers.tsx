@@ -0,0 +1,59 @@
+import type { TakeLayer, TranscriptionPreset } from '../../domain/types'
+import { formatTime } from '../../services/audioRecorder'
+
+interface TakeLayersProps {
+  layers: TakeLayer[]
+  /** Preset used for the take's own recording */
+  basePreset: TranscriptionPreset
+  disabled: boolean
+  onPresetChange: (layerId: string, preset: TranscriptionPreset) => void
+  onDelete: (layer: TakeLayer) => void
+}
+
+export function TakeLayers({
+  layers,
+  basePreset,
+  disabled,
+  onPresetChange,
+  onDelete,
+}: TakeLayersProps) {
+  return (
+    <div className="mb-4 rounded-xl border border-stone-800 bg-stone-950/40 p-3 text-[10px] sm:mb-6 sm:text-xs">
+      <div className="mb-2 text-stone-500 uppercase tracking-wider">Layers</div>
+      <ul className="space-y-1.5">
+        <li className="flex items-center gap-2 text-stone-400">
+          <span className="flex-1 truncate">Take</span>
+          <span className="text-stone-500">{basePreset === 'lead' ? 'Lead' : 'Chord'}</span>
+        </li>
+        {layers.map((layer) => (
+          <li key={layer.id} className="flex items-center gap-2 text-stone-300">
+            <span className="flex-1 truncate">
+              {layer.name}
+              <span className="ml-2 tabular-nums text-stone-600">
+                {formatTime(layer.recording.durationMs)}
+                {layer.transcription && ` • ${layer.transcription.noteCount} notes`}
+              </span>
+            </span>
+            <select
+              value={layer.preset}
+              disabled={disabled}
+              onChange={(e) => onPresetChange(layer.id, e.target.value as TranscriptionPreset)}
+              className="cursor-pointer rounded-lg border border-stone-700 bg-stone-800/50 px-2 py-1 text-stone-300 outline-none focus:border-stone-500 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <option value="lead">Lead</option>
+              <option value="chord">Chord</option>
+            </select>
+            <button
+              onClick={() => onDelete(layer)}
+              disabled={disabled}
+              aria-label={`Delete ${layer.name}`}
+              className="cursor-pointer rounded-lg px-1.5 py-1 text-stone-500 transition-colors hover:text-red-400 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
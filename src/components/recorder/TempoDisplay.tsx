@@ -0,0 +1,61 @@
+import { useState } from 'react'
+import type { TempoEstimate, MeterEstimate } from '../../domain/types'
+import { addTap, getTapTempo } from '../../services/beatTracking'
+import { formatTimeSignature } from '../../services/metronome'
+
+interface TempoDisplayProps {
+  tempo: TempoEstimate
+  meter?: MeterEstimate
+  /** Re-align the beat grid at another tempo (omit to make it read-only) */
+  onTempoChange?: (bpm: number, tapped: boolean) => void
+}
+
+export function TempoDisplay({ tempo, meter, onTempoChange }: TempoDisplayProps) {
+  const [taps, setTaps] = useState<number[]>([])
+
+  const handleTap = () => {
+    const next = addTap(taps, performance.now())
+    setTaps(next)
+    const bpm = getTapTempo(next)
+    if (bpm !== null) onTempoChange?.(bpm, true)
+  }
+
+  return (
+    <span className="flex items-center gap-1.5">
+      <span
+        className="tabular-nums"
+        title={tempo.tapped ? 'Tapped tempo' : `${Math.round(tempo.confidence * 100)}% confidence`}
+      >
+        ♩ {Math.round(tempo.bpm)} BPM{tempo.tapped ? ' (tapped)' : ''}
+      </span>
+      {meter && (
+        <span
+          className="tabular-nums"
+          title={`${Math.round(meter.confidence * 100)}% confidence in the downbeats`}
+        >
+          {formatTimeSignature(meter.timeSignature)}
+        </span>
+      )}
+      {onTempoChange &&
+        tempo.alternatives.map((alternative) => (
+          <button
+            key={alternative.bpm}
+            onClick={() => onTempoChange(alternative.bpm, false)}
+            title={`Use ${Math.round(alternative.bpm)} BPM (${Math.round(alternative.confidence * 100)}% confidence)`}
+            className="rounded border border-stone-700 px-1.5 py-0.5 text-stone-400 transition-colors hover:border-stone-500 hover:text-stone-200"
+          >
+            {alternative.bpm < tempo.bpm ? '½×' : '2×'}
+          </button>
+        ))}
+      {onTempoChange && (
+        <button
+          onClick={handleTap}
+          title="Tap along to the beat to correct the tempo"
+          className="rounded border border-stone-700 px-1.5 py-0.5 text-stone-400 transition-colors hover:border-stone-500 hover:text-stone-200 active:bg-stone-700"
+        >
+          Tap{taps.length > 1 ? ` ${taps.length}` : ''}
+        </button>
+      )}
+    </span>
+  )
+}
@@ -0,0 +1,132 @@
+import {
+  TUNINGS,
+  IN_TUNE_CENTS,
+  REFERENCE_PITCH_OPTIONS_HZ,
+  getTuning,
+  type TunerReading,
+  type TunerSettings,
+  type TuningId,
+} from '../../services/tuner'
+
+interface TunerViewProps {
+  reading: TunerReading | null
+  error: string | null
+  settings: TunerSettings
+  onSettingsChange: (settings: TunerSettings) => void
+}
+
+// Needle range in cents either side of the target
+const NEEDLE_RANGE_CENTS = 50
+
+function formatCents(cents: number): string {
+  const rounded = Math.round(cents)
+  return `${rounded > 0 ? '+' : ''}${rounded}¢`
+}
+
+export function TunerView({ reading, error, settings, onSettingsChange }: TunerViewProps) {
+  const tuning = getTuning(settings.tuningId)
+  const update = (changes: Partial<TunerSettings>) => onSettingsChange({ ...settings, ...changes })
+
+  // Tune to the open string when close to one, otherwise show the chromatic note
+  const target =
+    reading && Math.abs(reading.string.cents) <= NEEDLE_RANGE_CENTS
+      ? { ...reading.string, frequency: reading.frequency }
+      : reading
+        ? { noteName: reading.noteName, cents: reading.cents, frequency: reading.frequency }
+        : null
+  const inTune = !!target && Math.abs(target.cents) <= IN_TUNE_CENTS
+  const needlePercent = target
+    ? 50 +
+      (Math.max(-NEEDLE_RANGE_CENTS, Math.min(NEEDLE_RANGE_CENTS, target.cents)) /
+        NEEDLE_RANGE_CENTS) *
+        50
+    : 50
+
+  return (
+    <div className="mb-4 rounded-xl border border-stone-800 bg-stone-950/40 p-4 text-center sm:mb-6">
+      {error ? (
+        <p className="text-xs text-red-400">{error}</p>
+      ) : (
+        <>
+          <div
+            className={`text-4xl font-semibold tabular-nums ${
+              inTune ? 'text-emerald-400' : target ? 'text-stone-200' : 'text-stone-700'
+            }`}
+          >
+            {target?.noteName ?? '–'}
+          </div>
+          <div className="mt-1 h-4 text-xs tabular-nums text-stone-500">
+            {target
+              ? `${formatCents(target.cents)} • ${target.frequency.toFixed(1)} Hz`
+              : 'Play a single string'}
+          </div>
+
+          {/* Cents needle */}
+          <div className="relative mx-auto mt-3 h-2 w-full max-w-xs rounded-full bg-stone-800">
+            <div className="absolute inset-y-0 left-1/2 w-px bg-stone-600" />
+            {target && (
+              <div
+                className={`absolute -top-1 h-4 w-1 rounded-full transition-[left] duration-75 ${
+                  inTune ? 'bg-emerald-400' : 'bg-amber-400'
+                }`}
+                style={{ left: `calc(${needlePercent}% - 2px)` }}
+              />
+            )}
+          </div>
+          <div className="mx-auto mt-1 flex max-w-xs justify-between text-[10px] text-stone-600">
+            <span>♭</span>
+            <span>♯</span>
+          </div>
+
+          {/* Open strings of the tuning */}
+          <div className="mt-3 flex justify-center gap-1.5">
+            {tuning.strings.map((string, index) => (
+              <span
+                key={index}
+                className={`rounded-md px-2 py-1 text-[10px] sm:text-xs ${
+                  reading?.string.index === index
+                    ? 'bg-amber-950/60 text-amber-400'
+                    : 'bg-stone-800/50 text-stone-500'
+                }`}
+              >
+                {string.replace(/\d+$/, '')}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-center justify-center gap-3 text-[10px] text-stone-500 sm:text-xs">
+        <label className="flex items-center gap-1">
+          <span>Tuning</span>
+          <select
+            value={settings.tuningId}
+            onChange={(e) => update({ tuningId: e.target.value as TuningId })}
+            className="cursor-pointer rounded-lg border border-stone-700 bg-stone-800/50 px-2 py-1.5 text-stone-300 outline-none focus:border-stone-500"
+          >
+            {TUNINGS.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          <span>A4 =</span>
+          <select
+            value={settings.referenceHz}
+            onChange={(e) => update({ referenceHz: Number(e.target.value) })}
+            className="cursor-pointer rounded-lg border border-stone-700 bg-stone-800/50 px-2 py-1.5 text-stone-300 outline-none focus:border-stone-500"
+          >
+            {REFERENCE_PITCH_OPTIONS_HZ.map((hz) => (
+              <option key={hz} value={hz}>
+                {hz}
+              </option>
+            ))}
+          </select>
+          <span>Hz</span>
+        </label>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+import {
+  SILENCE_TIMEOUT_OPTIONS_MS,
+  type VoiceActivationSettings,
+} from '../../services/voiceActivation'
+
+interface VoiceActivationControlsProps {
+  settings: VoiceActivationSettings
+  onChange: (settings: VoiceActivationSettings) => void
+}
+
+export function VoiceActivationControls({ settings, onChange }: VoiceActivationControlsProps) {
+  const update = (changes: Partial<VoiceActivationSettings>) =>
+    onChange({ ...settings, ...changes })
+
+  return (
+    <div className="col-span-2 flex flex-wrap items-center justify-center gap-2 text-[10px] text-stone-500 sm:text-xs">
+      <button
+        onClick={() => update({ enabled: !settings.enabled })}
+        title="Start recording when you start playing and stop when you stop"
+        className={`cursor-pointer rounded-lg border px-2.5 py-1.5 transition-colors ${
+          settings.enabled
+            ? 'border-amber-700 bg-amber-950/40 text-amber-400'
+            : 'border-stone-700 bg-stone-800/50 text-stone-400 hover:text-stone-300'
+        }`}
+      >
+        🎯 Auto start {settings.enabled ? 'on' : 'off'}
+      </button>
+
+      {settings.enabled && (
+        <label className="flex items-center gap-1">
+          <span>Stop after</span>
+          <select
+            value={settings.silenceMs}
+            onChange={(e) => update({ silenceMs: Number(e.target.value) })}
+            className="cursor-pointer rounded-lg border border-stone-700 bg-stone-800/50 px-2 py-1.5 text-stone-300 outline-none focus:border-stone-500"
+          >
+            {SILENCE_TIMEOUT_OPTIONS_MS.map((ms) => (
+              <option key={ms} value={ms}>
+                {ms / 1000}s
+              </option>
+            ))}
+          </select>
+          <span>of silence</span>
+        </label>
+      )}
+    </div>
+  )
+}
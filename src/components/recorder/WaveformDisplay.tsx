@@ -1,6 +1,7 @@
-import { useMemo } from 'react'
+import { useMemo, useRef, type KeyboardEvent, type PointerEvent } from 'react'
 import { MicrophoneIcon } from '../icons'
-import type { TranscriptionResult } from '../../domain/types'
+import type { ChannelSelection, TimeRange, TranscriptionResult } from '../../domain/types'
+import { clampSelection, isFullSelection, MIN_SELECTION_SEC } from '../../services/waveform'
 
 interface WaveformDisplayProps {
   isRecording: boolean
@@ -9,6 +10,15 @@ interface WaveformDisplayProps {
   transcription: TranscriptionResult | null
   transcriptionProgress: number
   transcriptionMessage: string | null
+  /** Waveform overview of the current recording, one row per channel (null while unavailable) */
+  peaks: number[][] | null
+  /** Channel used for transcription (highlighted when there are several) */
+  channel: ChannelSelection
+  durationSec: number
+  /** Selected region (whole recording when null) */
+  selection: TimeRange | null
+  /** Omit to make the selection read-only */
+  onSelectionChange?: (selection: TimeRange) => void
 }
 
 export function WaveformDisplay({
@@ -18,6 +28,11 @@ export function WaveformDisplay({
   transcription,
   transcriptionProgress,
   transcriptionMessage,
+  peaks,
+  channel,
+  durationSec,
+  selection,
+  onSelectionChange,
 }: WaveformDisplayProps) {
   return (
     <div className="mb-4 flex h-24 items-center justify-center rounded-xl border border-dashed border-stone-700 bg-stone-950/50 sm:mb-6 sm:h-32">
@@ -25,6 +40,14 @@ export function WaveformDisplay({
         <RecordingAnimation />
       ) : isTranscribing ? (
         <TranscribingProgress progress={transcriptionProgress} message={transcriptionMessage} />
+      ) : peaks && durationSec > 0 ? (
+        <WaveformRegion
+          peaks={peaks}
+          channel={channel}
+          durationSec={durationSec}
+          selection={selection ?? { startSec: 0, endSec: durationSec }}
+          onSelectionChange={onSelectionChange}
+        />
       ) : hasAnalysis && transcription ? (
         <AnalysisComplete />
       ) : (
@@ -74,6 +97,144 @@ function TranscribingProgress({ progress, message }: { progress: number; message
   )
 }
 
+// Arrow-key step for moving a handle
+const KEYBOARD_STEP_SEC = 0.1
+
+interface WaveformRegionProps {
+  peaks: number[][]
+  channel: ChannelSelection
+  durationSec: number
+  selection: TimeRange
+  onSelectionChange?: (selection: TimeRange) => void
+}
+
+function WaveformRegion({
+  peaks,
+  channel,
+  durationSec,
+  selection,
+  onSelectionChange,
+}: WaveformRegionProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const isEditable = !!onSelectionChange
+  const isTrimmed = !isFullSelection(selection, durationSec)
+
+  // Move one edge of the selection, keeping the other in place
+  const moveEdge = (edge: 'start' | 'end', timeSec: number) => {
+    if (!onSelectionChange) return
+    const next =
+      edge === 'start'
+        ? {
+            startSec: Math.min(timeSec, selection.endSec - MIN_SELECTION_SEC),
+            endSec: selection.endSec,
+          }
+        : {
+            startSec: selection.startSec,
+            endSec: Math.max(timeSec, selection.startSec + MIN_SELECTION_SEC),
+          }
+    onSelectionChange(clampSelection(next, durationSec))
+  }
+
+  const timeAtPointer = (clientX: number): number => {
+    const rect = containerRef.current?.getBoundingClientRect()
+    if (!rect || rect.width === 0) return 0
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width))
+    return ratio * durationSec
+  }
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    event.currentTarget.setPointerCapture(event.pointerId)
+  }
+
+  const handlePointerMove = (edge: 'start' | 'end') => (event: PointerEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.hasPointerCapture(event.pointerId)) return
+    moveEdge(edge, timeAtPointer(event.clientX))
+  }
+
+  const handleKeyDown = (edge: 'start' | 'end') => (event: KeyboardEvent<HTMLDivElement>) => {
+    const current = edge === 'start' ? selection.startSec : selection.endSec
+    if (event.key === 'ArrowLeft') moveEdge(edge, current - KEYBOARD_STEP_SEC)
+    else if (event.key === 'ArrowRight') moveEdge(edge, current + KEYBOARD_STEP_SEC)
+    else return
+    event.preventDefault()
+  }
+
+  const startPercent = (selection.startSec / durationSec) * 100
+  const endPercent = (selection.endSec / durationSec) * 100
+
+  return (
+    <div className="relative h-full w-full px-3 py-3 sm:px-4">
+      <div ref={containerRef} className="relative flex h-full w-full flex-col gap-1">
+        {peaks.map((row, ch) => {
+          // Channels that won't be transcribed are dimmed
+          const isActiveChannel = channel === 'mix' || channel === ch
+          return (
+            <div
+              key={ch}
+              className={`relative flex min-h-0 flex-1 items-center gap-px ${
+                isActiveChannel ? '' : 'opacity-40'
+              }`}
+            >
+              {peaks.length > 1 && (
+                <span className="pointer-events-none absolute left-0 top-0 text-[9px] text-stone-500">
+                  {ch + 1}
+                </span>
+              )}
+              {row.map((peak, i) => {
+                const position = ((i + 0.5) / row.length) * 100
+                const isSelected = position >= startPercent && position <= endPercent
+                return (
+                  <div
+                    key={i}
+                    className={`flex-1 rounded-full ${isSelected ? 'bg-amber-500/80' : 'bg-stone-700'}`}
+                    style={{ height: `${Math.max(4, peak * 100)}%` }}
+                  />
+                )
+              })}
+            </div>
+          )
+        })}
+
+        {/* Region handles */}
+        {isEditable &&
+          (['start', 'end'] as const).map((edge) => {
+            const percent = edge === 'start' ? startPercent : endPercent
+            const value = edge === 'start' ? selection.startSec : selection.endSec
+            return (
+              <div
+                key={edge}
+                role="slider"
+                tabIndex={0}
+                aria-label={edge === 'start' ? 'Selection start' : 'Selection end'}
+                aria-valuemin={0}
+                aria-valuemax={durationSec}
+                aria-valuenow={value}
+                aria-valuetext={`${value.toFixed(1)} seconds`}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove(edge)}
+                onKeyDown={handleKeyDown(edge)}
+                className="absolute inset-y-0 -ml-2 flex w-4 cursor-ew-resize touch-none justify-center outline-none focus-visible:ring-1 focus-visible:ring-amber-400"
+                style={{ left: `${percent}%` }}
+              >
+                <div className="h-full w-0.5 rounded-full bg-amber-300" />
+              </div>
+            )
+          })}
+      </div>
+
+      {/* Selection summary */}
+      {(isEditable || isTrimmed) && (
+        <div className="pointer-events-none absolute right-2 top-1 text-[10px] tabular-nums text-stone-500">
+          {isTrimmed
+            ? `${selection.startSec.toFixed(1)}s – ${selection.endSec.toFixed(1)}s`
+            : 'Drag the handles to trim'}
+        </div>
+      )}
+    </div>
+  )
+}
+
 function AnalysisComplete() {
   // Generate stable random heights once on mount
   const heights = useMemo(() => Array.from({ length: 20 }, () => Math.random() * 60 + 20), [])
@@ -0,0 +1,77 @@
+import type { TakeComparisonRow } from '../../services/takeComparison'
+
+interface TakeComparisonProps {
+  rows: TakeComparisonRow[]
+  sharedChords: string[]
+  activeTakeId: string | null
+}
+
+export function TakeComparison({ rows, sharedChords, activeTakeId }: TakeComparisonProps) {
+  return (
+    <div className="mt-4 rounded-xl border border-stone-800 bg-stone-950/30 p-3">
+      <h3 className="mb-2 text-xs font-semibold uppercase tracking-wider text-stone-500">
+        Compare takes
+      </h3>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead className="text-[10px] uppercase tracking-wider text-stone-600">
+            <tr>
+              <th className="py-1 pr-3 font-medium">Take</th>
+              <th className="py-1 pr-3 font-medium">Notes</th>
+              <th className="py-1 pr-3 font-medium">Keys</th>
+              <th className="py-1 font-medium">Top chords</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr
+                key={row.takeId}
+                className={`border-t border-stone-800/70 ${
+                  row.takeId === activeTakeId ? 'text-stone-200' : 'text-stone-400'
+                }`}
+              >
+                <td className="max-w-[10rem] truncate py-1.5 pr-3 font-medium">{row.name}</td>
+                <td className="py-1.5 pr-3 tabular-nums">{row.noteCount}</td>
+                <td className="py-1.5 pr-3">
+                  {row.keys.map((key, i) => (
+                    <span key={key.id} className={i === 0 ? 'text-violet-300' : 'text-stone-500'}>
+                      {i > 0 && ', '}
+                      {key.label}{' '}
+                      <span className="tabular-nums text-stone-600">
+                        {Math.round(key.fitScore * 100)}%
+                      </span>
+                    </span>
+                  ))}
+                </td>
+                <td className="py-1.5">
+                  <div className="flex flex-wrap gap-1">
+                    {row.topChords.map((symbol) => (
+                      <span
+                        key={symbol}
+                        className={`rounded px-1.5 py-0.5 ${
+                          sharedChords.includes(symbol)
+                            ? 'bg-amber-900/40 text-amber-300'
+                            : 'bg-stone-800 text-stone-400'
+                        }`}
+                      >
+                        {symbol}
+                      </span>
+                    ))}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {sharedChords.length > 0 && (
+        <p className="mt-2 text-[11px] text-stone-500">
+          <span className="text-amber-400">Shared:</span> {sharedChords.join(', ')} appear in every
+          take
+        </p>
+      )}
+    </div>
+  )
+}
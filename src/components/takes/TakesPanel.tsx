@@ -0,0 +1,140 @@
+import { useState, useCallback, useMemo } from 'react'
+import { useAppState, useAppDispatch } from '../../domain/state'
+import type { Take } from '../../domain/types'
+import { formatTime } from '../../services/audioRecorder'
+import { generateChordSuggestions } from '../../services/chordSuggestion'
+import { generateProgressions } from '../../services/progressionService'
+import { compareTakes, findSharedChords } from '../../services/takeComparison'
+import { CancelIcon } from '../icons'
+import { TakeComparison } from './TakeComparison'
+
+export function TakesPanel() {
+  const { status, takes, activeTakeId } = useAppState()
+  const dispatch = useAppDispatch()
+
+  // Take currently being renamed
+  const [editingTakeId, setEditingTakeId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState('')
+
+  // Switching takes mid-recording or mid-analysis would orphan the result
+  const isBusy = ['recording', 'decoding', 'transcribing'].includes(status)
+
+  const comparisonRows = useMemo(() => compareTakes(takes), [takes])
+  const sharedChords = useMemo(() => findSharedChords(comparisonRows), [comparisonRows])
+
+  // Restore a take - chords and progressions are regenerated for its selected key
+  const handleSelectTake = useCallback(
+    (take: Take) => {
+      if (isBusy || take.id === activeTakeId) return
+
+      const candidate =
+        take.harmony?.candidates.find((c) => c.id === take.harmony?.selectedCandidateId) ?? null
+      const chords =
+        candidate && take.features ? generateChordSuggestions(candidate, take.features) : null
+      const progressions =
+        candidate && chords
+          ? generateProgressions(candidate, chords, take.features ?? undefined)
+          : []
+
+      dispatch({ type: 'SELECT_TAKE', payload: { takeId: take.id, chords, progressions } })
+    },
+    [isBusy, activeTakeId, dispatch]
+  )
+
+  const handleStartRename = useCallback((take: Take) => {
+    setEditingTakeId(take.id)
+    setEditingName(take.name)
+  }, [])
+
+  const handleFinishRename = useCallback(() => {
+    const name = editingName.trim()
+    if (editingTakeId && name) {
+      dispatch({ type: 'RENAME_TAKE', payload: { takeId: editingTakeId, name } })
+    }
+    setEditingTakeId(null)
+  }, [editingTakeId, editingName, dispatch])
+
+  const handleDeleteTake = useCallback(
+    (take: Take) => {
+      // The take owns its object URLs (including its overdubs')
+      URL.revokeObjectURL(take.recording.audioUrl)
+      take.layers.forEach((layer) => URL.revokeObjectURL(layer.recording.audioUrl))
+      dispatch({ type: 'DELETE_TAKE', payload: { takeId: take.id } })
+    },
+    [dispatch]
+  )
+
+  return (
+    <div className="rounded-2xl border border-stone-800 bg-gradient-to-b from-stone-900 to-stone-900/50 p-5 shadow-xl shadow-black/20">
+      <div className="mb-4 flex items-center gap-2">
+        <div className="h-2 w-2 rounded-full bg-emerald-500" />
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-stone-400">Takes</h2>
+        <span className="ml-auto text-xs text-stone-500">
+          {takes.length} {takes.length === 1 ? 'take' : 'takes'}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {takes.map((take) => {
+          const isActive = take.id === activeTakeId
+          return (
+            <div
+              key={take.id}
+              className={`flex items-center gap-2 rounded-full border py-1 pl-3 pr-1 text-xs transition-colors ${
+                isActive
+                  ? 'border-emerald-700 bg-emerald-950/40 text-stone-200'
+                  : 'border-stone-700 bg-stone-800/50 text-stone-400'
+              }`}
+            >
+              {editingTakeId === take.id ? (
+                <input
+                  autoFocus
+                  value={editingName}
+                  onChange={(e) => setEditingName(e.target.value)}
+                  onBlur={handleFinishRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleFinishRename()
+                    if (e.key === 'Escape') setEditingTakeId(null)
+                  }}
+                  className="w-28 rounded bg-stone-950 px-1 text-stone-200 outline-none ring-1 ring-emerald-700"
+                />
+              ) : (
+                <button
+                  onClick={() => handleSelectTake(take)}
+                  onDoubleClick={() => handleStartRename(take)}
+                  disabled={isBusy}
+                  title="Click to open, double-click to rename"
+                  className="max-w-[10rem] cursor-pointer truncate hover:text-stone-200 disabled:cursor-not-allowed"
+                >
+                  {take.name}
+                </button>
+              )}
+              <span className="tabular-nums text-stone-600">
+                {formatTime(take.recording.durationMs)}
+              </span>
+              {take.transcription && (
+                <span className="h-1.5 w-1.5 rounded-full bg-violet-500" title="Analyzed" />
+              )}
+              <button
+                onClick={() => handleDeleteTake(take)}
+                disabled={isBusy}
+                aria-label={`Delete ${take.name}`}
+                className="cursor-pointer rounded-full p-1 text-stone-500 transition-colors hover:bg-stone-700 hover:text-stone-300 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <CancelIcon className="h-3 w-3" />
+              </button>
+            </div>
+          )
+        })}
+      </div>
+
+      {comparisonRows.length >= 2 && (
+        <TakeComparison
+          rows={comparisonRows}
+          sharedChords={sharedChords}
+          activeTakeId={activeTakeId}
+        />
+      )}
+    </div>
+  )
+}
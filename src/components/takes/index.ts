@@ -0,0 +1 @@
+export { TakesPanel } from './TakesPanel'
@@ -7,6 +7,11 @@ import type {
   HarmonyAnalysisResult,
   ChordSuggestionResult,
   ProgressionSuggestion,
+  Take,
+  TakeLayer,
+  TranscriptionPreset,
+  RhythmAnalysis,
+  Quantization,
 } from '../types'
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -24,6 +29,12 @@ export interface AppState {
   harmony: HarmonyAnalysisResult | null
   chords: ChordSuggestionResult | null
   progressions: ProgressionSuggestion[] | null
+  /** All takes recorded or imported in this session */
+  takes: Take[]
+  /** Take whose recording and analysis are currently shown */
+  activeTakeId: string | null
+  /** Number used to id and name the next take */
+  nextTakeNumber: number
 }
 
 export const initialAppState: AppState = {
@@ -37,6 +48,9 @@ export const initialAppState: AppState = {
   harmony: null,
   chords: null,
   progressions: null,
+  takes: [],
+  activeTakeId: null,
+  nextTakeNumber: 1,
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -45,11 +59,25 @@ export const initialAppState: AppState = {
 
 export type AppAction =
   | { type: 'START_RECORDING' }
+  | { type: 'START_OVERDUB' }
+  | { type: 'ADD_LAYER'; payload: { recording: RecordingAsset; preset: TranscriptionPreset } }
+  | { type: 'SET_LAYER_PRESET'; payload: { layerId: string; preset: TranscriptionPreset } }
+  | { type: 'DELETE_LAYER'; payload: { layerId: string } }
   | { type: 'STOP_RECORDING'; payload: RecordingAsset }
+  | { type: 'IMPORT_RECORDING'; payload: RecordingAsset }
   | { type: 'START_DECODE' }
   | { type: 'START_TRANSCRIBE' }
+  | { type: 'CANCEL_TRANSCRIPTION' }
   | { type: 'SET_TRANSCRIPTION_PROGRESS'; payload: { percent: number; message?: string } }
   | { type: 'TRANSCRIPTION_COMPLETE'; payload: TranscriptionResult }
+  | {
+      type: 'LIVE_TRANSCRIPTION_UPDATE'
+      payload: {
+        transcription: TranscriptionResult
+        features: RiffFeatures
+        harmony: HarmonyAnalysisResult
+      }
+    }
   | {
       type: 'ANALYSIS_COMPLETE'
       payload: {
@@ -58,6 +86,8 @@ export type AppAction =
         harmony: HarmonyAnalysisResult
         chords: ChordSuggestionResult | null
         progressions: ProgressionSuggestion[]
+        /** Overdub layers with their transcriptions (for combined analyses) */
+        layers?: TakeLayer[]
       }
     }
   | {
@@ -68,9 +98,99 @@ export type AppAction =
         progressions: ProgressionSuggestion[]
       }
     }
+  | {
+      type: 'SELECT_TAKE'
+      payload: {
+        takeId: string
+        chords: ChordSuggestionResult | null
+        progressions: ProgressionSuggestion[]
+      }
+    }
+  | { type: 'SET_TEMPO'; payload: RhythmAnalysis }
+  | { type: 'SET_QUANTIZATION'; payload: Quantization }
+  | { type: 'RENAME_TAKE'; payload: { takeId: string; name: string } }
+  | { type: 'DELETE_TAKE'; payload: { takeId: string } }
   | { type: 'SET_ERROR'; payload: RecordingError }
   | { type: 'RESET' }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Keep the session's takes while clearing the active recording and analysis.
+ */
+function clearActiveTake(state: AppState): AppState {
+  return {
+    ...initialAppState,
+    takes: state.takes,
+    nextTakeNumber: state.nextTakeNumber,
+  }
+}
+
+/**
+ * Add a new take for a recording and make it the active one.
+ */
+function addTake(state: AppState, recording: RecordingAsset): AppState {
+  const take: Take = {
+    id: `take-${state.nextTakeNumber}`,
+    name: recording.sourceName ?? `Take ${state.nextTakeNumber}`,
+    recording,
+    transcription: null,
+    features: null,
+    harmony: null,
+    layers: [],
+  }
+
+  return {
+    ...clearActiveTake(state),
+    status: 'recorded',
+    recording,
+    takes: [...state.takes, take],
+    activeTakeId: take.id,
+    nextTakeNumber: state.nextTakeNumber + 1,
+  }
+}
+
+/**
+ * Apply changes to the active take (no-op when no take is active).
+ */
+function updateActiveTake(state: AppState, changes: Partial<Take>): Take[] {
+  if (!state.activeTakeId) return state.takes
+  return state.takes.map((take) =>
+    take.id === state.activeTakeId ? { ...take, ...changes } : take
+  )
+}
+
+/**
+ * Replace the active take's layers (no-op when no take is active).
+ */
+function updateActiveLayers(state: AppState, update: (layers: TakeLayer[]) => TakeLayer[]): Take[] {
+  const activeTake = state.takes.find((take) => take.id === state.activeTakeId)
+  if (!activeTake) return state.takes
+  return updateActiveTake(state, { layers: update(activeTake.layers) })
+}
+
+/**
+ * Create the next overdub layer for a take. Numbers keep counting up after
+ * deletions so ids stay unique.
+ */
+function createLayer(
+  takeId: string,
+  layers: TakeLayer[],
+  recording: RecordingAsset,
+  preset: TranscriptionPreset
+): TakeLayer {
+  const number = Math.max(0, ...layers.map((layer) => Number(layer.id.split('-').pop()))) + 1
+  return {
+    id: `${takeId}-layer-${number}`,
+    name: `Overdub ${number}`,
+    recording,
+    preset,
+    transcription: null,
+  }
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Reducer
 // ─────────────────────────────────────────────────────────────────────────────
@@ -78,18 +198,62 @@ export type AppAction =
 export function appReducer(state: AppState, action: AppAction): AppState {
   switch (action.type) {
     case 'START_RECORDING':
+      // Keep previous takes - only the active view is cleared
       return {
-        ...initialAppState,
+        ...clearActiveTake(state),
         status: 'recording',
       }
 
-    case 'STOP_RECORDING':
+    case 'START_OVERDUB':
+      // Recording on top of the active take - keep it in view
+      if (!state.activeTakeId) return state
+      return {
+        ...state,
+        status: 'recording',
+        error: null,
+      }
+
+    case 'ADD_LAYER': {
+      const { activeTakeId } = state
+      if (!activeTakeId) return state
+      // The combined analysis is out of date until the new layer is transcribed
       return {
         ...state,
         status: 'recorded',
-        recording: action.payload,
+        takes: updateActiveLayers(state, (layers) => [
+          ...layers,
+          createLayer(activeTakeId, layers, action.payload.recording, action.payload.preset),
+        ]),
+      }
+    }
+
+    case 'SET_LAYER_PRESET':
+      // Changing the preset invalidates the layer's transcription
+      return {
+        ...state,
+        status: state.status === 'analyzed' ? 'recorded' : state.status,
+        takes: updateActiveLayers(state, (layers) =>
+          layers.map((layer) =>
+            layer.id === action.payload.layerId
+              ? { ...layer, preset: action.payload.preset, transcription: null }
+              : layer
+          )
+        ),
+      }
+
+    case 'DELETE_LAYER':
+      return {
+        ...state,
+        status: state.status === 'analyzed' ? 'recorded' : state.status,
+        takes: updateActiveLayers(state, (layers) =>
+          layers.filter((layer) => layer.id !== action.payload.layerId)
+        ),
       }
 
+    case 'STOP_RECORDING':
+    case 'IMPORT_RECORDING':
+      return addTake(state, action.payload)
+
     case 'START_DECODE':
       return {
         ...state,
@@ -104,6 +268,14 @@ export function appReducer(state: AppState, action: AppAction): AppState {
         transcriptionMessage: 'Starting...',
       }
 
+    case 'CANCEL_TRANSCRIPTION':
+      return {
+        ...state,
+        status: 'recorded',
+        transcriptionProgress: 0,
+        transcriptionMessage: null,
+      }
+
     case 'SET_TRANSCRIPTION_PROGRESS':
       return {
         ...state,
@@ -120,6 +292,16 @@ export function appReducer(state: AppState, action: AppAction): AppState {
         transcriptionMessage: 'Complete',
       }
 
+    case 'LIVE_TRANSCRIPTION_UPDATE':
+      // Preview while recording - not stored on a take; the full analysis replaces it
+      if (state.status !== 'recording') return state
+      return {
+        ...state,
+        transcription: action.payload.transcription,
+        features: action.payload.features,
+        harmony: action.payload.harmony,
+      }
+
     case 'ANALYSIS_COMPLETE':
       return {
         ...state,
@@ -129,19 +311,83 @@ export function appReducer(state: AppState, action: AppAction): AppState {
         harmony: action.payload.harmony,
         chords: action.payload.chords,
         progressions: action.payload.progressions,
+        takes: updateActiveTake(state, {
+          transcription: action.payload.transcription,
+          features: action.payload.features,
+          harmony: action.payload.harmony,
+          ...(action.payload.layers ? { layers: action.payload.layers } : {}),
+        }),
       }
 
-    case 'SELECT_HARMONIC_FIELD':
+    case 'SELECT_HARMONIC_FIELD': {
       if (!state.harmony) return state
+      const harmony = {
+        ...state.harmony,
+        selectedCandidateId: action.payload.candidateId,
+      }
       return {
         ...state,
-        harmony: {
-          ...state.harmony,
-          selectedCandidateId: action.payload.candidateId,
-        },
+        harmony,
         chords: action.payload.chords,
         progressions: action.payload.progressions,
+        takes: updateActiveTake(state, { harmony }),
       }
+    }
+
+    case 'SET_TEMPO': {
+      if (!state.transcription) return state
+      // Replaces everything that followed from the old beat grid
+      const transcription = { ...state.transcription, ...action.payload }
+      return {
+        ...state,
+        transcription,
+        takes: updateActiveTake(state, { transcription }),
+      }
+    }
+
+    case 'SET_QUANTIZATION': {
+      if (!state.transcription) return state
+      const transcription = { ...state.transcription, quantization: action.payload }
+      return {
+        ...state,
+        transcription,
+        takes: updateActiveTake(state, { transcription }),
+      }
+    }
+
+    case 'SELECT_TAKE': {
+      const take = state.takes.find((t) => t.id === action.payload.takeId)
+      if (!take) return state
+      return {
+        ...clearActiveTake(state),
+        status: take.transcription ? 'analyzed' : 'recorded',
+        recording: take.recording,
+        transcription: take.transcription,
+        transcriptionProgress: take.transcription ? 100 : 0,
+        features: take.features,
+        harmony: take.harmony,
+        chords: action.payload.chords,
+        progressions: action.payload.progressions,
+        activeTakeId: take.id,
+      }
+    }
+
+    case 'RENAME_TAKE':
+      return {
+        ...state,
+        takes: state.takes.map((take) =>
+          take.id === action.payload.takeId ? { ...take, name: action.payload.name } : take
+        ),
+      }
+
+    case 'DELETE_TAKE': {
+      const takes = state.takes.filter((take) => take.id !== action.payload.takeId)
+      if (state.activeTakeId !== action.payload.takeId) {
+        return { ...state, takes }
+      }
+      // Deleting the active take clears the view
+      return { ...clearActiveTake(state), takes }
+    }
 
     case 'SET_ERROR':
       return {
@@ -151,7 +397,8 @@ export function appReducer(state: AppState, action: AppAction): AppState {
       }
 
     case 'RESET':
-      return initialAppState
+      // Deselect the active take but keep the session's takes
+      return clearActiveTake(state)
 
     default:
       return state
@@ -365,4 +365,7 @@ export const mockAnalyzedState: AppState = {
   harmony: mockHarmony,
   chords: mockChords,
   progressions: mockProgressions,
+  takes: [],
+  activeTakeId: null,
+  nextTakeNumber: 1,
 }
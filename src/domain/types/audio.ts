@@ -0,0 +1,79 @@
+/**
+ * Audio metrics extracted from input signal.
+ * Used to adapt transcription parameters for optimal detection.
+ */
+export interface AudioMetrics {
+  /** Peak amplitude in dBFS (0 = full scale, negative values below) */
+  peakLevelDb: number
+  /** RMS level in dBFS (average loudness) */
+  rmsLevelDb: number
+  /** Estimated noise floor in dBFS (from quietest frames) */
+  noiseFloorDb: number
+  /** Dynamic range: peak to RMS ratio in dB */
+  dynamicRangeDb: number
+  /** Whether the signal has clear transients (attacks) */
+  hasTransients: boolean
+  /** Linear peak amplitude (0-1) */
+  peakLinear: number
+  /** Linear RMS amplitude (0-1) */
+  rmsLinear: number
+  /** Mains hum found before filtering (null = none; absent when not checked) */
+  hum?: HumReading | null
+}
+
+/**
+ * Mains hum found in a recording.
+ */
+export interface HumReading {
+  /** Mains frequency: 50Hz (Europe) or 60Hz (Americas) */
+  frequency: number
+  /** Frequencies of the hum harmonics present, fundamental first when present */
+  harmonics: number[]
+  /** RMS level of those harmonics in dBFS */
+  levelDb: number
+}
+
+/**
+ * Stages of the pre-processing pipeline, in the order they run.
+ */
+export type PreprocessingStageId =
+  | 'mono'
+  | 'declip'
+  | 'filter'
+  | 'resample'
+  | 'analyze'
+  | 'noiseReduction'
+  | 'normalize'
+  | 'gate'
+  | 'hpss'
+
+/** Parameter values of a stage as shown in the report */
+export type PreprocessingParams = Record<string, number | string | boolean>
+
+/**
+ * What one pre-processing stage did.
+ */
+export interface PreprocessingStageReport {
+  id: PreprocessingStageId
+  name: string
+  /** Whether the stage was switched on */
+  enabled: boolean
+  /** Whether it did its work (an enabled stage can decide it isn't needed) */
+  ran: boolean
+  /** Why the stage didn't run, or what it decided */
+  note?: string
+  params: PreprocessingParams
+}
+
+/**
+ * Diagnostics of one pre-processing run.
+ */
+export interface PreprocessingReport {
+  stages: PreprocessingStageReport[]
+  /** Metrics of the input (mono, before any processing) */
+  before: AudioMetrics
+  /** Metrics of the audio handed to transcription */
+  after: AudioMetrics
+  /** Clipped samples the declipper reconstructed */
+  repairedSamples: number
+}
@@ -25,4 +25,10 @@ export interface RiffFeatures {
   lastNotePc?: number
   /** Pitch class of the lowest note (for bass-driven key inference) */
   bassPc?: number
+  /**
+   * Pitch class weights used to score chords, when they should come from a
+   * different part than the key (e.g., the rhythm layer of an overdub).
+   * Falls back to pcWeights when absent.
+   */
+  chordPcWeights?: PitchClassWeights
 }
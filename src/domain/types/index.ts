@@ -3,9 +3,42 @@ export type {
   RecordingAsset,
   RecordingErrorStage,
   RecordingError,
+  TimeRange,
+  TimeSignature,
+  RecordingTempo,
+  ChannelSelection,
 } from './recording'
 
-export type { TranscribedNote, TranscriptionResult, TranscriptionPreset } from './transcription'
+export type {
+  AudioMetrics,
+  HumReading,
+  PreprocessingStageId,
+  PreprocessingParams,
+  PreprocessingStageReport,
+  PreprocessingReport,
+} from './audio'
+
+export type {
+  TranscribedNote,
+  TranscriptionResult,
+  TranscriptionPreset,
+  TranscriptionEngineId,
+  RhythmAnalysis,
+} from './transcription'
+
+export type {
+  OnsetEvent,
+  OnsetDetector,
+  TempoCandidate,
+  TempoEstimate,
+  MeterEstimate,
+  Bar,
+  QuantizeGrid,
+  Quantization,
+  StrumDirection,
+  StrumEvent,
+  StrumPattern,
+} from './rhythm'
 
 export type { PitchClassWeights, RiffFeatures } from './features'
 
@@ -19,3 +52,5 @@ export type {
 } from './chords'
 
 export type { ProgressionSlot, ProgressionSuggestion } from './progressions'
+
+export type { Take, TakeLayer } from './takes'
@@ -22,6 +22,60 @@ export interface RecordingAsset {
    * Required when pcmData is present.
    */
   pcmSampleRate?: number
+  /**
+   * Every channel of the PCM data, when the input had more than one
+   * (pcmData holds their mix). Lets a single channel be transcribed later
+   * without recording again.
+   */
+  pcmChannels?: Float32Array[]
+  /**
+   * Original file name when the asset was imported from disk instead of recorded.
+   */
+  sourceName?: string
+  /**
+   * Metronome tempo the take was recorded to, if the click was on.
+   */
+  tempo?: RecordingTempo
+  /**
+   * Input device the take was recorded from ('' = system default).
+   * Unset for imported files.
+   */
+  inputDeviceId?: string
+}
+
+export interface TimeSignature {
+  /** Beats per bar (numerator) */
+  beatsPerBar: number
+  /** Note value that gets the beat (denominator), e.g. 4 or 8 */
+  beatUnit: number
+}
+
+/**
+ * A known beat grid for a recording.
+ */
+export interface RecordingTempo {
+  /** Beats per minute, counted in beatUnit notes */
+  bpm: number
+  timeSignature: TimeSignature
+  /**
+   * Position of the first downbeat relative to the start of the audio, in ms.
+   * Negative when capture started slightly after the downbeat.
+   */
+  startOffsetMs: number
+}
+
+/**
+ * Which part of a multichannel recording to use:
+ * 'mix' averages all channels, a number picks one channel (0-based).
+ */
+export type ChannelSelection = 'mix' | number
+
+/**
+ * A time region within a recording, in seconds from the start of the audio.
+ */
+export interface TimeRange {
+  startSec: number
+  endSec: number
 }
 
 export type RecordingErrorStage = 'permission' | 'record' | 'decode' | 'transcribe' | 'analyze'
@@ -0,0 +1,114 @@
+import type { TimeSignature } from './recording'
+import type { TranscribedNote } from './transcription'
+
+/**
+ * Detected onset event with timing and strength information.
+ */
+export interface OnsetEvent {
+  /** Time of onset in seconds */
+  timeSec: number
+  /** Strength of the onset (0-1, higher = more pronounced attack) */
+  strength: number
+}
+
+/**
+ * Detection function onsets are picked from, or 'fusion' to combine them all.
+ */
+export type OnsetDetector =
+  | 'spectralFlux'
+  | 'highFrequencyContent'
+  | 'phaseDeviation'
+  | 'complexDomain'
+  | 'energy'
+  | 'fusion'
+
+/**
+ * A tempo the onsets could be counted in.
+ */
+export interface TempoCandidate {
+  bpm: number
+  /** How well the onsets fit this tempo (0-1) */
+  confidence: number
+}
+
+/**
+ * Tempo and beat grid of a transcription.
+ */
+export interface TempoEstimate extends TempoCandidate {
+  /** Half and double tempo readings of the same pulse */
+  alternatives: TempoCandidate[]
+  /** Beat times in seconds, on the same clock as the notes */
+  beats: number[]
+  /** Whether the tempo was tapped in rather than detected */
+  tapped?: boolean
+}
+
+/**
+ * Meter of a transcription, counted in its tracked beats.
+ */
+export interface MeterEstimate {
+  /** Beats per bar are tracked beats, e.g. 6/8 counts six eighth-note beats */
+  timeSignature: TimeSignature
+  /** How clearly the downbeats stand out from the other beats (0-1) */
+  confidence: number
+  /** Index into the tempo's beats of the first downbeat */
+  firstDownbeat: number
+}
+
+/**
+ * One bar of a transcription.
+ */
+export interface Bar {
+  /** 1-based bar number (0 for a pickup before the first downbeat) */
+  number: number
+  startSec: number
+  endSec: number
+  /** Beat times within the bar, the downbeat first (except in a pickup) */
+  beats: number[]
+  /** Indices of the notes that start in this bar */
+  noteIndices: number[]
+}
+
+/**
+ * Grid notes can be quantized to: straight, triplet ('T') or dotted ('.') values.
+ */
+export type QuantizeGrid = '1/4' | '1/8' | '1/8T' | '1/8.' | '1/16' | '1/16T' | '1/16.'
+
+/**
+ * Notes of a transcription snapped to a musical grid.
+ */
+export interface Quantization {
+  grid: QuantizeGrid
+  /** Long to short ratio of swung note pairs (1 = straight, 2 = triplet swing) */
+  swingRatio: number
+  /** The notes on the grid, in the same order as the played notes */
+  notes: TranscribedNote[]
+}
+
+export type StrumDirection = 'down' | 'up'
+
+/**
+ * Notes struck together in one stroke of the strumming hand.
+ */
+export interface StrumEvent {
+  /** Start of the strum (on the onset when there is one nearby) */
+  startSec: number
+  /** Time from the first string to the last */
+  spreadSec: number
+  /** Null when the strings sounded too close together to tell */
+  direction: StrumDirection | null
+  /** Number of notes struck */
+  noteCount: number
+}
+
+/**
+ * The strumming pattern of a recording, one bar long.
+ */
+export interface StrumPattern {
+  /** One character per step: 'D' down, 'U' up, '-' no strum (e.g. 'D-DU-UDU') */
+  pattern: string
+  /** Steps per beat (2 = eighth notes in 4/4) */
+  stepsPerBeat: number
+  /** Length of a beat in the recording, for playing the pattern back */
+  beatSec: number
+}
@@ -0,0 +1,35 @@
+import type { RecordingAsset } from './recording'
+import type { TranscriptionResult, TranscriptionPreset } from './transcription'
+import type { RiffFeatures } from './features'
+import type { HarmonyAnalysisResult } from './harmony'
+
+/**
+ * An overdub recorded on top of a take (e.g., a lead line over a chord part).
+ * Each layer is transcribed on its own with its own preset.
+ */
+export interface TakeLayer {
+  id: string
+  /** Display name (e.g., "Overdub 1") */
+  name: string
+  recording: RecordingAsset
+  preset: TranscriptionPreset
+  /** Null until the layer has been transcribed */
+  transcription: TranscriptionResult | null
+}
+
+/**
+ * A single attempt within a session.
+ * Keeps the recording together with its analysis so takes can be revisited and compared.
+ */
+export interface Take {
+  id: string
+  /** User-editable display name (e.g., "Take 3") */
+  name: string
+  recording: RecordingAsset
+  /** Analysis results - null until the take has been analyzed */
+  transcription: TranscriptionResult | null
+  features: RiffFeatures | null
+  harmony: HarmonyAnalysisResult | null
+  /** Overdubs recorded on top of this take */
+  layers: TakeLayer[]
+}
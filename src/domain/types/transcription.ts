@@ -1,3 +1,15 @@
+import type { ChannelSelection, TimeRange } from './recording'
+import type { PreprocessingReport } from './audio'
+import type {
+  OnsetEvent,
+  TempoEstimate,
+  MeterEstimate,
+  Bar,
+  Quantization,
+  StrumEvent,
+  StrumPattern,
+} from './rhythm'
+
 export interface TranscribedNote {
   startSec: number
   endSec: number
@@ -13,6 +25,13 @@ export interface TranscribedNote {
  */
 export type TranscriptionPreset = 'lead' | 'chord'
 
+/**
+ * What turned the audio into notes.
+ * - 'basicPitch': Spotify's Basic Pitch model, polyphonic
+ * - 'monophonic': YIN pitch tracking, one note at a time (no model needed)
+ */
+export type TranscriptionEngineId = 'basicPitch' | 'monophonic'
+
 export interface TranscriptionResult {
   notes: TranscribedNote[]
   noteCount: number
@@ -20,4 +39,44 @@ export interface TranscriptionResult {
     minMidi: number
     maxMidi: number
   }
+  /**
+   * Part of the recording that was transcribed (whole recording when absent).
+   * Note times are relative to the start of this region.
+   */
+  region?: TimeRange
+  /** Preset the notes were transcribed with */
+  preset?: TranscriptionPreset
+  /** Engine the notes were transcribed with */
+  engine?: TranscriptionEngineId
+  /** Channel transcribed from a multichannel recording (the mix when absent) */
+  channel?: ChannelSelection
+  /** What pre-processing did to the audio before transcription */
+  preprocessing?: PreprocessingReport
+  /** Attacks found in the audio (times like the notes) */
+  onsets?: OnsetEvent[]
+  /** Tempo and beat grid, when the onsets show a pulse */
+  tempo?: TempoEstimate
+  /** Meter and downbeats, when the tempo is known */
+  meter?: MeterEstimate
+  /** The transcription split into bars at the downbeats */
+  bars?: Bar[]
+  /** The notes snapped to a grid, next to the played ones (when there are bars) */
+  quantization?: Quantization
+  /** Strokes of the strumming hand ('chord' preset) */
+  strums?: StrumEvent[]
+  /** The most common bar of strums, when there are bars */
+  strumPattern?: StrumPattern
+}
+
+/**
+ * Everything on a transcription that follows from its beat grid. Every field
+ * is set (undefined when the beats don't allow it) so a new analysis replaces
+ * all of an earlier one.
+ */
+export interface RhythmAnalysis {
+  tempo: TempoEstimate
+  meter: MeterEstimate | undefined
+  bars: Bar[] | undefined
+  quantization: Quantization | undefined
+  strumPattern: StrumPattern | undefined
 }
@@ -6,6 +6,12 @@ import {
   calculateNormalizationGain,
   applyGain,
   normalizeAudio,
+  measureLevel,
+  getLevelWarning,
+  detectHum,
+  repairClipping,
+  CLIPPING_THRESHOLD_DBFS,
+  LOW_LEVEL_THRESHOLD_DBFS,
 } from './audioAnalysis'
 
 describe('audioAnalysis', () => {
@@ -255,4 +261,161 @@ describe('audioAnalysis', () => {
       expect(gain).toBeCloseTo(1, 1)
     })
   })
+
+  describe('measureLevel', () => {
+    it('matches the overall levels from analyzeAudio', () => {
+      const audio = createSineWave(440, 0.5, 200)
+      const level = measureLevel(audio)
+      const metrics = analyzeAudio(audio, 22050)
+
+      expect(level.peakLevelDb).toBeCloseTo(metrics.peakLevelDb, 6)
+      expect(level.rmsLevelDb).toBeCloseTo(metrics.rmsLevelDb, 6)
+    })
+
+    it('returns -Infinity for silence', () => {
+      const level = measureLevel(createSilence(50))
+      expect(level.peakLevelDb).toBe(-Infinity)
+      expect(level.rmsLevelDb).toBe(-Infinity)
+    })
+  })
+
+  describe('getLevelWarning', () => {
+    it('flags peaks at full scale as clipping', () => {
+      expect(
+        getLevelWarning({
+          peakLevelDb: CLIPPING_THRESHOLD_DBFS,
+          rmsLevelDb: -12,
+          noiseFloorDb: -60,
+        })
+      ).toBe('clipping')
+    })
+
+    it('flags signals below the low level threshold', () => {
+      expect(
+        getLevelWarning({
+          peakLevelDb: -30,
+          rmsLevelDb: LOW_LEVEL_THRESHOLD_DBFS - 1,
+          noiseFloorDb: -90,
+        })
+      ).toBe('low')
+    })
+
+    it('flags signals close to the noise floor', () => {
+      expect(getLevelWarning({ peakLevelDb: -10, rmsLevelDb: -30, noiseFloorDb: -35 })).toBe('low')
+    })
+
+    it('accepts healthy levels', () => {
+      expect(getLevelWarning({ peakLevelDb: -6, rmsLevelDb: -20, noiseFloorDb: -60 })).toBeNull()
+    })
+
+    it('agrees with analyzeAudio metrics', () => {
+      const clipped = createSineWave(440, 1.0, 200)
+      expect(getLevelWarning(analyzeAudio(clipped, 22050))).toBe('clipping')
+    })
+  })
+
+  describe('detectHum', () => {
+    const mix = (...signals: Float32Array[]) =>
+      signals[0].map((_, i) => signals.reduce((sum, signal) => sum + signal[i], 0))
+
+    // Guitar-like note: fundamental plus decaying harmonics
+    const createNote = (frequency: number, amplitude: number, durationMs: number) =>
+      mix(
+        ...[1, 0.5, 0.3, 0.2].map((gain, h) =>
+          createSineWave(frequency * (h + 1), amplitude * gain, durationMs)
+        )
+      )
+
+    it('finds the hum fundamental and its level', () => {
+      const hum = detectHum(createSineWave(60, 0.1, 3000), 22050)
+
+      expect(hum?.frequency).toBe(60)
+      expect(hum?.harmonics).toEqual([60])
+      // RMS of a 0.1 amplitude sine is about -23 dBFS
+      expect(hum?.levelDb).toBeCloseTo(linearToDbfs(0.1 / Math.SQRT2), 0)
+    })
+
+    it('tells 50Hz from 60Hz hum', () => {
+      expect(detectHum(createSineWave(50, 0.1, 3000), 22050)?.frequency).toBe(50)
+    })
+
+    it('finds only the harmonics that are present', () => {
+      // Single-coil hum: strong odd harmonics, up past the first few
+      const hum = detectHum(
+        mix(
+          createSineWave(60, 0.02, 3000),
+          createSineWave(180, 0.05, 3000),
+          createSineWave(300, 0.03, 3000),
+          createSineWave(540, 0.01, 3000)
+        ),
+        22050
+      )
+
+      expect(hum?.frequency).toBe(60)
+      expect(hum?.harmonics).toEqual([60, 180, 300, 540])
+    })
+
+    it('finds hum under playing', () => {
+      const hum = detectHum(mix(createSineWave(50, 0.05, 3000), createNote(196, 0.5, 3000)), 22050)
+
+      expect(hum?.harmonics).toEqual([50])
+      expect(hum?.levelDb).toBeCloseTo(linearToDbfs(0.05 / Math.SQRT2), 0)
+    })
+
+    it('does not mistake notes for hum', () => {
+      // B2 (123Hz) is close to the second harmonic of 60Hz
+      expect(detectHum(createNote(123.47, 0.5, 3000), 22050)).toBeNull()
+      expect(detectHum(createNote(110, 0.5, 3000), 22050)).toBeNull()
+    })
+
+    it('returns null for noise and silence', () => {
+      expect(detectHum(createNoise(0.1, 3000), 22050)).toBeNull()
+      expect(detectHum(createSilence(3000), 22050)).toBeNull()
+    })
+
+    it('returns null for very short audio', () => {
+      expect(detectHum(createSineWave(60, 0.1, 50), 22050)).toBeNull()
+    })
+  })
+
+  describe('repairClipping', () => {
+    // A sine wave driven 1.5x past full scale
+    const createClippedSine = (): Float32Array =>
+      createSineWave(220, 1.5, 100).map((sample) => Math.max(-1, Math.min(1, sample)))
+
+    it('reconstructs the flattened tops', () => {
+      const original = createSineWave(220, 1.5, 100)
+      const clipped = createClippedSine()
+      const clippedError = original.reduce((sum, s, i) => sum + Math.abs(s - clipped[i]), 0)
+
+      const repair = repairClipping(clipped, measureLevel(clipped))
+
+      const repairedError = original.reduce((sum, s, i) => sum + Math.abs(s - clipped[i]), 0)
+      expect(repair.runs).toBeGreaterThan(0)
+      expect(repair.samples).toBeGreaterThan(repair.runs)
+      expect(repairedError).toBeLessThan(clippedError / 2)
+      expect(measureLevel(clipped).peakLinear).toBeGreaterThan(1)
+    })
+
+    it('leaves audio that did not clip alone', () => {
+      const clean = createSineWave(220, 0.5, 100)
+      const copy = clean.slice()
+
+      expect(repairClipping(clean, measureLevel(clean))).toEqual({ runs: 0, samples: 0 })
+      expect(clean).toEqual(copy)
+    })
+
+    it('ignores single samples at the peak', () => {
+      const data = Float32Array.from([0, 0.5, 1, 0.5, 0, -0.5, -1, -0.5, 0])
+
+      expect(repairClipping(data, measureLevel(data)).samples).toBe(0)
+    })
+
+    it('counts every repaired sample', () => {
+      const data = Float32Array.from([0, 0.4, 0.8, 1, 1, 1, 0.8, 0.4, 0])
+
+      expect(repairClipping(data, measureLevel(data))).toEqual({ runs: 1, samples: 3 })
+      expect(data[4]).toBeGreaterThan(1)
+    })
+  })
 })
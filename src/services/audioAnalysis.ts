@@ -2,33 +2,33 @@
 // Audio Analysis: Extract metrics from audio for adaptive processing
 // ─────────────────────────────────────────────────────────────────────────────
 
+import type { AudioMetrics, HumReading } from '../domain/types'
+
+export type { AudioMetrics, HumReading }
+
 /**
- * Audio metrics extracted from input signal.
- * Used to adapt transcription parameters for optimal detection.
+ * Instantaneous level of a block of samples (used by the live input meter).
  */
-export interface AudioMetrics {
-  /** Peak amplitude in dBFS (0 = full scale, negative values below) */
+export interface LevelReading {
   peakLevelDb: number
-  /** RMS level in dBFS (average loudness) */
   rmsLevelDb: number
-  /** Estimated noise floor in dBFS (from quietest frames) */
-  noiseFloorDb: number
-  /** Dynamic range: peak to RMS ratio in dB */
-  dynamicRangeDb: number
-  /** Whether the signal has clear transients (attacks) */
-  hasTransients: boolean
-  /** Linear peak amplitude (0-1) */
   peakLinear: number
-  /** Linear RMS amplitude (0-1) */
   rmsLinear: number
 }
 
+/**
+ * Level problems worth telling the user about:
+ * - clipping: peaks hit full scale, so the waveform is flattened
+ * - low: the signal barely rises above the noise floor
+ */
+export type LevelWarning = 'clipping' | 'low'
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Constants
 // ─────────────────────────────────────────────────────────────────────────────
 
-// Frame size for analysis (in samples at target rate)
-const ANALYSIS_FRAME_SIZE = 2048
+/** Frame size for analysis (in samples at target rate) */
+export const ANALYSIS_FRAME_SIZE = 2048
 
 // Number of quietest frames to use for noise floor estimation
 const NOISE_FLOOR_PERCENTILE = 0.1 // Bottom 10% of frames
@@ -36,9 +36,42 @@ const NOISE_FLOOR_PERCENTILE = 0.1 // Bottom 10% of frames
 // Transient detection: ratio of frame energy to previous frame
 const TRANSIENT_RATIO_THRESHOLD = 3.0 // 3x energy increase = transient
 
+// Energy below this is treated as silence
+const MIN_ENERGY = 1e-10
+
 // Minimum number of transients to consider signal as "having transients"
 const MIN_TRANSIENT_COUNT = 2
 
+/** Peaks at or above this level are treated as clipped */
+export const CLIPPING_THRESHOLD_DBFS = -0.1
+
+/** RMS below this level is too quiet for reliable pitch detection */
+export const LOW_LEVEL_THRESHOLD_DBFS = -45
+
+/** Minimum RMS-to-noise-floor distance for a usable signal */
+export const MIN_SIGNAL_TO_NOISE_DB = 10
+
+// Hum detection: mains frequencies and how many harmonics to look for
+// (single-coil pickups pick up strong odd harmonics well past the first few)
+const HUM_MAINS_FREQUENCIES = [50, 60]
+export const HUM_MAX_HARMONICS = 16
+
+// 1s blocks give 1Hz resolution, enough to tell hum from nearby notes (e.g. B2 at 123Hz)
+const HUM_BLOCK_SEC = 1
+const HUM_MAX_BLOCKS = 6
+
+// A harmonic is present when it stands this far above the spectrum either side of it
+const HUM_PROMINENCE_DB = 12
+const HUM_NEIGHBOR_OFFSETS_HZ = [-7, -4, 4, 7]
+
+// Amplitudes below this are treated as silence (-100 dBFS)
+const HUM_MIN_AMPLITUDE = 1e-5
+
+// Clipping repair: samples within 0.1% of a clipped peak belong to its flat top,
+// and it takes at least two in a row to flatten a waveform
+const CLIPPED_LEVEL_RATIO = 0.999
+const MIN_CLIPPED_RUN = 2
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Helper Functions
 // ─────────────────────────────────────────────────────────────────────────────
@@ -92,6 +125,140 @@ function calculatePeak(samples: Float32Array, start: number, length: number): nu
   return peak
 }
 
+/**
+ * Check whether a frame starts a transient (a sudden energy increase over the
+ * previous frame, or sound following near-silence).
+ *
+ * @param prevFrameEnergy - Mean squared amplitude of the previous frame
+ * @param frameEnergy - Mean squared amplitude of this frame
+ */
+export function isTransientFrame(prevFrameEnergy: number, frameEnergy: number): boolean {
+  if (prevFrameEnergy < MIN_ENERGY) {
+    // Transition from silence to sound is a transient
+    return frameEnergy > MIN_ENERGY * TRANSIENT_RATIO_THRESHOLD
+  }
+  return frameEnergy / prevFrameEnergy > TRANSIENT_RATIO_THRESHOLD
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Level Measurement
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Measure the peak and RMS level of a block of samples.
+ */
+export function measureLevel(samples: Float32Array): LevelReading {
+  const peakLinear = calculatePeak(samples, 0, samples.length)
+  const rmsLinear = calculateRms(samples, 0, samples.length)
+
+  return {
+    peakLevelDb: linearToDbfs(peakLinear),
+    rmsLevelDb: linearToDbfs(rmsLinear),
+    peakLinear,
+    rmsLinear,
+  }
+}
+
+/**
+ * Check levels for clipping or a signal buried in the noise floor.
+ * Works on full AudioMetrics as well as live readings with a running noise floor.
+ *
+ * @returns The most serious problem, or null if levels look fine
+ */
+export function getLevelWarning(
+  levels: Pick<AudioMetrics, 'peakLevelDb' | 'rmsLevelDb' | 'noiseFloorDb'>
+): LevelWarning | null {
+  if (levels.peakLevelDb >= CLIPPING_THRESHOLD_DBFS) return 'clipping'
+  if (levels.rmsLevelDb < LOW_LEVEL_THRESHOLD_DBFS) return 'low'
+  if (levels.rmsLevelDb - levels.noiseFloorDb < MIN_SIGNAL_TO_NOISE_DB) return 'low'
+  return null
+}
+
+/**
+ * Amplitude of a sinusoid at one frequency in a Hann-windowed block (Goertzel).
+ */
+function measureToneAmplitude(block: Float32Array, frequency: number, sampleRate: number): number {
+  const coeff = 2 * Math.cos((2 * Math.PI * frequency) / sampleRate)
+  let s1 = 0
+  let s2 = 0
+  for (let i = 0; i < block.length; i++) {
+    const s0 = block[i] + coeff * s1 - s2
+    s2 = s1
+    s1 = s0
+  }
+  const power = s1 * s1 + s2 * s2 - coeff * s1 * s2
+  // The Hann window halves the gain
+  return (2 * Math.sqrt(Math.max(0, power))) / (block.length / 2)
+}
+
+/**
+ * Detect mains hum: find the fundamental (50 or 60Hz) and which of its
+ * harmonics are present.
+ *
+ * Hum is steady while playing comes and goes, so each frequency is measured
+ * as the median over up to HUM_MAX_BLOCKS blocks spread across the recording.
+ *
+ * @param audioData - Audio samples
+ * @param sampleRate - Sample rate of the audio
+ * @returns The hum, or null when there is none (or the audio is too short to tell)
+ */
+export function detectHum(audioData: Float32Array, sampleRate: number): HumReading | null {
+  const blockLength = Math.min(audioData.length, Math.round(sampleRate * HUM_BLOCK_SEC))
+  // A block has to hold a few hum cycles
+  if (blockLength < sampleRate / 10) return null
+
+  const blockCount = Math.min(HUM_MAX_BLOCKS, Math.floor(audioData.length / blockLength))
+  const spacing = blockCount > 1 ? (audioData.length - blockLength) / (blockCount - 1) : 0
+  const blocks = Array.from({ length: blockCount }, (_, b) => {
+    const start = Math.round(b * spacing)
+    return audioData
+      .slice(start, start + blockLength)
+      .map((sample, i) => sample * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (blockLength - 1))))
+  })
+
+  const medianAmplitude = (frequency: number) => {
+    const amplitudes = blocks
+      .map((block) => measureToneAmplitude(block, frequency, sampleRate))
+      .sort((a, b) => a - b)
+    return amplitudes[Math.floor(amplitudes.length / 2)]
+  }
+  const minProminence = dbfsToLinear(HUM_PROMINENCE_DB)
+  const maxOffset = Math.max(...HUM_NEIGHBOR_OFFSETS_HZ)
+
+  let loudest: { frequency: number; harmonics: number[]; power: number } | null = null
+  for (const mains of HUM_MAINS_FREQUENCIES) {
+    const harmonics: number[] = []
+    let power = 0
+    for (let h = 1; h <= HUM_MAX_HARMONICS; h++) {
+      const frequency = mains * h
+      if (frequency + maxOffset >= sampleRate / 2) break
+
+      const amplitude = medianAmplitude(frequency)
+      const neighborhood =
+        HUM_NEIGHBOR_OFFSETS_HZ.reduce(
+          (sum, offset) => sum + medianAmplitude(frequency + offset),
+          0
+        ) / HUM_NEIGHBOR_OFFSETS_HZ.length
+      if (amplitude > HUM_MIN_AMPLITUDE && amplitude >= neighborhood * minProminence) {
+        harmonics.push(frequency)
+        // Mean square of a sinusoid is half its squared amplitude
+        power += (amplitude * amplitude) / 2
+      }
+    }
+    if (harmonics.length > 0 && (!loudest || power > loudest.power)) {
+      loudest = { frequency: mains, harmonics, power }
+    }
+  }
+
+  return loudest
+    ? {
+        frequency: loudest.frequency,
+        harmonics: loudest.harmonics,
+        levelDb: linearToDbfs(Math.sqrt(loudest.power)),
+      }
+    : null
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Main Analysis Functions
 // ─────────────────────────────────────────────────────────────────────────────
@@ -116,13 +283,8 @@ export function analyzeAudio(audioData: Float32Array, _sampleRate: number): Audi
     }
   }
 
-  // Calculate overall peak
-  const peakLinear = calculatePeak(audioData, 0, audioData.length)
-  const peakLevelDb = linearToDbfs(peakLinear)
-
-  // Calculate overall RMS
-  const rmsLinear = calculateRms(audioData, 0, audioData.length)
-  const rmsLevelDb = linearToDbfs(rmsLinear)
+  // Calculate overall peak and RMS
+  const { peakLinear, peakLevelDb, rmsLinear, rmsLevelDb } = measureLevel(audioData)
 
   // Frame-by-frame analysis for noise floor and transients
   const frameRmsValues: number[] = []
@@ -137,19 +299,8 @@ export function analyzeAudio(audioData: Float32Array, _sampleRate: number): Audi
 
     // Transient detection: check for sudden energy increase
     const frameEnergy = frameRms * frameRms
-    // Use a small epsilon to avoid division by zero and handle near-silence
-    const MIN_ENERGY = 1e-10
-    if (i > 0) {
-      // For frames coming from near-silence, check absolute energy threshold
-      if (prevFrameEnergy < MIN_ENERGY && frameEnergy > MIN_ENERGY * TRANSIENT_RATIO_THRESHOLD) {
-        // Transition from silence to sound is a transient
-        transientCount++
-      } else if (prevFrameEnergy >= MIN_ENERGY) {
-        const energyRatio = frameEnergy / prevFrameEnergy
-        if (energyRatio > TRANSIENT_RATIO_THRESHOLD) {
-          transientCount++
-        }
-      }
+    if (i > 0 && isTransientFrame(prevFrameEnergy, frameEnergy)) {
+      transientCount++
     }
     prevFrameEnergy = frameEnergy
   }
@@ -246,3 +397,86 @@ export function normalizeAudio(audioData: Float32Array, targetPeakDb: number = -
 
   return gain
 }
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Clipping Repair
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * What repairClipping did.
+ */
+export interface ClippingRepair {
+  /** Clipped stretches found */
+  runs: number
+  /** Samples reconstructed */
+  samples: number
+}
+
+/**
+ * Reconstruct the flattened tops of a clipped recording (in-place modification).
+ *
+ * Only runs when the peak reaches the clipping threshold. Each run of samples
+ * stuck at the peak is replaced by a cubic Hermite curve through the samples
+ * either side of it, using their slopes - so the top rises above the clip
+ * level again instead of adding false high harmonics.
+ *
+ * @param audioData - Audio samples (will be modified in place)
+ * @param metrics - Peak of the samples (from analyzeAudio or measureLevel)
+ */
+export function repairClipping(
+  audioData: Float32Array,
+  metrics: Pick<AudioMetrics, 'peakLevelDb' | 'peakLinear'>
+): ClippingRepair {
+  const repair: ClippingRepair = { runs: 0, samples: 0 }
+  if (metrics.peakLevelDb < CLIPPING_THRESHOLD_DBFS) return repair
+
+  const clipLevel = metrics.peakLinear * CLIPPED_LEVEL_RATIO
+  let i = 0
+  while (i < audioData.length) {
+    if (Math.abs(audioData[i]) < clipLevel) {
+      i++
+      continue
+    }
+
+    // Run of samples at the clip level, on the same side of zero
+    const sign = Math.sign(audioData[i])
+    let end = i
+    while (
+      end < audioData.length &&
+      Math.abs(audioData[end]) >= clipLevel &&
+      Math.sign(audioData[end]) === sign
+    ) {
+      end++
+    }
+
+    // Needs two good samples either side to know where the curve comes from and goes to
+    const before = i - 1
+    const after = end
+    if (end - i >= MIN_CLIPPED_RUN && before >= 1 && after < audioData.length - 1) {
+      const span = after - before
+      const p0 = audioData[before]
+      const p1 = audioData[after]
+      const m0 = (audioData[before] - audioData[before - 1]) * span
+      const m1 = (audioData[after + 1] - audioData[after]) * span
+
+      for (let j = i; j < end; j++) {
+        const t = (j - before) / span
+        const t2 = t * t
+        const t3 = t2 * t
+        const value =
+          (2 * t3 - 3 * t2 + 1) * p0 +
+          (t3 - 2 * t2 + t) * m0 +
+          (-2 * t3 + 3 * t2) * p1 +
+          (t3 - t2) * m1
+        // The real waveform was at least as loud as where it was cut off
+        audioData[j] = sign * Math.max(clipLevel, sign * value)
+      }
+      repair.runs++
+      repair.samples += end - i
+    }
+
+    i = end
+  }
+
+  return repair
+}
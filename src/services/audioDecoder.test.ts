@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { sliceToTimeRange, mixChannels, selectChannel, getHumNotches } from './audioDecoder'
+
+describe('audioDecoder', () => {
+  describe('sliceToTimeRange', () => {
+    // 10 samples per second makes sample indices easy to read
+    const SAMPLE_RATE = 10
+    const samples = Float32Array.from({ length: 50 }, (_, i) => i)
+
+    it('extracts the samples within the range', () => {
+      const slice = sliceToTimeRange(samples, SAMPLE_RATE, { startSec: 1, endSec: 2 })
+      expect(Array.from(slice)).toEqual([10, 11, 12, 13, 14, 15, 16, 17, 18, 19])
+    })
+
+    it('clamps ranges that extend past the audio', () => {
+      const slice = sliceToTimeRange(samples, SAMPLE_RATE, { startSec: -1, endSec: 10 })
+      expect(slice.length).toBe(50)
+    })
+
+    it('returns an empty slice for ranges outside the audio', () => {
+      expect(sliceToTimeRange(samples, SAMPLE_RATE, { startSec: 6, endSec: 8 }).length).toBe(0)
+      expect(sliceToTimeRange(samples, SAMPLE_RATE, { startSec: 3, endSec: 2 }).length).toBe(0)
+    })
+
+    it('returns a copy', () => {
+      const slice = sliceToTimeRange(samples, SAMPLE_RATE, { startSec: 0, endSec: 1 })
+      slice[0] = 99
+      expect(samples[0]).toBe(0)
+    })
+  })
+
+  describe('mixChannels', () => {
+    it('averages the channels', () => {
+      const mix = mixChannels([Float32Array.from([1, 0.5]), Float32Array.from([0, -0.5])])
+      expect(Array.from(mix)).toEqual([0.5, 0])
+    })
+
+    it('treats shorter channels as silence past their end', () => {
+      const mix = mixChannels([Float32Array.from([1, 1]), Float32Array.from([1])])
+      expect(Array.from(mix)).toEqual([1, 0.5])
+    })
+
+    it('returns no samples without channels', () => {
+      expect(mixChannels([]).length).toBe(0)
+    })
+  })
+
+  describe('selectChannel', () => {
+    const channels = [Float32Array.from([1, 1]), Float32Array.from([0, 0])]
+
+    it('picks a single channel', () => {
+      expect(selectChannel(channels, 1)).toBe(channels[1])
+    })
+
+    it('mixes all channels', () => {
+      expect(Array.from(selectChannel(channels, 'mix'))).toEqual([0.5, 0.5])
+    })
+
+    it('rejects channels the recording does not have', () => {
+      expect(() => selectChannel(channels, 2)).toThrow(RangeError)
+    })
+  })
+
+  describe('getHumNotches', () => {
+    const hum = { frequency: 60, harmonics: [60, 180, 300, 540], levelDb: -40 }
+
+    it('notches only the harmonics present', () => {
+      expect(getHumNotches(hum, 16).map((notch) => notch.frequency)).toEqual([60, 180, 300, 540])
+    })
+
+    it('stops at the harmonic limit', () => {
+      expect(getHumNotches(hum, 5).map((notch) => notch.frequency)).toEqual([60, 180, 300])
+    })
+
+    it('notches the fundamental narrowest', () => {
+      const [fundamental, harmonic] = getHumNotches(hum, 16)
+      expect(fundamental.Q).toBeGreaterThan(harmonic.Q)
+    })
+
+    it('adds no notches without hum', () => {
+      expect(getHumNotches(null, 16)).toEqual([])
+    })
+  })
+})
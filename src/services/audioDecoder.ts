@@ -3,8 +3,32 @@
 // Includes professional-grade pre-processing for improved transcription accuracy
 // ─────────────────────────────────────────────────────────────────────────────
 
-import { analyzeAudio, normalizeAudio, type AudioMetrics } from './audioAnalysis'
-import { spectralNoiseReduction, shouldApplyNoiseReduction } from './spectralProcessing'
+import type {
+  AudioMetrics,
+  ChannelSelection,
+  HumReading,
+  PreprocessingReport,
+  PreprocessingStageId,
+  TimeRange,
+} from '../domain/types'
+import { analyzeAudio, measureLevel, normalizeAudio, repairClipping } from './audioAnalysis'
+import {
+  shouldApplyNoiseReduction,
+  estimateNoiseProfile,
+  type NoiseProfile,
+} from './spectralProcessing'
+import {
+  runPipeline,
+  DEFAULT_PREPROCESSING_CONFIG,
+  type PreprocessingConfig,
+  type StageImplementation,
+  type FilterParams,
+  type NoiseReductionParams,
+  type NormalizeParams,
+  type GateParams,
+  type HpssParams,
+} from './preprocessingPipeline'
+import { dspWorker, DspCancelledError } from './dspWorker'
 
 export interface DecodedAudio {
   audioBuffer: AudioBuffer
@@ -17,47 +41,37 @@ export interface PreparedAudio {
   originalSampleRate: number
   durationMs: number
   metrics: AudioMetrics
+  /** What the pre-processing did */
+  report: PreprocessingReport
+  /** Attacks only, for onset detection (when the harmonic/percussive split ran) */
+  percussiveData?: Float32Array
+}
+
+export interface PreprocessOptions {
+  /** Room-tone profile to subtract instead of estimating the noise from the audio itself */
+  noiseProfile?: NoiseProfile
+  /** Stages to run and their params (defaults when omitted) */
+  config?: PreprocessingConfig
+  /** Abort to stop the work (rejects with DspCancelledError) */
+  signal?: AbortSignal
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Audio Pre-processing Constants
 // ─────────────────────────────────────────────────────────────────────────────
 
-// High-pass filter to remove low-frequency rumble
-// 65Hz supports drop C tuning (~65Hz) while filtering sub-bass
-const HIGH_PASS_FREQUENCY = 65
+// Filter cutoffs, peak level and gate ratio are stage params (DEFAULT_PREPROCESSING_CONFIG)
 
-// Low-pass filter - increased to 5kHz to preserve more harmonics
-// Basic Pitch will handle the frequency selection
-const LOW_PASS_FREQUENCY = 5000
-
-// AC hum frequencies to notch out (50Hz in Europe, 60Hz in Americas)
-const HUM_FREQUENCIES = [50, 60]
-// Harmonics of hum frequencies
-const HUM_HARMONICS = [100, 120, 150, 180]
+// Hum notches go only where hum was detected (see detectHum)
 
 // Notch filter Q values (higher = narrower notch)
 const NOTCH_Q_FUNDAMENTAL = 30 // Narrow notch for fundamentals
 const NOTCH_Q_HARMONIC = 20 // Slightly wider for harmonics
 
-// Target normalization level in dBFS
-// -3dBFS is industry standard for headroom
-const TARGET_PEAK_DBFS = -3
-
-// Noise gate threshold - adaptive based on noise floor
-// This is the ratio above noise floor to consider as signal
-// Lower values = more signal passes through
-const NOISE_GATE_RATIO = 1.5
-
 // Gate smoothing parameters (in samples at 22050Hz)
 const GATE_ATTACK_SAMPLES = 220 // ~10ms attack
 const GATE_RELEASE_SAMPLES = 1102 // ~50ms release
 
-// Spectral noise reduction threshold
-// Apply spectral NR if noise floor is above this level (dB)
-// Conservative threshold to avoid processing clean signals
-const SPECTRAL_NR_THRESHOLD_DB = -40
-
 // Frequency bands for frequency-aware gating
 const FREQ_BANDS = {
   bass: { low: 0, high: 250, weight: 0.3 },
@@ -104,24 +118,75 @@ export function audioBufferToMono(audioBuffer: AudioBuffer): Float32Array {
   }
 
   // Mix down to mono by averaging all channels
-  const length = audioBuffer.length
+  return mixChannels(Array.from({ length: numChannels }, (_, ch) => audioBuffer.getChannelData(ch)))
+}
+
+/**
+ * Copy every channel of an AudioBuffer.
+ */
+export function audioBufferToChannels(audioBuffer: AudioBuffer): Float32Array[] {
+  return Array.from(
+    { length: audioBuffer.numberOfChannels },
+    (_, ch) => new Float32Array(audioBuffer.getChannelData(ch))
+  )
+}
+
+/**
+ * Mix channels down to mono by averaging them.
+ * Shorter channels count as silence past their end.
+ */
+export function mixChannels(channels: Float32Array[]): Float32Array {
+  const length = channels.reduce((max, channel) => Math.max(max, channel.length), 0)
   const mono = new Float32Array(length)
+  if (channels.length === 0) return mono
 
-  for (let ch = 0; ch < numChannels; ch++) {
-    const channelData = audioBuffer.getChannelData(ch)
-    for (let i = 0; i < length; i++) {
-      mono[i] += channelData[i]
+  for (const channel of channels) {
+    for (let i = 0; i < channel.length; i++) {
+      mono[i] += channel[i]
     }
   }
 
   // Average
   for (let i = 0; i < length; i++) {
-    mono[i] /= numChannels
+    mono[i] /= channels.length
   }
 
   return mono
 }
 
+/**
+ * Pick the samples to transcribe from a multichannel recording.
+ *
+ * @throws RangeError if the selected channel doesn't exist
+ */
+export function selectChannel(channels: Float32Array[], selection: ChannelSelection): Float32Array {
+  if (selection === 'mix') return mixChannels(channels)
+  const channel = channels[selection]
+  if (!channel) {
+    throw new RangeError(
+      `Channel ${selection + 1} is not available (the recording has ${channels.length})`
+    )
+  }
+  return channel
+}
+
+/**
+ * Extract the samples within a time range.
+ * The range is clamped to the audio, so an out-of-bounds end just stops at the last sample.
+ */
+export function sliceToTimeRange(
+  samples: Float32Array,
+  sampleRate: number,
+  range: TimeRange
+): Float32Array {
+  const startSample = Math.min(samples.length, Math.max(0, Math.floor(range.startSec * sampleRate)))
+  const endSample = Math.min(
+    samples.length,
+    Math.max(startSample, Math.ceil(range.endSec * sampleRate))
+  )
+  return samples.slice(startSample, endSample)
+}
+
 /**
  * Resample audio data to a target sample rate.
  * Uses OfflineAudioContext for high-quality resampling.
@@ -192,30 +257,50 @@ async function applyFilterChain(
   return offlineContext.startRendering()
 }
 
+/**
+ * Notch filters for the detected hum: one per harmonic present, up to the
+ * maxHarmonics-th harmonic of the fundamental.
+ */
+export function getHumNotches(
+  hum: HumReading | null | undefined,
+  maxHarmonics: number
+): Array<{ frequency: number; Q: number }> {
+  if (!hum) return []
+  return hum.harmonics
+    .filter((frequency) => frequency <= hum.frequency * maxHarmonics)
+    .map((frequency) => ({
+      frequency,
+      Q: frequency === hum.frequency ? NOTCH_Q_FUNDAMENTAL : NOTCH_Q_HARMONIC,
+    }))
+}
+
 /**
  * Apply multi-band filtering for noise reduction:
- * 1. Notch filters for AC hum (50/60Hz and harmonics)
+ * 1. Notch filters for the detected mains hum and its harmonics
  * 2. High-pass filter for sub-bass rumble
  * 3. Low-pass filter for high-frequency noise
  */
-async function applyMultiBandFiltering(audioBuffer: AudioBuffer): Promise<AudioBuffer> {
+async function applyMultiBandFiltering(
+  audioBuffer: AudioBuffer,
+  params: FilterParams,
+  hum: HumReading | null
+): Promise<AudioBuffer> {
   const filters: Array<{ type: BiquadFilterType; frequency: number; Q: number }> = []
 
-  // 1. Notch filters for AC hum fundamentals (50Hz and 60Hz)
-  for (const freq of HUM_FREQUENCIES) {
-    filters.push({ type: 'notch', frequency: freq, Q: NOTCH_Q_FUNDAMENTAL })
-  }
-
-  // 2. Notch filters for hum harmonics (100Hz, 120Hz, 150Hz, 180Hz)
-  for (const freq of HUM_HARMONICS) {
-    filters.push({ type: 'notch', frequency: freq, Q: NOTCH_Q_HARMONIC })
+  // 1. Notch filters for the hum harmonics actually present
+  if (params.humNotch) {
+    for (const notch of getHumNotches(hum, params.humHarmonics)) {
+      filters.push({ type: 'notch', ...notch })
+    }
   }
 
-  // 3. High-pass filter for sub-bass rumble
-  filters.push({ type: 'highpass', frequency: HIGH_PASS_FREQUENCY, Q: 0.707 })
+  // 2. High-pass filter for sub-bass rumble
+  filters.push({ type: 'highpass', frequency: params.highPassHz, Q: 0.707 })
 
-  // 4. Low-pass filter for high-frequency noise
-  filters.push({ type: 'lowpass', frequency: LOW_PASS_FREQUENCY, Q: 0.707 })
+  // 3. Low-pass filter for high-frequency noise (only below Nyquist)
+  if (params.lowPassHz < audioBuffer.sampleRate / 2) {
+    filters.push({ type: 'lowpass', frequency: params.lowPassHz, Q: 0.707 })
+  }
 
   return applyFilterChain(audioBuffer, filters)
 }
@@ -253,13 +338,14 @@ async function isolateFrequencyBand(
 async function applyFrequencyAwareGate(
   audioBuffer: AudioBuffer,
   noiseFloorLinear: number,
-  sampleRate: number
+  sampleRate: number,
+  ratio: number
 ): Promise<Float32Array> {
   // Get mono audio data
   const audioData = audioBufferToMono(audioBuffer)
 
   // Calculate threshold as a multiple of the noise floor
-  const threshold = noiseFloorLinear * NOISE_GATE_RATIO
+  const threshold = noiseFloorLinear * ratio
 
   // Scale attack/release to current sample rate
   const attackSamples = Math.round((GATE_ATTACK_SAMPLES * sampleRate) / 22050)
@@ -342,10 +428,11 @@ async function applyFrequencyAwareGate(
 function applySimpleNoiseGate(
   audioData: Float32Array,
   noiseFloorLinear: number,
-  sampleRate: number
+  sampleRate: number,
+  ratio: number
 ): Float32Array {
   // Calculate threshold as a multiple of the noise floor
-  const threshold = noiseFloorLinear * NOISE_GATE_RATIO
+  const threshold = noiseFloorLinear * ratio
 
   // Scale attack/release to current sample rate
   const attackSamples = Math.round((GATE_ATTACK_SAMPLES * sampleRate) / 22050)
@@ -398,76 +485,362 @@ function applySimpleNoiseGate(
 }
 
 /**
- * Full pre-processing pipeline for transcription:
- * 1. Multi-band filtering (notch + HP + LP)
- * 2. Resampling to target rate
- * 3. Convert to mono
- * 4. Analyze audio metrics
- * 5. Spectral noise reduction (if signal is noisy)
- * 6. Normalize to target level
- * 7. Frequency-aware noise gate
+ * Wrap mono samples in an AudioBuffer for Web Audio processing.
  */
-async function preprocessForTranscription(
-  audioBuffer: AudioBuffer,
-  targetSampleRate: number
-): Promise<{ audioData: Float32Array; metrics: AudioMetrics }> {
-  // Step 1: Multi-band filtering (before resampling for better quality)
-  const filteredBuffer = await applyMultiBandFiltering(audioBuffer)
+function toAudioBuffer(samples: Float32Array, sampleRate: number): AudioBuffer {
+  const audioBuffer = new AudioBuffer({ numberOfChannels: 1, length: samples.length, sampleRate })
+  audioBuffer.copyToChannel(new Float32Array(samples), 0)
+  return audioBuffer
+}
 
-  // Step 2: Resample to target rate
-  const resampledBuffer = await resampleAudio(filteredBuffer, targetSampleRate)
+function formatDb(db: number): string {
+  return Number.isFinite(db) ? db.toFixed(1) : '-∞'
+}
 
-  // Step 3: Convert to mono Float32Array
-  let audioData = audioBufferToMono(resampledBuffer)
+/**
+ * The work done by each stage of the pre-processing pipeline.
+ *
+ * Stages share what the analyze stage measured: the noise floor decides
+ * whether noise reduction runs and where the gate opens. Analysis and noise
+ * reduction run in the DSP worker; stages needing Web Audio stay here.
+ *
+ * @param channels - Input channels (mixed by the mono stage)
+ * @param sourceSampleRate - Sample rate of the input
+ * @param targetSampleRate - Sample rate to resample to
+ * @param options - Room tone to subtract instead of the in-signal estimate, abort signal
+ */
+function createStages(
+  channels: Float32Array[],
+  sourceSampleRate: number,
+  targetSampleRate: number,
+  { noiseProfile, signal }: Pick<PreprocessOptions, 'noiseProfile' | 'signal'> = {}
+): {
+  stages: Record<PreprocessingStageId, StageImplementation>
+  getInputMetrics: () => AudioMetrics
+  getMetrics: () => AudioMetrics
+  getPercussive: () => Float32Array | undefined
+  getRepairedSamples: () => number
+} {
+  let inputMetrics: AudioMetrics | null = null
+  let metrics: AudioMetrics | null = null
+  // Hum of the input, found before any filtering
+  let hum: HumReading | null = null
+  const measured = (samples: Float32Array, sampleRate: number) =>
+    metrics ?? (metrics = analyzeAudio(samples, sampleRate))
+  let spectralNrApplied = false
+  // Percussive part, when the harmonic/percussive split ran
+  let percussive: Float32Array | undefined
+  let repairedSamples = 0
+
+  // A room-tone profile only fits audio at the rate it was measured at
+  const profile = noiseProfile?.sampleRate === targetSampleRate ? noiseProfile : undefined
+
+  const stages: Record<PreprocessingStageId, StageImplementation> = {
+    mono: async () => {
+      // Always a copy - later stages work in place, and the worker takes the buffer
+      const mono = channels.length === 1 ? new Float32Array(channels[0]) : mixChannels(channels)
+      const analyzed = await dspWorker.run(
+        { type: 'analyze', samples: mono, sampleRate: sourceSampleRate },
+        signal
+      )
+      const humDetected = await dspWorker.run(
+        { type: 'detectHum', samples: analyzed.samples, sampleRate: sourceSampleRate },
+        signal
+      )
+      inputMetrics = analyzed.metrics
+      hum = humDetected.hum
+      return {
+        audio: { samples: humDetected.samples, sampleRate: sourceSampleRate },
+        ran: channels.length > 1,
+        note: channels.length > 1 ? `${channels.length} channels mixed` : 'Already mono',
+      }
+    },
+
+    // Before the filters, which would smear the flat tops the declipper looks for
+    declip: (audio) => {
+      const repair = repairClipping(
+        audio.samples,
+        inputMetrics ?? analyzeAudio(audio.samples, audio.sampleRate)
+      )
+      repairedSamples = repair.samples
+      return {
+        audio,
+        ran: repair.samples > 0,
+        note:
+          repair.samples > 0
+            ? `Repaired ${repair.samples} samples in ${repair.runs} clipped peaks`
+            : 'No clipping found',
+      }
+    },
+
+    filter: async ({ samples, sampleRate }, params) => {
+      const filterParams = params as FilterParams
+      const filtered = await applyMultiBandFiltering(
+        toAudioBuffer(samples, sampleRate),
+        filterParams,
+        hum
+      )
+      const notches = filterParams.humNotch ? getHumNotches(hum, filterParams.humHarmonics) : []
+      return {
+        audio: { samples: audioBufferToMono(filtered), sampleRate },
+        ran: true,
+        note:
+          notches.length > 0
+            ? `Notched ${notches.map((notch) => notch.frequency).join(', ')} Hz`
+            : hum && filterParams.humNotch
+              ? 'Hum beyond the harmonic limit'
+              : 'No hum notches',
+      }
+    },
+
+    resample: async (audio) => {
+      if (audio.sampleRate === targetSampleRate) {
+        return {
+          audio,
+          ran: false,
+          note: 'Already at target rate',
+          params: { fromHz: audio.sampleRate, toHz: targetSampleRate },
+        }
+      }
+      const resampled = await resampleAudio(
+        toAudioBuffer(audio.samples, audio.sampleRate),
+        targetSampleRate
+      )
+      return {
+        audio: { samples: audioBufferToMono(resampled), sampleRate: targetSampleRate },
+        ran: true,
+        params: { fromHz: audio.sampleRate, toHz: targetSampleRate },
+      }
+    },
+
+    // Metrics before normalization - used for adaptive thresholds
+    analyze: async ({ samples, sampleRate }) => {
+      const analyzed = await dspWorker.run({ type: 'analyze', samples, sampleRate }, signal)
+      metrics = analyzed.metrics
+      return {
+        audio: { samples: analyzed.samples, sampleRate },
+        ran: true,
+        note: `Noise floor ${formatDb(metrics.noiseFloorDb)} dB`,
+      }
+    },
+
+    // Spectral subtraction for noisy signals. A room-tone profile replaces the
+    // in-signal estimate, which fails on dense riffs without quiet gaps - its
+    // level also decides whether the room is noisy.
+    noiseReduction: async (audio, params) => {
+      const { thresholdDb } = params as NoiseReductionParams
+      const noiseFloorDb =
+        profile?.noiseFloorDb ?? measured(audio.samples, audio.sampleRate).noiseFloorDb
+      const noiseSource = profile ? 'room tone' : 'quietest frames'
+
+      if (noiseFloorDb <= thresholdDb) {
+        return {
+          audio,
+          ran: false,
+          note: `Noise floor ${formatDb(noiseFloorDb)} dB is below the threshold`,
+          params: { noiseSource },
+        }
+      }
+      try {
+        // Send a copy so the audio is still there if noise reduction fails
+        const { samples } = await dspWorker.run(
+          {
+            type: 'noiseReduction',
+            samples: audio.samples.slice(),
+            sampleRate: audio.sampleRate,
+            noiseSpectrum: profile?.spectrum,
+          },
+          signal
+        )
+        spectralNrApplied = true
+        return { audio: { ...audio, samples }, ran: true, params: { noiseSource } }
+      } catch (err) {
+        if (err instanceof DspCancelledError) throw err
+
+        // If spectral NR fails, continue without it
+        console.warn('Spectral noise reduction failed, continuing without:', err)
+        return { audio, ran: false, note: 'Failed - skipped', params: { noiseSource } }
+      }
+    },
+
+    normalize: (audio, params) => {
+      normalizeAudio(audio.samples, (params as NormalizeParams).targetPeakDbfs)
+      return { audio, ran: true }
+    },
+
+    gate: async (audio, params) => {
+      const { ratio } = params as GateParams
+      const { samples, sampleRate } = audio
+      const { noiseFloorDb } = measured(samples, sampleRate)
+
+      // Convert noise floor from dB to linear for the gate
+      const noiseFloorLinear = Math.pow(10, noiseFloorDb / 20)
+      const isNoisy = shouldApplyNoiseReduction(samples, profile?.noiseFloorDb ?? noiseFloorDb)
+
+      // If spectral NR was applied, use simple gate to avoid double-processing
+      // Otherwise, use frequency-aware gate for noisy signals
+      if (spectralNrApplied || !isNoisy) {
+        return {
+          audio: {
+            samples: applySimpleNoiseGate(samples, noiseFloorLinear, sampleRate, ratio),
+            sampleRate,
+          },
+          ran: true,
+          params: { mode: 'simple' },
+        }
+      }
+      try {
+        const gated = await applyFrequencyAwareGate(
+          toAudioBuffer(samples, sampleRate),
+          noiseFloorLinear,
+          sampleRate,
+          ratio
+        )
+        return {
+          audio: { samples: gated, sampleRate },
+          ran: true,
+          params: { mode: 'frequency-aware' },
+        }
+      } catch {
+        // Fallback to simple gate if frequency-aware fails
+        return {
+          audio: {
+            samples: applySimpleNoiseGate(samples, noiseFloorLinear, sampleRate, ratio),
+            sampleRate,
+          },
+          ran: true,
+          params: { mode: 'simple' },
+        }
+      }
+    },
+
+    // The harmonic part goes on to pitch detection; the percussive part is
+    // kept for onset detection
+    hpss: async (audio, params) => {
+      const { harmonicKernelMs, percussiveKernelHz } = params as HpssParams
+      try {
+        // Send a copy so the audio is still there if the split fails
+        const parts = await dspWorker.run(
+          {
+            type: 'separateHarmonicPercussive',
+            samples: audio.samples.slice(),
+            sampleRate: audio.sampleRate,
+            harmonicKernelMs,
+            percussiveKernelHz,
+          },
+          signal
+        )
+        percussive = parts.percussive
+        return {
+          audio: { ...audio, samples: parts.harmonic },
+          ran: true,
+          note: `Percussive part at ${formatDb(measureLevel(parts.percussive).rmsLevelDb)} dB RMS`,
+        }
+      } catch (err) {
+        if (err instanceof DspCancelledError) throw err
+
+        console.warn('Harmonic/percussive separation failed, continuing without:', err)
+        return { audio, ran: false, note: 'Failed - skipped' }
+      }
+    },
+  }
 
-  // Step 4: Analyze audio metrics (before normalization)
-  const metrics = analyzeAudio(audioData, targetSampleRate)
+  // Mono and analyze always run, but measure the input if they didn't
+  const measureInput = () => analyzeAudio(channels[0] ?? new Float32Array(0), sourceSampleRate)
+  return {
+    stages,
+    getInputMetrics: () => ({ ...(inputMetrics ?? measureInput()), hum }),
+    getMetrics: () => ({ ...(metrics ?? measureInput()), hum }),
+    getPercussive: () => percussive,
+    getRepairedSamples: () => repairedSamples,
+  }
+}
 
-  // Step 5: Apply spectral noise reduction for noisy signals
-  // This helps clean up background noise before pitch detection
-  const isNoisy = shouldApplyNoiseReduction(audioData, metrics.noiseFloorDb)
-  let spectralNrApplied = false
-  if (isNoisy && metrics.noiseFloorDb > SPECTRAL_NR_THRESHOLD_DB) {
-    try {
-      audioData = spectralNoiseReduction(audioData, targetSampleRate)
-      spectralNrApplied = true
-    } catch (err) {
-      // If spectral NR fails, continue without it
-      console.warn('Spectral noise reduction failed, continuing without:', err)
-    }
+/**
+ * Full pre-processing pipeline for transcription (see PREPROCESSING_STAGES):
+ * 1. Convert to mono
+ * 2. Repair clipped peaks
+ * 3. Multi-band filtering (notch + HP + LP)
+ * 4. Resampling to target rate
+ * 5. Analyze audio metrics
+ * 6. Spectral noise reduction (if signal is noisy)
+ * 7. Normalize to target level
+ * 8. Frequency-aware noise gate
+ * 9. Harmonic/percussive separation (off by default)
+ *
+ * Stages 2-3 and 6-9 can be switched off and tuned through options.config.
+ */
+async function preprocessForTranscription(
+  channels: Float32Array[],
+  sourceSampleRate: number,
+  targetSampleRate: number,
+  options: PreprocessOptions = {}
+): Promise<Omit<PreparedAudio, 'originalSampleRate' | 'durationMs'>> {
+  const { stages, getInputMetrics, getMetrics, getPercussive, getRepairedSamples } = createStages(
+    channels,
+    sourceSampleRate,
+    targetSampleRate,
+    options
+  )
+  // The mono stage builds its audio from all channels
+  const { audio, stages: stageReports } = await runPipeline(
+    { samples: channels[0], sampleRate: sourceSampleRate },
+    stages,
+    options.config
+  )
+  const processed = await dspWorker.run(
+    { type: 'analyze', samples: audio.samples, sampleRate: audio.sampleRate },
+    options.signal
+  )
+
+  return {
+    audioData: processed.samples,
+    metrics: getMetrics(),
+    report: {
+      stages: stageReports,
+      before: getInputMetrics(),
+      after: processed.metrics,
+      repairedSamples: getRepairedSamples(),
+    },
+    percussiveData: getPercussive(),
   }
+}
 
-  // Step 6: Normalize to target level
-  normalizeAudio(audioData, TARGET_PEAK_DBFS)
-
-  // Step 7: Apply noise gate
-  // Convert noise floor from dB to linear for the gate
-  const noiseFloorLinear = Math.pow(10, metrics.noiseFloorDb / 20)
-
-  // If spectral NR was applied, use simple gate to avoid double-processing
-  // Otherwise, use frequency-aware gate for noisy signals
-  if (spectralNrApplied) {
-    // Spectral NR already cleaned the noise, use light simple gate
-    audioData = applySimpleNoiseGate(audioData, noiseFloorLinear, targetSampleRate)
-  } else if (isNoisy) {
-    // No spectral NR, use frequency-aware gate for better noise handling
-    const tempContext = new AudioContext()
-    try {
-      const tempBuffer = tempContext.createBuffer(1, audioData.length, targetSampleRate)
-      tempBuffer.copyToChannel(audioData, 0)
-      audioData = await applyFrequencyAwareGate(tempBuffer, noiseFloorLinear, targetSampleRate)
-    } catch {
-      // Fallback to simple gate if frequency-aware fails
-      audioData = applySimpleNoiseGate(audioData, noiseFloorLinear, targetSampleRate)
-    } finally {
-      await tempContext.close()
+/**
+ * Build a noise profile from a recording of room tone (nothing playing),
+ * filtered and resampled like the audio it will be subtracted from.
+ *
+ * @param rawPcmData - Room tone samples (mono)
+ * @param sourceSampleRate - Sample rate of the room tone
+ * @param targetSampleRate - Sample rate the profile will be used at (default 22050 Hz)
+ */
+export async function prepareNoiseProfile(
+  rawPcmData: Float32Array,
+  sourceSampleRate: number,
+  targetSampleRate: number = 22050,
+  config: PreprocessingConfig = DEFAULT_PREPROCESSING_CONFIG
+): Promise<NoiseProfile> {
+  // Only the stages that run before noise reduction
+  const { stages } = createStages([rawPcmData], sourceSampleRate, targetSampleRate)
+  const off = { enabled: false }
+  const { audio } = await runPipeline(
+    { samples: rawPcmData, sampleRate: sourceSampleRate },
+    stages,
+    {
+      declip: config.declip,
+      filter: config.filter,
+      noiseReduction: { ...config.noiseReduction, ...off },
+      normalize: { ...config.normalize, ...off },
+      gate: { ...config.gate, ...off },
+      hpss: { ...config.hpss, ...off },
     }
-  } else {
-    // Clean signal, use simple gate
-    audioData = applySimpleNoiseGate(audioData, noiseFloorLinear, targetSampleRate)
-  }
+  )
 
-  return { audioData, metrics }
+  return {
+    spectrum: estimateNoiseProfile(audio.samples, targetSampleRate),
+    sampleRate: targetSampleRate,
+    noiseFloorDb: measureLevel(audio.samples).rmsLevelDb,
+  }
 }
 
 /**
@@ -477,23 +850,38 @@ async function preprocessForTranscription(
  * NOTE: This path uses lossy-compressed audio (from MediaRecorder).
  * For better transcription accuracy, use prepareRawPcmForTranscription when
  * raw PCM data is available from AudioWorklet capture.
+ *
+ * When a range is given, only that slice of the decoded audio is processed.
+ * When a channel is given, only that channel of multichannel audio is used.
  */
 export async function prepareAudioForTranscription(
   blob: Blob,
-  targetSampleRate: number = 22050
+  targetSampleRate: number = 22050,
+  range?: TimeRange,
+  channel?: ChannelSelection,
+  options: PreprocessOptions = {}
 ): Promise<PreparedAudio> {
   // Step 1: Decode the blob
   const { audioBuffer, sampleRate, durationMs } = await decodeAudioBlob(blob)
 
-  // Step 2-6: Full pre-processing pipeline
-  const { audioData, metrics } = await preprocessForTranscription(audioBuffer, targetSampleRate)
-
-  return {
-    audioData,
-    originalSampleRate: sampleRate,
-    durationMs,
-    metrics,
+  // Only part of the recording, or a single channel: continue on the mono samples
+  const pickChannel = channel !== undefined && audioBuffer.numberOfChannels > 1
+  if (range || pickChannel) {
+    const samples = pickChannel
+      ? selectChannel(audioBufferToChannels(audioBuffer), channel)
+      : audioBufferToMono(audioBuffer)
+    return prepareRawPcmForTranscription(samples, sampleRate, targetSampleRate, range, options)
   }
+
+  // Step 2-9: Full pre-processing pipeline
+  const prepared = await preprocessForTranscription(
+    audioBufferToChannels(audioBuffer),
+    sampleRate,
+    targetSampleRate,
+    options
+  )
+
+  return { ...prepared, originalSampleRate: sampleRate, durationMs }
 }
 
 /**
@@ -508,37 +896,31 @@ export async function prepareAudioForTranscription(
  * - Loudness normalization
  * - Adaptive noise gate
  *
- * @param pcmData - Raw PCM samples as Float32Array (mono)
+ * @param rawPcmData - Raw PCM samples as Float32Array (mono)
  * @param sourceSampleRate - Sample rate of the input data (typically 44100 or 48000 Hz)
  * @param targetSampleRate - Target sample rate for Basic Pitch (default 22050 Hz)
+ * @param range - Only prepare this part of the recording
+ * @param options - Pre-processing options (e.g. a room-tone noise profile)
  */
 export async function prepareRawPcmForTranscription(
-  pcmData: Float32Array,
+  rawPcmData: Float32Array,
   sourceSampleRate: number,
-  targetSampleRate: number = 22050
+  targetSampleRate: number = 22050,
+  range?: TimeRange,
+  options: PreprocessOptions = {}
 ): Promise<PreparedAudio> {
+  const pcmData = range ? sliceToTimeRange(rawPcmData, sourceSampleRate, range) : rawPcmData
   const durationMs = Math.round((pcmData.length / sourceSampleRate) * 1000)
 
-  // Create an AudioBuffer from the raw PCM data
-  const audioContext = new AudioContext()
-
-  try {
-    // Create a buffer with the raw PCM data
-    const sourceBuffer = audioContext.createBuffer(1, pcmData.length, sourceSampleRate)
-    sourceBuffer.copyToChannel(new Float32Array(pcmData), 0)
-
-    // Full pre-processing pipeline
-    const { audioData, metrics } = await preprocessForTranscription(sourceBuffer, targetSampleRate)
+  // Full pre-processing pipeline
+  const prepared = await preprocessForTranscription(
+    [pcmData],
+    sourceSampleRate,
+    targetSampleRate,
+    options
+  )
 
-    return {
-      audioData,
-      originalSampleRate: sourceSampleRate,
-      durationMs,
-      metrics,
-    }
-  } finally {
-    await audioContext.close()
-  }
+  return { ...prepared, originalSampleRate: sourceSampleRate, durationMs }
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
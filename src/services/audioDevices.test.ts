@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { toAudioInputDevices } from './audioDevices'
+
+describe('audioDevices', () => {
+  describe('toAudioInputDevices', () => {
+    it('keeps only audio inputs', () => {
+      const devices = toAudioInputDevices([
+        { deviceId: 'mic', kind: 'audioinput', label: 'Built-in Microphone' },
+        { deviceId: 'spk', kind: 'audiooutput', label: 'Speakers' },
+        { deviceId: 'cam', kind: 'videoinput', label: 'Camera' },
+      ])
+      expect(devices).toEqual([{ deviceId: 'mic', label: 'Built-in Microphone' }])
+    })
+
+    it('drops default and communications aliases', () => {
+      const devices = toAudioInputDevices([
+        { deviceId: 'default', kind: 'audioinput', label: 'Default - Interface' },
+        { deviceId: 'communications', kind: 'audioinput', label: 'Communications' },
+        { deviceId: 'iface', kind: 'audioinput', label: 'USB Interface' },
+      ])
+      expect(devices.map((d) => d.deviceId)).toEqual(['iface'])
+    })
+
+    it('names unlabeled devices before permission is granted', () => {
+      const devices = toAudioInputDevices([
+        { deviceId: 'a', kind: 'audioinput', label: '' },
+        { deviceId: 'b', kind: 'audioinput', label: '' },
+      ])
+      expect(devices.map((d) => d.label)).toEqual(['Microphone 1', 'Microphone 2'])
+    })
+
+    it('skips devices without an id', () => {
+      expect(toAudioInputDevices([{ deviceId: '', kind: 'audioinput', label: '' }])).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,70 @@
+import { useState, useCallback, useEffect } from 'react'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface AudioInputDevice {
+  deviceId: string
+  label: string
+}
+
+export interface UseAudioInputDevicesReturn {
+  devices: AudioInputDevice[]
+  /** Re-enumerate devices (labels only become available after mic permission is granted) */
+  refresh: () => Promise<void>
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Device List
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Chrome's pseudo-devices that alias a real input
+const ALIAS_DEVICE_IDS = ['default', 'communications']
+
+/**
+ * Turn enumerated media devices into a list of selectable inputs.
+ * Aliases are dropped (the UI offers its own "default" entry) and unlabeled
+ * devices get a numbered fallback name.
+ */
+export function toAudioInputDevices(
+  devices: Pick<MediaDeviceInfo, 'deviceId' | 'kind' | 'label'>[]
+): AudioInputDevice[] {
+  return devices
+    .filter((device) => device.kind === 'audioinput')
+    .filter((device) => device.deviceId && !ALIAS_DEVICE_IDS.includes(device.deviceId))
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      label: device.label || `Microphone ${index + 1}`,
+    }))
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Hook
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * List available audio inputs, updating when devices are plugged in or removed.
+ */
+export function useAudioInputDevices(): UseAudioInputDevicesReturn {
+  const [devices, setDevices] = useState<AudioInputDevice[]>([])
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return
+    try {
+      setDevices(toAudioInputDevices(await navigator.mediaDevices.enumerateDevices()))
+    } catch (err) {
+      console.warn('Could not list audio inputs:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    navigator.mediaDevices?.addEventListener('devicechange', refresh)
+    return () => {
+      navigator.mediaDevices?.removeEventListener('devicechange', refresh)
+    }
+  }, [refresh])
+
+  return { devices, refresh }
+}
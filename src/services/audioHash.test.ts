@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest'
+import { hashSamples } from './audioHash'
+
+describe('audioHash', () => {
+  const createTone = (length: number) =>
+    Float32Array.from({ length }, (_, i) => 0.5 * Math.sin((2 * Math.PI * 440 * i) / 22050))
+
+  it('hashes equal audio alike', () => {
+    expect(hashSamples(createTone(4096))).toBe(hashSamples(createTone(4096)))
+  })
+
+  it('changes when a single sample changes', () => {
+    const changed = createTone(4096)
+    changed[2000] += 1e-6
+
+    expect(hashSamples(changed)).not.toBe(hashSamples(createTone(4096)))
+  })
+
+  it('tells silences of different lengths apart', () => {
+    expect(hashSamples(new Float32Array(100))).not.toBe(hashSamples(new Float32Array(101)))
+  })
+
+  it('hashes only the samples a view covers', () => {
+    const tone = createTone(4096)
+    const padded = new Float32Array(5000)
+    padded.set(tone, 500)
+
+    expect(hashSamples(padded.subarray(500, 4596))).toBe(hashSamples(tone))
+  })
+})
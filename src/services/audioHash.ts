@@ -0,0 +1,32 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Audio Hash: A cheap fingerprint of audio samples, for caching what's been
+// computed from them
+// ─────────────────────────────────────────────────────────────────────────────
+
+// FNV-1a parameters (32-bit)
+const FNV_OFFSET_BASIS = 0x811c9dc5
+const FNV_PRIME = 0x01000193
+
+// Second lane: a different seed and multiplier, so the two together make a
+// 64-bit hash
+const SECOND_SEED = 0x9e3779b9
+const SECOND_PRIME = 0x5bd1e995
+
+/**
+ * Hash audio samples by their exact bits (and count). Equal audio always
+ * hashes alike; any change to a sample gives a different hash.
+ *
+ * Reads the samples once (a few ms for a minute of audio at 22050Hz).
+ */
+export function hashSamples(samples: Float32Array): string {
+  const words = new Uint32Array(samples.buffer, samples.byteOffset, samples.length)
+
+  let first = FNV_OFFSET_BASIS
+  let second = SECOND_SEED
+  for (let i = 0; i < words.length; i++) {
+    first = Math.imul(first ^ words[i], FNV_PRIME)
+    second = Math.imul(second ^ words[i], SECOND_PRIME) ^ (second >>> 15)
+  }
+
+  return [samples.length, first >>> 0, second >>> 0].map((n) => n.toString(36)).join('-')
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest'
+import {
+  isSupportedAudioFile,
+  isLosslessAudioFile,
+  getDefaultImportRegion,
+  clampImportRegion,
+  encodeWav,
+  ACCEPTED_AUDIO_FILES,
+} from './audioImport'
+
+describe('audioImport', () => {
+  describe('isSupportedAudioFile', () => {
+    it('accepts any audio MIME type', () => {
+      expect(isSupportedAudioFile({ name: 'memo', type: 'audio/mpeg' })).toBe(true)
+      expect(isSupportedAudioFile({ name: 'memo', type: 'audio/ogg' })).toBe(true)
+    })
+
+    it('falls back to the file extension when the MIME type is empty', () => {
+      expect(isSupportedAudioFile({ name: 'bounce.WAV', type: '' })).toBe(true)
+      expect(isSupportedAudioFile({ name: 'take.flac', type: '' })).toBe(true)
+      expect(isSupportedAudioFile({ name: 'riff.mp3', type: '' })).toBe(true)
+    })
+
+    it('rejects non-audio files', () => {
+      expect(isSupportedAudioFile({ name: 'notes.txt', type: 'text/plain' })).toBe(false)
+      expect(isSupportedAudioFile({ name: 'cover.png', type: '' })).toBe(false)
+    })
+  })
+
+  describe('ACCEPTED_AUDIO_FILES', () => {
+    it('lets the picker offer every extension a drop accepts', () => {
+      const extensions = ACCEPTED_AUDIO_FILES.split(',').filter((entry) => entry.startsWith('.'))
+
+      for (const extension of extensions) {
+        expect(isSupportedAudioFile({ name: `take${extension}`, type: '' }), extension).toBe(true)
+      }
+      expect(extensions).toEqual(expect.arrayContaining(['.aif', '.aiff', '.wav', '.mp3']))
+      expect(new Set(extensions).size).toBe(extensions.length)
+    })
+  })
+
+  describe('isLosslessAudioFile', () => {
+    it('detects lossless formats by MIME type', () => {
+      expect(isLosslessAudioFile({ name: 'a', type: 'audio/wav' })).toBe(true)
+      expect(isLosslessAudioFile({ name: 'a', type: 'audio/x-flac' })).toBe(true)
+    })
+
+    it('detects lossless formats by extension', () => {
+      expect(isLosslessAudioFile({ name: 'bounce.wav', type: '' })).toBe(true)
+      expect(isLosslessAudioFile({ name: 'bounce.aiff', type: '' })).toBe(true)
+    })
+
+    it('treats compressed formats as lossy', () => {
+      expect(isLosslessAudioFile({ name: 'memo.mp3', type: 'audio/mpeg' })).toBe(false)
+      expect(isLosslessAudioFile({ name: 'memo.ogg', type: 'audio/ogg' })).toBe(false)
+      expect(isLosslessAudioFile({ name: 'memo.m4a', type: 'audio/mp4' })).toBe(false)
+    })
+  })
+
+  describe('getDefaultImportRegion', () => {
+    it('covers the whole file when it is short enough', () => {
+      expect(getDefaultImportRegion(12, 20)).toEqual({ startSec: 0, endSec: 12 })
+    })
+
+    it('covers the first maxDuration seconds of long files', () => {
+      expect(getDefaultImportRegion(95, 20)).toEqual({ startSec: 0, endSec: 20 })
+    })
+  })
+
+  describe('clampImportRegion', () => {
+    it('keeps valid regions unchanged', () => {
+      expect(clampImportRegion({ startSec: 10, endSec: 25 }, 60, 20)).toEqual({
+        startSec: 10,
+        endSec: 25,
+      })
+    })
+
+    it('limits region length to the maximum duration', () => {
+      expect(clampImportRegion({ startSec: 5, endSec: 50 }, 60, 20)).toEqual({
+        startSec: 5,
+        endSec: 25,
+      })
+    })
+
+    it('clamps regions to the file bounds', () => {
+      expect(clampImportRegion({ startSec: -3, endSec: 10 }, 60, 20)).toEqual({
+        startSec: 0,
+        endSec: 10,
+      })
+      expect(clampImportRegion({ startSec: 50, endSec: 70 }, 60, 20)).toEqual({
+        startSec: 50,
+        endSec: 60,
+      })
+    })
+
+    it('never produces an end before the start', () => {
+      const region = clampImportRegion({ startSec: 30, endSec: 10 }, 60, 20)
+      expect(region.endSec).toBeGreaterThanOrEqual(region.startSec)
+    })
+  })
+
+  describe('encodeWav', () => {
+    it('writes a valid 16-bit mono PCM header', async () => {
+      const samples = new Float32Array(100)
+      const blob = encodeWav(samples, 44100)
+      const view = new DataView(await blob.arrayBuffer())
+
+      const ascii = (offset: number) =>
+        String.fromCharCode(...Array.from({ length: 4 }, (_, i) => view.getUint8(offset + i)))
+
+      expect(blob.type).toBe('audio/wav')
+      expect(ascii(0)).toBe('RIFF')
+      expect(ascii(8)).toBe('WAVE')
+      expect(view.getUint16(20, true)).toBe(1) // PCM
+      expect(view.getUint16(22, true)).toBe(1) // mono
+      expect(view.getUint32(24, true)).toBe(44100)
+      expect(view.getUint16(34, true)).toBe(16)
+      expect(view.getUint32(40, true)).toBe(200) // 100 samples * 2 bytes
+      expect(blob.size).toBe(244)
+    })
+
+    it('converts and clamps sample values', async () => {
+      const samples = new Float32Array([0, 0.5, -0.5, 1, -1, 2, -2])
+      const view = new DataView(await encodeWav(samples, 22050).arrayBuffer())
+      const sampleAt = (i: number) => view.getInt16(44 + i * 2, true)
+
+      expect(sampleAt(0)).toBe(0)
+      expect(sampleAt(1)).toBe(Math.trunc(0.5 * 0x7fff))
+      expect(sampleAt(2)).toBe(-0x4000)
+      expect(sampleAt(3)).toBe(0x7fff)
+      expect(sampleAt(4)).toBe(-0x8000)
+      expect(sampleAt(5)).toBe(0x7fff)
+      expect(sampleAt(6)).toBe(-0x8000)
+    })
+
+    it('interleaves multiple channels', async () => {
+      const left = new Float32Array([0.5, 0.5])
+      const right = new Float32Array([-0.5, -0.5])
+      const view = new DataView(await encodeWav([left, right], 48000).arrayBuffer())
+
+      expect(view.getUint16(22, true)).toBe(2) // stereo
+      expect(view.getUint32(28, true)).toBe(48000 * 4) // byte rate
+      expect(view.getUint16(32, true)).toBe(4) // block align
+      expect(view.getUint32(40, true)).toBe(8) // 2 frames * 2 channels * 2 bytes
+      expect(view.getInt16(44, true)).toBeGreaterThan(0)
+      expect(view.getInt16(46, true)).toBeLessThan(0)
+    })
+  })
+})
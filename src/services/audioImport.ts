@@ -0,0 +1,227 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Audio Import: File → RecordingAsset
+// Lets users analyze existing voice memos and DAW bounces instead of recording
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { RecordingAsset, TimeRange } from '../domain/types'
+import {
+  decodeAudioBlob,
+  audioBufferToMono,
+  audioBufferToChannels,
+  sliceToTimeRange,
+} from './audioDecoder'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A decoded audio file, kept around while the user picks a region to analyze.
+ */
+export interface DecodedAudioFile {
+  file: File
+  audioBuffer: AudioBuffer
+  durationMs: number
+  /** Whether the file uses a lossless codec (WAV, FLAC, AIFF) */
+  lossless: boolean
+}
+
+/**
+ * Minimal file description used for format checks (File satisfies this).
+ */
+interface AudioFileInfo {
+  name: string
+  type: string
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Extensions we accept from the file picker / drag-and-drop
+const SUPPORTED_EXTENSIONS = ['wav', 'wave', 'mp3', 'ogg', 'oga', 'opus', 'flac', 'm4a', 'aac']
+
+// Lossless formats: decoded samples are bit-exact, so they can feed the HQ path
+const LOSSLESS_EXTENSIONS = ['wav', 'wave', 'flac', 'aif', 'aiff']
+const LOSSLESS_MIME_TYPES = [
+  'audio/wav',
+  'audio/wave',
+  'audio/x-wav',
+  'audio/vnd.wave',
+  'audio/flac',
+  'audio/x-flac',
+  'audio/aiff',
+  'audio/x-aiff',
+]
+
+// Every extension we take, lossless formats the browser may not list as audio included
+const ACCEPTED_EXTENSIONS = [...new Set([...SUPPORTED_EXTENSIONS, ...LOSSLESS_EXTENSIONS])]
+
+/** Value for the `accept` attribute of the file input */
+export const ACCEPTED_AUDIO_FILES = `audio/*,${ACCEPTED_EXTENSIONS.map((ext) => `.${ext}`).join(',')}`
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Format Detection
+// ─────────────────────────────────────────────────────────────────────────────
+
+function getExtension(fileName: string): string {
+  const dotIndex = fileName.lastIndexOf('.')
+  return dotIndex >= 0 ? fileName.slice(dotIndex + 1).toLowerCase() : ''
+}
+
+/**
+ * Check if a file looks like audio we can decode.
+ * Browsers sometimes report an empty MIME type, so the extension is checked too.
+ */
+export function isSupportedAudioFile(file: AudioFileInfo): boolean {
+  if (file.type.startsWith('audio/')) return true
+  const extension = getExtension(file.name)
+  return ACCEPTED_EXTENSIONS.includes(extension)
+}
+
+/**
+ * Check if a file uses a lossless codec.
+ */
+export function isLosslessAudioFile(file: AudioFileInfo): boolean {
+  const mimeType = file.type.split(';')[0].trim().toLowerCase()
+  if (LOSSLESS_MIME_TYPES.includes(mimeType)) return true
+  return LOSSLESS_EXTENSIONS.includes(getExtension(file.name))
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Region Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Default region for a file: the first maxDurationSec seconds.
+ */
+export function getDefaultImportRegion(durationSec: number, maxDurationSec: number): TimeRange {
+  return { startSec: 0, endSec: Math.min(durationSec, maxDurationSec) }
+}
+
+/**
+ * Clamp a region to the file bounds and the maximum analysis length.
+ * If the region is too long, its end is pulled back towards the start.
+ */
+export function clampImportRegion(
+  region: TimeRange,
+  durationSec: number,
+  maxDurationSec: number
+): TimeRange {
+  const startSec = Math.min(Math.max(0, region.startSec), Math.max(0, durationSec))
+  let endSec = Math.min(Math.max(startSec, region.endSec), durationSec)
+  if (endSec - startSec > maxDurationSec) {
+    endSec = startSec + maxDurationSec
+  }
+  return { startSec, endSec }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// WAV Encoding
+// ─────────────────────────────────────────────────────────────────────────────
+
+function writeAscii(view: DataView, offset: number, text: string): void {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i))
+  }
+}
+
+/**
+ * Encode float samples as a 16-bit PCM WAV blob.
+ * Used to give trimmed regions a playable (and decodable) blob.
+ *
+ * @param samples - Mono samples, or one array per channel (interleaved on write)
+ */
+export function encodeWav(samples: Float32Array | Float32Array[], sampleRate: number): Blob {
+  const channels = Array.isArray(samples) ? samples : [samples]
+  const frameCount = channels.reduce((max, channel) => Math.max(max, channel.length), 0)
+  const bytesPerSample = 2
+  const blockAlign = bytesPerSample * channels.length
+  const dataSize = frameCount * blockAlign
+  const buffer = new ArrayBuffer(44 + dataSize)
+  const view = new DataView(buffer)
+
+  // RIFF header
+  writeAscii(view, 0, 'RIFF')
+  view.setUint32(4, 36 + dataSize, true)
+  writeAscii(view, 8, 'WAVE')
+
+  // fmt chunk (PCM)
+  writeAscii(view, 12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true) // PCM
+  view.setUint16(22, channels.length, true) // channels
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * blockAlign, true) // byte rate
+  view.setUint16(32, blockAlign, true) // block align
+  view.setUint16(34, 16, true) // bits per sample
+
+  // data chunk
+  writeAscii(view, 36, 'data')
+  view.setUint32(40, dataSize, true)
+
+  let offset = 44
+  for (let i = 0; i < frameCount; i++) {
+    for (const channel of channels) {
+      const clamped = Math.max(-1, Math.min(1, channel[i] ?? 0))
+      view.setInt16(offset, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true)
+      offset += bytesPerSample
+    }
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' })
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Import Pipeline
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Decode an audio file with the Web Audio API.
+ */
+export async function decodeAudioFile(file: File): Promise<DecodedAudioFile> {
+  const { audioBuffer, durationMs } = await decodeAudioBlob(file)
+
+  return {
+    file,
+    audioBuffer,
+    durationMs,
+    lossless: isLosslessAudioFile(file),
+  }
+}
+
+/**
+ * Build a RecordingAsset from a decoded file.
+ *
+ * Without a region, the original file is used as the blob. With a region, the
+ * selected slice is re-encoded as WAV (keeping every channel) so playback and
+ * decoding only see that slice.
+ * Lossless files also get pcmData/pcmSampleRate (and pcmChannels when they
+ * have several) so transcription takes the HQ path.
+ */
+export function createImportedAsset(decoded: DecodedAudioFile, region?: TimeRange): RecordingAsset {
+  const { file, audioBuffer, lossless } = decoded
+  const sampleRate = audioBuffer.sampleRate
+
+  let samples = audioBufferToMono(audioBuffer)
+  let channels = audioBuffer.numberOfChannels > 1 ? audioBufferToChannels(audioBuffer) : null
+  let blob: Blob = file
+  let durationMs = decoded.durationMs
+
+  if (region) {
+    samples = sliceToTimeRange(samples, sampleRate, region)
+    channels = channels?.map((channel) => sliceToTimeRange(channel, sampleRate, region)) ?? null
+    blob = encodeWav(channels ?? samples, sampleRate)
+    durationMs = Math.round((samples.length / sampleRate) * 1000)
+  }
+
+  return {
+    blob,
+    audioUrl: URL.createObjectURL(blob),
+    durationMs,
+    sampleRate,
+    sourceName: file.name,
+    ...(lossless ? { pcmData: samples, pcmSampleRate: sampleRate } : {}),
+    ...(lossless && channels ? { pcmChannels: channels } : {}),
+  }
+}
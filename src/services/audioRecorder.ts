@@ -1,6 +1,18 @@
 import { useState, useRef, useCallback, useEffect } from 'react'
-import type { RecordingError, RecordingAsset } from '../domain/types'
+import type { RecordingError, RecordingAsset, RecordingTempo } from '../domain/types'
 import { PCMCapture, isPCMCaptureSupported } from './pcmCapture'
+import {
+  InputLevelTracker,
+  createStreamAnalyser,
+  readAnalyserLevel,
+  METER_FFT_SIZE,
+  type InputLevel,
+} from './levelMeter'
+import { Metronome, getBarDurationMs, type MetronomeSettings } from './metronome'
+import { BackingPlayer, type OverdubBacking } from './overdub'
+import { VoiceActivityDetector, PRE_ROLL_MS, type VoiceActivationSettings } from './voiceActivation'
+import { encodeWav } from './audioImport'
+import type { LiveAudioSource } from './streamingTranscription'
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -13,6 +25,23 @@ export interface UseAudioRecorderOptions {
    * Set to false for recording in noisy environments.
    */
   musicMode?: boolean
+  /** Input device to record from (system default when omitted) */
+  deviceId?: string
+  /** Click track and count-in settings (no click when omitted or disabled) */
+  metronome?: MetronomeSettings
+  /** Backing to play while recording an overdub (nothing plays when omitted) */
+  overdub?: OverdubBacking
+  /**
+   * Armed mode: wait for playing to start (keeping a short pre-roll) and stop
+   * after a stretch of silence. Replaces the count-in when enabled; ignored
+   * for overdubs, which follow their backing instead.
+   */
+  voiceActivation?: VoiceActivationSettings
+  /**
+   * Called with each finished recording. The caller takes ownership of the
+   * asset's object URL and is responsible for revoking it.
+   */
+  onRecordingComplete?: (asset: RecordingAsset) => void
 }
 
 export interface UseAudioRecorderReturn {
@@ -23,6 +52,17 @@ export interface UseAudioRecorderReturn {
   error: RecordingError | null
   /** Whether HQ PCM capture is being used (lossless audio) */
   isHQCapture: boolean
+  /** Live input level while recording (null otherwise) */
+  inputLevel: InputLevel | null
+  /** Current count-in beat (1-based) before capture starts, null otherwise */
+  countInBeat: number | null
+  /** Whether an armed recording is waiting for playing to start */
+  isArmed: boolean
+  /**
+   * Audio captured so far, readable while recording (for live transcription).
+   * Null when not recording, without HQ capture, and for overdubs.
+   */
+  liveSource: LiveAudioSource | null
 
   // Actions
   startRecording: () => Promise<void>
@@ -34,8 +74,12 @@ export interface UseAudioRecorderReturn {
 // Constants
 // ─────────────────────────────────────────────────────────────────────────────
 
-const MAX_RECORDING_MS = 20_000 // 20 seconds max
+export const MAX_RECORDING_MS = 20_000 // 20 seconds max
 const TIMER_INTERVAL_MS = 100 // Update timer every 100ms
+const METER_INTERVAL_MS = 50 // Update level meter every 50ms
+
+// Ask for every input of multi-channel interfaces (the browser picks the most the device has)
+const MAX_INPUT_CHANNELS = 8
 
 // Preferred MIME types in order of preference
 const MIME_TYPES = [
@@ -46,6 +90,20 @@ const MIME_TYPES = [
   'audio/mpeg',
 ]
 
+/**
+ * Wait until a performance.now() time.
+ * Resolves false if aborted first.
+ */
+function waitUntil(timeMs: number, signal: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    const timeout = setTimeout(() => resolve(true), Math.max(0, timeMs - performance.now()))
+    signal.addEventListener('abort', () => {
+      clearTimeout(timeout)
+      resolve(false)
+    })
+  })
+}
+
 function getSupportedMimeType(): string {
   for (const mimeType of MIME_TYPES) {
     if (MediaRecorder.isTypeSupported(mimeType)) {
@@ -70,7 +128,14 @@ function isHQCaptureSupported(): boolean {
 // ─────────────────────────────────────────────────────────────────────────────
 
 export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudioRecorderReturn {
-  const { musicMode = true } = options
+  const {
+    musicMode = true,
+    deviceId,
+    metronome,
+    overdub,
+    voiceActivation,
+    onRecordingComplete,
+  } = options
 
   // State
   const [isRecording, setIsRecording] = useState(false)
@@ -78,6 +143,10 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
   const [recordingAsset, setRecordingAsset] = useState<RecordingAsset | null>(null)
   const [error, setError] = useState<RecordingError | null>(null)
   const [isHQCapture, setIsHQCapture] = useState(false)
+  const [inputLevel, setInputLevel] = useState<InputLevel | null>(null)
+  const [countInBeat, setCountInBeat] = useState<number | null>(null)
+  const [isArmed, setIsArmed] = useState(false)
+  const [liveSource, setLiveSource] = useState<LiveAudioSource | null>(null)
 
   // Refs for MediaRecorder
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
@@ -93,6 +162,74 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
     mimeType: string
   } | null>(null)
 
+  // Refs for live level metering
+  const meterTimerRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  const closeMeterRef = useRef<(() => void) | null>(null)
+  const levelTrackerRef = useRef(new InputLevelTracker())
+
+  // Refs for the click track
+  const metronomeRef = useRef(new Metronome())
+  // Aborts a count-in or armed wait still in progress
+  const waitAbortRef = useRef<AbortController | null>(null)
+  const tempoRef = useRef<RecordingTempo | null>(null)
+
+  // Overdub backing playback
+  const backingPlayerRef = useRef(new BackingPlayer())
+
+  // Refs for armed (voice-activated) recording
+  const voiceDetectorRef = useRef<VoiceActivityDetector | null>(null)
+  const voiceTriggerRef = useRef<(() => void) | null>(null)
+  const hasPreRollRef = useRef(false)
+
+  // Keep the latest completion callback without restarting the recorder
+  const onRecordingCompleteRef = useRef(onRecordingComplete)
+  onRecordingCompleteRef.current = onRecordingComplete
+
+  // Stop the level meter and release its analyser
+  const stopMetering = useCallback(() => {
+    if (meterTimerRef.current) {
+      clearInterval(meterTimerRef.current)
+      meterTimerRef.current = null
+    }
+    closeMeterRef.current?.()
+    closeMeterRef.current = null
+    setInputLevel(null)
+  }, [])
+
+  // Meter the stream, sharing PCM capture's audio graph when it's running
+  const startMetering = useCallback(
+    (stream: MediaStream) => {
+      stopMetering()
+
+      let analyser: AnalyserNode
+      if (pcmCaptureRef.current?.capturing) {
+        analyser = pcmCaptureRef.current.createAnalyser(METER_FFT_SIZE)
+      } else {
+        const streamAnalyser = createStreamAnalyser(stream)
+        analyser = streamAnalyser.analyser
+        closeMeterRef.current = streamAnalyser.close
+      }
+
+      const buffer = new Float32Array(analyser.fftSize)
+      const tracker = levelTrackerRef.current
+      tracker.reset()
+
+      meterTimerRef.current = setInterval(() => {
+        const now = Date.now()
+        setInputLevel(tracker.update(readAnalyserLevel(analyser, buffer), now))
+
+        // Armed recording: start on playing, stop after silence
+        const event = voiceDetectorRef.current?.process(buffer, analyser.context.sampleRate, now)
+        if (event === 'start') {
+          voiceTriggerRef.current?.()
+        } else if (event === 'stop' && mediaRecorderRef.current?.state === 'recording') {
+          mediaRecorderRef.current.stop()
+        }
+      }, METER_INTERVAL_MS)
+    },
+    [stopMetering]
+  )
+
   // Cleanup function
   const cleanup = useCallback(async () => {
     // Stop timer
@@ -101,6 +238,19 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
       timerRef.current = null
     }
 
+    stopMetering()
+
+    // Stop the click and any count-in in progress
+    metronomeRef.current.stop()
+    backingPlayerRef.current.stop()
+    waitAbortRef.current?.abort()
+    waitAbortRef.current = null
+    setCountInBeat(null)
+    voiceDetectorRef.current = null
+    voiceTriggerRef.current = null
+    setIsArmed(false)
+    setLiveSource(null)
+
     // Stop media recorder
     if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
       mediaRecorderRef.current.stop()
@@ -122,36 +272,33 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
     // Clear chunks
     chunksRef.current = []
     pendingStopRef.current = null
-  }, [])
+  }, [stopMetering])
 
   // Cleanup on unmount
+  // Object URLs are owned by the caller (see onRecordingComplete), so they're not revoked here
   useEffect(() => {
     return () => {
       cleanup()
-      // Revoke any existing object URL
-      if (recordingAsset?.audioUrl) {
-        URL.revokeObjectURL(recordingAsset.audioUrl)
-      }
     }
-  }, [cleanup, recordingAsset?.audioUrl])
+  }, [cleanup])
 
   // Start recording
   const startRecording = useCallback(async () => {
     // Reset any previous state
     setError(null)
     setElapsedMs(0)
-
-    // Revoke previous URL if exists
-    if (recordingAsset?.audioUrl) {
-      URL.revokeObjectURL(recordingAsset.audioUrl)
-    }
     setRecordingAsset(null)
+    tempoRef.current = null
+    const armed = !!voiceActivation?.enabled && !overdub
+    hasPreRollRef.current = false
 
     try {
       // Request microphone permission
       // In music mode, disable speech processing for cleaner pitch detection
       const stream = await navigator.mediaDevices.getUserMedia({
         audio: {
+          ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+          channelCount: { ideal: MAX_INPUT_CHANNELS },
           echoCancellation: !musicMode,
           noiseSuppression: !musicMode,
           autoGainControl: !musicMode,
@@ -159,6 +306,36 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
       })
       streamRef.current = stream
 
+      // Start the click; with a count-in, capture begins on the downbeat of the second bar
+      let downbeatTimeMs: number | null = null
+      if (metronome?.enabled) {
+        const { bpm, timeSignature } = metronome
+        const { beatsPerBar } = timeSignature
+        const countIn = metronome.countIn && !armed
+        const firstBeatTimeMs = metronomeRef.current.start(
+          bpm,
+          timeSignature,
+          countIn ? (beat) => setCountInBeat(beat < beatsPerBar ? beat + 1 : null) : undefined
+        )
+        downbeatTimeMs = firstBeatTimeMs
+
+        if (countIn) {
+          downbeatTimeMs = firstBeatTimeMs + getBarDurationMs(bpm, timeSignature)
+          const waitAbort = new AbortController()
+          waitAbortRef.current = waitAbort
+          setIsRecording(true)
+
+          const completed = await waitUntil(downbeatTimeMs, waitAbort.signal)
+          waitAbortRef.current = null
+          if (!completed) {
+            // Stopped during the count-in - nothing was captured
+            await cleanup()
+            setIsRecording(false)
+            return
+          }
+        }
+      }
+
       // Check if HQ capture is supported and start it
       const useHQ = isHQCaptureSupported()
       setIsHQCapture(useHQ)
@@ -166,7 +343,7 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
       if (useHQ) {
         try {
           pcmCaptureRef.current = new PCMCapture()
-          await pcmCaptureRef.current.startCapture(stream)
+          await pcmCaptureRef.current.startCapture(stream, armed ? PRE_ROLL_MS : undefined)
         } catch (err) {
           console.warn('HQ PCM capture failed to start, falling back to MediaRecorder only:', err)
           pcmCaptureRef.current = null
@@ -174,6 +351,45 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
         }
       }
 
+      // Live level meter (never blocks recording)
+      let isMetering = false
+      try {
+        startMetering(stream)
+        isMetering = true
+      } catch (err) {
+        console.warn('Input level meter unavailable:', err)
+      }
+
+      // Armed: wait for playing to start (without a meter there's nothing to listen with)
+      let preRollMs = 0
+      if (armed && voiceActivation && isMetering) {
+        voiceDetectorRef.current = new VoiceActivityDetector(voiceActivation.silenceMs)
+        const waitAbort = new AbortController()
+        waitAbortRef.current = waitAbort
+        setIsArmed(true)
+        setIsRecording(true)
+
+        const triggered = await new Promise<boolean>((resolve) => {
+          voiceTriggerRef.current = () => resolve(true)
+          waitAbort.signal.addEventListener('abort', () => resolve(false))
+        })
+        voiceTriggerRef.current = null
+        waitAbortRef.current = null
+        setIsArmed(false)
+        if (!triggered) {
+          // Stopped before playing started - nothing to keep
+          await cleanup()
+          setIsRecording(false)
+          return
+        }
+
+        // Keep the audio just before the trigger so the first attack isn't lost
+        if (pcmCaptureRef.current) {
+          preRollMs = pcmCaptureRef.current.commit()
+          hasPreRollRef.current = true
+        }
+      }
+
       // Create MediaRecorder (always needed for playback)
       const mimeType = getSupportedMimeType()
       const recorderOptions: MediaRecorderOptions = mimeType ? { mimeType } : {}
@@ -190,14 +406,19 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
 
       // Handle recording stop
       mediaRecorder.onstop = async () => {
-        const blob = new Blob(chunksRef.current, {
+        setLiveSource(null)
+        stopMetering()
+        metronomeRef.current.stop()
+        backingPlayerRef.current.stop()
+
+        let blob = new Blob(chunksRef.current, {
           type: mimeType || 'audio/webm',
         })
-        const audioUrl = URL.createObjectURL(blob)
-        const durationMs = Date.now() - startTimeRef.current
+        let durationMs = Date.now() - startTimeRef.current
 
         // Get PCM data if available
         let pcmData: Float32Array | undefined
+        let pcmChannels: Float32Array[] | undefined
         let pcmSampleRate: number | undefined
 
         if (pcmCaptureRef.current) {
@@ -205,6 +426,7 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
             const pcmResult = await pcmCaptureRef.current.stopCapture()
             if (pcmResult) {
               pcmData = pcmResult.pcmData
+              if (pcmResult.channels.length > 1) pcmChannels = pcmResult.channels
               pcmSampleRate = pcmResult.sampleRate
             }
           } catch (err) {
@@ -213,15 +435,26 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
           pcmCaptureRef.current = null
         }
 
+        // Only PCM capture has the pre-roll of an armed take - play back from it
+        if (hasPreRollRef.current && pcmData && pcmSampleRate) {
+          blob = encodeWav(pcmData, pcmSampleRate)
+          durationMs = Math.round((pcmData.length / pcmSampleRate) * 1000)
+        }
+        const audioUrl = URL.createObjectURL(blob)
+
         const asset: RecordingAsset = {
           blob,
           audioUrl,
           durationMs,
           ...(pcmData && pcmSampleRate ? { pcmData, pcmSampleRate } : {}),
+          ...(pcmData && pcmChannels ? { pcmChannels } : {}),
+          ...(tempoRef.current ? { tempo: tempoRef.current } : {}),
+          inputDeviceId: deviceId ?? '',
         }
 
         setRecordingAsset(asset)
         setIsRecording(false)
+        onRecordingCompleteRef.current?.(asset)
 
         // Stop timer
         if (timerRef.current) {
@@ -247,10 +480,23 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
         setIsRecording(false)
       }
 
+      // Remember where the beat grid falls relative to the start of the audio
+      if (metronome?.enabled && downbeatTimeMs !== null) {
+        tempoRef.current = {
+          bpm: metronome.bpm,
+          timeSignature: metronome.timeSignature,
+          startOffsetMs: Math.round(downbeatTimeMs - performance.now() + preRollMs),
+        }
+      }
+
+      // Start the backing with the capture so the new layer lines up with it
+      if (overdub) backingPlayerRef.current.start(overdub)
+
       // Start recording
       mediaRecorder.start(100) // Collect data every 100ms
       startTimeRef.current = Date.now()
       setIsRecording(true)
+      if (pcmCaptureRef.current && !overdub) setLiveSource(pcmCaptureRef.current)
 
       // Start elapsed time timer
       timerRef.current = setInterval(() => {
@@ -267,6 +513,9 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
       }, TIMER_INTERVAL_MS)
     } catch (err) {
       console.error('getUserMedia error:', err)
+      metronomeRef.current.stop()
+      backingPlayerRef.current.stop()
+      setIsRecording(false)
 
       // Handle specific permission errors
       if (err instanceof DOMException) {
@@ -275,6 +524,15 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
             stage: 'permission',
             message: 'Microphone access was denied. Please allow microphone access and try again.',
           })
+        } else if (
+          deviceId &&
+          (err.name === 'NotFoundError' || err.name === 'OverconstrainedError')
+        ) {
+          setError({
+            stage: 'permission',
+            message:
+              'The selected input device is not available. Choose another input and try again.',
+          })
         } else if (err.name === 'NotFoundError') {
           setError({
             stage: 'permission',
@@ -293,12 +551,24 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
         })
       }
     }
-  }, [cleanup, recordingAsset?.audioUrl, musicMode])
+  }, [
+    cleanup,
+    musicMode,
+    deviceId,
+    metronome,
+    overdub,
+    voiceActivation,
+    startMetering,
+    stopMetering,
+  ])
 
   // Stop recording
   const stopRecording = useCallback(() => {
     if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
       mediaRecorderRef.current.stop()
+    } else {
+      // Still counting in or waiting for playing to start
+      waitAbortRef.current?.abort()
     }
   }, [])
 
@@ -309,13 +579,8 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
     setElapsedMs(0)
     setError(null)
     setIsHQCapture(false)
-
-    // Revoke object URL
-    if (recordingAsset?.audioUrl) {
-      URL.revokeObjectURL(recordingAsset.audioUrl)
-    }
     setRecordingAsset(null)
-  }, [cleanup, recordingAsset?.audioUrl])
+  }, [cleanup])
 
   return {
     isRecording,
@@ -323,6 +588,10 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudi
     recordingAsset,
     error,
     isHQCapture,
+    inputLevel,
+    countInBeat,
+    isArmed,
+    liveSource,
     startRecording,
     stopRecording,
     reset,
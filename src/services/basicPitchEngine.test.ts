@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { basicPitchEngine } from './basicPitchEngine'
+import { analyzeAudio } from './audioAnalysis'
+import { TranscriptionCancelledError, type EngineInput } from './transcriptionEngine'
+
+// Basic Pitch with a model that reports one batch of output per run
+const basicPitchMock = vi.hoisted(() => ({
+  evaluateModel: vi.fn(
+    async (
+      _samples: Float32Array,
+      onComplete: (frames: number[][], onsets: number[][], contours: number[][]) => void,
+      onPercent: (percent: number) => void
+    ) => {
+      onComplete([[0]], [[0]], [[0]])
+      onPercent(1)
+    }
+  ),
+  outputToNotesPoly: vi.fn(() => []),
+}))
+
+vi.mock('@spotify/basic-pitch', () => ({
+  BasicPitch: class {
+    model = Promise.resolve()
+    evaluateModel = basicPitchMock.evaluateModel
+  },
+  outputToNotesPoly: basicPitchMock.outputToNotesPoly,
+  addPitchBendsToNoteEvents: () => [],
+  noteFramesToTime: () => [],
+}))
+
+describe('basicPitchEngine', () => {
+  const SAMPLE_RATE = 22050
+
+  const createInput = (frequency: number, overrides: Partial<EngineInput> = {}): EngineInput => {
+    const samples = Float32Array.from(
+      { length: SAMPLE_RATE },
+      (_, i) => 0.5 * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE)
+    )
+    return {
+      samples,
+      sampleRate: SAMPLE_RATE,
+      durationMs: 1000,
+      metrics: analyzeAudio(samples, SAMPLE_RATE),
+      preset: 'lead',
+      onsets: [],
+      ...overrides,
+    }
+  }
+
+  const transcribe = (input: EngineInput) =>
+    basicPitchEngine.transcribe(input, new AbortController().signal)
+
+  beforeEach(() => {
+    basicPitchEngine.reset()
+    basicPitchMock.evaluateModel.mockClear()
+    basicPitchMock.outputToNotesPoly.mockClear()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('re-derives notes of the same audio without running the model again', async () => {
+    await transcribe(createInput(220))
+    await transcribe(createInput(220, { preset: 'chord' }))
+    await transcribe(createInput(220, { thresholds: { onsetThreshold: 0.9 } }))
+
+    expect(basicPitchMock.evaluateModel).toHaveBeenCalledTimes(1)
+    // Each run still derives its notes with its own preset and thresholds
+    const calls = basicPitchMock.outputToNotesPoly.mock.calls as unknown[][]
+    expect(calls.map((args) => args[5])).toEqual([true, false, true])
+    expect(calls[2][2]).toBe(0.9)
+  })
+
+  it('runs the model for other audio', async () => {
+    await transcribe(createInput(220))
+    await transcribe(createInput(330))
+
+    expect(basicPitchMock.evaluateModel).toHaveBeenCalledTimes(2)
+  })
+
+  it('drops the least recently used output when the cache is full', async () => {
+    await transcribe(createInput(110))
+    await transcribe(createInput(220))
+    await transcribe(createInput(330))
+    await transcribe(createInput(110)) // Now the most recently used
+    await transcribe(createInput(440)) // Evicts 220
+    basicPitchMock.evaluateModel.mockClear()
+
+    await transcribe(createInput(110))
+    await transcribe(createInput(330))
+    expect(basicPitchMock.evaluateModel).not.toHaveBeenCalled()
+
+    await transcribe(createInput(220))
+    expect(basicPitchMock.evaluateModel).toHaveBeenCalledTimes(1)
+  })
+
+  it("keeps audio that isn't to be cached, like live windows, from evicting the take", async () => {
+    await transcribe(createInput(220))
+    for (const frequency of [110, 330, 440, 550]) {
+      await transcribe(createInput(frequency, { cache: false }))
+    }
+    basicPitchMock.evaluateModel.mockClear()
+
+    await transcribe(createInput(220))
+    await transcribe(createInput(110, { cache: false }))
+    expect(basicPitchMock.evaluateModel).toHaveBeenCalledTimes(1)
+  })
+
+  it("doesn't cache the output of an aborted run", async () => {
+    const controller = new AbortController()
+    basicPitchMock.evaluateModel.mockImplementationOnce(async (_samples, onComplete) => {
+      onComplete([[0]], [[0]], [[0]])
+      controller.abort()
+    })
+
+    await expect(basicPitchEngine.transcribe(createInput(220), controller.signal)).rejects.toThrow(
+      TranscriptionCancelledError
+    )
+
+    await transcribe(createInput(220))
+    expect(basicPitchMock.evaluateModel).toHaveBeenCalledTimes(2)
+  })
+})
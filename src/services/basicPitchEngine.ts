@@ -0,0 +1,373 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Basic Pitch Engine: Polyphonic transcription with Spotify's Basic Pitch model
+// (TensorFlow.js), with thresholds adapted to the recording
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+  BasicPitch,
+  noteFramesToTime,
+  outputToNotesPoly,
+  addPitchBendsToNoteEvents,
+  type NoteEventTime,
+} from '@spotify/basic-pitch'
+import type { TranscribedNote, TranscriptionPreset } from '../domain/types'
+import type { AudioMetrics } from './audioDecoder'
+import {
+  TranscriptionCancelledError,
+  type AdaptiveThresholds,
+  type EngineInput,
+  type TranscriptionEngine,
+} from './transcriptionEngine'
+import { hashSamples } from './audioHash'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Model path - uses Vite's BASE_URL to work with GitHub Pages subdirectory
+const MODEL_PATH = `${import.meta.env.BASE_URL}basic-pitch-model/model.json`
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Base Transcription Parameters
+// These are the baseline values that get adjusted by adaptive thresholds
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Base onset threshold: 0.5 is the default
+// Higher = stricter onset detection, fewer false positives
+const BASE_ONSET_THRESHOLD = 0.5
+
+// Base frame threshold: requires pitch activation to be above this
+// Higher = requires stronger pitch confidence
+const BASE_FRAME_THRESHOLD = 0.35
+
+// Minimum note length in frames (~11.6ms per frame at 22050Hz)
+// 11 frames ≈ 128ms - minimum for real notes
+const BASE_MIN_NOTE_LENGTH = 11
+
+// Energy tolerance: how quickly a note can decay before being cut off
+const ENERGY_TOLERANCE = 11
+
+// Guitar frequency range (for filtering false positives)
+// Low: ~65Hz supports drop C tuning
+// High: ~3000Hz covers highest frets + upper harmonics
+const GUITAR_MIN_FREQ = 65
+const GUITAR_MAX_FREQ = 3000
+
+// Base amplitude floor for filtering weak notes
+const BASE_MIN_AMPLITUDE = 0.3
+
+// Minimum note duration in seconds (post-processing filter)
+const BASE_MIN_NOTE_DURATION_SEC = 0.06 // 60ms minimum
+
+// Model outputs kept for re-deriving notes: the take and a couple of overdub layers
+const MAX_CACHED_OUTPUTS = 3
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Adaptive Threshold Configuration
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Calculate adaptive thresholds based on audio metrics.
+ *
+ * The idea: adjust detection sensitivity based on input characteristics:
+ * - Quieter recordings get more sensitive detection (lower thresholds)
+ * - Noisier recordings get stricter detection (higher thresholds)
+ * - Higher dynamic range suggests more transients (sensitive onset detection)
+ */
+function calculateAdaptiveThresholds(
+  metrics: AudioMetrics,
+  preset: TranscriptionPreset
+): AdaptiveThresholds {
+  // Signal-to-noise ratio estimate (how much signal above noise floor)
+  const snrDb = metrics.rmsLevelDb - metrics.noiseFloorDb
+
+  // SNR factor: good SNR (>20dB) = full sensitivity, poor SNR (<10dB) = reduced sensitivity
+  // Range: 0.7 to 1.0
+  const snrFactor = Math.min(1.0, Math.max(0.7, 0.5 + snrDb / 40))
+
+  // Dynamic range factor: high dynamic range (>15dB) indicates clear transients
+  // For lead playing, we want more sensitive onset detection with high dynamics
+  // Range: 0.85 to 1.0
+  const dynamicFactor = metrics.hasTransients ? 0.9 : 1.0
+
+  // Level factor: after normalization, this reflects original recording quality
+  // Very quiet original recordings may have more noise even after normalization
+  // Use the original RMS level before normalization
+  // Range: 0.8 to 1.0
+  const originalLevel = metrics.rmsLevelDb
+  const levelFactor = Math.min(1.0, Math.max(0.8, 0.6 - originalLevel / 50))
+
+  // Preset adjustments
+  const presetOnsetBoost = preset === 'chord' ? 0.05 : 0
+  const presetFrameBoost = preset === 'chord' ? 0.05 : 0
+  const presetMinLengthBoost = preset === 'chord' ? 2 : 0
+
+  // Calculate final thresholds
+  // For thresholds, lower = more sensitive, so multiply by factors
+  const onsetThreshold = Math.min(
+    0.7,
+    Math.max(0.3, (BASE_ONSET_THRESHOLD + presetOnsetBoost) * snrFactor)
+  )
+
+  const frameThreshold = Math.min(
+    0.5,
+    Math.max(0.2, (BASE_FRAME_THRESHOLD + presetFrameBoost) * snrFactor * dynamicFactor)
+  )
+
+  // Min note length: increase for noisy signals
+  const minNoteLength = Math.round((BASE_MIN_NOTE_LENGTH + presetMinLengthBoost) / snrFactor)
+
+  // Min amplitude: lower for clean signals with good dynamics
+  const minAmplitude = Math.min(
+    0.5,
+    Math.max(0.2, BASE_MIN_AMPLITUDE * levelFactor * (metrics.hasTransients ? 0.9 : 1.0))
+  )
+
+  // Min duration: slightly shorter for signals with clear transients
+  const minNoteDuration = metrics.hasTransients
+    ? BASE_MIN_NOTE_DURATION_SEC * 0.8
+    : BASE_MIN_NOTE_DURATION_SEC
+
+  return {
+    onsetThreshold,
+    frameThreshold,
+    minNoteLength,
+    minAmplitude,
+    minNoteDuration,
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Engine
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * What Basic Pitch's model makes of a recording, before any thresholds:
+ * per-frame note and onset activations, and pitch contours for bends.
+ */
+interface ModelOutput {
+  frames: number[][]
+  onsets: number[][]
+  contours: number[][]
+}
+
+class BasicPitchEngine implements TranscriptionEngine {
+  readonly id = 'basicPitch'
+  private basicPitch: BasicPitch | null = null
+  private modelLoadingPromise: Promise<BasicPitch> | null = null
+  // Model outputs by audio hash, least recently used first
+  private outputCache = new Map<string, ModelOutput>()
+
+  /**
+   * Ensure the Basic Pitch model is loaded (lazy loading with deduplication)
+   */
+  private async ensureModelLoaded(onProgress?: (message: string) => void): Promise<BasicPitch> {
+    // Return existing instance
+    if (this.basicPitch) {
+      return this.basicPitch
+    }
+
+    // Return in-flight loading promise
+    if (this.modelLoadingPromise) {
+      return this.modelLoadingPromise
+    }
+
+    // Start loading
+    onProgress?.('Loading pitch detection model...')
+
+    this.modelLoadingPromise = (async () => {
+      try {
+        const bp = new BasicPitch(MODEL_PATH)
+        // Force the model to load by accessing it
+        await bp.model
+        this.basicPitch = bp
+        onProgress?.('Model loaded')
+        return bp
+      } catch (error) {
+        this.modelLoadingPromise = null
+        throw error
+      }
+    })()
+
+    return this.modelLoadingPromise
+  }
+
+  async prepare(onProgress?: (message: string) => void): Promise<void> {
+    await this.ensureModelLoaded(onProgress)
+  }
+
+  /**
+   * Run Basic Pitch on the audio and turn its output into notes, with
+   * thresholds adapted to the audio metrics and preset.
+   *
+   * The model's output is cached by audio hash, so transcribing the same
+   * audio again with another preset or thresholds only re-derives the notes.
+   */
+  async transcribe(
+    input: EngineInput,
+    signal: AbortSignal,
+    onProgress?: (fraction: number) => void
+  ): Promise<TranscribedNote[]> {
+    const { samples, metrics, preset } = input
+
+    // Calculate adaptive thresholds based on audio metrics (overrides win)
+    const thresholds = { ...calculateAdaptiveThresholds(metrics, preset), ...input.thresholds }
+
+    // Log thresholds for debugging (development only)
+    if (import.meta.env.DEV) {
+      console.log('[Transcription] Adaptive thresholds:', {
+        onset: thresholds.onsetThreshold.toFixed(3),
+        frame: thresholds.frameThreshold.toFixed(3),
+        minNoteLength: thresholds.minNoteLength,
+        minAmplitude: thresholds.minAmplitude.toFixed(3),
+        minNoteDuration: thresholds.minNoteDuration.toFixed(3),
+      })
+    }
+
+    const output = await this.evaluate(samples, input.cache ?? true, signal, onProgress)
+
+    // Preset-specific settings
+    // Lead: inferOnsets + melodiaTrick help detect melody continuity
+    // Chord: disable both to reduce ghost notes from dense strumming
+    const inferOnsets = preset === 'lead'
+    const melodiaTrick = preset === 'lead'
+
+    // Convert frames/onsets to note events using adaptive thresholds
+    const noteEvents = outputToNotesPoly(
+      output.frames,
+      output.onsets,
+      thresholds.onsetThreshold,
+      thresholds.frameThreshold,
+      thresholds.minNoteLength,
+      inferOnsets,
+      GUITAR_MAX_FREQ,
+      GUITAR_MIN_FREQ,
+      melodiaTrick,
+      ENERGY_TOLERANCE
+    )
+
+    // Check for cancellation
+    if (signal.aborted) {
+      throw new TranscriptionCancelledError()
+    }
+
+    // Add pitch bends from contours
+    const notesWithBends = addPitchBendsToNoteEvents(output.contours, noteEvents)
+
+    // Convert to timed notes
+    const allTimedNotes = noteFramesToTime(notesWithBends)
+
+    // Filter out weak/hallucinated notes using adaptive thresholds
+    const timedNotes = allTimedNotes.filter((note) => {
+      // Filter 1: Amplitude must be above adaptive minimum
+      if (note.amplitude < thresholds.minAmplitude) return false
+
+      // Filter 2: Duration must be above adaptive minimum
+      if (note.durationSeconds < thresholds.minNoteDuration) return false
+
+      return true
+    })
+
+    return convertToTranscribedNotes(timedNotes)
+  }
+
+  /**
+   * The model's output for the audio: from the cache when this audio has
+   * been through the model before, otherwise by running inference.
+   *
+   * Outputs of aborted runs are incomplete and never cached.
+   *
+   * @param cache - Use and fill the cache (off for audio that won't come back)
+   */
+  private async evaluate(
+    samples: Float32Array,
+    cache: boolean,
+    signal: AbortSignal,
+    onProgress?: (fraction: number) => void
+  ): Promise<ModelOutput> {
+    const hash = cache ? hashSamples(samples) : null
+    const cached = hash !== null ? this.outputCache.get(hash) : undefined
+    if (hash !== null && cached) {
+      // Move to the most recently used end
+      this.outputCache.delete(hash)
+      this.outputCache.set(hash, cached)
+      if (import.meta.env.DEV) {
+        console.log('[Transcription] Reusing model output for', hash)
+      }
+      onProgress?.(1)
+      return cached
+    }
+
+    const basicPitch = await this.ensureModelLoaded()
+
+    // Run inference, collecting results from the callback - accumulate all frames
+    const output: ModelOutput = { frames: [], onsets: [], contours: [] }
+
+    await basicPitch.evaluateModel(
+      samples,
+      // onComplete callback - called incrementally with each batch of results
+      (frames, onsets, contours) => {
+        // Check for cancellation during model evaluation
+        if (signal.aborted) return
+
+        // Accumulate results from each callback
+        output.frames.push(...frames)
+        output.onsets.push(...onsets)
+        output.contours.push(...contours)
+      },
+      // percentCallback - Basic Pitch returns percent as 0..1, not 0..100
+      (percent) => {
+        if (signal.aborted) return
+        onProgress?.(percent)
+      }
+    )
+
+    // Check for cancellation after model evaluation
+    if (signal.aborted) {
+      throw new TranscriptionCancelledError()
+    }
+
+    if (hash !== null) {
+      this.outputCache.set(hash, output)
+      if (this.outputCache.size > MAX_CACHED_OUTPUTS) {
+        this.outputCache.delete(this.outputCache.keys().next().value as string)
+      }
+    }
+    return output
+  }
+
+  /**
+   * Forget the loaded model and cached outputs (useful for testing or freeing memory)
+   */
+  reset(): void {
+    this.basicPitch = null
+    this.modelLoadingPromise = null
+    this.outputCache.clear()
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Convert Basic Pitch NoteEventTime[] to our TranscribedNote[] format,
+ * sorted by start time (ready for cleanUpNotes).
+ */
+function convertToTranscribedNotes(timedNotes: NoteEventTime[]): TranscribedNote[] {
+  return timedNotes
+    .map((note) => ({
+      startSec: note.startTimeSeconds,
+      endSec: note.startTimeSeconds + note.durationSeconds,
+      midi: note.pitchMidi,
+      velocity: note.amplitude,
+      pitchBend: note.pitchBends,
+    }))
+    .sort((a, b) => a.startSec - b.startSec)
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Export singleton instance
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const basicPitchEngine = new BasicPitchEngine()
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest'
+import {
+  trackBeats,
+  trackBeatsAtTempo,
+  getRecordedTempo,
+  addTap,
+  getTapTempo,
+  TAP_RESET_MS,
+} from './beatTracking'
+import type { OnsetEvent } from '../domain/types'
+
+describe('beatTracking', () => {
+  // Onsets on every beat at a tempo, starting at an offset
+  const createPulse = (
+    bpm: number,
+    durationSec: number,
+    offsetSec: number = 0,
+    strength = (_beat: number) => 0.8
+  ): OnsetEvent[] => {
+    const onsets: OnsetEvent[] = []
+    for (let beat = 0; offsetSec + (beat * 60) / bpm < durationSec; beat++) {
+      onsets.push({ timeSec: offsetSec + (beat * 60) / bpm, strength: strength(beat) })
+    }
+    return onsets
+  }
+
+  describe('trackBeats', () => {
+    it('finds the tempo of a steady pulse', () => {
+      const tempo = trackBeats(createPulse(100, 12), 12)
+
+      expect(tempo?.bpm).toBeCloseTo(100, 0)
+      expect(tempo?.confidence).toBeGreaterThan(0.5)
+    })
+
+    it('aligns the beat grid to the onsets', () => {
+      const tempo = trackBeats(createPulse(120, 10, 0.23), 10)
+
+      expect(tempo?.beats[0]).toBeCloseTo(0.23, 1)
+      expect(tempo?.beats[4]).toBeCloseTo(2.23, 1)
+    })
+
+    it('offers half and double tempo as alternatives', () => {
+      const tempo = trackBeats(createPulse(90, 12), 12)
+
+      expect(tempo?.alternatives.map((alternative) => alternative.bpm)).toEqual([
+        expect.closeTo(45, 0),
+        expect.closeTo(180, 0),
+      ])
+    })
+
+    it('prefers a moderate tempo over its half when both fit', () => {
+      // Eighth notes at 120 BPM also fit 60 and 240 BPM
+      const tempo = trackBeats(
+        createPulse(240, 12, 0, (beat) => (beat % 2 ? 0.5 : 1)),
+        12
+      )
+
+      expect(tempo?.bpm).toBeCloseTo(120, 0)
+    })
+
+    it('has low confidence for onsets without a pulse', () => {
+      let state = 3
+      const onsets = Array.from({ length: 40 }, () => {
+        state = (state * 1103515245 + 12345) % 2147483648
+        return { timeSec: (state / 2147483648) * 12, strength: 0.8 }
+      }).sort((a, b) => a.timeSec - b.timeSec)
+
+      const steady = trackBeats(createPulse(100, 12), 12)
+      const random = trackBeats(onsets, 12)
+
+      expect(random?.confidence ?? 0).toBeLessThan(steady?.confidence ?? 0)
+    })
+
+    it('returns null with too few onsets', () => {
+      expect(trackBeats(createPulse(100, 1.5), 1.5)).toBeNull()
+      expect(trackBeats([], 10)).toBeNull()
+    })
+  })
+
+  describe('trackBeatsAtTempo', () => {
+    it('re-aligns the grid at a given tempo', () => {
+      const onsets = createPulse(120, 10, 0.1)
+
+      const tempo = trackBeatsAtTempo(onsets, 10, 60, true)
+
+      expect(tempo.bpm).toBe(60)
+      expect(tempo.tapped).toBe(true)
+      expect(tempo.beats[1] - tempo.beats[0]).toBeCloseTo(1, 2)
+      expect(tempo.beats[0]).toBeCloseTo(0.1, 1)
+    })
+  })
+
+  describe('getRecordedTempo', () => {
+    const recorded = { bpm: 90, timeSignature: { beatsPerBar: 4, beatUnit: 4 }, startOffsetMs: 250 }
+
+    it('uses the tempo the take was recorded to, with beats from its first downbeat', () => {
+      const tempo = getRecordedTempo(recorded, 4)
+
+      expect(tempo.bpm).toBe(90)
+      expect(tempo.confidence).toBe(1)
+      expect(tempo.beats).toHaveLength(6)
+      tempo.beats.forEach((beat, i) => expect(beat).toBeCloseTo(0.25 + (i * 60) / 90, 6))
+    })
+
+    it('gives the beats of a part relative to its start', () => {
+      const tempo = getRecordedTempo(recorded, 2, 1)
+
+      expect(tempo.beats[0]).toBeCloseTo(0.25 + 120 / 90 - 1, 6)
+      expect(tempo.beats[1] - tempo.beats[0]).toBeCloseTo(60 / 90, 6)
+    })
+  })
+
+  describe('tap tempo', () => {
+    const tap = (times: number[]) => times.reduce<number[]>((taps, time) => addTap(taps, time), [])
+
+    it('needs a few taps', () => {
+      expect(getTapTempo(tap([0, 500, 1000]))).toBeNull()
+      expect(getTapTempo(tap([0, 500, 1000, 1500]))).toBe(120)
+    })
+
+    it('ignores one fumbled tap', () => {
+      expect(getTapTempo(tap([0, 600, 1200, 1500, 2400, 3000]))).toBe(100)
+    })
+
+    it('starts over after a pause', () => {
+      const taps = tap([0, 500, 1000, 1500, 1500 + TAP_RESET_MS + 1])
+
+      expect(taps).toHaveLength(1)
+    })
+
+    it('keeps only the latest taps', () => {
+      expect(tap(Array.from({ length: 20 }, (_, i) => i * 500))).toHaveLength(8)
+    })
+  })
+})
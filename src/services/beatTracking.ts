@@ -0,0 +1,282 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Beat Tracking: Tempo and beat grid from the onsets of a recording,
+// plus tap tempo for correcting it by hand
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { OnsetEvent, RecordingTempo, TempoCandidate, TempoEstimate } from '../domain/types'
+import { MIN_BPM, MAX_BPM, getBeatGrid } from './metronome'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Onsets are spread into an envelope sampled at this rate (5ms resolution)
+const ENVELOPE_RATE = 200
+
+// Each onset becomes a Gaussian bump this wide, so slightly early or late
+// attacks still line up with each other
+const ONSET_SPREAD_SEC = 0.015
+
+// Fewer onsets than this can't show a pulse
+export const MIN_ONSETS_FOR_TEMPO = 4
+
+// Tempo prior: a log-Gaussian around the tempo most music is felt in, one
+// octave wide - picks 120 over 60 or 240 when all three fit
+const PREFERRED_BPM = 120
+const PRIOR_WIDTH_OCTAVES = 1
+
+// Tap tempo
+const MIN_TAPS = 4
+const MAX_TAPS = 8
+/** A pause longer than this between taps starts a new tempo */
+export const TAP_RESET_MS = 2000
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Onset Envelope
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface OnsetAnalysis {
+  envelope: Float32Array
+  /** Autocorrelation of the envelope, indexed by lag in frames */
+  autocorrelation: Float32Array
+  /** Average autocorrelation over the tempo range - the level of no pulse */
+  meanCorrelation: number
+  minLag: number
+  maxLag: number
+}
+
+/**
+ * Onset strengths spread over a regular frame grid.
+ */
+function buildEnvelope(onsets: OnsetEvent[], durationSec: number): Float32Array {
+  const envelope = new Float32Array(Math.max(1, Math.ceil(durationSec * ENVELOPE_RATE)))
+  const spread = ONSET_SPREAD_SEC * ENVELOPE_RATE
+  const reach = Math.ceil(3 * spread)
+
+  for (const { timeSec, strength } of onsets) {
+    const center = timeSec * ENVELOPE_RATE
+    const first = Math.max(0, Math.floor(center) - reach)
+    const last = Math.min(envelope.length - 1, Math.ceil(center) + reach)
+    for (let frame = first; frame <= last; frame++) {
+      const distance = (frame - center) / spread
+      envelope[frame] += strength * Math.exp(-0.5 * distance * distance)
+    }
+  }
+
+  return envelope
+}
+
+function analyzeOnsets(onsets: OnsetEvent[], durationSec: number): OnsetAnalysis {
+  const envelope = buildEnvelope(onsets, durationSec)
+  const minLag = Math.floor((60 * ENVELOPE_RATE) / MAX_BPM)
+  // At least two beats have to fit in the recording
+  const maxLag = Math.min(Math.ceil((60 * ENVELOPE_RATE) / MIN_BPM), envelope.length >> 1)
+
+  // Unbiased autocorrelation: each lag averaged over the frames it overlaps
+  const autocorrelation = new Float32Array(maxLag + 2)
+  let sum = 0
+  for (let lag = minLag; lag <= maxLag + 1 && lag < envelope.length; lag++) {
+    let correlation = 0
+    for (let i = 0; i + lag < envelope.length; i++) {
+      correlation += envelope[i] * envelope[i + lag]
+    }
+    autocorrelation[lag] = correlation / (envelope.length - lag)
+    if (lag <= maxLag) sum += autocorrelation[lag]
+  }
+
+  return {
+    envelope,
+    autocorrelation,
+    meanCorrelation: maxLag >= minLag ? sum / (maxLag - minLag + 1) : 0,
+    minLag,
+    maxLag,
+  }
+}
+
+/**
+ * Autocorrelation at a fractional lag (linear interpolation, 0 out of range).
+ */
+function correlationAt(analysis: OnsetAnalysis, lag: number): number {
+  const { autocorrelation, minLag, maxLag } = analysis
+  if (lag < minLag || lag > maxLag) return 0
+  const below = Math.floor(lag)
+  const fraction = lag - below
+  return autocorrelation[below] * (1 - fraction) + autocorrelation[below + 1] * fraction
+}
+
+function tempoPrior(bpm: number): number {
+  const octaves = Math.log2(bpm / PREFERRED_BPM) / PRIOR_WIDTH_OCTAVES
+  return Math.exp(-0.5 * octaves * octaves)
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tempo and Beat Grid
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * How clearly the onsets repeat at a tempo: how far its autocorrelation
+ * stands above the average over all tempos (0 = no more than chance).
+ */
+function candidateAt(analysis: OnsetAnalysis, bpm: number): TempoCandidate {
+  const correlation = correlationAt(analysis, (60 * ENVELOPE_RATE) / bpm)
+  const confidence = correlation > 0 ? 1 - analysis.meanCorrelation / correlation : 0
+  return { bpm: Math.round(bpm * 10) / 10, confidence: Math.min(1, Math.max(0, confidence)) }
+}
+
+/**
+ * Beat times at a tempo, shifted so they land on as much onset strength as possible.
+ */
+function alignBeats(envelope: Float32Array, bpm: number): number[] {
+  const period = (60 * ENVELOPE_RATE) / bpm
+  let bestPhase = 0
+  let bestScore = -Infinity
+
+  for (let phase = 0; phase < period; phase++) {
+    let score = 0
+    for (let position = phase; position < envelope.length; position += period) {
+      score += envelope[Math.round(position)] ?? 0
+    }
+    if (score > bestScore) {
+      bestScore = score
+      bestPhase = phase
+    }
+  }
+
+  const beats: number[] = []
+  for (let position = bestPhase; position < envelope.length; position += period) {
+    beats.push(position / ENVELOPE_RATE)
+  }
+  return beats
+}
+
+function estimateAt(analysis: OnsetAnalysis, bpm: number, tapped: boolean): TempoEstimate {
+  const alternatives = [bpm / 2, bpm * 2]
+    .filter((alternative) => alternative >= MIN_BPM && alternative <= MAX_BPM)
+    .map((alternative) => candidateAt(analysis, alternative))
+
+  return {
+    ...candidateAt(analysis, bpm),
+    alternatives,
+    beats: alignBeats(analysis.envelope, bpm),
+    ...(tapped ? { tapped } : {}),
+  }
+}
+
+/**
+ * Estimate the tempo and beat grid of a recording from its onsets.
+ *
+ * Autocorrelates the onset envelope over the metronome's tempo range,
+ * weighted towards moderate tempos, then shifts a grid at the winning tempo
+ * to land on the strongest onsets.
+ *
+ * @param onsets - Onsets of the recording (from detectOnsets)
+ * @param durationSec - Length of the recording
+ * @returns Null when there are too few onsets to show a pulse
+ */
+export function trackBeats(onsets: OnsetEvent[], durationSec: number): TempoEstimate | null {
+  if (onsets.length < MIN_ONSETS_FOR_TEMPO) return null
+
+  const analysis = analyzeOnsets(onsets, durationSec)
+  const { autocorrelation, minLag, maxLag } = analysis
+  if (maxLag <= minLag) return null
+
+  let bestLag = 0
+  let bestScore = 0
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const score = autocorrelation[lag] * tempoPrior((60 * ENVELOPE_RATE) / lag)
+    if (score > bestScore) {
+      bestScore = score
+      bestLag = lag
+    }
+  }
+  if (bestScore <= 0) return null
+
+  // Parabolic interpolation between neighbouring lags for a finer tempo
+  let lag = bestLag
+  if (bestLag > minLag && bestLag < maxLag) {
+    const before = autocorrelation[bestLag - 1]
+    const peak = autocorrelation[bestLag]
+    const after = autocorrelation[bestLag + 1]
+    const curvature = before - 2 * peak + after
+    if (curvature < 0) {
+      lag += (0.5 * (before - after)) / curvature
+    }
+  }
+
+  return estimateAt(analysis, (60 * ENVELOPE_RATE) / lag, false)
+}
+
+/**
+ * Beat grid of a recording at a given tempo (e.g. tapped in, or a half/double
+ * alternative), aligned to its onsets.
+ *
+ * @param onsets - Onsets of the recording (from detectOnsets)
+ * @param durationSec - Length of the recording
+ * @param bpm - Tempo to use
+ * @param tapped - Whether the tempo was tapped in
+ */
+export function trackBeatsAtTempo(
+  onsets: OnsetEvent[],
+  durationSec: number,
+  bpm: number,
+  tapped: boolean = false
+): TempoEstimate {
+  return estimateAt(analyzeOnsets(onsets, durationSec), bpm, tapped)
+}
+
+/**
+ * Tempo and beat grid of a take recorded to the metronome, from the tempo
+ * stored on it rather than its onsets.
+ *
+ * @param tempo - Tempo stored on the recording
+ * @param durationSec - Length of the recording (or the part transcribed)
+ * @param startSec - Start of the part within the recording
+ */
+export function getRecordedTempo(
+  tempo: RecordingTempo,
+  durationSec: number,
+  startSec: number = 0
+): TempoEstimate {
+  return {
+    bpm: tempo.bpm,
+    confidence: 1,
+    alternatives: [],
+    beats: getBeatGrid(tempo, durationSec * 1000, startSec * 1000).map((beat) => beat.timeSec),
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tap Tempo
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Add a tap to a sequence of taps. A long pause starts a new sequence, and
+ * only the latest taps are kept so the tempo follows the player.
+ *
+ * @param taps - Earlier tap times in ms
+ * @param timeMs - Time of the new tap
+ */
+export function addTap(taps: number[], timeMs: number): number[] {
+  const last = taps[taps.length - 1]
+  if (last === undefined || timeMs - last > TAP_RESET_MS || timeMs <= last) {
+    return [timeMs]
+  }
+  return [...taps, timeMs].slice(-MAX_TAPS)
+}
+
+/**
+ * Tempo of a sequence of taps: the median interval between them, so one
+ * fumbled tap doesn't throw it off.
+ *
+ * @returns Null until there are enough taps
+ */
+export function getTapTempo(taps: number[]): number | null {
+  if (taps.length < MIN_TAPS) return null
+  const intervals = taps
+    .slice(1)
+    .map((time, i) => time - taps[i])
+    .sort((a, b) => a - b)
+  const median = intervals[intervals.length >> 1]
+  const bpm = 60_000 / median
+  return bpm >= MIN_BPM && bpm <= MAX_BPM ? Math.round(bpm) : null
+}
@@ -372,7 +372,7 @@ export function generateChordSuggestions(
   features: RiffFeatures
 ): ChordSuggestionResult {
   const { tonic, mode } = harmonicField
-  const { pcWeights } = features
+  const pcWeights = features.chordPcWeights ?? features.pcWeights
 
   // Convert display mode name to Tonal mode name
   const tonalModeName = MODE_NAME_MAP[mode] || mode.toLowerCase()
@@ -0,0 +1,25 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// DSP Worker: Runs DSP tasks off the main thread (see dspTasks.ts)
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+  runDspTask,
+  getTransferList,
+  type DspReadyMessage,
+  type DspRequestMessage,
+  type DspResponseMessage,
+} from './dspTasks'
+
+self.onmessage = (event: MessageEvent<DspRequestMessage>) => {
+  const { id, request } = event.data
+  let response: DspResponseMessage
+  try {
+    response = { id, ok: true, result: runDspTask(request) }
+  } catch (err) {
+    response = { id, ok: false, error: err instanceof Error ? err.message : String(err) }
+  }
+  self.postMessage(response, { transfer: response.ok ? getTransferList(response.result) : [] })
+}
+
+// Tasks (and their audio) are only sent once the worker is known to have loaded
+self.postMessage({ ready: true } satisfies DspReadyMessage)
@@ -0,0 +1,319 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { runDspTask, getTransferList, type DspRequestMessage } from './dspTasks'
+import { analyzeAudio } from './audioAnalysis'
+import { detectOnsets } from './onsetDetection'
+import { transcribeMonophonic } from './monophonicTranscription'
+import { spectralNoiseReduction, separateHarmonicPercussive } from './spectralProcessing'
+import { dspWorker, DspWorkerClient, DspCancelledError } from './dspWorker'
+
+describe('dspTasks', () => {
+  const SAMPLE_RATE = 22050
+
+  // Quiet noise with a few plucks
+  const createAudio = (): Float32Array => {
+    const samples = new Float32Array(SAMPLE_RATE)
+    let state = 1
+    for (let i = 0; i < samples.length; i++) {
+      state = (state * 1103515245 + 12345) % 2147483648
+      samples[i] = (state / 2147483648 - 0.5) * 0.01
+    }
+    for (const start of [0.2, 0.5, 0.8]) {
+      const offset = Math.round(start * SAMPLE_RATE)
+      for (let i = 0; i < 2000; i++) {
+        samples[offset + i] +=
+          0.6 * Math.exp(-i / 400) * Math.sin((2 * Math.PI * 220 * i) / SAMPLE_RATE)
+      }
+    }
+    return samples
+  }
+
+  describe('runDspTask', () => {
+    it('analyzes and hands the samples back', () => {
+      const samples = createAudio()
+
+      const result = runDspTask({ type: 'analyze', samples, sampleRate: SAMPLE_RATE })
+
+      expect(result.samples).toBe(samples)
+      expect(result.metrics).toEqual(analyzeAudio(samples, SAMPLE_RATE))
+    })
+
+    it('detects the same onsets as detectOnsets', () => {
+      const samples = createAudio()
+
+      const result = runDspTask({ type: 'detectOnsets', samples, sampleRate: SAMPLE_RATE })
+
+      expect(result.onsets).toEqual(detectOnsets(samples, SAMPLE_RATE))
+      expect(result.onsets.length).toBeGreaterThan(0)
+    })
+
+    it('transcribes a single-note line like transcribeMonophonic', () => {
+      const samples = createAudio()
+      const onsets = detectOnsets(samples, SAMPLE_RATE)
+
+      const result = runDspTask({
+        type: 'transcribeMonophonic',
+        samples,
+        sampleRate: SAMPLE_RATE,
+        onsets,
+      })
+
+      expect(result.samples).toBe(samples)
+      expect(result.notes).toEqual(transcribeMonophonic(samples, SAMPLE_RATE, onsets))
+    })
+
+    it('reduces noise like spectralNoiseReduction', () => {
+      const samples = createAudio()
+
+      const result = runDspTask({ type: 'noiseReduction', samples, sampleRate: SAMPLE_RATE })
+
+      expect(result.samples).toEqual(spectralNoiseReduction(samples, SAMPLE_RATE))
+    })
+
+    it('separates like separateHarmonicPercussive', () => {
+      const samples = createAudio()
+
+      const result = runDspTask({
+        type: 'separateHarmonicPercussive',
+        samples,
+        sampleRate: SAMPLE_RATE,
+        harmonicKernelMs: 200,
+        percussiveKernelHz: 300,
+      })
+
+      expect(result).toEqual(separateHarmonicPercussive(samples, SAMPLE_RATE, 200, 300))
+    })
+
+    it('cleans up notes', () => {
+      const notes = [{ startSec: 0.51, endSec: 1, midi: 60, velocity: 0.8 }]
+
+      const result = runDspTask({
+        type: 'cleanUpNotes',
+        notes,
+        onsets: [{ timeSec: 0.5, strength: 0.9 }],
+      })
+
+      expect(result.notes[0].startSec).toBe(0.5)
+    })
+  })
+
+  describe('getTransferList', () => {
+    it('transfers samples that own their buffer', () => {
+      const samples = new Float32Array(8)
+      expect(getTransferList({ type: 'analyze', samples, sampleRate: SAMPLE_RATE })).toEqual([
+        samples.buffer,
+      ])
+    })
+
+    it('transfers both parts of a separation', () => {
+      const harmonic = new Float32Array(8)
+      const percussive = new Float32Array(8)
+      expect(getTransferList({ harmonic, percussive })).toEqual([
+        harmonic.buffer,
+        percussive.buffer,
+      ])
+    })
+
+    it('copies views into a larger buffer', () => {
+      const samples = new Float32Array(8).subarray(2, 6)
+      expect(getTransferList({ type: 'analyze', samples, sampleRate: SAMPLE_RATE })).toEqual([])
+    })
+
+    it('has nothing to transfer for notes', () => {
+      expect(getTransferList({ type: 'cleanUpNotes', notes: [], onsets: [] })).toEqual([])
+    })
+  })
+
+  describe('dspWorker', () => {
+    it('runs tasks on this thread when workers are unavailable', async () => {
+      const samples = createAudio()
+
+      const result = await dspWorker.run({ type: 'analyze', samples, sampleRate: SAMPLE_RATE })
+
+      expect(result.metrics).toEqual(analyzeAudio(samples, SAMPLE_RATE))
+    })
+
+    it('rejects when the signal is already aborted', async () => {
+      const abort = new AbortController()
+      abort.abort()
+
+      await expect(
+        dspWorker.run({ type: 'cleanUpNotes', notes: [], onsets: [] }, abort.signal)
+      ).rejects.toBeInstanceOf(DspCancelledError)
+    })
+
+    describe('with a worker', () => {
+      // Stands in for the module worker: records what it's sent, and answers when told to
+      class FakeWorker {
+        static instances: FakeWorker[] = []
+        static failToConstruct = false
+
+        onmessage: ((event: { data: unknown }) => void) | null = null
+        onerror: ((event: { message: string; preventDefault: () => void }) => void) | null = null
+        posted: DspRequestMessage[] = []
+        terminated = false
+
+        constructor() {
+          if (FakeWorker.failToConstruct) throw new Error('Blocked by CSP')
+          FakeWorker.instances.push(this)
+        }
+
+        postMessage(message: DspRequestMessage) {
+          this.posted.push(message)
+        }
+
+        terminate() {
+          this.terminated = true
+        }
+
+        load() {
+          this.onmessage?.({ data: { ready: true } })
+        }
+
+        respond() {
+          const { id, request } = this.posted[this.posted.length - 1]
+          this.onmessage?.({ data: { id, ok: true, result: runDspTask(request) } })
+        }
+
+        fail(message: string) {
+          this.onerror?.({ message, preventDefault: () => {} })
+        }
+      }
+
+      const cleanUp = { type: 'cleanUpNotes' as const, notes: [], onsets: [] }
+
+      beforeEach(() => {
+        FakeWorker.instances = []
+        FakeWorker.failToConstruct = false
+        vi.stubGlobal('Worker', FakeWorker)
+        vi.spyOn(console, 'warn').mockImplementation(() => {})
+      })
+
+      afterEach(() => {
+        vi.unstubAllGlobals()
+        vi.restoreAllMocks()
+      })
+
+      it('sends tasks one at a time once the worker has loaded', async () => {
+        const client = new DspWorkerClient()
+
+        const first = client.run(cleanUp)
+        const second = client.run({ ...cleanUp, notes: [{ startSec: 0, endSec: 1, midi: 60 }] })
+        const [worker] = FakeWorker.instances
+        expect(worker.posted).toHaveLength(0)
+
+        worker.load()
+        expect(worker.posted.map((message) => message.request.type)).toEqual(['cleanUpNotes'])
+
+        worker.respond()
+        await expect(first).resolves.toEqual({ notes: [] })
+        expect(worker.posted).toHaveLength(2)
+
+        worker.respond()
+        await expect(second).resolves.toEqual(runDspTask(worker.posted[1].request))
+        expect(FakeWorker.instances).toHaveLength(1)
+      })
+
+      it('restarts the worker when the running task is aborted', async () => {
+        const client = new DspWorkerClient()
+        const abort = new AbortController()
+
+        const running = client.run(cleanUp, abort.signal)
+        const next = client.run(cleanUp)
+        FakeWorker.instances[0].load()
+
+        abort.abort()
+
+        await expect(running).rejects.toBeInstanceOf(DspCancelledError)
+        expect(FakeWorker.instances[0].terminated).toBe(true)
+
+        const restarted = FakeWorker.instances[1]
+        restarted.load()
+        expect(restarted.posted).toHaveLength(1)
+        restarted.respond()
+        await expect(next).resolves.toEqual({ notes: [] })
+      })
+
+      it('drops an aborted task from the queue without stopping the worker', async () => {
+        const client = new DspWorkerClient()
+        const abort = new AbortController()
+
+        const running = client.run(cleanUp)
+        const queued = client.run(cleanUp, abort.signal)
+        const [worker] = FakeWorker.instances
+        worker.load()
+
+        abort.abort()
+        await expect(queued).rejects.toBeInstanceOf(DspCancelledError)
+
+        worker.respond()
+        await expect(running).resolves.toEqual({ notes: [] })
+        expect(worker.posted).toHaveLength(1)
+        expect(worker.terminated).toBe(false)
+      })
+
+      it('rejects with the error of a failed task and goes on with the next', async () => {
+        const client = new DspWorkerClient()
+
+        const failing = client.run(cleanUp)
+        const next = client.run(cleanUp)
+        const [worker] = FakeWorker.instances
+        worker.load()
+
+        worker.onmessage?.({ data: { id: worker.posted[0].id, ok: false, error: 'Bad input' } })
+
+        await expect(failing).rejects.toThrow('Bad input')
+        worker.respond()
+        await expect(next).resolves.toEqual({ notes: [] })
+      })
+
+      it('runs the queue on this thread when the worker fails to load', async () => {
+        const client = new DspWorkerClient()
+        const samples = createAudio()
+
+        const analyzed = client.run({ type: 'analyze', samples, sampleRate: SAMPLE_RATE })
+        const cleaned = client.run(cleanUp)
+        FakeWorker.instances[0].fail('Failed to fetch module')
+
+        await expect(analyzed).resolves.toEqual({
+          samples,
+          metrics: analyzeAudio(samples, SAMPLE_RATE),
+        })
+        await expect(cleaned).resolves.toEqual({ notes: [] })
+        expect(FakeWorker.instances[0].terminated).toBe(true)
+
+        // Later tasks don't try another worker
+        await expect(client.run(cleanUp)).resolves.toEqual({ notes: [] })
+        expect(FakeWorker.instances).toHaveLength(1)
+      })
+
+      it('runs on this thread when the worker cannot be created', async () => {
+        FakeWorker.failToConstruct = true
+        const client = new DspWorkerClient()
+
+        await expect(client.run(cleanUp)).resolves.toEqual({ notes: [] })
+        await expect(client.run(cleanUp)).resolves.toEqual({ notes: [] })
+      })
+
+      it('reruns a crashed task here unless its audio went to the worker', async () => {
+        const client = new DspWorkerClient()
+        const samples = createAudio()
+
+        const analyzed = client.run({ type: 'analyze', samples, sampleRate: SAMPLE_RATE })
+        const cleaned = client.run(cleanUp)
+        const [worker] = FakeWorker.instances
+        worker.load()
+        worker.fail('Out of memory')
+
+        await expect(analyzed).rejects.toThrow('Out of memory')
+        await expect(cleaned).resolves.toEqual({ notes: [] })
+
+        const crashedClient = new DspWorkerClient()
+        const crashedCleanUp = crashedClient.run(cleanUp)
+        FakeWorker.instances[1].load()
+        FakeWorker.instances[1].fail('Out of memory')
+
+        await expect(crashedCleanUp).resolves.toEqual({ notes: [] })
+      })
+    })
+  })
+})
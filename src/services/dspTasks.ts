@@ -0,0 +1,148 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// DSP Tasks: Message protocol of the DSP worker and the work behind each task
+// Runs the same synchronous functions the rest of the app (and the tests) use
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { AudioMetrics, HumReading, TranscribedNote } from '../domain/types'
+import { analyzeAudio, detectHum } from './audioAnalysis'
+import { spectralNoiseReduction, separateHarmonicPercussive } from './spectralProcessing'
+import { detectOnsets, type OnsetDetector, type OnsetEvent } from './onsetDetection'
+import { cleanUpNotes } from './noteProcessing'
+import { transcribeMonophonic } from './monophonicTranscription'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Protocol
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Work that can run off the main thread.
+ *
+ * Tasks that only read the audio hand the samples back in their result,
+ * so the buffer can move to the worker and back without being copied.
+ */
+export type DspRequest =
+  | { type: 'analyze'; samples: Float32Array; sampleRate: number }
+  | { type: 'detectHum'; samples: Float32Array; sampleRate: number }
+  | {
+      type: 'noiseReduction'
+      samples: Float32Array
+      sampleRate: number
+      /** Room-tone spectrum (estimated from the quietest frames when omitted) */
+      noiseSpectrum?: Float32Array
+    }
+  | {
+      type: 'separateHarmonicPercussive'
+      samples: Float32Array
+      sampleRate: number
+      harmonicKernelMs: number
+      percussiveKernelHz: number
+    }
+  | {
+      type: 'detectOnsets'
+      samples: Float32Array
+      sampleRate: number
+      detector?: OnsetDetector
+    }
+  | { type: 'cleanUpNotes'; notes: TranscribedNote[]; onsets: OnsetEvent[] }
+  | {
+      type: 'transcribeMonophonic'
+      samples: Float32Array
+      sampleRate: number
+      onsets: OnsetEvent[]
+    }
+
+export interface DspResults {
+  analyze: { samples: Float32Array; metrics: AudioMetrics }
+  detectHum: { samples: Float32Array; hum: HumReading | null }
+  noiseReduction: { samples: Float32Array }
+  separateHarmonicPercussive: { harmonic: Float32Array; percussive: Float32Array }
+  detectOnsets: { samples: Float32Array; onsets: OnsetEvent[] }
+  cleanUpNotes: { notes: TranscribedNote[] }
+  transcribeMonophonic: { samples: Float32Array; notes: TranscribedNote[] }
+}
+
+export type DspTaskType = DspRequest['type']
+
+export type DspRequestOf<T extends DspTaskType> = Extract<DspRequest, { type: T }>
+
+/** Main thread → worker */
+export interface DspRequestMessage {
+  id: number
+  request: DspRequest
+}
+
+/** Worker → main thread */
+export type DspResponseMessage =
+  | { id: number; ok: true; result: DspResults[DspTaskType] }
+  | { id: number; ok: false; error: string }
+
+/** Worker → main thread, once the worker has loaded and can take tasks */
+export interface DspReadyMessage {
+  ready: true
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tasks
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Run a task synchronously on the current thread.
+ */
+export function runDspTask<T extends DspTaskType>(request: DspRequestOf<T>): DspResults[T] {
+  const task = request as DspRequest
+  switch (task.type) {
+    case 'analyze':
+      return {
+        samples: task.samples,
+        metrics: analyzeAudio(task.samples, task.sampleRate),
+      } as DspResults[T]
+    case 'detectHum':
+      return {
+        samples: task.samples,
+        hum: detectHum(task.samples, task.sampleRate),
+      } as DspResults[T]
+    case 'noiseReduction':
+      return {
+        samples: spectralNoiseReduction(task.samples, task.sampleRate, task.noiseSpectrum),
+      } as DspResults[T]
+    case 'separateHarmonicPercussive':
+      return separateHarmonicPercussive(
+        task.samples,
+        task.sampleRate,
+        task.harmonicKernelMs,
+        task.percussiveKernelHz
+      ) as DspResults[T]
+    case 'detectOnsets':
+      return {
+        samples: task.samples,
+        onsets: detectOnsets(task.samples, task.sampleRate, task.detector),
+      } as DspResults[T]
+    case 'cleanUpNotes':
+      return { notes: cleanUpNotes(task.notes, task.onsets) } as DspResults[T]
+    case 'transcribeMonophonic':
+      return {
+        samples: task.samples,
+        notes: transcribeMonophonic(task.samples, task.sampleRate, task.onsets),
+      } as DspResults[T]
+  }
+}
+
+// Audio a message carries (other arrays, such as a noise profile's spectrum, are copied)
+const AUDIO_KEYS = ['samples', 'harmonic', 'percussive'] as const
+
+/**
+ * Buffers to transfer (rather than copy) with a request or result: the
+ * audio, when it owns its whole buffer. Views into a larger buffer are
+ * copied so the rest of that buffer stays usable.
+ */
+export function getTransferList(message: DspRequest | DspResults[DspTaskType]): ArrayBuffer[] {
+  const transfer: ArrayBuffer[] = []
+  for (const key of AUDIO_KEYS) {
+    if (!(key in message)) continue
+    const { buffer, byteOffset, byteLength } = (message as Record<typeof key, Float32Array>)[key]
+    if (buffer instanceof ArrayBuffer && byteOffset === 0 && byteLength === buffer.byteLength) {
+      transfer.push(buffer)
+    }
+  }
+  return transfer
+}
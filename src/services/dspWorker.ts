@@ -0,0 +1,219 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// DSP Worker Client: Runs DSP tasks in a Web Worker so long takes don't
+// freeze the UI. Falls back to the current thread where workers don't work.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+  runDspTask,
+  getTransferList,
+  type DspRequest,
+  type DspRequestOf,
+  type DspResults,
+  type DspReadyMessage,
+  type DspResponseMessage,
+  type DspTaskType,
+} from './dspTasks'
+
+export class DspCancelledError extends Error {
+  constructor() {
+    super('DSP task cancelled')
+    this.name = 'DspCancelledError'
+  }
+}
+
+interface QueuedTask {
+  id: number
+  request: DspRequest
+  resolve: (result: DspResults[DspTaskType]) => void
+  reject: (error: Error) => void
+  signal?: AbortSignal
+  onAbort: () => void
+  /** Whether its audio was moved to the worker (and is gone from this thread) */
+  transferred?: boolean
+}
+
+/**
+ * Run a task synchronously on the current thread, settling a promise.
+ */
+function runOnThisThread<T extends DspTaskType>(request: DspRequestOf<T>): Promise<DspResults[T]> {
+  try {
+    return Promise.resolve(runDspTask(request))
+  } catch (err) {
+    return Promise.reject(err)
+  }
+}
+
+/**
+ * Sends tasks to the worker one at a time, so it is always known which task
+ * the worker is busy with - cancelling that one means restarting the worker.
+ *
+ * Tasks wait until the worker reports it has loaded. A worker that can't be
+ * created, fails to load or crashes (e.g. blocked by a CSP) isn't tried
+ * again: its task and all later ones run on the current thread instead.
+ */
+export class DspWorkerClient {
+  private worker: Worker | null = null
+  private workerReady = false
+  private workerFailed = false
+  private queue: QueuedTask[] = []
+  private running: QueuedTask | null = null
+  private nextId = 1
+
+  /**
+   * Run a task in the worker.
+   *
+   * The request's samples are transferred to the worker: use the samples of
+   * the result afterwards, not the ones passed in.
+   *
+   * @param request - Task to run
+   * @param signal - Abort to cancel the task (stops it even mid-way)
+   * @throws DspCancelledError when the signal is aborted
+   */
+  run<T extends DspTaskType>(
+    request: DspRequestOf<T>,
+    signal?: AbortSignal
+  ): Promise<DspResults[T]> {
+    if (signal?.aborted) {
+      return Promise.reject(new DspCancelledError())
+    }
+
+    // No workers (e.g. in tests), or none that work here: run on this thread
+    if (typeof Worker === 'undefined' || this.workerFailed) {
+      return runOnThisThread(request)
+    }
+
+    return new Promise<DspResults[T]>((resolve, reject) => {
+      const task: QueuedTask = {
+        id: this.nextId++,
+        request,
+        resolve: resolve as (result: DspResults[DspTaskType]) => void,
+        reject,
+        signal,
+        onAbort: () => this.cancelTask(task),
+      }
+      signal?.addEventListener('abort', task.onAbort, { once: true })
+      this.queue.push(task)
+      this.runNext()
+    })
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      const worker = new Worker(new URL('./dsp.worker.ts', import.meta.url), { type: 'module' })
+      worker.onmessage = (event: MessageEvent<DspResponseMessage | DspReadyMessage>) =>
+        this.handleMessage(event.data)
+      worker.onerror = (event) => {
+        event.preventDefault()
+        this.handleWorkerFailure(new Error(event.message || 'DSP worker failed'))
+      }
+      this.worker = worker
+      this.workerReady = false
+    }
+    return this.worker
+  }
+
+  private runNext(): void {
+    if (this.running || this.queue.length === 0) return
+
+    if (this.workerFailed) {
+      this.runQueueOnThisThread()
+      return
+    }
+
+    let worker: Worker
+    try {
+      worker = this.getWorker()
+    } catch (err) {
+      this.handleWorkerFailure(err instanceof Error ? err : new Error(String(err)))
+      return
+    }
+    // The ready message picks the queue up
+    if (!this.workerReady) return
+
+    const task = this.queue.shift()
+    if (!task) return
+
+    const transfer = getTransferList(task.request)
+    task.transferred = transfer.length > 0
+    this.running = task
+    worker.postMessage({ id: task.id, request: task.request }, { transfer })
+  }
+
+  private handleMessage(message: DspResponseMessage | DspReadyMessage): void {
+    if ('ready' in message) {
+      this.workerReady = true
+      this.runNext()
+      return
+    }
+
+    const task = this.running
+    if (!task || task.id !== message.id) return
+
+    this.settle(task)
+    if (message.ok) {
+      task.resolve(message.result)
+    } else {
+      task.reject(new Error(message.error))
+    }
+    this.runNext()
+  }
+
+  private cancelTask(task: QueuedTask): void {
+    if (this.running === task) {
+      // Work in progress can't be interrupted: stop the worker (a new one
+      // picks up the remaining tasks)
+      this.stopWorker()
+    } else {
+      this.queue = this.queue.filter((queued) => queued !== task)
+    }
+    this.settle(task)
+    task.reject(new DspCancelledError())
+    this.runNext()
+  }
+
+  private handleWorkerFailure(error: Error): void {
+    console.warn('[DSP] Worker unavailable, running DSP tasks on the main thread:', error)
+    this.workerFailed = true
+
+    const task = this.running
+    this.stopWorker()
+    if (task) {
+      this.settle(task)
+      if (task.transferred) {
+        // Its audio went down with the worker
+        task.reject(error)
+      } else {
+        this.queue.unshift(task)
+      }
+    }
+    this.runNext()
+  }
+
+  private runQueueOnThisThread(): void {
+    const tasks = this.queue
+    this.queue = []
+    for (const task of tasks) {
+      this.settle(task)
+      runOnThisThread(task.request).then(task.resolve, task.reject)
+    }
+  }
+
+  private settle(task: QueuedTask): void {
+    task.signal?.removeEventListener('abort', task.onAbort)
+    if (this.running === task) {
+      this.running = null
+    }
+  }
+
+  private stopWorker(): void {
+    this.worker?.terminate()
+    this.worker = null
+    this.workerReady = false
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Export singleton instance
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const dspWorker = new DspWorkerClient()
@@ -12,6 +12,18 @@ function midiToPitchClass(midi: number): number {
   return midi % 12
 }
 
+/**
+ * Find the most significant pitch classes, sorted by weight (descending).
+ */
+export function getTopPitchClasses(pcWeights: PitchClassWeights): number[] {
+  return pcWeights
+    .map((weight, pc) => ({ pc, weight }))
+    .filter((entry) => entry.weight > 0.01) // Only include significant pitch classes
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, 5) // Top 5
+    .map((entry) => entry.pc)
+}
+
 /**
  * Extract pitch class features from transcribed notes.
  * Weights notes by duration × amplitude to build a pitch class histogram.
@@ -48,13 +60,7 @@ export function extractFeatures(notes: TranscribedNote[]): RiffFeatures {
     }
   }
 
-  // Find top pitch classes (sorted by weight, descending)
-  const topPitchClasses = pcWeights
-    .map((weight, pc) => ({ pc, weight }))
-    .filter((entry) => entry.weight > 0.01) // Only include significant pitch classes
-    .sort((a, b) => b.weight - a.weight)
-    .slice(0, 5) // Top 5
-    .map((entry) => entry.pc)
+  const topPitchClasses = getTopPitchClasses(pcWeights)
 
   // Get last note's pitch class (for resolution/ending hints)
   const lastNote = notes[notes.length - 1]
@@ -0,0 +1,167 @@
+import { bench, describe } from 'vitest'
+import { spectralNoiseReduction } from './spectralProcessing'
+import { detectOnsets } from './onsetDetection'
+import { getFFT, stft, istft } from './fft'
+
+// A 20s take at the transcription rate: plucked notes over light noise
+const SAMPLE_RATE = 22050
+const take = new Float32Array(SAMPLE_RATE * 20)
+let state = 1
+for (let i = 0; i < take.length; i++) {
+  state = (state * 1103515245 + 12345) % 2147483648
+  take[i] = (state / 2147483648 - 0.5) * 0.02
+}
+for (let start = 0; start + 4000 < take.length; start += 5512) {
+  for (let i = 0; i < 4000; i++) {
+    take[start + i] += 0.5 * Math.exp(-i / 1500) * Math.sin((2 * Math.PI * 196 * i) / SAMPLE_RATE)
+  }
+}
+
+// The FFT the DSP code used before fft.ts (spectralProcessing's FFTProcessor),
+// kept as the baseline: a complex Cooley-Tukey over the full frame that
+// allocates its buffers on every call
+class PreviousFFT {
+  private cosTable: Float32Array
+  private sinTable: Float32Array
+  private hannWindow: Float32Array
+
+  constructor(private size: number) {
+    this.cosTable = new Float32Array(size / 2)
+    this.sinTable = new Float32Array(size / 2)
+    this.hannWindow = new Float32Array(size)
+    for (let i = 0; i < size / 2; i++) {
+      const angle = (-2 * Math.PI * i) / size
+      this.cosTable[i] = Math.cos(angle)
+      this.sinTable[i] = Math.sin(angle)
+    }
+    for (let i = 0; i < size; i++) {
+      this.hannWindow[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (size - 1)))
+    }
+  }
+
+  forward(input: Float32Array): { real: Float32Array; imag: Float32Array } {
+    const real = new Float32Array(this.size)
+    const imag = new Float32Array(this.size)
+    for (let i = 0; i < this.size; i++) {
+      real[i] = (input[i] || 0) * this.hannWindow[i]
+    }
+    this.fft(real, imag, false)
+    return { real, imag }
+  }
+
+  inverse(real: Float32Array, imag: Float32Array): Float32Array {
+    const outReal = new Float32Array(real)
+    const outImag = new Float32Array(imag)
+    this.fft(outReal, outImag, true)
+    const output = new Float32Array(this.size)
+    for (let i = 0; i < this.size; i++) {
+      output[i] = (outReal[i] / this.size) * this.hannWindow[i]
+    }
+    return output
+  }
+
+  private fft(real: Float32Array, imag: Float32Array, inverse: boolean): void {
+    const n = this.size
+    let j = 0
+    for (let i = 0; i < n - 1; i++) {
+      if (i < j) {
+        let temp = real[i]
+        real[i] = real[j]
+        real[j] = temp
+        temp = imag[i]
+        imag[i] = imag[j]
+        imag[j] = temp
+      }
+      let k = n / 2
+      while (k <= j) {
+        j -= k
+        k /= 2
+      }
+      j += k
+    }
+
+    const sign = inverse ? 1 : -1
+    for (let len = 2; len <= n; len *= 2) {
+      const halfLen = len / 2
+      const tableStep = n / len
+      for (let i = 0; i < n; i += len) {
+        for (let k = 0; k < halfLen; k++) {
+          const idx = i + k
+          const idx2 = idx + halfLen
+          const cos = this.cosTable[k * tableStep]
+          const sin = sign * this.sinTable[k * tableStep]
+          const tReal = real[idx2] * cos - imag[idx2] * sin
+          const tImag = real[idx2] * sin + imag[idx2] * cos
+          real[idx2] = real[idx] - tReal
+          imag[idx2] = imag[idx] - tImag
+          real[idx] += tReal
+          imag[idx] += tImag
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Analysis and overlap-add resynthesis of a whole take the way noise
+ * reduction did it before fft.ts: a slice, a forward FFT, a mirrored
+ * spectrum and an inverse FFT for every frame.
+ */
+function previousStftRoundTrip(samples: Float32Array, fftSize: number, hopSize: number) {
+  const fft = new PreviousFFT(fftSize)
+  const output = new Float32Array(samples.length)
+  const numBins = fftSize / 2 + 1
+  for (let start = 0; start + fftSize <= samples.length; start += hopSize) {
+    const { real, imag } = fft.forward(samples.slice(start, start + fftSize))
+    const fullReal = new Float32Array(fftSize)
+    const fullImag = new Float32Array(fftSize)
+    for (let i = 0; i < numBins; i++) {
+      fullReal[i] = real[i]
+      fullImag[i] = imag[i]
+      if (i > 0 && i < numBins - 1) {
+        fullReal[fftSize - i] = real[i]
+        fullImag[fftSize - i] = -imag[i]
+      }
+    }
+    const frame = fft.inverse(fullReal, fullImag)
+    for (let i = 0; i < fftSize; i++) output[start + i] += frame[i]
+  }
+  return output
+}
+
+describe('20s take', () => {
+  bench('spectralNoiseReduction', () => {
+    spectralNoiseReduction(take, SAMPLE_RATE)
+  })
+
+  bench('detectOnsets', () => {
+    detectOnsets(take, SAMPLE_RATE)
+  })
+})
+
+describe('transforms', () => {
+  const fft = getFFT(2048)
+  const frame = take.subarray(0, 2048)
+  const real = new Float32Array(fft.numBins)
+  const imag = new Float32Array(fft.numBins)
+
+  const previousFft = new PreviousFFT(2048)
+
+  bench('RealFFT forward (2048)', () => {
+    fft.forward(frame, real, imag)
+  })
+
+  bench('previous FFT forward (2048)', () => {
+    previousFft.forward(frame)
+  })
+})
+
+describe('stft + istft of the 20s take', () => {
+  bench('fft.ts', () => {
+    istft(stft(take, { fftSize: 2048, hopSize: 512 }))
+  })
+
+  bench('previous FFT, per frame', () => {
+    previousStftRoundTrip(take, 2048, 512)
+  })
+})
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest'
+import { RealFFT, getFFT, getWindow, getFrameCount, stft, istft, getMagnitudes } from './fft'
+
+describe('fft', () => {
+  // Deterministic pseudo-random signal
+  const createSignal = (length: number): Float32Array => {
+    const samples = new Float32Array(length)
+    let state = 7
+    for (let i = 0; i < length; i++) {
+      state = (state * 1103515245 + 12345) % 2147483648
+      samples[i] = state / 2147483648 - 0.5
+    }
+    return samples
+  }
+
+  // Direct DFT to check against
+  const dft = (samples: Float32Array): { real: number[]; imag: number[] } => {
+    const n = samples.length
+    const real: number[] = []
+    const imag: number[] = []
+    for (let k = 0; k <= n / 2; k++) {
+      let re = 0
+      let im = 0
+      for (let t = 0; t < n; t++) {
+        re += samples[t] * Math.cos((2 * Math.PI * k * t) / n)
+        im -= samples[t] * Math.sin((2 * Math.PI * k * t) / n)
+      }
+      real.push(re)
+      imag.push(im)
+    }
+    return { real, imag }
+  }
+
+  const maxDifference = (a: ArrayLike<number>, b: ArrayLike<number>): number => {
+    let max = 0
+    for (let i = 0; i < a.length; i++) {
+      max = Math.max(max, Math.abs(a[i] - b[i]))
+    }
+    return max
+  }
+
+  describe('RealFFT', () => {
+    it('matches a direct DFT', () => {
+      for (const size of [4, 16, 256]) {
+        const samples = createSignal(size)
+        const fft = new RealFFT(size)
+        const real = new Float32Array(fft.numBins)
+        const imag = new Float32Array(fft.numBins)
+
+        fft.forward(samples, real, imag)
+
+        const expected = dft(samples)
+        expect(maxDifference(real, expected.real)).toBeLessThan(1e-4)
+        expect(maxDifference(imag, expected.imag)).toBeLessThan(1e-4)
+      }
+    })
+
+    it('puts a sine in its bin', () => {
+      const fft = new RealFFT(64)
+      const samples = Float32Array.from({ length: 64 }, (_, i) =>
+        Math.sin((2 * Math.PI * 5 * i) / 64)
+      )
+      const real = new Float32Array(fft.numBins)
+      const imag = new Float32Array(fft.numBins)
+
+      fft.forward(samples, real, imag)
+
+      expect(imag[5]).toBeCloseTo(-32, 4)
+      expect(Math.hypot(real[4], imag[4])).toBeLessThan(1e-4)
+    })
+
+    it('inverts its own transform', () => {
+      const samples = createSignal(512)
+      const fft = new RealFFT(512)
+      const real = new Float32Array(fft.numBins)
+      const imag = new Float32Array(fft.numBins)
+      const output = new Float32Array(512)
+
+      fft.forward(samples, real, imag)
+      fft.inverse(real, imag, output)
+
+      expect(maxDifference(output, samples)).toBeLessThan(1e-5)
+    })
+
+    it('applies a window', () => {
+      const fft = new RealFFT(16)
+      const real = new Float32Array(fft.numBins)
+      const imag = new Float32Array(fft.numBins)
+
+      fft.forward(new Float32Array(16).fill(1), real, imag, getWindow('hann', 16))
+
+      const windowSum = getWindow('hann', 16).reduce((sum, w) => sum + w, 0)
+      expect(real[0]).toBeCloseTo(windowSum, 5)
+    })
+
+    it('rejects sizes that are not powers of two', () => {
+      expect(() => new RealFFT(100)).toThrow(RangeError)
+    })
+
+    it('is shared per size', () => {
+      expect(getFFT(1024)).toBe(getFFT(1024))
+    })
+  })
+
+  describe('getWindow', () => {
+    it('builds symmetric windows', () => {
+      for (const type of ['hann', 'hamming', 'blackman'] as const) {
+        const window = getWindow(type, 9)
+        expect(window[4]).toBeCloseTo(1, 5)
+        expect(window[0]).toBeCloseTo(window[8], 6)
+      }
+      expect(getWindow('hann', 9)[0]).toBe(0)
+      expect(getWindow('hamming', 9)[0]).toBeCloseTo(0.08, 6)
+      expect(Array.from(getWindow('rectangular', 4))).toEqual([1, 1, 1, 1])
+    })
+  })
+
+  describe('stft', () => {
+    const options = { fftSize: 256, hopSize: 64 }
+
+    it('counts frames that fit the signal', () => {
+      expect(getFrameCount(1000, options)).toBe(12)
+      expect(getFrameCount(100, options)).toBe(0)
+      expect(getFrameCount(100, { ...options, pad: true })).toBe(6)
+    })
+
+    it('lays out frames one after the other', () => {
+      const samples = createSignal(1000)
+      const spectrogram = stft(samples, options)
+
+      const fft = new RealFFT(256)
+      const real = new Float32Array(fft.numBins)
+      const imag = new Float32Array(fft.numBins)
+      fft.forward(samples.subarray(128, 384), real, imag, getWindow('hann', 256))
+
+      expect(spectrogram.numFrames).toBe(12)
+      expect(spectrogram.numBins).toBe(129)
+      expect(maxDifference(spectrogram.real.subarray(2 * 129, 3 * 129), real)).toBe(0)
+      expect(getMagnitudes(spectrogram).length).toBe(12 * 129)
+    })
+
+    it('reconstructs the signal through istft', () => {
+      const samples = createSignal(2000)
+
+      for (const window of ['hann', 'hamming', 'blackman'] as const) {
+        const output = istft(stft(samples, { ...options, window, pad: true }))
+
+        expect(output.length).toBe(samples.length)
+        expect(maxDifference(output, samples)).toBeLessThan(1e-4)
+      }
+    })
+
+    it('drops samples past the last frame without padding', () => {
+      const output = istft(stft(createSignal(1000), options))
+
+      expect(output.length).toBe(1000)
+      expect(Array.from(output.subarray(960)).every((sample) => sample === 0)).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,398 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// FFT: Real FFT with precomputed tables, windows and STFT/ISTFT helpers
+// shared by all spectral DSP (noise reduction, separation, onset detection)
+// ─────────────────────────────────────────────────────────────────────────────
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Windows
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type WindowType = 'hann' | 'hamming' | 'blackman' | 'rectangular'
+
+const windowCache = new Map<string, Float32Array>()
+
+/**
+ * Symmetric analysis window of the given size (cached - don't modify it).
+ */
+export function getWindow(type: WindowType, size: number): Float32Array {
+  const key = `${type}:${size}`
+  const cached = windowCache.get(key)
+  if (cached) return cached
+
+  const window = new Float32Array(size)
+  const denominator = Math.max(1, size - 1)
+  for (let i = 0; i < size; i++) {
+    const phase = (2 * Math.PI * i) / denominator
+    switch (type) {
+      case 'hann':
+        window[i] = 0.5 * (1 - Math.cos(phase))
+        break
+      case 'hamming':
+        window[i] = 0.54 - 0.46 * Math.cos(phase)
+        break
+      case 'blackman':
+        window[i] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase)
+        break
+      case 'rectangular':
+        window[i] = 1
+        break
+    }
+  }
+
+  windowCache.set(key, window)
+  return window
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Real FFT
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * FFT of real signals of one size.
+ *
+ * Packs the even and odd samples into a complex signal of half the size, so
+ * a transform costs about half a complex FFT. Twiddle factors, the bit
+ * reversal permutation and the scratch buffers are made once, so transforms
+ * allocate nothing.
+ */
+export class RealFFT {
+  /** Number of samples per transform (a power of two) */
+  readonly size: number
+  /** Number of frequency bins (DC to Nyquist) */
+  readonly numBins: number
+
+  private half: number
+  // Twiddles of the half-size complex FFT
+  private cosTable: Float64Array
+  private sinTable: Float64Array
+  // Twiddles that split the packed spectrum into the real one
+  private splitCos: Float64Array
+  private splitSin: Float64Array
+  private bitReverse: Uint32Array
+  private scratchReal: Float64Array
+  private scratchImag: Float64Array
+
+  constructor(size: number) {
+    if (size < 4 || (size & (size - 1)) !== 0) {
+      throw new RangeError(`FFT size must be a power of two of at least 4 (got ${size})`)
+    }
+    this.size = size
+    this.numBins = size / 2 + 1
+    this.half = size / 2
+
+    const half = this.half
+    this.cosTable = new Float64Array(half / 2)
+    this.sinTable = new Float64Array(half / 2)
+    for (let i = 0; i < half / 2; i++) {
+      const angle = (-2 * Math.PI * i) / half
+      this.cosTable[i] = Math.cos(angle)
+      this.sinTable[i] = Math.sin(angle)
+    }
+
+    this.splitCos = new Float64Array(half + 1)
+    this.splitSin = new Float64Array(half + 1)
+    for (let k = 0; k <= half; k++) {
+      const angle = (-2 * Math.PI * k) / size
+      this.splitCos[k] = Math.cos(angle)
+      this.splitSin[k] = Math.sin(angle)
+    }
+
+    const bits = Math.log2(half)
+    this.bitReverse = new Uint32Array(half)
+    for (let i = 0; i < half; i++) {
+      let reversed = 0
+      for (let b = 0; b < bits; b++) {
+        reversed |= ((i >> b) & 1) << (bits - 1 - b)
+      }
+      this.bitReverse[i] = reversed
+    }
+
+    this.scratchReal = new Float64Array(half)
+    this.scratchImag = new Float64Array(half)
+  }
+
+  /**
+   * Spectrum of a real signal.
+   *
+   * @param input - size samples (missing samples count as silence)
+   * @param real - Receives numBins real parts
+   * @param imag - Receives numBins imaginary parts
+   * @param window - Multiplied into the input first
+   */
+  forward(input: Float32Array, real: Float32Array, imag: Float32Array, window?: Float32Array) {
+    const { half, scratchReal: zr, scratchImag: zi, bitReverse } = this
+
+    // Pack even samples as real and odd samples as imaginary parts, in bit-reversed order
+    const available = Math.min(half, input.length >> 1)
+    for (let n = 0; n < available; n++) {
+      const target = bitReverse[n]
+      zr[target] = window ? input[2 * n] * window[2 * n] : input[2 * n]
+      zi[target] = window ? input[2 * n + 1] * window[2 * n + 1] : input[2 * n + 1]
+    }
+    for (let n = available; n < half; n++) {
+      const target = bitReverse[n]
+      const even = 2 * n
+      zr[target] = even < input.length ? input[even] * (window ? window[even] : 1) : 0
+      zi[target] = 0
+    }
+    this.transform(zr, zi)
+
+    // Split into the spectrum of the real signal
+    for (let k = 0; k <= half; k++) {
+      const a = k % half
+      const b = (half - k) % half
+      const ar = zr[a]
+      const ai = zi[a]
+      const br = zr[b]
+      const bi = -zi[b]
+
+      // Spectra of the even and odd samples
+      const evenReal = (ar + br) / 2
+      const evenImag = (ai + bi) / 2
+      const oddReal = (ai - bi) / 2
+      const oddImag = -(ar - br) / 2
+
+      const cos = this.splitCos[k]
+      const sin = this.splitSin[k]
+      real[k] = evenReal + cos * oddReal - sin * oddImag
+      imag[k] = evenImag + cos * oddImag + sin * oddReal
+    }
+  }
+
+  /**
+   * Real signal of a spectrum (the inverse of forward, scaled by 1/size).
+   *
+   * @param real - numBins real parts
+   * @param imag - numBins imaginary parts
+   * @param output - Receives size samples
+   */
+  inverse(real: Float32Array, imag: Float32Array, output: Float32Array): void {
+    const { half, scratchReal: zr, scratchImag: zi, bitReverse } = this
+
+    // Rebuild the packed spectrum (conjugated, so the forward transform inverts it)
+    for (let k = 0; k < half; k++) {
+      const xr = real[k]
+      const xi = imag[k]
+      const yr = real[half - k]
+      const yi = -imag[half - k]
+
+      const evenReal = (xr + yr) / 2
+      const evenImag = (xi + yi) / 2
+      // (X[k] - conj(X[half - k])) / 2, rotated back by the conjugate twiddle
+      const dr = (xr - yr) / 2
+      const di = (xi - yi) / 2
+      const cos = this.splitCos[k]
+      const sin = this.splitSin[k]
+      const oddReal = dr * cos + di * sin
+      const oddImag = di * cos - dr * sin
+
+      const target = bitReverse[k]
+      zr[target] = evenReal - oddImag
+      zi[target] = -(evenImag + oddReal)
+    }
+    this.transform(zr, zi)
+
+    for (let n = 0; n < half; n++) {
+      output[2 * n] = zr[n] / half
+      output[2 * n + 1] = -zi[n] / half
+    }
+  }
+
+  /**
+   * In-place radix-2 Cooley-Tukey FFT of bit-reversed input.
+   */
+  private transform(real: Float64Array, imag: Float64Array): void {
+    const n = this.half
+    for (let len = 2; len <= n; len *= 2) {
+      const halfLen = len / 2
+      const tableStep = n / len
+
+      for (let i = 0; i < n; i += len) {
+        for (let k = 0; k < halfLen; k++) {
+          const idx = i + k
+          const idx2 = idx + halfLen
+          const cos = this.cosTable[k * tableStep]
+          const sin = this.sinTable[k * tableStep]
+
+          const tReal = real[idx2] * cos - imag[idx2] * sin
+          const tImag = real[idx2] * sin + imag[idx2] * cos
+
+          real[idx2] = real[idx] - tReal
+          imag[idx2] = imag[idx] - tImag
+          real[idx] += tReal
+          imag[idx] += tImag
+        }
+      }
+    }
+  }
+}
+
+const fftCache = new Map<number, RealFFT>()
+
+/**
+ * Shared RealFFT of a size (its tables are made on first use).
+ */
+export function getFFT(size: number): RealFFT {
+  let fft = fftCache.get(size)
+  if (!fft) {
+    fft = new RealFFT(size)
+    fftCache.set(size, fft)
+  }
+  return fft
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// STFT
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface StftOptions {
+  /** Samples per frame (a power of two) */
+  fftSize: number
+  /** Samples between frame starts */
+  hopSize: number
+  /** Analysis (and synthesis) window (default Hann) */
+  window?: WindowType
+  /**
+   * Pad both ends with a frame of silence, so the first and last samples are
+   * covered as fully as the rest. Without it, samples past the last full frame
+   * are dropped.
+   */
+  pad?: boolean
+}
+
+/**
+ * Short-time spectrum of a signal, frame after frame.
+ *
+ * Bins of frame f are at f * numBins .. (f + 1) * numBins - 1.
+ */
+export interface Spectrogram {
+  options: Required<StftOptions>
+  /** Length of the signal it was made from */
+  length: number
+  numFrames: number
+  numBins: number
+  real: Float32Array
+  imag: Float32Array
+}
+
+function withDefaults(options: StftOptions): Required<StftOptions> {
+  return { window: 'hann', pad: false, ...options }
+}
+
+/**
+ * Number of frames an STFT of a signal has.
+ */
+export function getFrameCount(length: number, options: StftOptions): number {
+  const { fftSize, hopSize, pad } = withDefaults(options)
+  const paddedLength = pad ? length + 2 * fftSize : length
+  return paddedLength < fftSize ? 0 : Math.floor((paddedLength - fftSize) / hopSize) + 1
+}
+
+/**
+ * Visit the STFT frames of a signal one at a time, without keeping them.
+ *
+ * The real and imag arrays are reused for every frame: copy them to keep them.
+ *
+ * @param samples - Signal
+ * @param options - Frame and hop size, window, padding
+ * @param onFrame - Called with each frame's numBins bins
+ */
+export function forEachStftFrame(
+  samples: Float32Array,
+  options: StftOptions,
+  onFrame: (real: Float32Array, imag: Float32Array, frame: number) => void
+): void {
+  const { fftSize, hopSize, window, pad } = withDefaults(options)
+  const fft = getFFT(fftSize)
+  const analysisWindow = getWindow(window, fftSize)
+  const numFrames = getFrameCount(samples.length, options)
+  const frameBuffer = new Float32Array(fftSize)
+  const real = new Float32Array(fft.numBins)
+  const imag = new Float32Array(fft.numBins)
+  const offset = pad ? fftSize : 0
+
+  for (let frame = 0; frame < numFrames; frame++) {
+    const start = frame * hopSize - offset
+    if (start >= 0 && start + fftSize <= samples.length) {
+      fft.forward(samples.subarray(start, start + fftSize), real, imag, analysisWindow)
+    } else {
+      // Partly in the padding
+      frameBuffer.fill(0)
+      for (let i = Math.max(0, -start); i < fftSize && start + i < samples.length; i++) {
+        frameBuffer[i] = samples[start + i]
+      }
+      fft.forward(frameBuffer, real, imag, analysisWindow)
+    }
+    onFrame(real, imag, frame)
+  }
+}
+
+/**
+ * Short-time Fourier transform of a signal.
+ */
+export function stft(samples: Float32Array, options: StftOptions): Spectrogram {
+  const fullOptions = withDefaults(options)
+  const numFrames = getFrameCount(samples.length, fullOptions)
+  const numBins = fullOptions.fftSize / 2 + 1
+  const real = new Float32Array(numFrames * numBins)
+  const imag = new Float32Array(numFrames * numBins)
+
+  forEachStftFrame(samples, fullOptions, (frameReal, frameImag, frame) => {
+    real.set(frameReal, frame * numBins)
+    imag.set(frameImag, frame * numBins)
+  })
+
+  return { options: fullOptions, length: samples.length, numFrames, numBins, real, imag }
+}
+
+/**
+ * Magnitude of every bin of a spectrogram (same layout).
+ */
+export function getMagnitudes(spectrogram: Spectrogram): Float32Array {
+  const { real, imag } = spectrogram
+  const magnitudes = new Float32Array(real.length)
+  for (let i = 0; i < real.length; i++) {
+    magnitudes[i] = Math.sqrt(real[i] * real[i] + imag[i] * imag[i])
+  }
+  return magnitudes
+}
+
+/**
+ * Signal of a (possibly modified) spectrogram: windowed overlap-add,
+ * normalized by the summed squared window.
+ *
+ * @returns A signal as long as the one the spectrogram was made from
+ */
+export function istft(spectrogram: Spectrogram): Float32Array {
+  const { options, length, numFrames, numBins, real, imag } = spectrogram
+  const { fftSize, hopSize, window, pad } = options
+  const fft = getFFT(fftSize)
+  const synthesisWindow = getWindow(window, fftSize)
+  const offset = pad ? fftSize : 0
+
+  const output = new Float32Array(length)
+  const windowSum = new Float32Array(length)
+  const frameBuffer = new Float32Array(fftSize)
+
+  for (let frame = 0; frame < numFrames; frame++) {
+    fft.inverse(
+      real.subarray(frame * numBins, (frame + 1) * numBins),
+      imag.subarray(frame * numBins, (frame + 1) * numBins),
+      frameBuffer
+    )
+    const start = frame * hopSize - offset
+    for (let i = Math.max(0, -start); i < fftSize && start + i < length; i++) {
+      output[start + i] += frameBuffer[i] * synthesisWindow[i]
+      windowSum[start + i] += synthesisWindow[i] * synthesisWindow[i]
+    }
+  }
+
+  // Overlap-add normalization
+  for (let i = 0; i < length; i++) {
+    if (windowSum[i] > 0.0001) {
+      output[i] /= windowSum[i]
+    }
+  }
+
+  return output
+}
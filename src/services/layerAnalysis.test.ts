@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { combineLayerFeatures } from './layerAnalysis'
+import { extractFeatures } from './featureExtraction'
+import type { TranscribedNote } from '../domain/types'
+
+describe('layerAnalysis', () => {
+  // Helper to create sequential notes from MIDI numbers
+  const createNotes = (midiNotes: number[], startSec = 0): TranscribedNote[] =>
+    midiNotes.map((midi, i) => ({
+      startSec: startSec + i * 0.5,
+      endSec: startSec + i * 0.5 + 0.4,
+      midi,
+      velocity: 0.8,
+    }))
+
+  // C major triad strummed low, melody over it
+  const CHORD_NOTES = createNotes([48, 52, 55, 48, 52, 55])
+  const LEAD_NOTES = createNotes([72, 74, 76, 79, 71])
+
+  describe('combineLayerFeatures', () => {
+    it('matches extractFeatures for a single layer', () => {
+      expect(combineLayerFeatures([{ preset: 'lead', notes: LEAD_NOTES }])).toEqual(
+        extractFeatures(LEAD_NOTES)
+      )
+    })
+
+    it('includes pitch classes from every layer', () => {
+      const features = combineLayerFeatures([
+        { preset: 'chord', notes: CHORD_NOTES },
+        { preset: 'lead', notes: LEAD_NOTES },
+      ])
+
+      // C, E, G from the chords; D and B only appear in the lead
+      expect(features.pcWeights[2]).toBeGreaterThan(0)
+      expect(features.pcWeights[11]).toBeGreaterThan(0)
+      expect(features.pcWeights.reduce((sum, w) => sum + w, 0)).toBeCloseTo(1, 5)
+    })
+
+    it('takes chord weights and bass from the rhythm layer', () => {
+      const features = combineLayerFeatures([
+        { preset: 'lead', notes: LEAD_NOTES },
+        { preset: 'chord', notes: CHORD_NOTES },
+      ])
+
+      expect(features.chordPcWeights).toEqual(extractFeatures(CHORD_NOTES).pcWeights)
+      expect(features.bassPc).toBe(0)
+    })
+
+    it('takes the ending from the lead layer', () => {
+      const features = combineLayerFeatures([
+        { preset: 'chord', notes: CHORD_NOTES },
+        { preset: 'lead', notes: LEAD_NOTES },
+      ])
+
+      // Lead ends on B even though the chord layer ends on G
+      expect(features.lastNotePc).toBe(11)
+    })
+
+    it('omits chord weights without a rhythm layer', () => {
+      const features = combineLayerFeatures([
+        { preset: 'lead', notes: LEAD_NOTES },
+        { preset: 'lead', notes: createNotes([60, 64]) },
+      ])
+
+      expect(features.chordPcWeights).toBeUndefined()
+      expect(features.bassPc).toBe(0)
+    })
+
+    it('skips layers without notes', () => {
+      const features = combineLayerFeatures([
+        { preset: 'chord', notes: [] },
+        { preset: 'lead', notes: LEAD_NOTES },
+      ])
+
+      expect(features.pcWeights).toEqual(extractFeatures(LEAD_NOTES).pcWeights)
+      expect(features.chordPcWeights).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,93 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Layer Analysis: Combine the features of a take and its overdub layers
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type {
+  PitchClassWeights,
+  RiffFeatures,
+  TranscribedNote,
+  TranscriptionPreset,
+} from '../domain/types'
+import { extractFeatures, getTopPitchClasses } from './featureExtraction'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A transcribed part of a take (the base recording or an overdub).
+ */
+export interface AnalyzedLayer {
+  preset: TranscriptionPreset
+  notes: TranscribedNote[]
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Combination
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Average the pitch class weights of several feature sets.
+ * Each part counts equally, however many notes it has; parts without notes are skipped.
+ */
+function averageWeights(featureSets: RiffFeatures[]): PitchClassWeights {
+  const weights: PitchClassWeights = [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]
+  const voiced = featureSets.filter((features) => features.topPitchClasses.length > 0)
+  if (voiced.length === 0) return weights
+
+  for (const features of voiced) {
+    for (let pc = 0; pc < 12; pc++) {
+      weights[pc] += features.pcWeights[pc] / voiced.length
+    }
+  }
+  return weights
+}
+
+/**
+ * Build the features for a take played in several layers.
+ *
+ * The key is detected from the pitch classes of every layer together. Chords
+ * are scored against the rhythm ('chord' preset) layers, and the bass and
+ * ending hints come from the part that usually carries them: the lowest chord
+ * note and the last note of the lead line. A single layer gives the same
+ * result as extractFeatures.
+ */
+export function combineLayerFeatures(layers: AnalyzedLayer[]): RiffFeatures {
+  if (layers.length === 1) return extractFeatures(layers[0].notes)
+
+  const chordFeatures = layers
+    .filter((layer) => layer.preset === 'chord')
+    .map((layer) => extractFeatures(layer.notes))
+  const leadFeatures = layers
+    .filter((layer) => layer.preset === 'lead')
+    .map((layer) => extractFeatures(layer.notes))
+
+  const pcWeights = averageWeights([...chordFeatures, ...leadFeatures])
+  const chordPcWeights = averageWeights(chordFeatures)
+  const hasChordLayer = chordPcWeights.some((weight) => weight > 0)
+
+  // Fall back to any layer when no layer of the preferred kind has notes
+  const allNotes = layers.flatMap((layer) => layer.notes)
+  const bassNotes = hasChordLayer
+    ? layers.filter((layer) => layer.preset === 'chord').flatMap((layer) => layer.notes)
+    : allNotes
+  const leadNotes = layers.filter((layer) => layer.preset === 'lead').flatMap((l) => l.notes)
+  const endingNotes = leadNotes.length > 0 ? leadNotes : allNotes
+
+  const lowestNote = bassNotes.reduce<TranscribedNote | undefined>(
+    (lowest, note) => (!lowest || note.midi < lowest.midi ? note : lowest),
+    undefined
+  )
+  const lastNote = endingNotes.reduce<TranscribedNote | undefined>(
+    (last, note) => (!last || note.endSec >= last.endSec ? note : last),
+    undefined
+  )
+
+  return {
+    pcWeights,
+    topPitchClasses: getTopPitchClasses(pcWeights),
+    lastNotePc: lastNote ? lastNote.midi % 12 : undefined,
+    bassPc: lowestNote ? lowestNote.midi % 12 : undefined,
+    ...(hasChordLayer ? { chordPcWeights } : {}),
+  }
+}
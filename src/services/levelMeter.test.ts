@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { InputLevelTracker } from './levelMeter'
+import type { LevelReading } from './audioAnalysis'
+
+describe('levelMeter', () => {
+  // Helper to create a reading with a given RMS and a peak 6 dB above it
+  const reading = (rmsLevelDb: number, peakLevelDb: number = rmsLevelDb + 6): LevelReading => ({
+    peakLevelDb,
+    rmsLevelDb,
+    peakLinear: Math.pow(10, peakLevelDb / 20),
+    rmsLinear: Math.pow(10, rmsLevelDb / 20),
+  })
+
+  // Feed readings every 50ms and return the last meter state
+  const feed = (tracker: InputLevelTracker, levels: LevelReading[], startMs: number = 0) => {
+    let state = tracker.update(levels[0], startMs)
+    for (let i = 1; i < levels.length; i++) {
+      state = tracker.update(levels[i], startMs + i * 50)
+    }
+    return state
+  }
+
+  describe('InputLevelTracker', () => {
+    it('passes through the current levels', () => {
+      const state = new InputLevelTracker().update(reading(-20), 0)
+      expect(state.rmsLevelDb).toBe(-20)
+      expect(state.peakLevelDb).toBe(-14)
+    })
+
+    it('tracks the quietest block as the noise floor', () => {
+      const tracker = new InputLevelTracker()
+      const state = feed(tracker, [reading(-20), reading(-55), reading(-18)])
+      expect(state.noiseFloorDb).toBe(-55)
+    })
+
+    it('ignores digital silence for the noise floor', () => {
+      const tracker = new InputLevelTracker()
+      const state = feed(tracker, [reading(-Infinity, -Infinity), reading(-50)])
+      expect(state.noiseFloorDb).toBe(-50)
+    })
+
+    it('warns immediately on clipping and holds the warning', () => {
+      const tracker = new InputLevelTracker()
+      expect(tracker.update(reading(-6, 0), 0).warning).toBe('clipping')
+      expect(tracker.update(reading(-20), 1000).warning).toBe('clipping')
+      expect(tracker.update(reading(-20), 2000).warning).toBeNull()
+    })
+
+    it('does not warn about low level during a short pause', () => {
+      const tracker = new InputLevelTracker()
+      const levels = [
+        reading(-60),
+        ...Array(30).fill(reading(-18)),
+        ...Array(20).fill(reading(-60)),
+      ]
+      expect(feed(tracker, levels).warning).toBeNull()
+    })
+
+    it('warns when the signal stays near the noise floor', () => {
+      const tracker = new InputLevelTracker()
+      const levels = Array.from({ length: 50 }, (_, i) => reading(i % 2 ? -58 : -60))
+      expect(feed(tracker, levels).warning).toBe('low')
+    })
+
+    it('starts fresh after reset', () => {
+      const tracker = new InputLevelTracker()
+      tracker.update(reading(-6, 0), 0)
+      tracker.reset()
+      expect(tracker.update(reading(-20), 100).warning).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,151 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Level Meter: Live peak/RMS metering of the input while recording
+// Uses the same level math and thresholds as the post-hoc AudioMetrics
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+  measureLevel,
+  getLevelWarning,
+  type LevelReading,
+  type LevelWarning,
+} from './audioAnalysis'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Live input level, including any warning that should be shown while recording.
+ */
+export interface InputLevel {
+  peakLevelDb: number
+  rmsLevelDb: number
+  /** Running noise floor estimate (quietest block seen so far) */
+  noiseFloorDb: number
+  warning: LevelWarning | null
+}
+
+/**
+ * An AnalyserNode plus a way to release whatever was created for it.
+ */
+export interface StreamAnalyser {
+  analyser: AnalyserNode
+  close: () => void
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Analyser block size - matches the frame size used by analyzeAudio */
+export const METER_FFT_SIZE = 2048
+
+// Keep the clipping warning visible for a moment after the last clipped block
+const CLIP_HOLD_MS = 1500
+
+// How long the signal has to stay near the noise floor before warning
+const LOW_LEVEL_WINDOW_MS = 2000
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Level Tracking
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Turns a stream of level readings into meter values and warnings.
+ *
+ * Clipping is reported immediately and held briefly. A low level is only
+ * reported once the loudest block of the last couple of seconds is still too
+ * quiet, so pauses between notes don't trigger it.
+ */
+export class InputLevelTracker {
+  private history: { timeMs: number; reading: LevelReading }[] = []
+  private noiseFloorDb = Infinity
+  private clipUntilMs = -Infinity
+  private startTimeMs: number | null = null
+
+  /**
+   * Add a reading taken at timeMs and return the current meter state.
+   */
+  update(reading: LevelReading, timeMs: number): InputLevel {
+    if (this.startTimeMs === null) this.startTimeMs = timeMs
+
+    // Digital silence (e.g. before the device delivers audio) says nothing about the room
+    if (reading.rmsLevelDb > -Infinity) {
+      this.noiseFloorDb = Math.min(this.noiseFloorDb, reading.rmsLevelDb)
+    }
+    const noiseFloorDb = Number.isFinite(this.noiseFloorDb) ? this.noiseFloorDb : -Infinity
+
+    if (getLevelWarning({ ...reading, noiseFloorDb }) === 'clipping') {
+      this.clipUntilMs = timeMs + CLIP_HOLD_MS
+    }
+
+    this.history.push({ timeMs, reading })
+    while (this.history.length > 0 && this.history[0].timeMs < timeMs - LOW_LEVEL_WINDOW_MS) {
+      this.history.shift()
+    }
+
+    let warning: LevelWarning | null = null
+    if (timeMs < this.clipUntilMs) {
+      warning = 'clipping'
+    } else if (timeMs - this.startTimeMs >= LOW_LEVEL_WINDOW_MS) {
+      const loudest = this.history.reduce((max, entry) =>
+        entry.reading.rmsLevelDb > max.reading.rmsLevelDb ? entry : max
+      )
+      if (getLevelWarning({ ...loudest.reading, noiseFloorDb }) === 'low') {
+        warning = 'low'
+      }
+    }
+
+    return {
+      peakLevelDb: reading.peakLevelDb,
+      rmsLevelDb: reading.rmsLevelDb,
+      noiseFloorDb,
+      warning,
+    }
+  }
+
+  /**
+   * Forget all readings (call before a new recording).
+   */
+  reset(): void {
+    this.history = []
+    this.noiseFloorDb = Infinity
+    this.clipUntilMs = -Infinity
+    this.startTimeMs = null
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Web Audio
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Read the latest block of samples from an analyser.
+ */
+export function readAnalyserLevel(analyser: AnalyserNode, buffer: Float32Array): LevelReading {
+  analyser.getFloatTimeDomainData(buffer as Float32Array<ArrayBuffer>)
+  return measureLevel(buffer)
+}
+
+/**
+ * Create a standalone analyser for a stream.
+ * Used when PCM capture isn't available to share its audio graph.
+ */
+export function createStreamAnalyser(stream: MediaStream): StreamAnalyser {
+  const AudioContextClass =
+    window.AudioContext ||
+    (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext
+  const audioContext = new AudioContextClass()
+  const source = audioContext.createMediaStreamSource(stream)
+  const analyser = audioContext.createAnalyser()
+  analyser.fftSize = METER_FFT_SIZE
+  source.connect(analyser)
+
+  return {
+    analyser,
+    close: () => {
+      source.disconnect()
+      audioContext.close()
+    },
+  }
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest'
+import { detectMeter, getBars, getRecordedMeter, segmentBars } from './meterDetection'
+import type { OnsetEvent, TempoEstimate, TranscribedNote } from '../domain/types'
+
+describe('meterDetection', () => {
+  const BEAT_SEC = 0.5
+
+  const createTempo = (beatCount: number): TempoEstimate => ({
+    bpm: 60 / BEAT_SEC,
+    confidence: 0.8,
+    alternatives: [],
+    beats: Array.from({ length: beatCount }, (_, i) => i * BEAT_SEC),
+  })
+
+  // A riff with a bass note on each downbeat and chord tones on the other
+  // beats; accents[i] is how hard beat i of the bar is played (0-1)
+  const createRiff = (
+    beatCount: number,
+    accents: number[],
+    firstDownbeat: number = 0
+  ): { notes: TranscribedNote[]; onsets: OnsetEvent[] } => {
+    const notes: TranscribedNote[] = []
+    const onsets: OnsetEvent[] = []
+    for (let beat = 0; beat < beatCount; beat++) {
+      const position = (beat - firstDownbeat + accents.length) % accents.length
+      const startSec = beat * BEAT_SEC
+      notes.push({
+        startSec,
+        endSec: startSec + BEAT_SEC * 0.9,
+        midi: position === 0 ? 40 : 55 + (beat % 3),
+        velocity: 0.3 + 0.6 * accents[position],
+      })
+      onsets.push({ timeSec: startSec, strength: 0.3 + 0.6 * accents[position] })
+    }
+    return { notes, onsets }
+  }
+
+  describe('detectMeter', () => {
+    it('finds 3/4 from accented downbeats', () => {
+      const { notes, onsets } = createRiff(24, [1, 0, 0])
+
+      const meter = detectMeter(createTempo(24), notes, onsets)
+
+      expect(meter?.timeSignature).toEqual({ beatsPerBar: 3, beatUnit: 4 })
+      expect(meter?.firstDownbeat).toBe(0)
+      expect(meter?.confidence).toBeGreaterThan(0.3)
+    })
+
+    it('tells 6/8 from 3/4 by the accent halfway through the bar', () => {
+      const { notes, onsets } = createRiff(24, [1, 0, 0, 0.6, 0, 0])
+
+      const meter = detectMeter(createTempo(24), notes, onsets)
+
+      expect(meter?.timeSignature).toEqual({ beatsPerBar: 6, beatUnit: 8 })
+    })
+
+    it('finds 7/8', () => {
+      const { notes, onsets } = createRiff(28, [1, 0, 0.4, 0, 0.4, 0, 0])
+
+      const meter = detectMeter(createTempo(28), notes, onsets)
+
+      expect(meter?.timeSignature).toEqual({ beatsPerBar: 7, beatUnit: 8 })
+    })
+
+    it('finds the downbeat after a pickup', () => {
+      const { notes, onsets } = createRiff(18, [1, 0.2, 0.5, 0.2], 2)
+
+      const meter = detectMeter(createTempo(18), notes, onsets)
+
+      expect(meter?.timeSignature).toEqual({ beatsPerBar: 4, beatUnit: 4 })
+      expect(meter?.firstDownbeat).toBe(2)
+    })
+
+    it('uses the bass notes when the playing is even', () => {
+      const { notes, onsets } = createRiff(24, [0, 0, 0])
+      notes.forEach((note, i) => (note.midi = i % 3 === 1 ? 38 : 57))
+
+      const meter = detectMeter(createTempo(24), notes, onsets)
+
+      expect(meter?.timeSignature.beatsPerBar).toBe(3)
+      expect(meter?.firstDownbeat).toBe(1)
+    })
+
+    it('returns null with too few beats', () => {
+      const { notes, onsets } = createRiff(5, [1, 0, 0])
+
+      expect(detectMeter(createTempo(5), notes, onsets)).toBeNull()
+    })
+  })
+
+  describe('getBars', () => {
+    const meter = { timeSignature: { beatsPerBar: 4, beatUnit: 4 }, confidence: 0.5 }
+
+    it('splits the beats into bars at the downbeats', () => {
+      const bars = getBars(createTempo(10), { ...meter, firstDownbeat: 0 }, [])
+
+      expect(bars.map((bar) => bar.number)).toEqual([1, 2, 3])
+      expect(bars[1]).toMatchObject({ startSec: 2, endSec: 4, beats: [2, 2.5, 3, 3.5] })
+      // The last bar keeps its full length
+      expect(bars[2]).toMatchObject({ startSec: 4, endSec: 6, beats: [4, 4.5] })
+    })
+
+    it('puts beats before the first downbeat in a pickup bar', () => {
+      const bars = getBars(createTempo(10), { ...meter, firstDownbeat: 1 }, [])
+
+      expect(bars[0]).toMatchObject({ number: 0, startSec: 0, endSec: 0.5, beats: [0] })
+      expect(bars[1]).toMatchObject({ number: 1, startSec: 0.5 })
+    })
+
+    it('assigns notes to the bar they start in', () => {
+      const notes = [
+        { startSec: 0.1, endSec: 0.4, midi: 40 },
+        { startSec: 1.96, endSec: 2.4, midi: 43 }, // a little ahead of bar 2
+        { startSec: 2.6, endSec: 3, midi: 45 },
+        { startSec: 7, endSec: 7.5, midi: 47 }, // past the last beat
+      ]
+
+      const bars = getBars(createTempo(10), { ...meter, firstDownbeat: 0 }, notes)
+
+      expect(bars.map((bar) => bar.noteIndices)).toEqual([[0], [1, 2], [3]])
+    })
+  })
+
+  describe('segmentBars', () => {
+    it('returns the meter with its bars', () => {
+      const { notes, onsets } = createRiff(12, [1, 0, 0])
+
+      const { meter, bars } = segmentBars(createTempo(12), notes, onsets)
+
+      expect(meter?.timeSignature.beatsPerBar).toBe(3)
+      expect(bars).toHaveLength(4)
+      expect(bars?.every((bar) => bar.noteIndices.length === 3)).toBe(true)
+    })
+
+    it('returns nothing without enough beats', () => {
+      expect(segmentBars(createTempo(4), [], [])).toEqual({})
+    })
+
+    it('uses a known meter instead of detecting one', () => {
+      const { notes, onsets } = createRiff(12, [1, 0, 0])
+      const known = {
+        timeSignature: { beatsPerBar: 4, beatUnit: 4 },
+        confidence: 1,
+        firstDownbeat: 1,
+      }
+
+      const { meter, bars } = segmentBars(createTempo(12), notes, onsets, known)
+
+      expect(meter).toBe(known)
+      expect(bars?.map((bar) => bar.number)).toEqual([0, 1, 2, 3])
+    })
+  })
+
+  describe('getRecordedMeter', () => {
+    const recorded = { bpm: 120, timeSignature: { beatsPerBar: 6, beatUnit: 8 }, startOffsetMs: 0 }
+
+    it('uses the time signature the take was recorded in', () => {
+      expect(getRecordedMeter(recorded, 6)).toEqual({
+        timeSignature: { beatsPerBar: 6, beatUnit: 8 },
+        confidence: 1,
+        firstDownbeat: 0,
+      })
+    })
+
+    it('finds the first downbeat of a part', () => {
+      // The part's beats are at 1.5s, 2s, 2.5s, 3s...: the next downbeat is the fourth
+      expect(getRecordedMeter(recorded, 4, 1.2)?.firstDownbeat).toBe(3)
+    })
+
+    it('returns null when no downbeat falls within the part', () => {
+      expect(getRecordedMeter(recorded, 1, 0.5)).toBeNull()
+    })
+  })
+})
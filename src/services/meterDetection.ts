@@ -0,0 +1,263 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Meter Detection: Time signature and downbeats from the beat grid, and the
+// transcription split into bars
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type {
+  Bar,
+  MeterEstimate,
+  OnsetEvent,
+  RecordingTempo,
+  TempoEstimate,
+  TimeSignature,
+  TranscribedNote,
+} from '../domain/types'
+import { TIME_SIGNATURES, getBeatGrid } from './metronome'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Onsets and notes within this fraction of a beat from it belong to the beat
+const BEAT_WINDOW_RATIO = 0.2
+
+// How much each cue counts towards the accent of a beat
+const ONSET_WEIGHT = 0.4
+const BASS_WEIGHT = 0.35
+const VELOCITY_WEIGHT = 0.25
+
+const DEFAULT_VELOCITY = 0.5
+
+// Common time wins near-ties
+const COMMON_TIME_BONUS = 1.1
+
+// A meter needs this many bars of beats to be judged
+const MIN_BARS = 2
+
+// Meters to choose from. 2/4 is left out: on a tracked pulse it only differs
+// from 4/4 in where the bar lines go, and 4/4 is what players expect
+const METER_CANDIDATES: TimeSignature[] = TIME_SIGNATURES.filter(
+  (timeSignature) => timeSignature.beatsPerBar > 2
+)
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Beat Accents
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Typical time between beats (median, so a stretched beat doesn't skew it).
+ */
+function getBeatPeriod(beats: number[]): number {
+  const intervals = beats
+    .slice(1)
+    .map((time, i) => time - beats[i])
+    .sort((a, b) => a - b)
+  return intervals[intervals.length >> 1] ?? 0
+}
+
+/**
+ * Scale values so the largest is 1 (left as is when all are 0).
+ */
+function normalize(values: number[]): number[] {
+  const max = Math.max(0, ...values)
+  return max > 0 ? values.map((value) => value / max) : values
+}
+
+/**
+ * How accented each beat is (0-1), from three cues: the strength of the
+ * attack on it, how low the lowest note starting on it is (bass notes mark
+ * downbeats), and how hard the notes starting on it were played.
+ */
+function getBeatAccents(beats: number[], notes: TranscribedNote[], onsets: OnsetEvent[]): number[] {
+  const window = getBeatPeriod(beats) * BEAT_WINDOW_RATIO
+  const pitches = notes.map((note) => note.midi)
+  const lowest = Math.min(...pitches)
+  const pitchRange = Math.max(1, Math.max(...pitches) - lowest)
+
+  const onsetCue: number[] = []
+  const bassCue: number[] = []
+  const velocityCue: number[] = []
+
+  for (const beat of beats) {
+    const near = (time: number) => Math.abs(time - beat) <= window
+    const attacks = onsets.filter((onset) => near(onset.timeSec))
+    const starting = notes.filter((note) => near(note.startSec))
+
+    onsetCue.push(Math.max(0, ...attacks.map((onset) => onset.strength)))
+    bassCue.push(
+      starting.length > 0
+        ? 1 - (Math.min(...starting.map((note) => note.midi)) - lowest) / pitchRange
+        : 0
+    )
+    velocityCue.push(Math.max(0, ...starting.map((note) => note.velocity ?? DEFAULT_VELOCITY)))
+  }
+
+  const onsetAccents = normalize(onsetCue)
+  const bassAccents = normalize(bassCue)
+  const velocityAccents = normalize(velocityCue)
+  return beats.map(
+    (_, i) =>
+      ONSET_WEIGHT * onsetAccents[i] +
+      BASS_WEIGHT * bassAccents[i] +
+      VELOCITY_WEIGHT * velocityAccents[i]
+  )
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Meter
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Estimate the time signature and first downbeat of a transcription.
+ *
+ * Every meter and downbeat position is scored by how much more accented the
+ * beats it makes downbeats are than the rest.
+ *
+ * @param tempo - Tempo and beat grid (from trackBeats)
+ * @param notes - Transcribed notes (times like the beats)
+ * @param onsets - Attacks found in the audio
+ * @returns Null when there are too few beats for two bars of any meter
+ */
+export function detectMeter(
+  tempo: TempoEstimate,
+  notes: TranscribedNote[],
+  onsets: OnsetEvent[]
+): MeterEstimate | null {
+  const { beats } = tempo
+  const accents = getBeatAccents(beats, notes, onsets)
+  let best: MeterEstimate | null = null
+  let bestScore = -Infinity
+
+  for (const timeSignature of METER_CANDIDATES) {
+    const { beatsPerBar } = timeSignature
+    if (beats.length < MIN_BARS * beatsPerBar) continue
+
+    for (let phase = 0; phase < beatsPerBar; phase++) {
+      let downbeatSum = 0
+      let downbeatCount = 0
+      let otherSum = 0
+      accents.forEach((accent, i) => {
+        if ((i - phase) % beatsPerBar === 0) {
+          downbeatSum += accent
+          downbeatCount++
+        } else {
+          otherSum += accent
+        }
+      })
+
+      const contrast =
+        downbeatSum / Math.max(1, downbeatCount) -
+        otherSum / Math.max(1, accents.length - downbeatCount)
+      const score = contrast * (beatsPerBar === 4 ? COMMON_TIME_BONUS : 1)
+
+      if (score > bestScore) {
+        bestScore = score
+        best = {
+          timeSignature,
+          confidence: Math.min(1, Math.max(0, contrast)),
+          firstDownbeat: phase,
+        }
+      }
+    }
+  }
+
+  return best
+}
+
+/**
+ * Meter of a take recorded to the metronome: the time signature it was set
+ * to, with the first downbeat of its beat grid (from getRecordedTempo).
+ *
+ * @param tempo - Tempo stored on the recording
+ * @param durationSec - Length of the recording (or the part transcribed)
+ * @param startSec - Start of the part within the recording
+ * @returns Null when no downbeat falls within the audio
+ */
+export function getRecordedMeter(
+  tempo: RecordingTempo,
+  durationSec: number,
+  startSec: number = 0
+): MeterEstimate | null {
+  const firstDownbeat = getBeatGrid(tempo, durationSec * 1000, startSec * 1000).findIndex(
+    (beat) => beat.beatInBar === 0
+  )
+  return firstDownbeat >= 0
+    ? { timeSignature: tempo.timeSignature, confidence: 1, firstDownbeat }
+    : null
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Bars
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Split a transcription into bars at the downbeats of its meter.
+ *
+ * Beats before the first downbeat make a pickup bar (number 0). The last bar
+ * is given its full length even when the recording stops partway through it.
+ * Notes belong to the bar they start in; a note played a little ahead of a
+ * downbeat counts towards the bar it anticipates.
+ *
+ * @param tempo - Tempo and beat grid (from trackBeats)
+ * @param meter - Meter and first downbeat (from detectMeter)
+ * @param notes - Transcribed notes (times like the beats)
+ */
+export function getBars(
+  tempo: TempoEstimate,
+  meter: MeterEstimate,
+  notes: TranscribedNote[]
+): Bar[] {
+  const { beats } = tempo
+  const { beatsPerBar } = meter.timeSignature
+  const period = getBeatPeriod(beats)
+  const bars: Bar[] = []
+
+  if (meter.firstDownbeat > 0) {
+    bars.push({
+      number: 0,
+      startSec: beats[0],
+      endSec: beats[meter.firstDownbeat],
+      beats: beats.slice(0, meter.firstDownbeat),
+      noteIndices: [],
+    })
+  }
+
+  for (let i = meter.firstDownbeat; i < beats.length; i += beatsPerBar) {
+    bars.push({
+      number: bars.length + (meter.firstDownbeat > 0 ? 0 : 1),
+      startSec: beats[i],
+      endSec: beats[i + beatsPerBar] ?? beats[i] + beatsPerBar * period,
+      beats: beats.slice(i, i + beatsPerBar),
+      noteIndices: [],
+    })
+  }
+
+  // Notes before the first beat go in the first bar, notes after the last in the last
+  const window = period * BEAT_WINDOW_RATIO
+  notes.forEach((note, index) => {
+    const time = note.startSec + window
+    let barIndex = 0
+    while (barIndex + 1 < bars.length && bars[barIndex + 1].startSec <= time) barIndex++
+    bars[barIndex]?.noteIndices.push(index)
+  })
+
+  return bars
+}
+
+/**
+ * Meter and bars of a transcription, when its beats allow them.
+ *
+ * @param tempo - Tempo and beat grid (from trackBeats)
+ * @param notes - Transcribed notes (times like the beats)
+ * @param onsets - Attacks found in the audio
+ * @param knownMeter - Meter to use instead of detecting one (e.g. from getRecordedMeter)
+ */
+export function segmentBars(
+  tempo: TempoEstimate,
+  notes: TranscribedNote[],
+  onsets: OnsetEvent[],
+  knownMeter?: MeterEstimate | null
+): { meter?: MeterEstimate; bars?: Bar[] } {
+  const meter = knownMeter ?? detectMeter(tempo, notes, onsets)
+  return meter ? { meter, bars: getBars(tempo, meter, notes) } : {}
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import {
+  clampBpm,
+  getBeatDurationMs,
+  getBarDurationMs,
+  formatTimeSignature,
+  getBeatGrid,
+  MIN_BPM,
+  MAX_BPM,
+} from './metronome'
+import type { RecordingTempo } from '../domain/types'
+
+describe('metronome', () => {
+  const FOUR_FOUR = { beatsPerBar: 4, beatUnit: 4 }
+  const THREE_FOUR = { beatsPerBar: 3, beatUnit: 4 }
+
+  describe('clampBpm', () => {
+    it('keeps values within range', () => {
+      expect(clampBpm(120)).toBe(120)
+    })
+
+    it('clamps to the supported range', () => {
+      expect(clampBpm(10)).toBe(MIN_BPM)
+      expect(clampBpm(999)).toBe(MAX_BPM)
+    })
+
+    it('rounds to whole BPM', () => {
+      expect(clampBpm(99.6)).toBe(100)
+    })
+
+    it('falls back to the default for invalid input', () => {
+      expect(clampBpm(NaN)).toBe(100)
+    })
+  })
+
+  describe('beat and bar durations', () => {
+    it('computes beat duration from BPM', () => {
+      expect(getBeatDurationMs(120)).toBe(500)
+      expect(getBeatDurationMs(60)).toBe(1000)
+    })
+
+    it('computes bar duration from the time signature', () => {
+      expect(getBarDurationMs(120, FOUR_FOUR)).toBe(2000)
+      expect(getBarDurationMs(120, THREE_FOUR)).toBe(1500)
+    })
+  })
+
+  describe('formatTimeSignature', () => {
+    it('formats as numerator/denominator', () => {
+      expect(formatTimeSignature({ beatsPerBar: 6, beatUnit: 8 })).toBe('6/8')
+    })
+  })
+
+  describe('getBeatGrid', () => {
+    const tempo = (startOffsetMs: number, timeSignature = FOUR_FOUR): RecordingTempo => ({
+      bpm: 120,
+      timeSignature,
+      startOffsetMs,
+    })
+
+    it('lists beats from the first downbeat', () => {
+      const grid = getBeatGrid(tempo(0), 2000)
+
+      expect(grid.map((b) => b.timeSec)).toEqual([0, 0.5, 1, 1.5, 2])
+      expect(grid.map((b) => b.beatInBar)).toEqual([0, 1, 2, 3, 0])
+      expect(grid.map((b) => b.bar)).toEqual([0, 0, 0, 0, 1])
+    })
+
+    it('applies a positive start offset', () => {
+      const grid = getBeatGrid(tempo(100), 1200)
+      expect(grid[0].timeSec).toBeCloseTo(0.1)
+      expect(grid[0].beatInBar).toBe(0)
+    })
+
+    it('includes pickup beats before a late downbeat', () => {
+      const grid = getBeatGrid(tempo(600), 1200)
+
+      expect(grid[0].timeSec).toBeCloseTo(0.1)
+      expect(grid[0].bar).toBe(-1)
+      expect(grid[0].beatInBar).toBe(3)
+      expect(grid[1].beatInBar).toBe(0)
+    })
+
+    it('skips beats before the start of the audio', () => {
+      const grid = getBeatGrid(tempo(-20), 1000)
+
+      expect(grid[0].timeSec).toBeCloseTo(0.48)
+      expect(grid[0].beatInBar).toBe(1)
+    })
+
+    it('follows the time signature for bar positions', () => {
+      const grid = getBeatGrid(tempo(0, THREE_FOUR), 3000)
+      expect(grid.map((b) => b.beatInBar)).toEqual([0, 1, 2, 0, 1, 2, 0])
+    })
+
+    it('lists the beats of a part relative to its start', () => {
+      const grid = getBeatGrid(tempo(100), 1000, 1300)
+
+      expect(grid.map((b) => b.timeSec)).toEqual([expect.closeTo(0.3), expect.closeTo(0.8)])
+      expect(grid.map((b) => b.bar)).toEqual([0, 1])
+      expect(grid.map((b) => b.beatInBar)).toEqual([3, 0])
+    })
+  })
+})
@@ -0,0 +1,197 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Metronome: Click track and count-in for recording to a tempo
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { RecordingTempo, TimeSignature } from '../domain/types'
+import { midiPlayer } from './midiPlayer'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface MetronomeSettings {
+  /** Play a click while recording */
+  enabled: boolean
+  bpm: number
+  timeSignature: TimeSignature
+  /** Play one bar of clicks before capture starts */
+  countIn: boolean
+}
+
+/**
+ * A single beat of a beat grid.
+ */
+export interface Beat {
+  timeSec: number
+  /** 0-based bar number (negative for beats before the first downbeat) */
+  bar: number
+  /** 0-based position within the bar (0 = downbeat) */
+  beatInBar: number
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const MIN_BPM = 40
+export const MAX_BPM = 240
+
+/** Time signatures offered in the settings */
+export const TIME_SIGNATURES: TimeSignature[] = [
+  { beatsPerBar: 2, beatUnit: 4 },
+  { beatsPerBar: 3, beatUnit: 4 },
+  { beatsPerBar: 4, beatUnit: 4 },
+  { beatsPerBar: 5, beatUnit: 4 },
+  { beatsPerBar: 6, beatUnit: 8 },
+  { beatsPerBar: 7, beatUnit: 8 },
+]
+
+export const DEFAULT_METRONOME_SETTINGS: MetronomeSettings = {
+  enabled: false,
+  bpm: 100,
+  timeSignature: { beatsPerBar: 4, beatUnit: 4 },
+  countIn: true,
+}
+
+// Scheduler: wake up every 25ms and schedule clicks up to 100ms ahead,
+// so timer jitter never makes the click drift
+const SCHEDULER_INTERVAL_MS = 25
+const SCHEDULE_AHEAD_SEC = 0.1
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tempo Math
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Clamp a BPM value to the supported range (rounded to a whole number).
+ */
+export function clampBpm(bpm: number): number {
+  if (!Number.isFinite(bpm)) return DEFAULT_METRONOME_SETTINGS.bpm
+  return Math.round(Math.min(MAX_BPM, Math.max(MIN_BPM, bpm)))
+}
+
+/**
+ * Duration of one beat in milliseconds.
+ */
+export function getBeatDurationMs(bpm: number): number {
+  return 60_000 / bpm
+}
+
+/**
+ * Duration of one bar in milliseconds.
+ */
+export function getBarDurationMs(bpm: number, timeSignature: TimeSignature): number {
+  return getBeatDurationMs(bpm) * timeSignature.beatsPerBar
+}
+
+/**
+ * Format a time signature for display (e.g., "6/8").
+ */
+export function formatTimeSignature(timeSignature: TimeSignature): string {
+  return `${timeSignature.beatsPerBar}/${timeSignature.beatUnit}`
+}
+
+/**
+ * List the beats of a recording's beat grid that fall within the audio, or
+ * within a part of it (times relative to the start of the part).
+ *
+ * @param tempo - Tempo stored on the recording
+ * @param durationMs - Length of the recording (or the part)
+ * @param startMs - Start of the part within the recording
+ */
+export function getBeatGrid(tempo: RecordingTempo, durationMs: number, startMs = 0): Beat[] {
+  const beatMs = getBeatDurationMs(tempo.bpm)
+  const { beatsPerBar } = tempo.timeSignature
+  const offsetMs = tempo.startOffsetMs - startMs
+
+  // First beat index at or after the start of the audio (may precede the downbeat)
+  const firstIndex = Math.ceil(-offsetMs / beatMs) || 0 // avoid -0
+  const beats: Beat[] = []
+
+  for (let i = firstIndex; ; i++) {
+    const timeMs = offsetMs + i * beatMs
+    if (timeMs > durationMs) break
+    const bar = Math.floor(i / beatsPerBar)
+    beats.push({
+      timeSec: timeMs / 1000,
+      bar,
+      beatInBar: i - bar * beatsPerBar,
+    })
+  }
+
+  return beats
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Click Scheduler
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Plays a click through the MidiPlayer at a steady tempo.
+ *
+ * Clicks are scheduled on the audio clock; callers get beat callbacks and the
+ * time of the first beat on the performance.now() clock so they can line up
+ * recording with the grid.
+ */
+export class Metronome {
+  private timer: ReturnType<typeof setInterval> | null = null
+  private beatTimeouts: ReturnType<typeof setTimeout>[] = []
+  private nextBeatTime = 0
+  private beatIndex = 0
+
+  /**
+   * Start clicking.
+   *
+   * @param bpm - Beats per minute
+   * @param timeSignature - Accent pattern (downbeat of each bar is accented)
+   * @param onBeat - Called when each beat sounds, with its index since start
+   * @returns Time of the first beat, in performance.now() milliseconds
+   */
+  start(bpm: number, timeSignature: TimeSignature, onBeat?: (beatIndex: number) => void): number {
+    this.stop()
+
+    const beatSec = getBeatDurationMs(bpm) / 1000
+    const startTime = midiPlayer.currentTime + SCHEDULE_AHEAD_SEC
+    this.nextBeatTime = startTime
+    this.beatIndex = 0
+
+    const schedule = () => {
+      const now = midiPlayer.currentTime
+      while (this.nextBeatTime < now + SCHEDULE_AHEAD_SEC) {
+        const index = this.beatIndex
+        midiPlayer.playClick(index % timeSignature.beatsPerBar === 0, this.nextBeatTime)
+
+        if (onBeat) {
+          const delayMs = Math.max(0, (this.nextBeatTime - now) * 1000)
+          this.beatTimeouts.push(setTimeout(() => onBeat(index), delayMs))
+        }
+
+        this.nextBeatTime += beatSec
+        this.beatIndex++
+      }
+      // Look-ahead is shorter than a beat, so only the latest timeouts can still be pending
+      if (this.beatTimeouts.length > 8) this.beatTimeouts = this.beatTimeouts.slice(-8)
+    }
+
+    schedule()
+    this.timer = setInterval(schedule, SCHEDULER_INTERVAL_MS)
+
+    return performance.now() + (startTime - midiPlayer.currentTime) * 1000
+  }
+
+  /**
+   * Stop clicking (clicks already scheduled within the look-ahead still sound).
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    this.beatTimeouts.forEach(clearTimeout)
+    this.beatTimeouts = []
+  }
+
+  get isRunning(): boolean {
+    return this.timer !== null
+  }
+}
@@ -3,6 +3,7 @@
 // ─────────────────────────────────────────────────────────────────────────────
 
 import { midiToFrequency, noteNameToMidi, chordNotesToMidi } from './noteUtils'
+import type { StrumDirection } from '../domain/types'
 
 /**
  * Simple synth using Web Audio API oscillator + envelope
@@ -296,18 +297,21 @@ class MidiPlayer {
 
   /**
    * Play a chord (multiple notes simultaneously).
-   * Notes are played with staggered timing for a more natural strummed feel.
+   * Notes are played with staggered timing for a more natural strummed feel,
+   * low to high for a down strum and high to low for an up strum.
    */
   playChord(
     notes: string[],
     octave: number = 3,
     durationMs: number = 800,
-    velocity: number = 0.35
+    velocity: number = 0.35,
+    direction: StrumDirection = 'down'
   ): void {
     if (notes.length === 0) return
 
     // Convert notes to MIDI with consistent voicing
     const midiNotes = chordNotesToMidi(notes, octave)
+    midiNotes.sort((a, b) => (direction === 'up' ? b - a : a - b))
 
     // Play each note with slight stagger for strummed effect
     const staggerMs = 20 // 20ms between notes for natural feel
@@ -334,6 +338,44 @@ class MidiPlayer {
     void symbol
   }
 
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Metronome Click
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Current time of the player's audio clock (in seconds), for scheduling clicks.
+   */
+  get currentTime(): number {
+    return this.getContext().currentTime
+  }
+
+  /**
+   * Schedule a short metronome click at the given audio clock time.
+   * Accented clicks (downbeats) are higher and louder.
+   */
+  playClick(accent: boolean, when: number = this.currentTime): void {
+    const ctx = this.getContext()
+    const masterOutput = this.getMasterOutput()
+    if (ctx.state === 'suspended') ctx.resume()
+
+    const osc = ctx.createOscillator()
+    osc.type = 'square'
+    osc.frequency.setValueAtTime(accent ? 1760 : 1320, when)
+
+    // Very short percussive envelope
+    const gain = ctx.createGain()
+    const peak = accent ? 0.35 : 0.2
+    gain.gain.setValueAtTime(0, when)
+    gain.gain.linearRampToValueAtTime(peak, when + 0.002)
+    gain.gain.exponentialRampToValueAtTime(0.001, when + 0.05)
+
+    osc.connect(gain)
+    gain.connect(masterOutput)
+
+    osc.start(when)
+    osc.stop(when + 0.06)
+  }
+
   // ─────────────────────────────────────────────────────────────────────────────
   // Drone Playback (sustained bass note)
   // ─────────────────────────────────────────────────────────────────────────────
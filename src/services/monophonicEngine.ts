@@ -0,0 +1,39 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Monophonic Engine: Pitch-tracking transcription of single-note lines,
+// run in the DSP worker (no model to load)
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { TranscribedNote } from '../domain/types'
+import { dspWorker } from './dspWorker'
+import type { EngineInput, TranscriptionEngine } from './transcriptionEngine'
+
+class MonophonicEngine implements TranscriptionEngine {
+  readonly id = 'monophonic'
+
+  async prepare(): Promise<void> {
+    // Nothing to load
+  }
+
+  /**
+   * Track the pitch of the audio and split it into notes at pitch changes
+   * and onsets. The audio moves to the worker and isn't handed back.
+   */
+  async transcribe(
+    { samples, sampleRate, onsets }: EngineInput,
+    signal: AbortSignal,
+    onProgress?: (fraction: number) => void
+  ): Promise<TranscribedNote[]> {
+    const { notes } = await dspWorker.run(
+      { type: 'transcribeMonophonic', samples, sampleRate, onsets },
+      signal
+    )
+    onProgress?.(1)
+    return notes
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Export singleton instance
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const monophonicEngine = new MonophonicEngine()
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import { trackPitch, segmentNotes, transcribeMonophonic } from './monophonicTranscription'
+
+describe('monophonicTranscription', () => {
+  const SAMPLE_RATE = 22050
+
+  const midiToFrequency = (midi: number) => 440 * Math.pow(2, (midi - 69) / 12)
+
+  // Plucked notes (midi, start and end in seconds) with a quick attack and decay
+  const createLine = (notes: [number, number, number][], durationSec: number): Float32Array => {
+    const samples = new Float32Array(Math.round(durationSec * SAMPLE_RATE))
+    for (const [midi, startSec, endSec] of notes) {
+      const start = Math.round(startSec * SAMPLE_RATE)
+      const end = Math.round(endSec * SAMPLE_RATE)
+      const frequency = midiToFrequency(midi)
+      for (let i = 0; start + i < end; i++) {
+        const envelope = Math.min(1, i / 50) * Math.exp(-i / SAMPLE_RATE)
+        samples[start + i] = 0.6 * envelope * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE)
+      }
+    }
+    return samples
+  }
+
+  describe('trackPitch', () => {
+    it('follows the pitch of a tone and leaves silence unvoiced', () => {
+      const frames = trackPitch(createLine([[57, 0.2, 0.6]], 0.8), SAMPLE_RATE)
+
+      const at = (timeSec: number) =>
+        frames.reduce((best, frame) =>
+          Math.abs(frame.timeSec - timeSec) < Math.abs(best.timeSec - timeSec) ? frame : best
+        )
+      expect(at(0.1).midi).toBeNull()
+      expect(at(0.4).midi).toBeCloseTo(57, 1)
+      expect(at(0.7).midi).toBeNull()
+    })
+  })
+
+  describe('segmentNotes', () => {
+    const hopSec = 0.01
+    const track = (pitches: (number | null)[]) =>
+      pitches.map((midi, i) => ({ timeSec: i * hopSec, midi, level: midi === null ? 0 : 0.5 }))
+
+    it('starts a note where the pitch changes', () => {
+      const notes = segmentNotes(track([...Array(10).fill(60), ...Array(8).fill(62.1)]), [], hopSec)
+
+      expect(notes.map((note) => note.midi)).toEqual([60, 62])
+      expect(notes[1].startSec).toBeCloseTo(0.1, 6)
+      expect(notes[1].endSec).toBeCloseTo(0.18, 6)
+    })
+
+    it('keeps vibrato within one note', () => {
+      const vibrato = Array.from({ length: 20 }, (_, i) => 64 + 0.4 * Math.sin(i))
+
+      expect(segmentNotes(track(vibrato), [], hopSec)).toHaveLength(1)
+    })
+
+    it('splits a re-picked note at its onset', () => {
+      const notes = segmentNotes(track(Array(20).fill(55)), [{ timeSec: 0.1, strength: 1 }], hopSec)
+
+      expect(notes.map((note) => note.startSec)).toEqual([0, 0.1])
+    })
+
+    it('drops blips shorter than a note', () => {
+      const notes = segmentNotes(
+        track([...Array(3).fill(70), null, ...Array(6).fill(50)]),
+        [],
+        hopSec
+      )
+
+      expect(notes.map((note) => note.midi)).toEqual([50])
+    })
+  })
+
+  describe('transcribeMonophonic', () => {
+    it('transcribes a melody', () => {
+      const line = createLine(
+        [
+          [57, 0.1, 0.4],
+          [60, 0.5, 0.8],
+          [64, 0.9, 1.3],
+        ],
+        1.5
+      )
+
+      const notes = transcribeMonophonic(line, SAMPLE_RATE, [])
+
+      expect(notes.map((note) => note.midi)).toEqual([57, 60, 64])
+      notes.forEach((note, i) => {
+        expect(note.startSec).toBeCloseTo([0.1, 0.5, 0.9][i], 1)
+        expect(note.velocity).toBeGreaterThan(0.5)
+      })
+    })
+
+    it('finds nothing in silence', () => {
+      expect(transcribeMonophonic(new Float32Array(SAMPLE_RATE), SAMPLE_RATE, [])).toEqual([])
+    })
+  })
+})
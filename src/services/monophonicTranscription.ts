@@ -0,0 +1,171 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Monophonic Transcription: Notes of a single-note line from a YIN pitch
+// track, split where the pitch changes or a new attack starts
+// Needs no model, so lead lines can be transcribed when Basic Pitch can't load
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { OnsetEvent, TranscribedNote } from '../domain/types'
+import { detectPitch } from './pitchDetection'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Analysis frames: ~46ms blocks (two periods of drop C's low string at
+// 22050Hz) every ~11.6ms, Basic Pitch's frame rate
+const FRAME_SIZE = 1024
+const HOP_SIZE = 256
+
+// Frames quieter than this share of the loudest frame's level are silent (-26dB)
+const SILENCE_LEVEL = 0.05
+
+// The pitch track is smoothed with a running median over this many frames,
+// which evens out octave slips and fills single-frame dropouts
+const SMOOTHING_FRAMES = 5
+
+// A note ends when the pitch strays this far (semitones) from where it started;
+// vibrato and small bends stay within one note
+const PITCH_CHANGE_SEMITONES = 0.7
+
+// Shortest note kept (~58ms)
+const MIN_NOTE_FRAMES = 5
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface PitchFrame {
+  /** Centre of the frame in seconds */
+  timeSec: number
+  /** Pitch as a fractional MIDI note, null when unvoiced or silent */
+  midi: number | null
+  /** RMS level of the frame */
+  level: number
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Pitch Tracking
+// ─────────────────────────────────────────────────────────────────────────────
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+/**
+ * Pitch of each frame of the audio (YIN), with silent frames unvoiced and
+ * the track smoothed: a frame is voiced when most frames around it are, and
+ * takes their median pitch.
+ *
+ * @param samples - Mono audio
+ * @param sampleRate - Sample rate of the audio
+ */
+export function trackPitch(samples: Float32Array, sampleRate: number): PitchFrame[] {
+  const raw: PitchFrame[] = []
+  for (let start = 0; start + FRAME_SIZE <= samples.length; start += HOP_SIZE) {
+    const block = samples.subarray(start, start + FRAME_SIZE)
+
+    let sumSquares = 0
+    for (let i = 0; i < block.length; i++) sumSquares += block[i] * block[i]
+
+    const pitch = detectPitch(block, sampleRate)
+    raw.push({
+      timeSec: (start + FRAME_SIZE / 2) / sampleRate,
+      midi: pitch ? 69 + 12 * Math.log2(pitch.frequency / 440) : null,
+      level: Math.sqrt(sumSquares / block.length),
+    })
+  }
+
+  // Gate silence relative to the loudest frame
+  const maxLevel = Math.max(...raw.map((frame) => frame.level), 0)
+  const gated = raw.map((frame) => (frame.level < maxLevel * SILENCE_LEVEL ? null : frame.midi))
+
+  const halfWindow = Math.floor(SMOOTHING_FRAMES / 2)
+  return raw.map((frame, i) => {
+    const window = gated.slice(Math.max(0, i - halfWindow), i + halfWindow + 1)
+    const voiced = window.filter((midi): midi is number => midi !== null)
+    return {
+      ...frame,
+      midi: voiced.length * 2 > window.length ? median(voiced) : null,
+    }
+  })
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Note Segmentation
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Split a pitch track into notes: a note runs while the frames are voiced
+ * and near its starting pitch, and ends early at an onset (a re-picked note
+ * of the same pitch).
+ *
+ * @param frames - Pitch track (from trackPitch)
+ * @param onsets - Attacks found in the audio
+ * @param hopSec - Time between frames
+ * @returns Notes sorted by start time, velocity relative to the loudest frame
+ */
+export function segmentNotes(
+  frames: PitchFrame[],
+  onsets: OnsetEvent[],
+  hopSec: number
+): TranscribedNote[] {
+  const onsetFrames = new Set(
+    onsets.map((onset) => Math.round((onset.timeSec - (frames[0]?.timeSec ?? 0)) / hopSec))
+  )
+  const maxLevel = Math.max(...frames.map((frame) => frame.level), Number.EPSILON)
+
+  const notes: TranscribedNote[] = []
+  let start = -1
+  let pitch = 0
+
+  const closeNote = (end: number) => {
+    if (start >= 0 && end - start >= MIN_NOTE_FRAMES) {
+      const noteFrames = frames.slice(start, end)
+      notes.push({
+        startSec: frames[start].timeSec,
+        endSec: frames[end - 1].timeSec + hopSec,
+        midi: Math.round(median(noteFrames.map((frame) => frame.midi ?? pitch))),
+        velocity: Math.max(...noteFrames.map((frame) => frame.level)) / maxLevel,
+      })
+    }
+    start = -1
+  }
+
+  for (let i = 0; i < frames.length; i++) {
+    const { midi } = frames[i]
+    if (midi === null) {
+      closeNote(i)
+      continue
+    }
+
+    // Onsets split only notes that have lasted, so an onset a frame or two
+    // after a pitch change doesn't cut the new note's start off
+    const isReattack = onsetFrames.has(i) && i - start >= MIN_NOTE_FRAMES
+    if (start >= 0 && (Math.abs(midi - pitch) > PITCH_CHANGE_SEMITONES || isReattack)) {
+      closeNote(i)
+    }
+    if (start < 0) {
+      start = i
+      pitch = Math.round(midi)
+    }
+  }
+  closeNote(frames.length)
+
+  return notes
+}
+
+/**
+ * Transcribe a single-note line: track its pitch and split it into notes.
+ *
+ * @param samples - Mono audio
+ * @param sampleRate - Sample rate of the audio
+ * @param onsets - Attacks found in the audio (re-picked notes of the same pitch)
+ */
+export function transcribeMonophonic(
+  samples: Float32Array,
+  sampleRate: number,
+  onsets: OnsetEvent[]
+): TranscribedNote[] {
+  return segmentNotes(trackPitch(samples, sampleRate), onsets, HOP_SIZE / sampleRate)
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import {
+  saveNoiseProfile,
+  loadNoiseProfile,
+  clearNoiseProfile,
+  type ProfileStorage,
+} from './noiseProfile'
+import type { NoiseProfile } from './spectralProcessing'
+
+describe('noiseProfile', () => {
+  // In-memory stand-in for localStorage
+  const createStorage = (): ProfileStorage & { items: Map<string, string> } => {
+    const items = new Map<string, string>()
+    return {
+      items,
+      getItem: (key) => items.get(key) ?? null,
+      setItem: (key, value) => void items.set(key, value),
+      removeItem: (key) => void items.delete(key),
+    }
+  }
+
+  const profile: NoiseProfile = {
+    spectrum: Float32Array.from([0.5, 0.25, 0.125]),
+    sampleRate: 22050,
+    noiseFloorDb: -62,
+  }
+
+  describe('saveNoiseProfile / loadNoiseProfile', () => {
+    it('restores a saved profile', () => {
+      const storage = createStorage()
+      saveNoiseProfile('mic-1', profile, storage)
+
+      const loaded = loadNoiseProfile('mic-1', storage)
+
+      expect(loaded).toEqual(profile)
+      expect(loaded?.spectrum).toBeInstanceOf(Float32Array)
+    })
+
+    it('keeps a separate profile per input device', () => {
+      const storage = createStorage()
+      saveNoiseProfile('mic-1', profile, storage)
+      saveNoiseProfile('', { ...profile, noiseFloorDb: -48 }, storage)
+
+      expect(loadNoiseProfile('mic-1', storage)?.noiseFloorDb).toBe(-62)
+      expect(loadNoiseProfile('', storage)?.noiseFloorDb).toBe(-48)
+      expect(loadNoiseProfile('mic-2', storage)).toBeNull()
+    })
+
+    it('ignores unreadable entries', () => {
+      const storage = createStorage()
+      saveNoiseProfile('mic-1', profile, storage)
+      const [key] = storage.items.keys()
+
+      storage.items.set(key, 'not json')
+      expect(loadNoiseProfile('mic-1', storage)).toBeNull()
+
+      storage.items.set(key, JSON.stringify({ spectrum: 'nope' }))
+      expect(loadNoiseProfile('mic-1', storage)).toBeNull()
+    })
+
+    it('does nothing without storage', () => {
+      expect(() => saveNoiseProfile('mic-1', profile, null)).not.toThrow()
+      expect(loadNoiseProfile('mic-1', null)).toBeNull()
+    })
+  })
+
+  describe('clearNoiseProfile', () => {
+    it('forgets only that device', () => {
+      const storage = createStorage()
+      saveNoiseProfile('mic-1', profile, storage)
+      saveNoiseProfile('mic-2', profile, storage)
+
+      clearNoiseProfile('mic-1', storage)
+
+      expect(loadNoiseProfile('mic-1', storage)).toBeNull()
+      expect(loadNoiseProfile('mic-2', storage)).not.toBeNull()
+    })
+  })
+})
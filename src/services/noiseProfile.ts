@@ -0,0 +1,188 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Noise Profile: Capture room tone and keep its profile per input device
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { useState, useCallback } from 'react'
+import type { NoiseProfile } from './spectralProcessing'
+import { prepareNoiseProfile } from './audioDecoder'
+import { PCMCapture } from './pcmCapture'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Length of room tone recorded for a profile */
+export const ROOM_TONE_CAPTURE_MS = 3000
+
+// Storage keys are this prefix plus the device id ('' = system default)
+const STORAGE_KEY_PREFIX = 'songwriter-guru:noise-profile:'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Persistence
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** The part of Web Storage used for profiles (injectable for tests) */
+export type ProfileStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>
+
+interface StoredNoiseProfile {
+  spectrum: number[]
+  sampleRate: number
+  noiseFloorDb: number
+}
+
+function getDefaultStorage(): ProfileStorage | null {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage
+  } catch {
+    // Storage can be blocked (e.g. privacy settings)
+    return null
+  }
+}
+
+/**
+ * Save the noise profile of an input device, replacing any earlier one.
+ */
+export function saveNoiseProfile(
+  deviceId: string,
+  profile: NoiseProfile,
+  storage: ProfileStorage | null = getDefaultStorage()
+): void {
+  const stored: StoredNoiseProfile = {
+    spectrum: Array.from(profile.spectrum),
+    sampleRate: profile.sampleRate,
+    noiseFloorDb: profile.noiseFloorDb,
+  }
+  try {
+    storage?.setItem(STORAGE_KEY_PREFIX + deviceId, JSON.stringify(stored))
+  } catch (err) {
+    console.warn('Could not save noise profile:', err)
+  }
+}
+
+/**
+ * Load the saved noise profile of an input device.
+ *
+ * @returns The profile, or null when none was captured (or it can't be read)
+ */
+export function loadNoiseProfile(
+  deviceId: string,
+  storage: ProfileStorage | null = getDefaultStorage()
+): NoiseProfile | null {
+  try {
+    const json = storage?.getItem(STORAGE_KEY_PREFIX + deviceId)
+    if (!json) return null
+
+    const stored = JSON.parse(json) as Partial<StoredNoiseProfile>
+    if (
+      !Array.isArray(stored.spectrum) ||
+      typeof stored.sampleRate !== 'number' ||
+      typeof stored.noiseFloorDb !== 'number'
+    ) {
+      return null
+    }
+    return {
+      spectrum: Float32Array.from(stored.spectrum),
+      sampleRate: stored.sampleRate,
+      noiseFloorDb: stored.noiseFloorDb,
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Forget the noise profile of an input device.
+ */
+export function clearNoiseProfile(
+  deviceId: string,
+  storage: ProfileStorage | null = getDefaultStorage()
+): void {
+  storage?.removeItem(STORAGE_KEY_PREFIX + deviceId)
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Capture
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Record room tone from an input and build its noise profile.
+ * Uses the same input processing as recording so the noise matches.
+ */
+async function captureNoiseProfile(deviceId: string, musicMode: boolean): Promise<NoiseProfile> {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: {
+      ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+      echoCancellation: !musicMode,
+      noiseSuppression: !musicMode,
+      autoGainControl: !musicMode,
+    },
+  })
+
+  const capture = new PCMCapture()
+  try {
+    await capture.startCapture(stream)
+    await new Promise((resolve) => setTimeout(resolve, ROOM_TONE_CAPTURE_MS))
+    const result = await capture.stopCapture()
+    if (!result || result.pcmData.length === 0) {
+      throw new Error('No room tone was captured')
+    }
+    return await prepareNoiseProfile(result.pcmData, result.sampleRate)
+  } finally {
+    await capture.cancel()
+    stream.getTracks().forEach((track) => track.stop())
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Hook
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface UseNoiseProfileReturn {
+  /** Saved profile of the selected input (null when none) */
+  profile: NoiseProfile | null
+  isCapturing: boolean
+  error: string | null
+  /** Record room tone and save it as the input's profile */
+  capture: () => Promise<void>
+  /** Forget the input's profile */
+  clear: () => void
+}
+
+/**
+ * The room-tone noise profile of the selected input device.
+ *
+ * @param deviceId - Selected input ('' = system default)
+ * @param musicMode - Whether browser speech processing is off (as when recording)
+ */
+export function useNoiseProfile(deviceId: string, musicMode: boolean): UseNoiseProfileReturn {
+  const [stored, setStored] = useState(() => ({ deviceId, profile: loadNoiseProfile(deviceId) }))
+  const [isCapturing, setIsCapturing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Switching inputs shows that input's profile
+  if (stored.deviceId !== deviceId) {
+    setStored({ deviceId, profile: loadNoiseProfile(deviceId) })
+  }
+
+  const capture = useCallback(async () => {
+    setIsCapturing(true)
+    setError(null)
+    try {
+      const profile = await captureNoiseProfile(deviceId, musicMode)
+      saveNoiseProfile(deviceId, profile)
+      setStored({ deviceId, profile })
+    } catch (err) {
+      console.warn('Room tone capture failed:', err)
+      setError('Could not capture room tone. Check microphone access and try again.')
+    } finally {
+      setIsCapturing(false)
+    }
+  }, [deviceId, musicMode])
+
+  const clear = useCallback(() => {
+    clearNoiseProfile(deviceId)
+    setStored({ deviceId, profile: null })
+  }, [deviceId])
+
+  return { profile: stored.profile, isCapturing, error, capture, clear }
+}
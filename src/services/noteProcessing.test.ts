@@ -8,6 +8,8 @@ import {
   concatenatePitchBends,
   hasSignificantPitchBend,
   filterIsolatedNoiseNotes,
+  filterWeakNotesWithoutOnset,
+  cleanUpNotes,
   DEFAULT_MAX_POLYPHONY,
   DEFAULT_MERGE_TIME_THRESHOLD,
   ISOLATED_NOTE_THRESHOLD,
@@ -468,4 +470,35 @@ describe('noteProcessing', () => {
       expect(result[0].endSec).toBe(1.5)
     })
   })
+
+  describe('filterWeakNotesWithoutOnset', () => {
+    it('keeps strong notes and weak notes with an onset nearby', () => {
+      const notes = [
+        createNote(0, 0.5, 60, 0.8),
+        createNote(1, 1.5, 62, 0.3),
+        createNote(2, 2.5, 64, 0.3),
+      ]
+      const onsets = [{ timeSec: 1.02, strength: 0.5 }]
+
+      const result = filterWeakNotesWithoutOnset(notes, onsets)
+
+      expect(result.map((n) => n.midi)).toEqual([60, 62])
+    })
+  })
+
+  describe('cleanUpNotes', () => {
+    it('snaps note starts to nearby onsets', () => {
+      const notes = [createNote(0.51, 1, 60, 0.8)]
+
+      const result = cleanUpNotes(notes, [{ timeSec: 0.5, strength: 0.9 }])
+
+      expect(result[0].startSec).toBe(0.5)
+    })
+
+    it('leaves timing alone without onsets', () => {
+      const notes = [createNote(0.51, 1, 60, 0.8), createNote(0.9, 1.5, 64, 0.8)]
+
+      expect(cleanUpNotes(notes).map((n) => n.startSec)).toEqual([0.51, 0.9])
+    })
+  })
 })
@@ -3,6 +3,7 @@
 // ─────────────────────────────────────────────────────────────────────────────
 
 import type { TranscribedNote } from '../domain/types'
+import { snapNotesToOnsets, hasStrongOnsetNear, type OnsetEvent } from './onsetDetection'
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Constants (can be overridden via function parameters)
@@ -351,3 +352,59 @@ export function smartMergeNotes(
   // Step 3: Flatten back to single array
   return cleanedPhrases.flat()
 }
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Full Cleanup
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Filter out weak notes that don't have a corresponding detected onset.
+ * Strong notes are kept regardless of onset detection.
+ */
+export function filterWeakNotesWithoutOnset(
+  notes: TranscribedNote[],
+  onsets: OnsetEvent[],
+  weakThreshold: number = 0.4, // Notes below this velocity are considered "weak"
+  onsetSearchWindow: number = 0.05 // 50ms window to find onset
+): TranscribedNote[] {
+  return notes.filter((note) => {
+    // Strong notes are always kept
+    if ((note.velocity ?? 1) >= weakThreshold) {
+      return true
+    }
+
+    // For weak notes, require onset support
+    return hasStrongOnsetNear(onsets, note.startSec, onsetSearchWindow, 0.2)
+  })
+}
+
+/**
+ * Clean up notes straight from the model (sorted by start time).
+ *
+ * Processing pipeline:
+ * 1. Snap note start times to detected onsets (improved timing)
+ * 2. Filter isolated noise notes (weak notes with no neighbors)
+ * 3. Apply polyphony limit (max 6 simultaneous notes for guitar)
+ * 4. Smart merge with pitch bend awareness
+ * 5. Filter weak notes without clear onset support
+ */
+export function cleanUpNotes(
+  notes: TranscribedNote[],
+  detectedOnsets: OnsetEvent[] = []
+): TranscribedNote[] {
+  // Step 1: Snap note start times to detected onsets for better timing
+  const snapped = detectedOnsets.length > 0 ? snapNotesToOnsets(notes, detectedOnsets, 0.03) : notes // 30ms snap window
+
+  // Step 2: Filter isolated noise notes (weak notes far from other notes)
+  const noiseFiltered = filterIsolatedNoiseNotes(snapped)
+
+  // Step 3: Apply polyphony limit (filter hallucinated harmonics/artifacts)
+  const polyLimited = limitPolyphony(noiseFiltered, DEFAULT_MAX_POLYPHONY)
+
+  // Step 4: Smart merge with pitch bend awareness
+  const merged = smartMergeNotes(polyLimited)
+
+  // Step 5: Additional filtering - remove weak notes that don't have onset support
+  // This helps catch false positives that passed through other filters
+  return detectedOnsets.length > 0 ? filterWeakNotesWithoutOnset(merged, detectedOnsets) : merged
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest'
 import {
   midiToFrequency,
+  frequencyToMidi,
   noteNameToMidi,
   midiToNoteName,
   noteToPitchClass,
@@ -45,6 +46,27 @@ describe('noteUtils', () => {
       const ratio = cSharp4 / c4
       expect(ratio).toBeCloseTo(Math.pow(2, 1 / 12), 5)
     })
+
+    it('uses the given reference pitch for A4', () => {
+      expect(midiToFrequency(69, 442)).toBe(442)
+      expect(midiToFrequency(57, 442)).toBeCloseTo(221, 5)
+    })
+  })
+
+  describe('frequencyToMidi', () => {
+    it('inverts midiToFrequency', () => {
+      expect(frequencyToMidi(440)).toBe(69)
+      expect(frequencyToMidi(midiToFrequency(40))).toBeCloseTo(40, 10)
+    })
+
+    it('returns fractional notes between semitones', () => {
+      // A quarter tone above A4
+      expect(frequencyToMidi(440 * Math.pow(2, 0.5 / 12))).toBeCloseTo(69.5, 10)
+    })
+
+    it('uses the given reference pitch for A4', () => {
+      expect(frequencyToMidi(432, 432)).toBe(69)
+    })
   })
 
   describe('noteNameToMidi', () => {
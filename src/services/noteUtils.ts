@@ -4,10 +4,18 @@
 
 /**
  * Convert MIDI note number to frequency in Hz
- * A4 (MIDI 69) = 440 Hz
+ * A4 (MIDI 69) = referenceHz (440 Hz by default)
  */
-export function midiToFrequency(midi: number): number {
-  return 440 * Math.pow(2, (midi - 69) / 12)
+export function midiToFrequency(midi: number, referenceHz: number = 440): number {
+  return referenceHz * Math.pow(2, (midi - 69) / 12)
+}
+
+/**
+ * Convert a frequency in Hz to a (fractional) MIDI note number
+ * e.g. 440 -> 69, 445 -> ~69.2 with A4 = referenceHz
+ */
+export function frequencyToMidi(frequency: number, referenceHz: number = 440): number {
+  return 69 + 12 * Math.log2(frequency / referenceHz)
 }
 
 /**
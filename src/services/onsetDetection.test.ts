@@ -5,6 +5,8 @@ import {
   snapNotesToOnsets,
   getOnsetDensity,
   hasStrongOnsetNear,
+  ONSET_DETECTORS,
+  DEFAULT_ONSET_DETECTORS,
   type OnsetEvent,
 } from './onsetDetection'
 
@@ -119,6 +121,85 @@ describe('onsetDetection', () => {
     })
   })
 
+  describe('onset detectors', () => {
+    // Notes that ring out, each with a burst of noise 60ms in (a pick scrape)
+    const createScrapedNotes = (attackTimesSec: number[], sampleRate: number = 22050) => {
+      const audio = new Float32Array(Math.round(1.5 * sampleRate))
+      let seed = 1
+      const random = () => {
+        seed = (seed * 16807) % 2147483647
+        return seed / 2147483647 - 0.5
+      }
+      for (const attackTime of attackTimesSec) {
+        const start = Math.round(attackTime * sampleRate)
+        for (let i = 0; i < 0.4 * sampleRate; i++) {
+          audio[start + i] +=
+            0.6 * Math.exp(-i / (0.3 * sampleRate)) * Math.sin((2 * Math.PI * 330 * i) / sampleRate)
+        }
+        const scrape = start + Math.round(0.06 * sampleRate)
+        for (let i = 0; i < 200; i++) {
+          audio[scrape + i] += 0.2 * random()
+        }
+      }
+      return audio
+    }
+
+    it('detects the start of a tone with every detector', () => {
+      const audio = new Float32Array(22050)
+      audio.set(createSineWave(440, 0.8, 800), Math.round(0.2 * 22050))
+
+      for (const { id } of ONSET_DETECTORS) {
+        const onsets = detectOnsets(audio, 22050, id)
+
+        expect(onsets, id).toHaveLength(1)
+        expect(onsets[0].timeSec, id).toBeGreaterThan(0.1)
+        expect(onsets[0].timeSec, id).toBeLessThan(0.35)
+      }
+    })
+
+    it('finds legato note changes the energy envelope misses', () => {
+      // A slur from A4 to D5 at 0.5s, at an even level
+      const audio = new Float32Array(22050)
+      let phase = 0
+      for (let i = 0; i < audio.length; i++) {
+        phase += (2 * Math.PI * (i < 11025 ? 440 : 587)) / 22050
+        audio[i] = 0.5 * Math.min(1, i / 100) * Math.sin(phase)
+      }
+
+      expect(detectOnsets(audio, 22050, 'energy')).toEqual([])
+      for (const detector of ['phaseDeviation', 'complexDomain', 'fusion'] as const) {
+        const onsets = detectOnsets(audio, 22050, detector)
+
+        expect(onsets, detector).toHaveLength(1)
+        expect(onsets[0].timeSec, detector).toBeGreaterThan(0.4)
+        expect(onsets[0].timeSec, detector).toBeLessThan(0.5)
+      }
+    })
+
+    it('fuses detection functions into the onsets most of them agree on', () => {
+      const audio = createScrapedNotes([0.3, 0.9])
+
+      const flux = detectOnsets(audio, 22050, 'spectralFlux')
+      const fused = detectOnsets(audio, 22050, 'fusion')
+
+      expect(fused.length).toBeLessThan(flux.length)
+      expect(fused.filter((onset) => onset.timeSec < 0.6)).toHaveLength(1)
+      expect(fused.some((onset) => Math.abs(onset.timeSec - 0.85) < 0.1)).toBe(true)
+      expect(Math.max(...fused.map((onset) => onset.strength))).toBe(1)
+    })
+
+    it('has a default detector for each preset', () => {
+      const ids = ONSET_DETECTORS.map((detector) => detector.id)
+
+      expect(ids).toContain(DEFAULT_ONSET_DETECTORS.lead)
+      expect(ids).toContain(DEFAULT_ONSET_DETECTORS.chord)
+    })
+
+    it('keeps spectral flux as the default for both presets', () => {
+      expect(DEFAULT_ONSET_DETECTORS).toEqual({ lead: 'spectralFlux', chord: 'spectralFlux' })
+    })
+  })
+
   describe('findNearestOnset', () => {
     const mockOnsets: OnsetEvent[] = [
       { timeSec: 0.5, strength: 0.8 },
@@ -1,17 +1,12 @@
 // ─────────────────────────────────────────────────────────────────────────────
-// Onset Detection: Spectral flux-based note onset detection
+// Onset Detection: Note onsets from spectral detection functions
 // Supplements Basic Pitch's onset detection for improved timing accuracy
 // ─────────────────────────────────────────────────────────────────────────────
 
-/**
- * Detected onset event with timing and strength information.
- */
-export interface OnsetEvent {
-  /** Time of onset in seconds */
-  timeSec: number
-  /** Strength of the onset (0-1, higher = more pronounced attack) */
-  strength: number
-}
+import type { OnsetDetector, OnsetEvent, TranscriptionPreset } from '../domain/types'
+import { forEachStftFrame } from './fft'
+
+export type { OnsetDetector, OnsetEvent }
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Configuration
@@ -27,132 +22,161 @@ const ONSET_THRESHOLD_MULTIPLIER = 1.5 // Multiplier above median for onset
 const MIN_ONSET_INTERVAL_SEC = 0.03 // 30ms minimum between onsets
 const ONSET_STRENGTH_FLOOR = 0.1 // Minimum flux value to consider
 
-// ─────────────────────────────────────────────────────────────────────────────
-// FFT Implementation (using Web Audio API's built-in AnalyserNode approach)
-// ─────────────────────────────────────────────────────────────────────────────
-
-/**
- * Simple FFT implementation for spectral analysis.
- * Uses the Cooley-Tukey radix-2 DIT algorithm.
- */
-class SimpleFFT {
-  private size: number
-  private cosTable: Float32Array
-  private sinTable: Float32Array
-
-  constructor(size: number) {
-    this.size = size
-    this.cosTable = new Float32Array(size / 2)
-    this.sinTable = new Float32Array(size / 2)
-
-    // Precompute twiddle factors
-    for (let i = 0; i < size / 2; i++) {
-      const angle = (-2 * Math.PI * i) / size
-      this.cosTable[i] = Math.cos(angle)
-      this.sinTable[i] = Math.sin(angle)
-    }
-  }
-
-  /**
-   * Compute magnitude spectrum from real-valued input.
-   * Returns only the positive frequency bins (size/2 + 1).
-   */
-  magnitudeSpectrum(input: Float32Array): Float32Array {
-    const real = new Float32Array(this.size)
-    const imag = new Float32Array(this.size)
-
-    // Copy input and apply Hann window
-    for (let i = 0; i < this.size; i++) {
-      const window = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (this.size - 1)))
-      real[i] = (input[i] || 0) * window
-      imag[i] = 0
-    }
-
-    // In-place FFT
-    this.fft(real, imag)
-
-    // Compute magnitudes for positive frequencies
-    const numBins = this.size / 2 + 1
-    const magnitudes = new Float32Array(numBins)
-    for (let i = 0; i < numBins; i++) {
-      magnitudes[i] = Math.sqrt(real[i] * real[i] + imag[i] * imag[i])
-    }
-
-    return magnitudes
-  }
+// Frame level the energy envelope bottoms out at (-60dB), so silence doesn't
+// turn into large jumps in level
+const ENERGY_FLOOR = 1e-6
+
+// Fusion: peaks of the detection functions this close together are the same
+// onset (about two hops, as the slower functions peak a frame or so late)
+const FUSION_WINDOW_SEC = 0.05
+
+// How much each detection function's peaks count towards a fused onset
+const FUSION_WEIGHTS: Record<DetectionFunction, number> = {
+  spectralFlux: 1,
+  complexDomain: 1,
+  highFrequencyContent: 0.8,
+  phaseDeviation: 0.6,
+  energy: 0.6,
+}
 
-  /**
-   * In-place Cooley-Tukey FFT.
-   */
-  private fft(real: Float32Array, imag: Float32Array): void {
-    const n = this.size
-
-    // Bit reversal
-    let j = 0
-    for (let i = 0; i < n - 1; i++) {
-      if (i < j) {
-        let temp = real[i]
-        real[i] = real[j]
-        real[j] = temp
-        temp = imag[i]
-        imag[i] = imag[j]
-        imag[j] = temp
-      }
-      let k = n / 2
-      while (k <= j) {
-        j -= k
-        k /= 2
-      }
-      j += k
-    }
+// Weighted share of the detection functions that must agree on a fused onset
+const MIN_FUSION_CONFIDENCE = 0.35
 
-    // FFT computation
-    for (let len = 2; len <= n; len *= 2) {
-      const halfLen = len / 2
-      const tableStep = n / len
+type DetectionFunction = Exclude<OnsetDetector, 'fusion'>
 
-      for (let i = 0; i < n; i += len) {
-        for (let k = 0; k < halfLen; k++) {
-          const idx = i + k
-          const idx2 = idx + halfLen
-          const tableIdx = k * tableStep
+const DETECTION_FUNCTIONS = Object.keys(FUSION_WEIGHTS) as DetectionFunction[]
 
-          const tReal = real[idx2] * this.cosTable[tableIdx] - imag[idx2] * this.sinTable[tableIdx]
-          const tImag = real[idx2] * this.sinTable[tableIdx] + imag[idx2] * this.cosTable[tableIdx]
+export interface OnsetDetectorOption {
+  id: OnsetDetector
+  label: string
+  description: string
+}
 
-          real[idx2] = real[idx] - tReal
-          imag[idx2] = imag[idx] - tImag
-          real[idx] += tReal
-          imag[idx] += tImag
-        }
-      }
-    }
-  }
+export const ONSET_DETECTORS: OnsetDetectorOption[] = [
+  {
+    id: 'spectralFlux',
+    label: 'Spectral flux',
+    description: 'Rises in spectral magnitude, the all-rounder',
+  },
+  {
+    id: 'highFrequencyContent',
+    label: 'High-frequency content',
+    description: 'Bright, percussive attacks such as picked or strummed notes',
+  },
+  {
+    id: 'phaseDeviation',
+    label: 'Phase deviation',
+    description: 'Soft legato note changes that barely change the level',
+  },
+  {
+    id: 'complexDomain',
+    label: 'Complex domain',
+    description: 'Changes in level and phase, for soft and hard attacks alike',
+  },
+  {
+    id: 'energy',
+    label: 'Energy',
+    description: 'Jumps in loudness, robust but blurs fast notes',
+  },
+  {
+    id: 'fusion',
+    label: 'Fusion',
+    description: 'Onsets most of the detectors agree on',
+  },
+]
+
+// Spectral flux, which transcription has always used; the others are opt-in
+export const DEFAULT_ONSET_DETECTORS: Record<TranscriptionPreset, OnsetDetector> = {
+  lead: 'spectralFlux',
+  chord: 'spectralFlux',
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Spectral Flux Calculation
+// Detection Functions
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** Wrap a phase to [-π, π] */
+function principalArgument(phase: number): number {
+  return phase - 2 * Math.PI * Math.round(phase / (2 * Math.PI))
+}
+
 /**
- * Calculate spectral flux between consecutive frames.
- * Spectral flux measures the change in the spectrum, detecting attacks.
+ * Calculate detection functions over STFT frames in one pass. Each has one
+ * value per frame that peaks at attacks:
  *
- * Uses half-wave rectification: only counts positive changes (energy increases).
+ * - spectralFlux: half-wave rectified rise in magnitude, summed over bins
+ * - highFrequencyContent: rise in bin-weighted power, which favors the
+ *   broadband click of an attack over the body of the note
+ * - phaseDeviation: how far each bin's phase strays from the steady
+ *   advance of a sustained partial, weighted by its magnitude
+ * - complexDomain: distance of each bin from the magnitude and phase it
+ *   would have if nothing changed, counted where magnitude rises
+ * - energy: rise in frame level (dB), the energy envelope's attacks
  */
-function calculateSpectralFlux(prevSpectrum: Float32Array, currSpectrum: Float32Array): number {
-  let flux = 0
-  const numBins = Math.min(prevSpectrum.length, currSpectrum.length)
-
-  for (let i = 0; i < numBins; i++) {
-    // Half-wave rectified difference (only positive changes)
-    const diff = currSpectrum[i] - prevSpectrum[i]
-    if (diff > 0) {
-      flux += diff
+function calculateDetectionFunctions(
+  audioData: Float32Array,
+  functions: DetectionFunction[]
+): Map<DetectionFunction, number[]> {
+  const values = new Map(functions.map((fn) => [fn, [] as number[]]))
+  const needsPhase = values.has('phaseDeviation') || values.has('complexDomain')
+
+  const numBins = FFT_SIZE / 2 + 1
+  const prevMagnitude = new Float32Array(numBins)
+  const prevPhase = new Float32Array(numBins)
+  const prevPrevPhase = new Float32Array(numBins)
+  let prevHfc = 0
+  let prevLevelDb = 10 * Math.log10(ENERGY_FLOOR)
+
+  forEachStftFrame(audioData, { fftSize: FFT_SIZE, hopSize: HOP_SIZE }, (real, imag, frame) => {
+    let flux = 0
+    let hfc = 0
+    let energy = 0
+    let phaseDeviation = 0
+    let complexDomain = 0
+
+    for (let k = 0; k < numBins; k++) {
+      const magnitude = Math.sqrt(real[k] * real[k] + imag[k] * imag[k])
+      const rise = magnitude - prevMagnitude[k]
+
+      // Half-wave rectified difference (only positive changes)
+      if (rise > 0) flux += rise
+      hfc += k * magnitude * magnitude
+      energy += magnitude * magnitude
+
+      if (needsPhase) {
+        const phase = Math.atan2(imag[k], real[k])
+        // Second difference: zero while the partial's phase advances steadily
+        const deviation = principalArgument(phase - 2 * prevPhase[k] + prevPrevPhase[k])
+        phaseDeviation += magnitude * Math.abs(deviation)
+        if (rise >= 0) {
+          complexDomain += Math.sqrt(
+            magnitude * magnitude +
+              prevMagnitude[k] * prevMagnitude[k] -
+              2 * magnitude * prevMagnitude[k] * Math.cos(deviation)
+          )
+        }
+        prevPrevPhase[k] = prevPhase[k]
+        prevPhase[k] = phase
+      }
+
+      prevMagnitude[k] = magnitude
     }
-  }
 
-  return flux
+    const levelDb = 10 * Math.log10(energy / (FFT_SIZE * FFT_SIZE) + ENERGY_FLOOR)
+    // The phase predictions need two frames of history
+    const hasPhaseHistory = frame >= 2
+
+    values.get('spectralFlux')?.push(flux)
+    values.get('highFrequencyContent')?.push(Math.max(0, hfc - prevHfc))
+    values.get('phaseDeviation')?.push(hasPhaseHistory ? phaseDeviation : 0)
+    values.get('complexDomain')?.push(hasPhaseHistory ? complexDomain : 0)
+    values.get('energy')?.push(Math.max(0, levelDb - prevLevelDb))
+
+    prevHfc = hfc
+    prevLevelDb = levelDb
+  })
+
+  return values
 }
 
 /**
@@ -174,71 +198,41 @@ function medianFilter(values: number[], windowSize: number): number[] {
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Main Onset Detection Function
+// Peak Picking
 // ─────────────────────────────────────────────────────────────────────────────
 
 /**
- * Detect onsets in audio using spectral flux analysis.
- *
- * Algorithm:
- * 1. Compute STFT (Short-Time Fourier Transform) with overlapping windows
- * 2. Calculate spectral flux between consecutive frames
- * 3. Apply adaptive threshold using median filter
- * 4. Peak-pick to find onset times
- *
- * @param audioData - Audio samples as Float32Array (mono, normalized)
- * @param sampleRate - Sample rate of the audio
- * @returns Array of detected onset events
+ * Pick onsets from a detection function: local maxima above an adaptive
+ * threshold (the median of nearby frames), at least MIN_ONSET_INTERVAL_SEC
+ * apart. Strengths are relative to the function's highest value.
  */
-export function detectOnsets(audioData: Float32Array, sampleRate: number): OnsetEvent[] {
-  if (audioData.length < FFT_SIZE) {
-    return []
-  }
-
-  const fft = new SimpleFFT(FFT_SIZE)
-  const numFrames = Math.floor((audioData.length - FFT_SIZE) / HOP_SIZE) + 1
-
-  // Calculate spectral flux for each frame
-  const fluxValues: number[] = []
-  let prevSpectrum = new Float32Array(FFT_SIZE / 2 + 1)
-
-  for (let frame = 0; frame < numFrames; frame++) {
-    const frameStart = frame * HOP_SIZE
-    const frameData = audioData.slice(frameStart, frameStart + FFT_SIZE)
-
-    const spectrum = fft.magnitudeSpectrum(frameData)
-    const flux = calculateSpectralFlux(prevSpectrum, spectrum)
-    fluxValues.push(flux)
-
-    prevSpectrum = spectrum
-  }
-
-  // Normalize flux values
-  const maxFlux = Math.max(...fluxValues, 0.001)
-  const normalizedFlux = fluxValues.map((f) => f / maxFlux)
+function pickPeaks(values: number[], sampleRate: number): OnsetEvent[] {
+  // Normalize detection function values
+  const maxValue = Math.max(...values, 0.001)
+  const normalized = values.map((v) => v / maxValue)
 
   // Calculate adaptive threshold using median filter
-  const medianValues = medianFilter(normalizedFlux, MEDIAN_FILTER_SIZE)
+  const medianValues = medianFilter(normalized, MEDIAN_FILTER_SIZE)
 
   // Peak-picking with adaptive threshold
   const onsets: OnsetEvent[] = []
   const minIntervalFrames = Math.ceil((MIN_ONSET_INTERVAL_SEC * sampleRate) / HOP_SIZE)
   let lastOnsetFrame = -minIntervalFrames
 
-  for (let i = 1; i < normalizedFlux.length - 1; i++) {
-    const flux = normalizedFlux[i]
+  for (let i = 1; i < normalized.length - 1; i++) {
+    const value = normalized[i]
     const threshold = medianValues[i] * ONSET_THRESHOLD_MULTIPLIER + ONSET_STRENGTH_FLOOR
 
     // Check if this is a local maximum above threshold
-    const isPeak = flux > normalizedFlux[i - 1] && flux > normalizedFlux[i + 1]
-    const aboveThreshold = flux > threshold
+    const isPeak = value > normalized[i - 1] && value > normalized[i + 1]
+    const aboveThreshold = value > threshold
     const afterMinInterval = i - lastOnsetFrame >= minIntervalFrames
 
     if (isPeak && aboveThreshold && afterMinInterval) {
       const timeSec = (i * HOP_SIZE) / sampleRate
       onsets.push({
         timeSec,
-        strength: flux,
+        strength: value,
       })
       lastOnsetFrame = i
     }
@@ -247,6 +241,86 @@ export function detectOnsets(audioData: Float32Array, sampleRate: number): Onset
   return onsets
 }
 
+/**
+ * Combine the onsets of several detection functions. Peaks within
+ * FUSION_WINDOW_SEC of each other are one onset, whose confidence is the
+ * weighted strength of the functions that found it; onsets too few of them
+ * agree on (a pick scrape's second spike, a level wobble) are dropped.
+ *
+ * An onset is timed at its earliest peak, as the slower functions peak late.
+ */
+function fuseOnsets(peaks: Map<DetectionFunction, OnsetEvent[]>): OnsetEvent[] {
+  const candidates = [...peaks]
+    .flatMap(([fn, onsets]) => onsets.map((onset) => ({ ...onset, fn })))
+    .sort((a, b) => a.timeSec - b.timeSec)
+  const totalWeight = [...peaks.keys()].reduce((sum, fn) => sum + FUSION_WEIGHTS[fn], 0)
+
+  const fused: OnsetEvent[] = []
+  let i = 0
+  while (i < candidates.length) {
+    const timeSec = candidates[i].timeSec
+
+    // Strongest peak of each function in the window
+    const strengths = new Map<DetectionFunction, number>()
+    for (; i < candidates.length && candidates[i].timeSec - timeSec <= FUSION_WINDOW_SEC; i++) {
+      const { fn, strength } = candidates[i]
+      strengths.set(fn, Math.max(strengths.get(fn) ?? 0, strength))
+    }
+
+    let confidence = 0
+    for (const [fn, strength] of strengths) {
+      confidence += FUSION_WEIGHTS[fn] * strength
+    }
+    confidence /= totalWeight
+
+    if (confidence >= MIN_FUSION_CONFIDENCE) {
+      fused.push({ timeSec, strength: confidence })
+    }
+  }
+
+  // Relative to the most confident onset, like a single function's strengths
+  const maxConfidence = Math.max(...fused.map((onset) => onset.strength), 0.001)
+  return fused.map((onset) => ({ ...onset, strength: onset.strength / maxConfidence }))
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main Onset Detection Function
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Detect onsets in audio.
+ *
+ * Algorithm:
+ * 1. Compute STFT (Short-Time Fourier Transform) with overlapping windows
+ * 2. Calculate the detector's detection function (all of them for 'fusion')
+ * 3. Apply adaptive threshold using median filter
+ * 4. Peak-pick to find onset times (and fuse the functions' onsets)
+ *
+ * @param audioData - Audio samples as Float32Array (mono, normalized)
+ * @param sampleRate - Sample rate of the audio
+ * @param detector - Detection function to use, or 'fusion' to combine them
+ * @returns Array of detected onset events
+ */
+export function detectOnsets(
+  audioData: Float32Array,
+  sampleRate: number,
+  detector: OnsetDetector = 'spectralFlux'
+): OnsetEvent[] {
+  if (audioData.length < FFT_SIZE) {
+    return []
+  }
+
+  if (detector !== 'fusion') {
+    const values = calculateDetectionFunctions(audioData, [detector])
+    return pickPeaks(values.get(detector) ?? [], sampleRate)
+  }
+
+  const values = calculateDetectionFunctions(audioData, DETECTION_FUNCTIONS)
+  return fuseOnsets(
+    new Map(DETECTION_FUNCTIONS.map((fn) => [fn, pickPeaks(values.get(fn) ?? [], sampleRate)]))
+  )
+}
+
 /**
  * Find the nearest onset to a given time.
  * Returns the onset if within maxDistance, otherwise undefined.
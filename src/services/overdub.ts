@@ -0,0 +1,96 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Overdub: Backing playback while recording a new layer over a take
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { midiPlayer } from './midiPlayer'
+import { getChordTones } from './chordUtils'
+import { getBarDurationMs, type MetronomeSettings } from './metronome'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * What plays while an overdub is recorded: the take's own audio, or a
+ * synthesized chord progression looped for the length of the recording.
+ */
+export type OverdubBacking =
+  | { kind: 'take'; audioUrl: string }
+  | { kind: 'progression'; chords: string[]; chordDurationMs: number }
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Chord length when no click tempo is set */
+export const DEFAULT_CHORD_DURATION_MS = 2000
+
+// Leave a small gap between chords so repeated chords are audible
+const CHORD_SUSTAIN_RATIO = 0.9
+const CHORD_VELOCITY = 0.3
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * How long each chord of a synthesized backing lasts: one bar at the click
+ * tempo, so the backing lines up with the metronome when it's on.
+ */
+export function getBackingChordDurationMs(metronome?: MetronomeSettings): number {
+  return metronome?.enabled
+    ? getBarDurationMs(metronome.bpm, metronome.timeSignature)
+    : DEFAULT_CHORD_DURATION_MS
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Player
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Plays an overdub backing until stopped.
+ */
+export class BackingPlayer {
+  private audio: HTMLAudioElement | null = null
+  private timer: ReturnType<typeof setTimeout> | null = null
+
+  /**
+   * Start the backing from the beginning (stops anything already playing).
+   */
+  start(backing: OverdubBacking): void {
+    this.stop()
+
+    if (backing.kind === 'take') {
+      const audio = new Audio(backing.audioUrl)
+      this.audio = audio
+      audio.play().catch((err) => console.warn('Could not play overdub backing:', err))
+      return
+    }
+
+    const { chords, chordDurationMs } = backing
+    if (chords.length === 0) return
+
+    let index = 0
+    const playNext = () => {
+      const tones = getChordTones(chords[index % chords.length])
+      midiPlayer.playChord(tones, 3, chordDurationMs * CHORD_SUSTAIN_RATIO, CHORD_VELOCITY)
+      index++
+      this.timer = setTimeout(playNext, chordDurationMs)
+    }
+    playNext()
+  }
+
+  /**
+   * Stop the backing (a synthesized chord already sounding fades out on its own).
+   */
+  stop(): void {
+    if (this.audio) {
+      this.audio.pause()
+      this.audio = null
+    }
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+}
@@ -3,15 +3,21 @@
  *
  * Captures raw PCM float samples using AudioWorklet for lossless audio capture.
  * This bypasses MediaRecorder's lossy compression (Opus) for improved transcription accuracy.
+ * Every input channel is kept, so multi-input interfaces can be split later.
  */
 
+import { mixChannels } from './audioDecoder'
+import type { LiveAudioSource } from './streamingTranscription'
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
 // ─────────────────────────────────────────────────────────────────────────────
 
 export interface PCMCaptureResult {
-  /** Raw PCM samples as Float32Array */
+  /** Raw PCM samples as Float32Array (all channels mixed to mono) */
   pcmData: Float32Array
+  /** Samples of each input channel */
+  channels: Float32Array[]
   /** Sample rate of the captured audio */
   sampleRate: number
   /** Duration in milliseconds */
@@ -56,21 +62,26 @@ export function isPCMCaptureSupported(): boolean {
 // PCM Capture Class
 // ─────────────────────────────────────────────────────────────────────────────
 
-export class PCMCapture {
+export class PCMCapture implements LiveAudioSource {
   private audioContext: AudioContext | null = null
   private sourceNode: MediaStreamAudioSourceNode | null = null
   private workletNode: AudioWorkletNode | null = null
-  private sampleChunks: Float32Array[] = []
+  private analyserNode: AnalyserNode | null = null
+  /** Captured blocks, each holding one array per channel */
+  private sampleChunks: Float32Array[][] = []
   private isCapturing = false
   private startTime = 0
+  /** While armed, only this many of the latest samples are kept (null = keep everything) */
+  private preRollSamples: number | null = null
 
   /**
    * Start capturing PCM samples from the given MediaStream.
    *
    * @param stream - MediaStream from getUserMedia
+   * @param preRollMs - Start armed: keep only this much of the latest audio until commit()
    * @returns Promise that resolves when capture is ready
    */
-  async startCapture(stream: MediaStream): Promise<void> {
+  async startCapture(stream: MediaStream, preRollMs?: number): Promise<void> {
     if (this.isCapturing) {
       throw new Error('PCM capture is already in progress')
     }
@@ -94,7 +105,8 @@ export class PCMCapture {
       // Handle incoming samples from the worklet
       this.workletNode.port.onmessage = (event) => {
         if (event.data.type === 'samples' && this.isCapturing) {
-          this.sampleChunks.push(event.data.samples)
+          this.sampleChunks.push(event.data.channels)
+          if (this.preRollSamples !== null) this.dropOldSamples(this.preRollSamples)
         }
       }
 
@@ -104,6 +116,10 @@ export class PCMCapture {
 
       // Start capturing
       this.sampleChunks = []
+      this.preRollSamples =
+        preRollMs !== undefined
+          ? Math.round((preRollMs / 1000) * this.audioContext.sampleRate)
+          : null
       this.isCapturing = true
       this.startTime = Date.now()
     } catch (error) {
@@ -127,26 +143,44 @@ export class PCMCapture {
     const durationMs = Date.now() - this.startTime
     const sampleRate = this.audioContext.sampleRate
 
-    // Concatenate all sample chunks into a single Float32Array
-    const totalLength = this.sampleChunks.reduce((acc, chunk) => acc + chunk.length, 0)
-    const pcmData = new Float32Array(totalLength)
+    // Concatenate the chunks of each channel into a single Float32Array
+    // (a block with fewer channels leaves silence in the missing ones)
+    const totalLength = this.length
+    const channelCount = this.sampleChunks.reduce((max, chunk) => Math.max(max, chunk.length), 0)
+    const channels = Array.from({ length: channelCount }, () => new Float32Array(totalLength))
 
     let offset = 0
     for (const chunk of this.sampleChunks) {
-      pcmData.set(chunk, offset)
-      offset += chunk.length
+      chunk.forEach((samples, ch) => channels[ch].set(samples, offset))
+      offset += chunk[0].length
     }
 
     // Clean up
     await this.cleanup()
 
     return {
-      pcmData,
+      pcmData: channels.length === 1 ? channels[0] : mixChannels(channels),
+      channels,
       sampleRate,
       durationMs,
     }
   }
 
+  /**
+   * Stop discarding old audio on an armed capture; the pre-roll kept so far
+   * becomes the start of the recording.
+   *
+   * @returns Length of the kept pre-roll in milliseconds
+   */
+  commit(): number {
+    if (!this.audioContext || this.preRollSamples === null) return 0
+
+    this.preRollSamples = null
+    const preRollMs = (this.length / this.audioContext.sampleRate) * 1000
+    this.startTime = Date.now() - preRollMs
+    return preRollMs
+  }
+
   /**
    * Cancel capture and clean up resources.
    */
@@ -155,6 +189,25 @@ export class PCMCapture {
     await this.cleanup()
   }
 
+  /**
+   * Create an AnalyserNode fed from the capture's source, for live level metering.
+   * The analyser is disconnected when capture stops.
+   *
+   * @param fftSize - Number of samples per analysis block
+   */
+  createAnalyser(fftSize: number): AnalyserNode {
+    if (!this.audioContext || !this.sourceNode) {
+      throw new Error('PCM capture is not running')
+    }
+
+    if (!this.analyserNode) {
+      this.analyserNode = this.audioContext.createAnalyser()
+      this.analyserNode.fftSize = fftSize
+      this.sourceNode.connect(this.analyserNode)
+    }
+    return this.analyserNode
+  }
+
   /**
    * Check if capture is currently in progress.
    */
@@ -162,6 +215,55 @@ export class PCMCapture {
     return this.isCapturing
   }
 
+  /**
+   * Sample rate of the capture (0 when not running).
+   */
+  get sampleRate(): number {
+    return this.audioContext?.sampleRate ?? 0
+  }
+
+  /**
+   * Number of samples (per channel) captured so far.
+   */
+  get length(): number {
+    return this.sampleChunks.reduce((acc, chunk) => acc + chunk[0].length, 0)
+  }
+
+  /**
+   * Copy part of the audio captured so far, with all channels mixed to mono,
+   * while capture keeps running (e.g. for live transcription).
+   *
+   * @param start - First sample
+   * @param end - Sample after the last one (clamped to what has been captured)
+   */
+  read(start: number, end: number): Float32Array {
+    const samples = new Float32Array(Math.max(0, Math.min(end, this.length) - start))
+
+    let chunkStart = 0
+    for (const chunk of this.sampleChunks) {
+      const chunkEnd = chunkStart + chunk[0].length
+      if (chunkEnd > start && chunkStart < start + samples.length) {
+        const mixed = chunk.length === 1 ? chunk[0] : mixChannels(chunk)
+        const from = Math.max(start, chunkStart)
+        const to = Math.min(start + samples.length, chunkEnd)
+        samples.set(mixed.subarray(from - chunkStart, to - chunkStart), from - start)
+      }
+      chunkStart = chunkEnd
+    }
+    return samples
+  }
+
+  /**
+   * Drop whole chunks from the front while the rest still covers maxSamples.
+   */
+  private dropOldSamples(maxSamples: number): void {
+    let total = this.length
+    while (this.sampleChunks.length > 1 && total - this.sampleChunks[0][0].length >= maxSamples) {
+      total -= this.sampleChunks[0][0].length
+      this.sampleChunks.shift()
+    }
+  }
+
   /**
    * Clean up all audio resources.
    */
@@ -172,6 +274,11 @@ export class PCMCapture {
       this.sourceNode = null
     }
 
+    if (this.analyserNode) {
+      this.analyserNode.disconnect()
+      this.analyserNode = null
+    }
+
     if (this.workletNode) {
       this.workletNode.disconnect()
       this.workletNode.port.close()
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { detectPitch } from './pitchDetection'
+
+describe('pitchDetection', () => {
+  const SAMPLE_RATE = 44100
+  const BLOCK_SIZE = 2048
+
+  // Guitar-like tone: fundamental plus decaying harmonics
+  const createTone = (frequency: number, harmonics = [1, 0.5, 0.3]): Float32Array => {
+    const block = new Float32Array(BLOCK_SIZE)
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+      block[i] = harmonics.reduce(
+        (sum, amp, h) =>
+          sum + amp * Math.sin((2 * Math.PI * frequency * (h + 1) * i) / SAMPLE_RATE),
+        0
+      )
+    }
+    return block
+  }
+
+  const cents = (actual: number, expected: number) => 1200 * Math.log2(actual / expected)
+
+  describe('detectPitch', () => {
+    it('finds the pitch of a pure tone', () => {
+      const estimate = detectPitch(createTone(440, [1]), SAMPLE_RATE)
+      expect(estimate).not.toBeNull()
+      expect(Math.abs(cents(estimate!.frequency, 440))).toBeLessThan(2)
+    })
+
+    it('finds the fundamental of a tone with harmonics', () => {
+      // Low E string
+      const estimate = detectPitch(createTone(82.41), SAMPLE_RATE)
+      expect(estimate).not.toBeNull()
+      expect(Math.abs(cents(estimate!.frequency, 82.41))).toBeLessThan(5)
+    })
+
+    it('tells apart a slightly flat string', () => {
+      // A2 ten cents flat
+      const flat = 110 * Math.pow(2, -10 / 1200)
+      const estimate = detectPitch(createTone(flat), SAMPLE_RATE)
+      expect(estimate).not.toBeNull()
+      expect(cents(estimate!.frequency, 110)).toBeCloseTo(-10, 0)
+    })
+
+    it('reports a high clarity for a clean tone', () => {
+      expect(detectPitch(createTone(196), SAMPLE_RATE)!.clarity).toBeGreaterThan(0.9)
+    })
+
+    it('returns null for silence', () => {
+      expect(detectPitch(new Float32Array(BLOCK_SIZE), SAMPLE_RATE)).toBeNull()
+    })
+
+    it('returns null for noise', () => {
+      const noise = new Float32Array(BLOCK_SIZE)
+      let state = 1
+      for (let i = 0; i < BLOCK_SIZE; i++) {
+        state = (state * 1103515245 + 12345) % 2147483648
+        noise[i] = state / 2147483648 - 0.5
+      }
+      expect(detectPitch(noise, SAMPLE_RATE)).toBeNull()
+    })
+
+    it('returns null when the block is too short for the lowest frequency', () => {
+      expect(detectPitch(createTone(440).subarray(0, 2), SAMPLE_RATE)).toBeNull()
+    })
+  })
+})
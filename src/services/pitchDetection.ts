@@ -0,0 +1,116 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Pitch Detection: Lightweight monophonic pitch estimation (YIN)
+// Cheap enough to run on every block of live input
+// ─────────────────────────────────────────────────────────────────────────────
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface PitchEstimate {
+  /** Fundamental frequency in Hz */
+  frequency: number
+  /** How periodic the block is (0-1, higher = more confident) */
+  clarity: number
+}
+
+export interface PitchDetectionOptions {
+  /** Dips of the normalized difference below this count as periods (YIN's threshold) */
+  threshold?: number
+  /** Lowest frequency to look for */
+  minFrequency?: number
+  /** Highest frequency to look for */
+  maxFrequency?: number
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Default YIN threshold (the paper suggests 0.1-0.15) */
+export const DEFAULT_YIN_THRESHOLD = 0.15
+
+// Guitar range with some room: below drop C up to the highest frets
+const DEFAULT_MIN_FREQUENCY = 60
+const DEFAULT_MAX_FREQUENCY = 1500
+
+// ─────────────────────────────────────────────────────────────────────────────
+// YIN
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Estimate the fundamental frequency of a block with the YIN algorithm
+ * (de Cheveigné & Kawahara, 2002).
+ *
+ * The block should hold at least two periods of the lowest frequency
+ * searched for (e.g. 2048 samples at 48kHz reach down to ~47Hz).
+ *
+ * @param samples - Mono audio block
+ * @param sampleRate - Sample rate of the block
+ * @returns The estimate, or null when the block has no clear pitch (silence, noise, chords)
+ */
+export function detectPitch(
+  samples: Float32Array,
+  sampleRate: number,
+  options: PitchDetectionOptions = {}
+): PitchEstimate | null {
+  const {
+    threshold = DEFAULT_YIN_THRESHOLD,
+    minFrequency = DEFAULT_MIN_FREQUENCY,
+    maxFrequency = DEFAULT_MAX_FREQUENCY,
+  } = options
+
+  const maxTau = Math.min(Math.floor(sampleRate / minFrequency), Math.floor(samples.length / 2))
+  const minTau = Math.max(2, Math.floor(sampleRate / maxFrequency))
+  if (maxTau <= minTau) return null
+
+  const cmnd = cumulativeMeanNormalizedDifference(samples, maxTau)
+
+  // First dip below the threshold, followed down to its minimum
+  let tau = minTau
+  while (tau < maxTau && cmnd[tau] >= threshold) tau++
+  if (tau >= maxTau) return null
+  while (tau + 1 < maxTau && cmnd[tau + 1] < cmnd[tau]) tau++
+
+  return {
+    frequency: sampleRate / interpolatePeriod(cmnd, tau),
+    clarity: Math.max(0, 1 - cmnd[tau]),
+  }
+}
+
+/**
+ * YIN steps 2-3: the difference function normalized by its running mean,
+ * so the dip at lag 0 doesn't win and the threshold is level independent.
+ */
+function cumulativeMeanNormalizedDifference(samples: Float32Array, maxTau: number): Float32Array {
+  const windowSize = samples.length - maxTau
+  const cmnd = new Float32Array(maxTau + 1)
+  cmnd[0] = 1
+
+  let runningSum = 0
+  for (let tau = 1; tau <= maxTau; tau++) {
+    let diff = 0
+    for (let i = 0; i < windowSize; i++) {
+      const delta = samples[i] - samples[i + tau]
+      diff += delta * delta
+    }
+    runningSum += diff
+    cmnd[tau] = runningSum > 0 ? (diff * tau) / runningSum : 1
+  }
+  return cmnd
+}
+
+/**
+ * YIN step 5: refine the period between samples with a parabola through the dip.
+ */
+function interpolatePeriod(cmnd: Float32Array, tau: number): number {
+  if (tau < 1 || tau + 1 >= cmnd.length) return tau
+
+  const prev = cmnd[tau - 1]
+  const curr = cmnd[tau]
+  const next = cmnd[tau + 1]
+  const denominator = prev - 2 * curr + next
+  if (denominator === 0) return tau
+
+  return tau + (prev - next) / (2 * denominator)
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import {
+  runPipeline,
+  isConfigurableStage,
+  DEFAULT_PREPROCESSING_CONFIG,
+  PREPROCESSING_STAGES,
+  type PipelineAudio,
+  type StageImplementation,
+} from './preprocessingPipeline'
+import type { PreprocessingStageId } from '../domain/types'
+
+describe('preprocessingPipeline', () => {
+  const input: PipelineAudio = { samples: Float32Array.from([0.1, 0.2]), sampleRate: 44100 }
+
+  // Stages that record the order they ran in and add 1 to every sample
+  const createStages = (calls: PreprocessingStageId[] = []) =>
+    Object.fromEntries(
+      PREPROCESSING_STAGES.map(({ id }) => [
+        id,
+        ((audio) => {
+          calls.push(id)
+          return { audio: { ...audio, samples: audio.samples.map((s) => s + 1) }, ran: true }
+        }) as StageImplementation,
+      ])
+    ) as Record<PreprocessingStageId, StageImplementation>
+
+  describe('runPipeline', () => {
+    it('runs every stage in order and threads the audio through', async () => {
+      const calls: PreprocessingStageId[] = []
+      const { audio, stages } = await runPipeline(input, createStages(calls), {
+        ...DEFAULT_PREPROCESSING_CONFIG,
+        hpss: { ...DEFAULT_PREPROCESSING_CONFIG.hpss, enabled: true },
+      })
+
+      expect(calls).toEqual(PREPROCESSING_STAGES.map((stage) => stage.id))
+      expect(stages.map((stage) => stage.id)).toEqual(calls)
+      expect(audio.samples[0]).toBeCloseTo(0.1 + PREPROCESSING_STAGES.length)
+    })
+
+    it('skips disabled stages and reports them as off', async () => {
+      const calls: PreprocessingStageId[] = []
+      const { stages } = await runPipeline(input, createStages(calls), {
+        ...DEFAULT_PREPROCESSING_CONFIG,
+        gate: { ...DEFAULT_PREPROCESSING_CONFIG.gate, enabled: false },
+      })
+
+      expect(calls).not.toContain('gate')
+      expect(stages.find((stage) => stage.id === 'gate')).toEqual({
+        id: 'gate',
+        name: 'Noise gate',
+        enabled: false,
+        ran: false,
+        note: 'Off',
+        params: { ratio: 1.5 },
+      })
+    })
+
+    it('passes the configured params and reports them with what the stage added', async () => {
+      const stages = createStages()
+      let received: unknown
+      stages.normalize = (audio, params) => {
+        received = params
+        return { audio, ran: false, note: 'Not needed', params: { gainDb: 0 } }
+      }
+
+      const config = {
+        ...DEFAULT_PREPROCESSING_CONFIG,
+        normalize: { enabled: true, params: { targetPeakDbfs: -6 } },
+      }
+      const { stages: report } = await runPipeline(input, stages, config)
+
+      expect(received).toEqual({ targetPeakDbfs: -6 })
+      expect(report.find((stage) => stage.id === 'normalize')).toEqual({
+        id: 'normalize',
+        name: 'Normalize',
+        enabled: true,
+        ran: false,
+        note: 'Not needed',
+        params: { targetPeakDbfs: -6, gainDb: 0 },
+      })
+    })
+
+    it('awaits async stages', async () => {
+      const stages = createStages()
+      stages.resample = async (audio) => ({
+        audio: { ...audio, sampleRate: 22050 },
+        ran: true,
+      })
+
+      const { audio } = await runPipeline(input, stages)
+
+      expect(audio.sampleRate).toBe(22050)
+    })
+  })
+
+  describe('isConfigurableStage', () => {
+    it('only lets the optional stages be switched off', () => {
+      expect(isConfigurableStage('filter')).toBe(true)
+      expect(isConfigurableStage('gate')).toBe(true)
+      expect(isConfigurableStage('mono')).toBe(false)
+      expect(isConfigurableStage('resample')).toBe(false)
+    })
+  })
+})
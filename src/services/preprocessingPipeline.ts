@@ -0,0 +1,277 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Pre-processing Pipeline: Named stages that can be switched on/off and
+// parameterized, with a report of what each run did
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type {
+  PreprocessingParams,
+  PreprocessingStageId,
+  PreprocessingStageReport,
+} from '../domain/types'
+import { HUM_MAX_HARMONICS } from './audioAnalysis'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface StageConfig<P extends PreprocessingParams> {
+  enabled: boolean
+  params: P
+}
+
+export interface FilterParams extends PreprocessingParams {
+  /** Notch out the mains hum found in the recording */
+  humNotch: boolean
+  /** Notch at most this many harmonics of the hum (the fundamental counts as the first) */
+  humHarmonics: number
+  /** Rumble below this is removed */
+  highPassHz: number
+  /** Hiss above this is removed */
+  lowPassHz: number
+}
+
+export interface NoiseReductionParams extends PreprocessingParams {
+  /** Spectral subtraction only runs when the noise floor is above this */
+  thresholdDb: number
+}
+
+export interface NormalizeParams extends PreprocessingParams {
+  /** Peak level after normalization */
+  targetPeakDbfs: number
+}
+
+export interface GateParams extends PreprocessingParams {
+  /** Signal has to be this many times the noise floor to open the gate */
+  ratio: number
+}
+
+export interface HpssParams extends PreprocessingParams {
+  /** Sound has to ring at least about this long to count as harmonic */
+  harmonicKernelMs: number
+  /** Sound has to spread over at least about this many Hz to count as percussive */
+  percussiveKernelHz: number
+}
+
+/**
+ * Settings of the stages that can be changed (the rest always run).
+ */
+export interface PreprocessingConfig {
+  declip: StageConfig<PreprocessingParams>
+  filter: StageConfig<FilterParams>
+  noiseReduction: StageConfig<NoiseReductionParams>
+  normalize: StageConfig<NormalizeParams>
+  gate: StageConfig<GateParams>
+  hpss: StageConfig<HpssParams>
+}
+
+export type ConfigurableStageId = keyof PreprocessingConfig
+
+export const DEFAULT_PREPROCESSING_CONFIG: PreprocessingConfig = {
+  declip: { enabled: true, params: {} },
+  filter: {
+    enabled: true,
+    // 65Hz supports drop C tuning; 5kHz keeps the harmonics Basic Pitch uses
+    params: { humNotch: true, humHarmonics: 8, highPassHz: 65, lowPassHz: 5000 },
+  },
+  noiseReduction: { enabled: true, params: { thresholdDb: -40 } },
+  normalize: { enabled: true, params: { targetPeakDbfs: -3 } },
+  gate: { enabled: true, params: { ratio: 1.5 } },
+  // Off by default: it mostly helps strumming (Chord preset)
+  hpss: { enabled: false, params: { harmonicKernelMs: 200, percussiveKernelHz: 300 } },
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Stages
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface StageDefinition {
+  id: PreprocessingStageId
+  name: string
+  description: string
+}
+
+/** All stages, in the order they run */
+export const PREPROCESSING_STAGES: StageDefinition[] = [
+  { id: 'mono', name: 'Mono', description: 'Mix all channels down to one' },
+  {
+    id: 'declip',
+    name: 'Declip',
+    description: 'Rebuild the flattened tops of clipped peaks, which add false high harmonics',
+  },
+  {
+    id: 'filter',
+    name: 'Filters',
+    description: 'Notches for detected hum, high-pass for rumble and low-pass for hiss',
+  },
+  { id: 'resample', name: 'Resample', description: 'Convert to the rate the model expects' },
+  { id: 'analyze', name: 'Analyze', description: 'Measure levels and noise floor' },
+  {
+    id: 'noiseReduction',
+    name: 'Noise reduction',
+    description: 'Spectral subtraction of background noise on noisy recordings',
+  },
+  { id: 'normalize', name: 'Normalize', description: 'Bring the peak to a fixed level' },
+  { id: 'gate', name: 'Noise gate', description: 'Silence the noise between notes' },
+  {
+    id: 'hpss',
+    name: 'Harmonic/percussive split',
+    description:
+      'Pitch detection hears only ringing notes, timing only attacks - helps with strumming and muted chucks',
+  },
+]
+
+/**
+ * A numeric parameter the Advanced audio panel lets users change.
+ */
+export interface StageParamControl {
+  stage: ConfigurableStageId
+  key: string
+  label: string
+  min: number
+  max: number
+  step: number
+  unit: string
+}
+
+export const STAGE_PARAM_CONTROLS: StageParamControl[] = [
+  {
+    stage: 'filter',
+    key: 'humHarmonics',
+    label: 'Hum harmonics',
+    min: 1,
+    max: HUM_MAX_HARMONICS,
+    step: 1,
+    unit: '',
+  },
+  {
+    stage: 'filter',
+    key: 'highPassHz',
+    label: 'High-pass',
+    min: 20,
+    max: 200,
+    step: 5,
+    unit: 'Hz',
+  },
+  {
+    stage: 'filter',
+    key: 'lowPassHz',
+    label: 'Low-pass',
+    min: 2000,
+    max: 10000,
+    step: 250,
+    unit: 'Hz',
+  },
+  {
+    stage: 'noiseReduction',
+    key: 'thresholdDb',
+    label: 'Run above',
+    min: -70,
+    max: -20,
+    step: 1,
+    unit: 'dB',
+  },
+  {
+    stage: 'normalize',
+    key: 'targetPeakDbfs',
+    label: 'Peak',
+    min: -12,
+    max: 0,
+    step: 0.5,
+    unit: 'dBFS',
+  },
+  { stage: 'gate', key: 'ratio', label: 'Ratio', min: 1, max: 4, step: 0.1, unit: '×' },
+  {
+    stage: 'hpss',
+    key: 'harmonicKernelMs',
+    label: 'Harmonic after',
+    min: 50,
+    max: 500,
+    step: 10,
+    unit: 'ms',
+  },
+  {
+    stage: 'hpss',
+    key: 'percussiveKernelHz',
+    label: 'Percussive wider than',
+    min: 100,
+    max: 1000,
+    step: 50,
+    unit: 'Hz',
+  },
+]
+
+/**
+ * Whether users can switch a stage off.
+ */
+export function isConfigurableStage(id: PreprocessingStageId): id is ConfigurableStageId {
+  return id in DEFAULT_PREPROCESSING_CONFIG
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Runner
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Audio moving through the pipeline.
+ */
+export interface PipelineAudio {
+  samples: Float32Array
+  sampleRate: number
+}
+
+/**
+ * What a stage implementation returns.
+ */
+export interface StageOutcome {
+  audio: PipelineAudio
+  /** False when the stage decided it wasn't needed (audio unchanged) */
+  ran: boolean
+  note?: string
+  /** Values the stage used, when they differ from or add to its configured params */
+  params?: PreprocessingParams
+}
+
+export type StageImplementation = (
+  audio: PipelineAudio,
+  params: PreprocessingParams
+) => StageOutcome | Promise<StageOutcome>
+
+/**
+ * Run the stages in order. Disabled stages pass the audio through unchanged
+ * and are reported as off.
+ *
+ * @param audio - Input audio
+ * @param implementations - How to run each stage
+ * @param config - Which configurable stages are on, and their params
+ */
+export async function runPipeline(
+  audio: PipelineAudio,
+  implementations: Record<PreprocessingStageId, StageImplementation>,
+  config: PreprocessingConfig = DEFAULT_PREPROCESSING_CONFIG
+): Promise<{ audio: PipelineAudio; stages: PreprocessingStageReport[] }> {
+  const stages: PreprocessingStageReport[] = []
+  let current = audio
+
+  for (const { id, name } of PREPROCESSING_STAGES) {
+    const stageConfig = isConfigurableStage(id) ? config[id] : null
+    const params: PreprocessingParams = stageConfig ? { ...stageConfig.params } : {}
+
+    if (stageConfig && !stageConfig.enabled) {
+      stages.push({ id, name, enabled: false, ran: false, note: 'Off', params })
+      continue
+    }
+
+    const outcome = await implementations[id](current, params)
+    current = outcome.audio
+    stages.push({
+      id,
+      name,
+      enabled: true,
+      ran: outcome.ran,
+      ...(outcome.note ? { note: outcome.note } : {}),
+      params: { ...params, ...outcome.params },
+    })
+  }
+
+  return { audio: current, stages }
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import { quantizeNotes, detectSwing, QUANTIZE_GRIDS } from './quantization'
+import type { MeterEstimate, TempoEstimate, TranscribedNote } from '../domain/types'
+
+describe('quantization', () => {
+  // 120 BPM: a beat every 0.5s
+  const tempo: TempoEstimate = {
+    bpm: 120,
+    confidence: 0.8,
+    alternatives: [],
+    beats: Array.from({ length: 16 }, (_, i) => i * 0.5),
+  }
+  const fourFour: MeterEstimate = {
+    timeSignature: { beatsPerBar: 4, beatUnit: 4 },
+    confidence: 0.5,
+    firstDownbeat: 0,
+  }
+
+  const note = (startSec: number, endSec: number = startSec + 0.2): TranscribedNote => ({
+    startSec,
+    endSec,
+    midi: 60,
+  })
+  const startsOf = (notes: TranscribedNote[]) => notes.map((n) => Math.round(n.startSec * 1000))
+
+  describe('quantizeNotes', () => {
+    it('snaps notes to eighths and sixteenths', () => {
+      const notes = [note(0.02), note(0.27), note(0.61), note(0.88)]
+
+      expect(startsOf(quantizeNotes(notes, tempo, fourFour, '1/8').notes)).toEqual([
+        0, 250, 500, 1000,
+      ])
+      expect(startsOf(quantizeNotes(notes, tempo, fourFour, '1/16').notes)).toEqual([
+        0, 250, 625, 875,
+      ])
+    })
+
+    it('snaps to triplets', () => {
+      const notes = [note(0.01), note(0.17), note(0.32), note(0.5)]
+
+      expect(startsOf(quantizeNotes(notes, tempo, fourFour, '1/8T').notes)).toEqual([
+        0, 167, 333, 500,
+      ])
+    })
+
+    it('restarts dotted grids at each bar', () => {
+      // Dotted eighths from the downbeat: 0, 0.375, 0.75, 1.125, 1.5, 1.875, then bar 2 at 2s
+      const notes = [note(0.36), note(1.14), note(1.97)]
+
+      expect(startsOf(quantizeNotes(notes, tempo, fourFour, '1/8.').notes)).toEqual([
+        375, 1125, 2000,
+      ])
+    })
+
+    it('counts from the first downbeat and the meter’s beat unit', () => {
+      // 6/8 counted in eighths, downbeat on the second tracked beat
+      const sixEight: MeterEstimate = {
+        timeSignature: { beatsPerBar: 6, beatUnit: 8 },
+        confidence: 0.5,
+        firstDownbeat: 1,
+      }
+
+      // A 1/8 step is one tracked beat here
+      expect(startsOf(quantizeNotes([note(0.7), note(1.2)], tempo, sixEight, '1/8').notes)).toEqual(
+        [500, 1000]
+      )
+      // A dotted 1/8 is one and a half tracked eighths, counted from the downbeat at 0.5s
+      expect(startsOf(quantizeNotes([note(1.3)], tempo, sixEight, '1/8.').notes)).toEqual([1250])
+    })
+
+    it('keeps swing on swung eighths', () => {
+      // Offbeats two thirds of the way through each beat
+      const notes = Array.from({ length: 8 }, (_, i) =>
+        note(Math.floor(i / 2) * 0.5 + (i % 2 ? 0.333 : 0.01))
+      )
+
+      const quantization = quantizeNotes(notes, tempo, fourFour, '1/8')
+
+      expect(quantization.swingRatio).toBeCloseTo(2, 1)
+      expect(startsOf(quantization.notes).slice(0, 2)).toEqual([0, 333])
+    })
+
+    it('gives every note at least one step', () => {
+      const [quantized] = quantizeNotes([note(0.49, 0.52)], tempo, fourFour, '1/16').notes
+
+      expect(quantized.startSec).toBeCloseTo(0.5, 6)
+      expect(quantized.endSec).toBeCloseTo(0.625, 6)
+    })
+
+    it('keeps the notes in order with their other fields', () => {
+      const notes = [
+        { ...note(0.1), midi: 40, velocity: 0.7 },
+        { ...note(0.6), midi: 43 },
+      ]
+
+      const quantization = quantizeNotes(notes, tempo, fourFour, '1/16')
+
+      expect(quantization.grid).toBe('1/16')
+      expect(quantization.notes.map((n) => n.midi)).toEqual([40, 43])
+      expect(quantization.notes[0].velocity).toBe(0.7)
+      // The played notes are left alone
+      expect(notes[0].startSec).toBe(0.1)
+    })
+  })
+
+  describe('detectSwing', () => {
+    it('is straight for even eighths', () => {
+      expect(detectSwing([0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5], 1)).toBe(1)
+    })
+
+    it('measures the long to short ratio', () => {
+      expect(detectSwing([0, 0.6, 1, 1.6, 2, 2.6, 3, 3.6], 1)).toBeCloseTo(1.5, 2)
+    })
+
+    it('needs a few offbeats', () => {
+      expect(detectSwing([0, 0.67, 1, 1.67], 1)).toBe(1)
+    })
+  })
+
+  it('offers straight, triplet and dotted grids', () => {
+    expect(QUANTIZE_GRIDS.map((grid) => grid.id)).toEqual(
+      expect.arrayContaining(['1/8', '1/16', '1/8T', '1/16T', '1/8.'])
+    )
+  })
+})
@@ -0,0 +1,209 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Quantization: Snap transcribed notes to a musical grid, with swing
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type {
+  MeterEstimate,
+  QuantizeGrid,
+  Quantization,
+  TempoEstimate,
+  TranscribedNote,
+} from '../domain/types'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface QuantizeGridOption {
+  id: QuantizeGrid
+  label: string
+  /** Length of one grid step in quarter notes */
+  stepQuarters: number
+  /** Whether pairs of steps can be swung (straight grids only) */
+  swings: boolean
+}
+
+/** Grids offered in the notes timeline */
+export const QUANTIZE_GRIDS: QuantizeGridOption[] = [
+  { id: '1/4', label: '1/4', stepQuarters: 1, swings: false },
+  { id: '1/8', label: '1/8', stepQuarters: 1 / 2, swings: true },
+  { id: '1/8T', label: '1/8 triplet', stepQuarters: 1 / 3, swings: false },
+  { id: '1/8.', label: 'Dotted 1/8', stepQuarters: 3 / 4, swings: false },
+  { id: '1/16', label: '1/16', stepQuarters: 1 / 4, swings: true },
+  { id: '1/16T', label: '1/16 triplet', stepQuarters: 1 / 6, swings: false },
+  { id: '1/16.', label: 'Dotted 1/16', stepQuarters: 3 / 8, swings: false },
+]
+
+export const DEFAULT_QUANTIZE_GRID: QuantizeGrid = '1/16'
+
+// Notes this far into a pair of grid steps are taken as its offbeat when
+// measuring swing (outside it they're on or near the pair's downbeat)
+const OFFBEAT_MIN = 0.35
+const OFFBEAT_MAX = 0.85
+
+// Offbeats needed before swing is judged
+const MIN_SWING_NOTES = 4
+
+// Offbeats landing earlier than this in the pair are played straight
+const MIN_SWING_POSITION = 0.54
+
+// Hardest swing applied (3:1, a dotted eighth and a sixteenth)
+const MAX_SWING_POSITION = 0.75
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Beat Positions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Position of a time on the beat grid, in beats (fractional between beats,
+ * extrapolated at the first or last beat length outside the grid).
+ *
+ * @param beats - Beat times (at least two)
+ * @param timeSec - Time on the same clock
+ */
+export function toBeatPosition(beats: number[], timeSec: number): number {
+  const last = beats.length - 1
+  if (timeSec <= beats[0]) return (timeSec - beats[0]) / (beats[1] - beats[0])
+  if (timeSec >= beats[last])
+    return last + (timeSec - beats[last]) / (beats[last] - beats[last - 1])
+
+  let low = 0
+  let high = last
+  while (high - low > 1) {
+    const middle = (low + high) >> 1
+    if (beats[middle] <= timeSec) low = middle
+    else high = middle
+  }
+  return low + (timeSec - beats[low]) / (beats[low + 1] - beats[low])
+}
+
+/**
+ * Time of a position on the beat grid (the inverse of toBeatPosition).
+ */
+function toTimeSec(beats: number[], position: number): number {
+  const last = beats.length - 1
+  if (position <= 0) return beats[0] + position * (beats[1] - beats[0])
+  if (position >= last) return beats[last] + (position - last) * (beats[last] - beats[last - 1])
+
+  const index = Math.floor(position)
+  return beats[index] + (position - index) * (beats[index + 1] - beats[index])
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Swing
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Where the offbeat of a swing ratio falls in a pair of steps (0.5 = straight).
+ */
+function toSwingPosition(swingRatio: number): number {
+  return swingRatio / (1 + swingRatio)
+}
+
+/**
+ * Measure swing from note positions: where the offbeats fall within the pairs
+ * of grid steps (median, so pushed or laid-back notes don't decide it).
+ *
+ * @param positions - Note positions in beats from the first downbeat
+ * @param pairBeats - Length of a pair of grid steps in beats
+ * @returns Long to short ratio of the pairs (1 when played straight)
+ */
+export function detectSwing(positions: number[], pairBeats: number): number {
+  const offbeats = positions
+    .map((position) => {
+      const inPair = position / pairBeats
+      return inPair - Math.floor(inPair)
+    })
+    .filter((fraction) => fraction >= OFFBEAT_MIN && fraction <= OFFBEAT_MAX)
+    .sort((a, b) => a - b)
+
+  if (offbeats.length < MIN_SWING_NOTES) return 1
+  const offbeat = Math.min(MAX_SWING_POSITION, offbeats[offbeats.length >> 1])
+  if (offbeat < MIN_SWING_POSITION) return 1
+  return Math.round((offbeat / (1 - offbeat)) * 100) / 100
+}
+
+/**
+ * Move an offbeat at the swing position back to the middle of its pair, or
+ * (inverse) from the middle to the swing position.
+ */
+function warpSwing(position: number, pairBeats: number, from: number, to: number): number {
+  const pairStart = Math.floor(position / pairBeats) * pairBeats
+  const fraction = (position - pairStart) / pairBeats
+  const warped =
+    fraction < from ? (fraction * to) / from : to + ((fraction - from) * (1 - to)) / (1 - from)
+  return pairStart + warped * pairBeats
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Quantization
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Snap a position to the grid within its bar. The grid restarts at every
+ * downbeat, so dotted grids that don't divide the bar still line up with it.
+ */
+function snapToGrid(position: number, barBeats: number, stepBeats: number): number {
+  const barStart = Math.floor(position / barBeats) * barBeats
+  const inBar = position - barStart
+  const snapped = Math.round(inBar / stepBeats) * stepBeats
+  const nearest =
+    barBeats - inBar < Math.abs(inBar - snapped) ? barBeats : Math.min(snapped, barBeats)
+  return barStart + nearest
+}
+
+/**
+ * Snap notes to a grid on the tempo's beats and the meter's bars.
+ *
+ * Swing is measured on straight grids and kept: swung offbeats snap to the
+ * swung position rather than being straightened. Every note keeps at least
+ * one grid step of length.
+ *
+ * @param notes - Notes as played (times like the beats)
+ * @param tempo - Tempo and beat grid (from trackBeats)
+ * @param meter - Meter and first downbeat (from detectMeter)
+ * @param grid - Grid to snap to
+ */
+export function quantizeNotes(
+  notes: TranscribedNote[],
+  tempo: TempoEstimate,
+  meter: MeterEstimate,
+  grid: QuantizeGrid
+): Quantization {
+  const { beats } = tempo
+  if (beats.length < 2) return { grid, swingRatio: 1, notes }
+
+  const { beatsPerBar, beatUnit } = meter.timeSignature
+  const option = QUANTIZE_GRIDS.find((candidate) => candidate.id === grid) ?? QUANTIZE_GRIDS[0]
+  // Beats are counted in the meter's beat unit (eighths in 6/8)
+  const stepBeats = (option.stepQuarters * beatUnit) / 4
+  const pairBeats = 2 * stepBeats
+
+  // Positions counted from the first downbeat, so bars start at multiples of beatsPerBar
+  const toPosition = (timeSec: number) => toBeatPosition(beats, timeSec) - meter.firstDownbeat
+  const toTime = (position: number) => toTimeSec(beats, position + meter.firstDownbeat)
+
+  const swingRatio = option.swings
+    ? detectSwing(
+        notes.map((note) => toPosition(note.startSec)),
+        pairBeats
+      )
+    : 1
+  const swingPosition = toSwingPosition(swingRatio)
+  // Snapping happens on the straightened grid, then the swing is put back
+  const straighten = (position: number) =>
+    swingRatio === 1 ? position : warpSwing(position, pairBeats, swingPosition, 0.5)
+  const swing = (position: number) =>
+    swingRatio === 1 ? position : warpSwing(position, pairBeats, 0.5, swingPosition)
+
+  const quantized = notes.map((note) => {
+    const start = snapToGrid(straighten(toPosition(note.startSec)), beatsPerBar, stepBeats)
+    const end = Math.max(
+      snapToGrid(straighten(toPosition(note.endSec)), beatsPerBar, stepBeats),
+      start + stepBeats
+    )
+    return { ...note, startSec: toTime(swing(start)), endSec: toTime(swing(end)) }
+  })
+
+  return { grid, swingRatio, notes: quantized }
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { assessRecordingQuality, type QualityContext } from './recordingQuality'
+import type { AudioMetrics } from '../domain/types'
+
+describe('recordingQuality', () => {
+  // A clean, well-levelled take
+  const createMetrics = (overrides: Partial<AudioMetrics> = {}): AudioMetrics => ({
+    peakLevelDb: -6,
+    rmsLevelDb: -20,
+    noiseFloorDb: -65,
+    dynamicRangeDb: 14,
+    hasTransients: true,
+    peakLinear: 0.5,
+    rmsLinear: 0.1,
+    ...overrides,
+  })
+
+  const context: QualityContext = { musicMode: true, hasNoiseProfile: false, humNotch: true }
+
+  const issueIds = (metrics: AudioMetrics) =>
+    assessRecordingQuality(metrics, context).issues.map((issue) => issue.id)
+
+  describe('assessRecordingQuality', () => {
+    it('predicts success for a clean take', () => {
+      const report = assessRecordingQuality(createMetrics(), context)
+
+      expect(report.issues).toEqual([])
+      expect(report.outlook).toBe('likely')
+    })
+
+    it('flags clipping as a problem', () => {
+      const report = assessRecordingQuality(createMetrics({ peakLevelDb: 0 }), context)
+
+      expect(report.issues[0]).toMatchObject({ id: 'clipping', severity: 'problem' })
+      expect(report.outlook).toBe('uncertain')
+    })
+
+    it('tells a very quiet take from a merely quiet one', () => {
+      const veryQuiet = assessRecordingQuality(
+        createMetrics({ peakLevelDb: -40, rmsLevelDb: -50, noiseFloorDb: -90 }),
+        context
+      )
+      const quiet = assessRecordingQuality(
+        createMetrics({ peakLevelDb: -28, rmsLevelDb: -38, noiseFloorDb: -80 }),
+        context
+      )
+
+      expect(veryQuiet.issues[0]).toMatchObject({ id: 'lowLevel', severity: 'problem' })
+      expect(quiet.issues[0]).toMatchObject({ id: 'lowLevel', severity: 'warning' })
+    })
+
+    it('flags noise and suggests Noisy mode in Music mode', () => {
+      const report = assessRecordingQuality(createMetrics({ noiseFloorDb: -35 }), context)
+
+      expect(report.issues[0]).toMatchObject({ id: 'noise', severity: 'warning' })
+      expect(report.issues[0].suggestion).toMatch(/Noisy mode/)
+    })
+
+    it('suggests room tone once Noisy mode is on', () => {
+      const report = assessRecordingQuality(createMetrics({ noiseFloorDb: -25 }), {
+        ...context,
+        musicMode: false,
+      })
+
+      expect(report.issues[0]).toMatchObject({ id: 'noise', severity: 'problem' })
+      expect(report.issues[0].suggestion).toMatch(/room tone/)
+    })
+
+    it('flags hum close to the signal level', () => {
+      expect(
+        issueIds(createMetrics({ hum: { frequency: 60, harmonics: [60], levelDb: -60 } }))
+      ).toEqual([])
+      expect(
+        issueIds(createMetrics({ hum: { frequency: 60, harmonics: [60], levelDb: -40 } }))
+      ).toEqual(['hum'])
+
+      const report = assessRecordingQuality(
+        createMetrics({ hum: { frequency: 50, harmonics: [50, 150], levelDb: -30 } }),
+        { ...context, humNotch: false }
+      )
+      expect(report.issues[0]).toMatchObject({ id: 'hum', severity: 'problem' })
+      expect(report.issues[0].message).toMatch(/50Hz/)
+      expect(report.issues[0].suggestion).toMatch(/hum notches/)
+    })
+
+    it('flags missing transients', () => {
+      expect(issueIds(createMetrics({ hasTransients: false }))).toEqual(['noTransients'])
+    })
+
+    it('predicts failure for silence', () => {
+      const silence = createMetrics({
+        peakLevelDb: -Infinity,
+        rmsLevelDb: -Infinity,
+        noiseFloorDb: -Infinity,
+        hasTransients: false,
+      })
+
+      expect(assessRecordingQuality(silence, context).outlook).toBe('unlikely')
+    })
+
+    it('lists problems before warnings', () => {
+      const report = assessRecordingQuality(
+        createMetrics({ hasTransients: false, peakLevelDb: 0 }),
+        context
+      )
+
+      expect(report.issues.map((issue) => issue.severity)).toEqual(['problem', 'warning'])
+      expect(report.outlook).toBe('unlikely')
+    })
+  })
+})
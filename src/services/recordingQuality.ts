@@ -0,0 +1,205 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Recording Quality: Pre-flight check of a take before it is transcribed
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { AudioMetrics, RecordingAsset } from '../domain/types'
+import { getLevelWarning, LOW_LEVEL_THRESHOLD_DBFS } from './audioAnalysis'
+import { decodeAudioBlob, audioBufferToMono } from './audioDecoder'
+import { dspWorker } from './dspWorker'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type QualityIssueId = 'clipping' | 'lowLevel' | 'hum' | 'noise' | 'noTransients'
+
+/**
+ * - problem: likely to spoil the transcription
+ * - warning: may cost some notes
+ */
+export type QualitySeverity = 'problem' | 'warning'
+
+export interface QualityIssue {
+  id: QualityIssueId
+  severity: QualitySeverity
+  /** What is wrong */
+  message: string
+  /** What to do about it */
+  suggestion: string
+}
+
+/** How likely transcription is to give usable notes */
+export type TranscriptionOutlook = 'likely' | 'uncertain' | 'unlikely'
+
+export interface QualityReport {
+  /** Metrics of the raw take, including its mains hum */
+  metrics: AudioMetrics
+  /** Most serious first */
+  issues: QualityIssue[]
+  outlook: TranscriptionOutlook
+}
+
+/**
+ * Recorder settings the suggestions depend on.
+ */
+export interface QualityContext {
+  /** Whether browser speech processing is off (Music mode) */
+  musicMode: boolean
+  /** Whether the input has a room-tone noise profile */
+  hasNoiseProfile: boolean
+  /** Whether hum notch filters are on (Advanced audio) */
+  humNotch: boolean
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Peaks below this are quiet enough that pitch detection loses soft notes */
+export const QUIET_PEAK_DBFS = -24
+
+/** Signal-to-noise below this leaves noise the transcription may pick up as notes */
+export const NOISY_SIGNAL_TO_NOISE_DB = 20
+
+/** Hum within this many dB of the signal is worth fixing */
+export const HUM_WARNING_DB = -25
+
+/** Hum within this many dB of the signal competes with the low strings */
+export const HUM_PROBLEM_DB = -15
+
+// Outlook from the issues: problems weigh double
+const SEVERITY_WEIGHT: Record<QualitySeverity, number> = { problem: 2, warning: 1 }
+const LIKELY_MAX_WEIGHT = 1
+const UNCERTAIN_MAX_WEIGHT = 2
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Assessment
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Check a take's metrics for problems and predict how transcription will go.
+ *
+ * @param metrics - Metrics of the raw take (before any processing), with its hum
+ * @param context - Recorder settings, to suggest the right fix
+ */
+export function assessRecordingQuality(
+  metrics: AudioMetrics,
+  context: QualityContext
+): QualityReport {
+  const { hum } = metrics
+  const issues: QualityIssue[] = []
+  const signalToNoiseDb = metrics.rmsLevelDb - metrics.noiseFloorDb
+
+  switch (getLevelWarning(metrics)) {
+    case 'clipping':
+      issues.push({
+        id: 'clipping',
+        severity: 'problem',
+        message: 'The input clipped - loud notes are distorted',
+        suggestion: 'Turn the input gain down or play a little softer',
+      })
+      break
+    case 'low':
+      issues.push(
+        metrics.rmsLevelDb < LOW_LEVEL_THRESHOLD_DBFS
+          ? {
+              id: 'lowLevel',
+              severity: 'problem',
+              message: 'The recording is very quiet',
+              suggestion: 'Move closer to the mic or turn the input gain up',
+            }
+          : noiseIssue('problem', context)
+      )
+      break
+    default:
+      if (metrics.peakLevelDb < QUIET_PEAK_DBFS) {
+        issues.push({
+          id: 'lowLevel',
+          severity: 'warning',
+          message: 'The recording is quiet - soft notes may be missed',
+          suggestion: 'Move closer to the mic or turn the input gain up',
+        })
+      }
+      if (signalToNoiseDb < NOISY_SIGNAL_TO_NOISE_DB) {
+        issues.push(noiseIssue('warning', context))
+      }
+  }
+
+  const humToSignalDb = hum ? hum.levelDb - metrics.rmsLevelDb : -Infinity
+  if (hum && humToSignalDb > HUM_WARNING_DB) {
+    issues.push({
+      id: 'hum',
+      severity: humToSignalDb > HUM_PROBLEM_DB ? 'problem' : 'warning',
+      message: `Heavy ${hum.frequency}Hz mains hum`,
+      suggestion: context.humNotch
+        ? 'Try another cable or socket, or move away from power supplies and dimmers'
+        : 'Turn on the hum notches in Advanced audio, or try another cable or socket',
+    })
+  }
+
+  if (!metrics.hasTransients) {
+    issues.push({
+      id: 'noTransients',
+      severity: 'warning',
+      message: 'No clear note attacks found',
+      suggestion: 'Pick or strum more firmly - swells and very soft notes are hard to place',
+    })
+  }
+
+  issues.sort((a, b) => SEVERITY_WEIGHT[b.severity] - SEVERITY_WEIGHT[a.severity])
+  const weight = issues.reduce((sum, issue) => sum + SEVERITY_WEIGHT[issue.severity], 0)
+  const outlook: TranscriptionOutlook =
+    weight <= LIKELY_MAX_WEIGHT
+      ? 'likely'
+      : weight <= UNCERTAIN_MAX_WEIGHT
+        ? 'uncertain'
+        : 'unlikely'
+
+  return { metrics, issues, outlook }
+}
+
+function noiseIssue(severity: QualitySeverity, context: QualityContext): QualityIssue {
+  return {
+    id: 'noise',
+    severity,
+    message:
+      severity === 'problem'
+        ? 'The playing is barely louder than the background noise'
+        : 'There is a lot of background noise',
+    suggestion: context.musicMode
+      ? 'Switch to Noisy mode to filter background noise'
+      : !context.hasNoiseProfile
+        ? 'Capture room tone so the background noise can be removed'
+        : 'Record somewhere quieter or move closer to the mic',
+  }
+}
+
+/**
+ * Measure the metrics and hum the quality check needs (runs in the DSP worker).
+ *
+ * @param asset - Take to check (its PCM when captured, otherwise the decoded blob)
+ * @param signal - Abort to stop measuring (rejects with DspCancelledError)
+ */
+export async function measureRecordingQuality(
+  asset: RecordingAsset,
+  signal?: AbortSignal
+): Promise<AudioMetrics> {
+  let samples: Float32Array
+  let sampleRate: number
+  if (asset.pcmData && asset.pcmSampleRate) {
+    // A copy - the take keeps its PCM while the worker has the samples
+    samples = asset.pcmData.slice()
+    sampleRate = asset.pcmSampleRate
+  } else {
+    const decoded = await decodeAudioBlob(asset.blob)
+    samples = audioBufferToMono(decoded.audioBuffer)
+    sampleRate = decoded.sampleRate
+  }
+
+  const analyzed = await dspWorker.run({ type: 'analyze', samples, sampleRate }, signal)
+  const { hum } = await dspWorker.run(
+    { type: 'detectHum', samples: analyzed.samples, sampleRate },
+    signal
+  )
+  return { ...analyzed.metrics, hum }
+}
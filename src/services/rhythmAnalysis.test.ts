@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeRhythm } from './rhythmAnalysis'
+import type { TempoEstimate, TranscribedNote } from '../domain/types'
+
+describe('rhythmAnalysis', () => {
+  const createTempo = (beatCount: number): TempoEstimate => ({
+    bpm: 120,
+    confidence: 0.8,
+    alternatives: [],
+    beats: Array.from({ length: beatCount }, (_, i) => i * 0.5),
+  })
+
+  // A bass note on every third beat, higher notes in between
+  const notes: TranscribedNote[] = Array.from({ length: 12 }, (_, i) => ({
+    startSec: i * 0.5 + 0.02,
+    endSec: i * 0.5 + 0.4,
+    midi: i % 3 === 0 ? 40 : 57,
+  }))
+
+  it('derives meter, bars, quantization and strum pattern from the tempo', () => {
+    const strums = [0, 1.5, 3].map((startSec) => ({
+      startSec,
+      spreadSec: 0.04,
+      direction: 'down' as const,
+      noteCount: 6,
+    }))
+
+    const rhythm = analyzeRhythm(createTempo(12), { notes, strums }, '1/8')
+
+    expect(rhythm.meter?.timeSignature.beatsPerBar).toBe(3)
+    expect(rhythm.bars).toHaveLength(4)
+    expect(rhythm.quantization?.grid).toBe('1/8')
+    expect(rhythm.quantization?.notes[1].startSec).toBeCloseTo(0.5, 6)
+    expect(rhythm.strumPattern?.pattern).toBe('D-----')
+  })
+
+  it('clears everything but the tempo when there are too few beats', () => {
+    const tempo = createTempo(4)
+
+    expect(analyzeRhythm(tempo, { notes })).toEqual({
+      tempo,
+      meter: undefined,
+      bars: undefined,
+      quantization: undefined,
+      strumPattern: undefined,
+    })
+  })
+})
@@ -0,0 +1,39 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Rhythm Analysis: Everything that follows from a transcription's beat grid
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type {
+  MeterEstimate,
+  QuantizeGrid,
+  RhythmAnalysis,
+  TempoEstimate,
+  TranscriptionResult,
+} from '../domain/types'
+import { segmentBars } from './meterDetection'
+import { quantizeNotes, DEFAULT_QUANTIZE_GRID } from './quantization'
+import { getStrumPattern } from './strumDetection'
+
+/**
+ * Meter, bars, quantized notes and strum pattern of a transcription at a tempo.
+ * Run again whenever the tempo changes (e.g. tapped in) to re-align them all.
+ *
+ * @param tempo - Tempo and beat grid (from trackBeats or trackBeatsAtTempo)
+ * @param transcription - Notes, onsets and strums of the transcription
+ * @param grid - Grid to quantize to
+ * @param knownMeter - Meter to use instead of detecting one (e.g. the metronome's)
+ */
+export function analyzeRhythm(
+  tempo: TempoEstimate,
+  { notes, onsets = [], strums = [] }: Pick<TranscriptionResult, 'notes' | 'onsets' | 'strums'>,
+  grid: QuantizeGrid = DEFAULT_QUANTIZE_GRID,
+  knownMeter?: MeterEstimate | null
+): RhythmAnalysis {
+  const { meter, bars } = segmentBars(tempo, notes, onsets, knownMeter)
+  return {
+    tempo,
+    meter,
+    bars,
+    quantization: meter ? quantizeNotes(notes, tempo, meter, grid) : undefined,
+    strumPattern: (meter && getStrumPattern(strums, tempo, meter)) ?? undefined,
+  }
+}
@@ -3,6 +3,7 @@ import {
   spectralNoiseReduction,
   estimateNoiseProfile,
   shouldApplyNoiseReduction,
+  separateHarmonicPercussive,
 } from './spectralProcessing'
 
 describe('spectralProcessing', () => {
@@ -167,4 +168,69 @@ describe('spectralProcessing', () => {
       expect(shouldApplyNoiseReduction(data, -45)).toBe(false)
     })
   })
+
+  describe('separateHarmonicPercussive', () => {
+    // A steady tone with clicks every 250ms
+    const createToneWithClicks = (): Float32Array => {
+      const data = createSineWave(220, 0.3, 1000)
+      for (let click = 2756; click < data.length; click += 5512) {
+        data[click] += 0.9
+      }
+      return data
+    }
+
+    // RMS around each click
+    const clickRms = (data: Float32Array): number => {
+      let sumSquares = 0
+      let count = 0
+      for (let click = 2756; click < data.length; click += 5512) {
+        for (let i = click - 20; i <= click + 20; i++) {
+          sumSquares += data[i] * data[i]
+          count++
+        }
+      }
+      return Math.sqrt(sumSquares / count)
+    }
+
+    it('returns parts of the same length as the input', () => {
+      const input = createToneWithClicks()
+      const { harmonic, percussive } = separateHarmonicPercussive(input, 22050)
+
+      expect(harmonic.length).toBe(input.length)
+      expect(percussive.length).toBe(input.length)
+    })
+
+    it('puts the steady tone in the harmonic part', () => {
+      const tone = createSineWave(220, 0.3, 1000)
+      const { harmonic, percussive } = separateHarmonicPercussive(tone, 22050)
+
+      expect(calculateRms(harmonic)).toBeGreaterThan(calculateRms(tone) * 0.9)
+      expect(calculateRms(percussive)).toBeLessThan(calculateRms(tone) * 0.1)
+    })
+
+    it('puts the clicks in the percussive part', () => {
+      const { harmonic, percussive } = separateHarmonicPercussive(createToneWithClicks(), 22050)
+
+      expect(clickRms(percussive)).toBeGreaterThan(clickRms(harmonic) * 0.5)
+      expect(calculateRms(percussive)).toBeLessThan(calculateRms(harmonic))
+    })
+
+    it('splits the input into parts that add up to it', () => {
+      const input = createToneWithClicks()
+      const { harmonic, percussive } = separateHarmonicPercussive(input, 22050)
+
+      let maxError = 0
+      for (let i = 0; i < input.length; i++) {
+        maxError = Math.max(maxError, Math.abs(harmonic[i] + percussive[i] - input[i]))
+      }
+      expect(maxError).toBeLessThan(0.01)
+    })
+
+    it('handles short audio gracefully', () => {
+      const { harmonic, percussive } = separateHarmonicPercussive(new Float32Array(100), 22050)
+
+      expect(harmonic.length).toBe(100)
+      expect(Array.from(percussive).every(Number.isFinite)).toBe(true)
+    })
+  })
 })
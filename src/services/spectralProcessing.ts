@@ -1,7 +1,10 @@
 // ─────────────────────────────────────────────────────────────────────────────
-// Spectral Processing: FFT-based noise reduction and spectral analysis
+// Spectral Processing: FFT-based noise reduction, harmonic/percussive
+// separation and spectral analysis
 // ─────────────────────────────────────────────────────────────────────────────
 
+import { stft, istft, getMagnitudes, type Spectrogram, type StftOptions } from './fft'
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Configuration
 // ─────────────────────────────────────────────────────────────────────────────
@@ -9,6 +12,7 @@
 // FFT parameters for noise reduction
 const NOISE_FFT_SIZE = 2048
 const NOISE_HOP_SIZE = 512 // 75% overlap for smooth reconstruction
+const NOISE_STFT: StftOptions = { fftSize: NOISE_FFT_SIZE, hopSize: NOISE_HOP_SIZE }
 
 // Noise estimation parameters
 const NOISE_ESTIMATION_PERCENTILE = 0.1 // Use quietest 10% of frames for noise estimate
@@ -20,140 +24,9 @@ const SPECTRAL_FLOOR = 0.15 // Minimum spectral magnitude (max 16dB attenuation)
 const OVERSUBTRACTION_FACTOR = 0.8 // Subtract less than estimated noise (conservative)
 const SMOOTHING_FACTOR = 0.15 // Light temporal smoothing to preserve transients
 
-// ─────────────────────────────────────────────────────────────────────────────
-// FFT Implementation
-// ─────────────────────────────────────────────────────────────────────────────
-
-/**
- * FFT processor for spectral analysis and synthesis.
- */
-class FFTProcessor {
-  private size: number
-  private cosTable: Float32Array
-  private sinTable: Float32Array
-  private hannWindow: Float32Array
-
-  constructor(size: number) {
-    this.size = size
-    this.cosTable = new Float32Array(size / 2)
-    this.sinTable = new Float32Array(size / 2)
-    this.hannWindow = new Float32Array(size)
-
-    // Precompute twiddle factors
-    for (let i = 0; i < size / 2; i++) {
-      const angle = (-2 * Math.PI * i) / size
-      this.cosTable[i] = Math.cos(angle)
-      this.sinTable[i] = Math.sin(angle)
-    }
-
-    // Precompute Hann window
-    for (let i = 0; i < size; i++) {
-      this.hannWindow[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (size - 1)))
-    }
-  }
-
-  /**
-   * Forward FFT: time domain -> frequency domain
-   */
-  forward(input: Float32Array): { real: Float32Array; imag: Float32Array } {
-    const real = new Float32Array(this.size)
-    const imag = new Float32Array(this.size)
-
-    // Apply window and copy
-    for (let i = 0; i < this.size; i++) {
-      real[i] = (input[i] || 0) * this.hannWindow[i]
-      imag[i] = 0
-    }
-
-    this.fft(real, imag, false)
-
-    return { real, imag }
-  }
-
-  /**
-   * Inverse FFT: frequency domain -> time domain
-   */
-  inverse(real: Float32Array, imag: Float32Array): Float32Array {
-    const outReal = new Float32Array(real)
-    const outImag = new Float32Array(imag)
-
-    this.fft(outReal, outImag, true)
-
-    // Scale and apply window for overlap-add
-    const output = new Float32Array(this.size)
-    for (let i = 0; i < this.size; i++) {
-      output[i] = (outReal[i] / this.size) * this.hannWindow[i]
-    }
-
-    return output
-  }
-
-  /**
-   * In-place Cooley-Tukey FFT
-   */
-  private fft(real: Float32Array, imag: Float32Array, inverse: boolean): void {
-    const n = this.size
-
-    // Bit reversal
-    let j = 0
-    for (let i = 0; i < n - 1; i++) {
-      if (i < j) {
-        let temp = real[i]
-        real[i] = real[j]
-        real[j] = temp
-        temp = imag[i]
-        imag[i] = imag[j]
-        imag[j] = temp
-      }
-      let k = n / 2
-      while (k <= j) {
-        j -= k
-        k /= 2
-      }
-      j += k
-    }
-
-    // FFT computation
-    const sign = inverse ? 1 : -1
-    for (let len = 2; len <= n; len *= 2) {
-      const halfLen = len / 2
-      const tableStep = n / len
-
-      for (let i = 0; i < n; i += len) {
-        for (let k = 0; k < halfLen; k++) {
-          const idx = i + k
-          const idx2 = idx + halfLen
-          const tableIdx = k * tableStep
-
-          const cos = this.cosTable[tableIdx]
-          const sin = sign * this.sinTable[tableIdx]
-
-          const tReal = real[idx2] * cos - imag[idx2] * sin
-          const tImag = real[idx2] * sin + imag[idx2] * cos
-
-          real[idx2] = real[idx] - tReal
-          imag[idx2] = imag[idx] - tImag
-          real[idx] += tReal
-          imag[idx] += tImag
-        }
-      }
-    }
-  }
-
-  /**
-   * Get the Hann window for overlap-add normalization
-   */
-  getWindow(): Float32Array {
-    return this.hannWindow
-  }
-
-  /**
-   * Get FFT size
-   */
-  getSize(): number {
-    return this.size
-  }
-}
+// Harmonic/percussive separation (same FFT and hop as noise reduction)
+const HPSS_MASK_POWER = 2 // Soft (Wiener) masks: less musical noise than binary ones
+const HPSS_MIN_KERNEL = 3 // Median filters need at least 3 values to reject outliers
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Spectral Noise Reduction
@@ -161,44 +34,28 @@ class FFTProcessor {
 
 /**
  * Estimate noise spectrum from the quietest frames of audio.
+ *
+ * @param magnitudes - Magnitudes of the audio's spectrogram (from getMagnitudes)
  */
-function estimateNoiseSpectrum(
-  audioData: Float32Array,
-  fft: FFTProcessor,
-  hopSize: number
-): Float32Array {
-  const fftSize = fft.getSize()
-  const numBins = fftSize / 2 + 1
-  const numFrames = Math.floor((audioData.length - fftSize) / hopSize) + 1
+function estimateNoiseSpectrum(spectrogram: Spectrogram, magnitudes: Float32Array): Float32Array {
+  const { numFrames, numBins } = spectrogram
 
   if (numFrames < MIN_NOISE_FRAMES) {
     // Not enough frames, return zero noise estimate
     return new Float32Array(numBins)
   }
 
-  // Calculate magnitude spectrum and energy for each frame
-  const frameData: { energy: number; magnitudes: Float32Array }[] = []
-
-  for (let frame = 0; frame < numFrames; frame++) {
-    const start = frame * hopSize
-    const frameBuffer = audioData.slice(start, start + fftSize)
-
-    const { real, imag } = fft.forward(frameBuffer)
-
-    // Calculate magnitudes and energy
-    const magnitudes = new Float32Array(numBins)
+  // Energy of each frame
+  const frames = Array.from({ length: numFrames }, (_, frame) => {
     let energy = 0
-
-    for (let i = 0; i < numBins; i++) {
-      magnitudes[i] = Math.sqrt(real[i] * real[i] + imag[i] * imag[i])
-      energy += magnitudes[i] * magnitudes[i]
+    for (let bin = frame * numBins; bin < (frame + 1) * numBins; bin++) {
+      energy += magnitudes[bin] * magnitudes[bin]
     }
-
-    frameData.push({ energy, magnitudes })
-  }
+    return { frame, energy }
+  })
 
   // Sort frames by energy (quietest first)
-  frameData.sort((a, b) => a.energy - b.energy)
+  frames.sort((a, b) => a.energy - b.energy)
 
   // Take the average of the quietest frames as noise estimate
   const numNoiseFrames = Math.max(
@@ -208,8 +65,9 @@ function estimateNoiseSpectrum(
 
   const noiseSpectrum = new Float32Array(numBins)
   for (let i = 0; i < numNoiseFrames; i++) {
+    const offset = frames[i].frame * numBins
     for (let bin = 0; bin < numBins; bin++) {
-      noiseSpectrum[bin] += frameData[i].magnitudes[bin]
+      noiseSpectrum[bin] += magnitudes[offset + bin]
     }
   }
 
@@ -235,45 +93,24 @@ export function spectralNoiseReduction(
   sampleRate: number,
   precomputedNoiseProfile?: Float32Array
 ): Float32Array {
-  const fft = new FFTProcessor(NOISE_FFT_SIZE)
-  const fftSize = fft.getSize()
-  const hopSize = NOISE_HOP_SIZE
-  const numBins = fftSize / 2 + 1
+  const spectrogram = stft(audioData, NOISE_STFT)
+  const { numFrames, numBins, real, imag } = spectrogram
+  const magnitudes = getMagnitudes(spectrogram)
 
   // Estimate noise spectrum if not provided
-  const noiseSpectrum = precomputedNoiseProfile || estimateNoiseSpectrum(audioData, fft, hopSize)
-
-  // Prepare output buffer
-  const output = new Float32Array(audioData.length)
-  const windowSum = new Float32Array(audioData.length) // For overlap-add normalization
-
-  const numFrames = Math.floor((audioData.length - fftSize) / hopSize) + 1
-  const window = fft.getWindow()
+  const noiseSpectrum = precomputedNoiseProfile || estimateNoiseSpectrum(spectrogram, magnitudes)
 
   // Previous frame's gain for smoothing
   let prevGain = new Float32Array(numBins).fill(1)
+  let gain = new Float32Array(numBins)
 
   for (let frame = 0; frame < numFrames; frame++) {
-    const start = frame * hopSize
-    const frameBuffer = audioData.slice(start, start + fftSize)
-
-    // Forward FFT
-    const { real, imag } = fft.forward(frameBuffer)
-
-    // Calculate magnitudes
-    const magnitudes = new Float32Array(numBins)
-    const phases = new Float32Array(numBins)
-
-    for (let i = 0; i < numBins; i++) {
-      magnitudes[i] = Math.sqrt(real[i] * real[i] + imag[i] * imag[i])
-      phases[i] = Math.atan2(imag[i], real[i])
-    }
+    const offset = frame * numBins
 
     // Spectral subtraction with Wiener-like gain
-    const gain = new Float32Array(numBins)
     for (let i = 0; i < numBins; i++) {
       const noiseMag = noiseSpectrum[i] * OVERSUBTRACTION_FACTOR
-      const signalPower = magnitudes[i] * magnitudes[i]
+      const signalPower = magnitudes[offset + i] * magnitudes[offset + i]
       const noisePower = noiseMag * noiseMag
 
       // Wiener-like gain calculation
@@ -286,46 +123,30 @@ export function spectralNoiseReduction(
       g = SMOOTHING_FACTOR * prevGain[i] + (1 - SMOOTHING_FACTOR) * g
 
       gain[i] = g
-    }
-
-    prevGain = gain
-
-    // Apply gain and reconstruct complex spectrum
-    const newReal = new Float32Array(fftSize)
-    const newImag = new Float32Array(fftSize)
 
-    for (let i = 0; i < numBins; i++) {
-      const newMag = magnitudes[i] * gain[i]
-      newReal[i] = newMag * Math.cos(phases[i])
-      newImag[i] = newMag * Math.sin(phases[i])
-
-      // Mirror for negative frequencies (except DC and Nyquist)
-      if (i > 0 && i < numBins - 1) {
-        newReal[fftSize - i] = newReal[i]
-        newImag[fftSize - i] = -newImag[i]
-      }
+      // Scaling the bin keeps its phase
+      real[offset + i] *= g
+      imag[offset + i] *= g
     }
 
-    // Inverse FFT
-    const reconstructed = fft.inverse(newReal, newImag)
-
-    // Overlap-add
-    for (let i = 0; i < fftSize; i++) {
-      if (start + i < output.length) {
-        output[start + i] += reconstructed[i]
-        windowSum[start + i] += window[i] * window[i]
-      }
-    }
+    ;[prevGain, gain] = [gain, prevGain]
   }
 
-  // Normalize by window sum (overlap-add normalization)
-  for (let i = 0; i < output.length; i++) {
-    if (windowSum[i] > 0.0001) {
-      output[i] /= windowSum[i]
-    }
-  }
+  // Inverse STFT with overlap-add
+  return istft(spectrogram)
+}
 
-  return output
+/**
+ * Background noise of a room, measured from a recording of room tone
+ * instead of the quiet parts of the riff itself.
+ */
+export interface NoiseProfile {
+  /** Noise magnitude per FFT bin (from estimateNoiseProfile) */
+  spectrum: Float32Array
+  /** Sample rate the spectrum was measured at - it only fits audio at this rate */
+  sampleRate: number
+  /** RMS level of the room tone */
+  noiseFloorDb: number
 }
 
 /**
@@ -336,8 +157,8 @@ export function estimateNoiseProfile(
   noiseSegment: Float32Array,
   _sampleRate: number
 ): Float32Array {
-  const fft = new FFTProcessor(NOISE_FFT_SIZE)
-  return estimateNoiseSpectrum(noiseSegment, fft, NOISE_HOP_SIZE)
+  const spectrogram = stft(noiseSegment, NOISE_STFT)
+  return estimateNoiseSpectrum(spectrogram, getMagnitudes(spectrogram))
 }
 
 /**
@@ -350,3 +171,116 @@ export function shouldApplyNoiseReduction(audioData: Float32Array, noiseFloorDb:
   // This avoids processing relatively clean signals
   return noiseFloorDb > -40
 }
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Harmonic/Percussive Separation
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface HarmonicPercussiveParts {
+  /** Sustained, pitched content (ringing strings) */
+  harmonic: Float32Array
+  /** Short broadband content (pick attacks, muted chucks) */
+  percussive: Float32Array
+}
+
+/**
+ * Median of the values in a scratch buffer (sorted in place).
+ */
+function median(values: Float32Array, count: number): number {
+  // Insertion sort - kernels are short
+  for (let i = 1; i < count; i++) {
+    const value = values[i]
+    let j = i - 1
+    while (j >= 0 && values[j] > value) {
+      values[j + 1] = values[j]
+      j--
+    }
+    values[j + 1] = value
+  }
+  return values[count >> 1]
+}
+
+/**
+ * Odd kernel length, at least HPSS_MIN_KERNEL.
+ */
+function toKernelLength(length: number): number {
+  const rounded = Math.max(HPSS_MIN_KERNEL, Math.round(length))
+  return rounded % 2 === 0 ? rounded + 1 : rounded
+}
+
+/**
+ * Split audio into its harmonic and percussive parts by median filtering
+ * the spectrogram (Fitzgerald, 2010).
+ *
+ * Algorithm:
+ * 1. Compute the magnitude STFT
+ * 2. Median filter each bin across time: sustained notes survive, attacks don't
+ * 3. Median filter each frame across frequency: attacks survive, partials don't
+ * 4. Build soft masks from the two and apply them to the STFT
+ * 5. Reconstruct both parts via inverse STFT with overlap-add
+ *
+ * The two parts add up to (almost exactly) the input.
+ *
+ * @param audioData - Mono audio
+ * @param sampleRate - Sample rate of the audio
+ * @param harmonicKernelMs - Length of the time median (longer = only steadier notes count as harmonic)
+ * @param percussiveKernelHz - Width of the frequency median (wider = only broader noise counts as percussive)
+ */
+export function separateHarmonicPercussive(
+  audioData: Float32Array,
+  sampleRate: number,
+  harmonicKernelMs: number = 200,
+  percussiveKernelHz: number = 300
+): HarmonicPercussiveParts {
+  // 1. STFT, padded so the first and last samples are fully covered
+  const spectrogram = stft(audioData, { ...NOISE_STFT, pad: true })
+  const { numFrames, numBins } = spectrogram
+  const magnitudes = getMagnitudes(spectrogram)
+
+  // 2-3. Median filters
+  const timeKernel = toKernelLength((harmonicKernelMs / 1000) * (sampleRate / NOISE_HOP_SIZE))
+  const freqKernel = toKernelLength(percussiveKernelHz / (sampleRate / NOISE_FFT_SIZE))
+  const scratch = new Float32Array(Math.max(timeKernel, freqKernel))
+  const harmonicMagnitudes = new Float32Array(numFrames * numBins)
+  const percussiveMagnitudes = new Float32Array(numFrames * numBins)
+
+  for (let frame = 0; frame < numFrames; frame++) {
+    for (let bin = 0; bin < numBins; bin++) {
+      let count = 0
+      for (let k = -(timeKernel >> 1); k <= timeKernel >> 1; k++) {
+        const f = frame + k
+        if (f >= 0 && f < numFrames) scratch[count++] = magnitudes[f * numBins + bin]
+      }
+      harmonicMagnitudes[frame * numBins + bin] = median(scratch, count)
+
+      count = 0
+      for (let k = -(freqKernel >> 1); k <= freqKernel >> 1; k++) {
+        const b = bin + k
+        if (b >= 0 && b < numBins) scratch[count++] = magnitudes[frame * numBins + b]
+      }
+      percussiveMagnitudes[frame * numBins + bin] = median(scratch, count)
+    }
+  }
+
+  // 4. Soft masks (the harmonic part is masked in place)
+  const harmonic = spectrogram
+  const percussive = {
+    ...spectrogram,
+    real: spectrogram.real.slice(),
+    imag: spectrogram.imag.slice(),
+  }
+  for (let i = 0; i < magnitudes.length; i++) {
+    const h = Math.pow(harmonicMagnitudes[i], HPSS_MASK_POWER)
+    const p = Math.pow(percussiveMagnitudes[i], HPSS_MASK_POWER)
+    // Silent bins go to the harmonic part so the parts still add up
+    const mask = h + p > 0 ? h / (h + p) : 1
+
+    harmonic.real[i] *= mask
+    harmonic.imag[i] *= mask
+    percussive.real[i] *= 1 - mask
+    percussive.imag[i] *= 1 - mask
+  }
+
+  // 5. Inverse STFT of each part
+  return { harmonic: istft(harmonic), percussive: istft(percussive) }
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getStitchBoundary,
+  getNextWindowStart,
+  stitchWindowNotes,
+  STREAM_WINDOW_SEC,
+  STREAM_HOP_SEC,
+} from './streamingTranscription'
+import type { TranscribedNote } from '../domain/types'
+
+describe('streamingTranscription', () => {
+  const createNote = (startSec: number, endSec: number, midi: number): TranscribedNote => ({
+    startSec,
+    endSec,
+    midi,
+    velocity: 0.8,
+  })
+
+  describe('getStitchBoundary', () => {
+    it('gives the first window everything', () => {
+      expect(getStitchBoundary(0)).toBe(0)
+    })
+
+    it('splits the overlap with the previous window in the middle', () => {
+      const overlap = STREAM_WINDOW_SEC - STREAM_HOP_SEC
+      expect(getStitchBoundary(STREAM_HOP_SEC)).toBe(STREAM_HOP_SEC + overlap / 2)
+    })
+  })
+
+  describe('getNextWindowStart', () => {
+    it('advances by one hop while keeping up', () => {
+      expect(getNextWindowStart(0, STREAM_WINDOW_SEC + 0.5)).toBe(STREAM_HOP_SEC)
+    })
+
+    it('skips to the latest complete window when behind', () => {
+      // 13s captured: the latest full window starts at 8s
+      expect(getNextWindowStart(0, 13)).toBe(8)
+    })
+  })
+
+  describe('stitchWindowNotes', () => {
+    it('takes all notes of the first window', () => {
+      const notes = [createNote(0.5, 1, 60), createNote(2, 3, 64)]
+      expect(stitchWindowNotes([], notes, 0)).toEqual(notes)
+    })
+
+    it('keeps earlier notes before the boundary and new notes after it', () => {
+      const previous = [createNote(0.5, 1, 60), createNote(3.5, 3.9, 64)]
+      const windowNotes = [createNote(2.2, 2.6, 72), createNote(3.4, 3.9, 65)]
+
+      const result = stitchWindowNotes(previous, windowNotes, 3)
+
+      expect(result.map((n) => n.midi)).toEqual([60, 65])
+    })
+
+    it('extends a held note that the previous window cut off', () => {
+      const previous = [createNote(2.5, 4, 60)]
+      const windowNotes = [createNote(2.5, 5, 60)]
+
+      const result = stitchWindowNotes(previous, windowNotes, 3)
+
+      expect(result).toHaveLength(1)
+      expect(result[0].endSec).toBe(5)
+    })
+
+    it('returns notes in time order', () => {
+      const previous = [createNote(0.5, 1, 60)]
+      const windowNotes = [createNote(4.5, 5, 67), createNote(3.2, 3.6, 64)]
+
+      const result = stitchWindowNotes(previous, windowNotes, 3)
+
+      expect(result.map((n) => n.startSec)).toEqual([0.5, 3.2, 4.5])
+    })
+  })
+})
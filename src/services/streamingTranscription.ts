@@ -0,0 +1,102 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Streaming Transcription: Transcribe overlapping windows while recording
+// and stitch their notes into one growing result
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { TranscribedNote } from '../domain/types'
+import { smartMergeNotes } from './noteProcessing'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Audio that keeps growing while it is being recorded.
+ */
+export interface LiveAudioSource {
+  /** Sample rate of the captured audio */
+  readonly sampleRate: number
+  /** Number of samples captured so far */
+  readonly length: number
+  /** Copy of the samples in [start, end) (all channels mixed to mono) */
+  read(start: number, end: number): Float32Array
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Length of each transcribed window */
+export const STREAM_WINDOW_SEC = 4
+
+/** Distance between window starts (windows overlap by the rest) */
+export const STREAM_HOP_SEC = 2
+
+/** How often to check whether the next window has been captured */
+export const STREAM_POLL_MS = 250
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Windows
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Time from which a window's notes replace those of the previous window:
+ * the middle of their overlap, where both windows have context on either side.
+ * The first window owns everything.
+ */
+export function getStitchBoundary(windowStartSec: number): number {
+  if (windowStartSec <= 0) return 0
+  return windowStartSec + (STREAM_WINDOW_SEC - STREAM_HOP_SEC) / 2
+}
+
+/**
+ * Start of the window to transcribe after the one at windowStartSec.
+ * Skips ahead to the latest complete window when transcription falls behind
+ * the recording, so the live result never lags more than one window.
+ *
+ * @param windowStartSec - Start of the window just transcribed
+ * @param availableSec - Length of the audio captured so far
+ */
+export function getNextWindowStart(windowStartSec: number, availableSec: number): number {
+  const next = windowStartSec + STREAM_HOP_SEC
+  const latest = Math.floor((availableSec - STREAM_WINDOW_SEC) / STREAM_HOP_SEC) * STREAM_HOP_SEC
+  return Math.max(next, latest)
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Stitching
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Combine the notes found so far with those of a new window.
+ *
+ * Notes starting before the boundary are kept from the earlier windows, the
+ * rest come from the new window. A kept note that the new window shows
+ * ringing on past the end of the previous window is extended, then the
+ * result is merged like a single transcription.
+ *
+ * @param previous - Notes stitched so far (absolute times)
+ * @param windowNotes - Notes of the new window (absolute times)
+ * @param boundarySec - See getStitchBoundary
+ */
+export function stitchWindowNotes(
+  previous: TranscribedNote[],
+  windowNotes: TranscribedNote[],
+  boundarySec: number
+): TranscribedNote[] {
+  const kept = previous
+    .filter((note) => note.startSec < boundarySec)
+    .map((note) => {
+      const continuation = windowNotes.find(
+        (w) =>
+          w.midi === note.midi &&
+          w.startSec < boundarySec &&
+          w.startSec <= note.endSec &&
+          w.endSec > note.endSec
+      )
+      return continuation ? { ...note, endSec: continuation.endSec } : note
+    })
+  const added = windowNotes.filter((note) => note.startSec >= boundarySec)
+
+  return smartMergeNotes([...kept, ...added].sort((a, b) => a.startSec - b.startSec))
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest'
+import { detectStrums, getStrumPattern, getStrumSchedule } from './strumDetection'
+import type {
+  MeterEstimate,
+  StrumDirection,
+  StrumEvent,
+  TempoEstimate,
+  TranscribedNote,
+} from '../domain/types'
+
+describe('strumDetection', () => {
+  // Open E major, low string to high
+  const E_MAJOR = [40, 47, 52, 56, 59, 64]
+
+  // One strum across the strings, a string every 10ms
+  const strum = (startSec: number, direction: StrumDirection): TranscribedNote[] => {
+    const strings = direction === 'down' ? E_MAJOR : [...E_MAJOR].reverse()
+    return strings.map((midi, i) => ({
+      startSec: startSec + i * 0.01,
+      endSec: startSec + 0.4,
+      midi,
+    }))
+  }
+
+  describe('detectStrums', () => {
+    it('groups staggered note starts into strums', () => {
+      const notes = [...strum(0, 'down'), ...strum(0.5, 'down')]
+
+      const strums = detectStrums(notes, [])
+
+      expect(strums).toHaveLength(2)
+      expect(strums[0]).toMatchObject({ startSec: 0, noteCount: 6 })
+      expect(strums[0].spreadSec).toBeCloseTo(0.05, 6)
+    })
+
+    it('tells down strums from up strums', () => {
+      const notes = [...strum(0, 'down'), ...strum(0.25, 'up')]
+
+      expect(detectStrums(notes, []).map((s) => s.direction)).toEqual(['down', 'up'])
+    })
+
+    it('leaves the direction open when the strings sound together', () => {
+      const notes = E_MAJOR.map((midi) => ({ startSec: 1, endSec: 1.4, midi }))
+
+      expect(detectStrums(notes, [])[0].direction).toBeNull()
+    })
+
+    it('ignores single picked notes and double stops', () => {
+      const notes = [
+        { startSec: 0, endSec: 0.2, midi: 52 },
+        { startSec: 0.3, endSec: 0.5, midi: 55 },
+        { startSec: 0.31, endSec: 0.5, midi: 59 },
+      ]
+
+      expect(detectStrums(notes, [])).toEqual([])
+    })
+
+    it('snaps strums to nearby onsets', () => {
+      const strums = detectStrums(strum(1.02, 'down'), [{ timeSec: 1, strength: 0.9 }])
+
+      expect(strums[0].startSec).toBe(1)
+    })
+  })
+
+  describe('getStrumPattern', () => {
+    // 4/4 at 120 BPM
+    const tempo: TempoEstimate = {
+      bpm: 120,
+      confidence: 0.8,
+      alternatives: [],
+      beats: Array.from({ length: 16 }, (_, i) => i * 0.5),
+    }
+    const meter: MeterEstimate = {
+      timeSignature: { beatsPerBar: 4, beatUnit: 4 },
+      confidence: 0.5,
+      firstDownbeat: 0,
+    }
+
+    // Strums from a pattern string, on eighth notes from a bar's downbeat
+    const playPattern = (pattern: string, barStartSec: number): StrumEvent[] =>
+      [...pattern].flatMap((symbol, step) =>
+        symbol === '-'
+          ? []
+          : [
+              {
+                startSec: barStartSec + step * 0.25,
+                spreadSec: 0.04,
+                direction: symbol === 'D' ? ('down' as const) : ('up' as const),
+                noteCount: 6,
+              },
+            ]
+      )
+
+    it('writes out the most common bar', () => {
+      const strums = [
+        ...playPattern('D-DU-UDU', 0),
+        ...playPattern('D-DU-UDU', 2),
+        ...playPattern('D-D-D-D-', 4),
+        ...playPattern('D-DU-UDU', 6),
+      ]
+
+      const strumPattern = getStrumPattern(strums, tempo, meter)
+
+      expect(strumPattern).toEqual({ pattern: 'D-DU-UDU', stepsPerBeat: 2, beatSec: 0.5 })
+    })
+
+    it('fills in unclear directions from the hand’s motion', () => {
+      const strums = playPattern('DDDD----', 0).map((s) => ({ ...s, direction: null }))
+
+      expect(getStrumPattern(strums, tempo, meter)?.pattern).toBe('DUDU----')
+    })
+
+    it('counts eighth-note meters one step per beat', () => {
+      const sixEight = { ...meter, timeSignature: { beatsPerBar: 6, beatUnit: 8 } }
+      const strums = playPattern('D--D--', 0).map((s) => ({ ...s, startSec: s.startSec * 2 }))
+
+      expect(getStrumPattern(strums, tempo, sixEight)?.pattern).toBe('D--D--')
+    })
+
+    it('returns null without strums', () => {
+      expect(getStrumPattern([], tempo, meter)).toBeNull()
+    })
+  })
+
+  describe('getStrumSchedule', () => {
+    it('times the strokes of one bar', () => {
+      const schedule = getStrumSchedule({ pattern: 'D-DU', stepsPerBeat: 2, beatSec: 0.5 })
+
+      expect(schedule).toEqual([
+        { offsetMs: 0, direction: 'down' },
+        { offsetMs: 500, direction: 'down' },
+        { offsetMs: 750, direction: 'up' },
+      ])
+    })
+  })
+})
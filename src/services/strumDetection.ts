@@ -0,0 +1,187 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Strum Detection: Strokes of the strumming hand, their direction and the
+// strumming pattern of a recording
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type {
+  MeterEstimate,
+  OnsetEvent,
+  StrumDirection,
+  StrumEvent,
+  StrumPattern,
+  TempoEstimate,
+  TranscribedNote,
+} from '../domain/types'
+import { snapNotesToOnsets } from './onsetDetection'
+import { toBeatPosition } from './quantization'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Notes starting within this time of the first note of a strum belong to it
+// (a slow strum across six strings takes up to ~80ms)
+const MAX_STRUM_SPREAD_SEC = 0.08
+
+// Fewer notes than this starting together are picked, not strummed
+export const MIN_STRUM_NOTES = 3
+
+// How consistently pitch has to rise (down strum) or fall (up strum) across
+// the strings, from -1 to 1
+const MIN_DIRECTION_AGREEMENT = 0.3
+
+// Strum starts snap to onsets this close (the strum's first string)
+const ONSET_SNAP_SEC = 0.04
+
+// Pattern steps are eighth notes: two per quarter-note beat, one per eighth-note beat
+const STEPS_PER_QUARTER = 2
+
+const STROKE_SYMBOLS: Record<StrumDirection, string> = { down: 'D', up: 'U' }
+const REST_SYMBOL = '-'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Strum Events
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Direction of a strum from the order its strings sounded in. A down strum
+ * hits the low strings first, so pitch rises over time; an up strum the
+ * reverse.
+ */
+function getStrumDirection(notes: TranscribedNote[]): StrumDirection | null {
+  let rising = 0
+  let falling = 0
+  let pairs = 0
+
+  for (let i = 0; i < notes.length; i++) {
+    for (let j = i + 1; j < notes.length; j++) {
+      const later = Math.sign(notes[j].startSec - notes[i].startSec)
+      const higher = Math.sign(notes[j].midi - notes[i].midi)
+      pairs++
+      if (later * higher > 0) rising++
+      else if (later * higher < 0) falling++
+    }
+  }
+
+  const agreement = pairs > 0 ? (rising - falling) / pairs : 0
+  if (agreement >= MIN_DIRECTION_AGREEMENT) return 'down'
+  if (agreement <= -MIN_DIRECTION_AGREEMENT) return 'up'
+  return null
+}
+
+/**
+ * Group near-simultaneous note starts into strums and tell their direction.
+ *
+ * Needs the note starts as the model found them: once notes are snapped to
+ * onsets (cleanUpNotes) the stagger between strings that shows the direction
+ * is gone. The strums themselves are snapped to the onsets instead.
+ *
+ * @param notes - Notes straight from the model, sorted by start time
+ * @param onsets - Attacks found in the audio
+ */
+export function detectStrums(notes: TranscribedNote[], onsets: OnsetEvent[]): StrumEvent[] {
+  const strums: StrumEvent[] = []
+  let group: TranscribedNote[] = []
+
+  const closeGroup = () => {
+    if (group.length >= MIN_STRUM_NOTES) {
+      const startSec = group[0].startSec
+      strums.push({
+        startSec,
+        spreadSec: group[group.length - 1].startSec - startSec,
+        direction: getStrumDirection(group),
+        noteCount: group.length,
+      })
+    }
+    group = []
+  }
+
+  for (const note of notes) {
+    if (group.length > 0 && note.startSec - group[0].startSec > MAX_STRUM_SPREAD_SEC) {
+      closeGroup()
+    }
+    group.push(note)
+  }
+  closeGroup()
+
+  return snapNotesToOnsets(strums, onsets, ONSET_SNAP_SEC)
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Strum Pattern
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * The strumming pattern of a recording: its strums laid out on an eighth-note
+ * grid bar by bar, and the bar that comes up most often.
+ *
+ * Strums whose direction couldn't be told get the one the strumming hand
+ * would be moving in: down on the beat, up between beats.
+ *
+ * @param strums - Strums of the recording (from detectStrums)
+ * @param tempo - Tempo and beat grid (from trackBeats)
+ * @param meter - Meter and first downbeat (from detectMeter)
+ * @returns Null when there are no strums or too few beats
+ */
+export function getStrumPattern(
+  strums: StrumEvent[],
+  tempo: TempoEstimate,
+  meter: MeterEstimate
+): StrumPattern | null {
+  const { beats } = tempo
+  if (strums.length === 0 || beats.length < 2) return null
+
+  const { beatsPerBar, beatUnit } = meter.timeSignature
+  const stepsPerBeat = Math.max(1, (STEPS_PER_QUARTER * 4) / beatUnit)
+  const stepsPerBar = beatsPerBar * stepsPerBeat
+
+  // One row of steps per bar; the first strum on a step wins
+  const bars = new Map<number, string[]>()
+  for (const strum of strums) {
+    const position = toBeatPosition(beats, strum.startSec) - meter.firstDownbeat
+    const step = Math.round(position * stepsPerBeat)
+    const bar = Math.floor(step / stepsPerBar)
+    const stepInBar = step - bar * stepsPerBar
+    if (bar < 0) continue
+
+    const steps = bars.get(bar) ?? Array<string>(stepsPerBar).fill(REST_SYMBOL)
+    if (steps[stepInBar] === REST_SYMBOL) {
+      const direction = strum.direction ?? (stepInBar % stepsPerBeat === 0 ? 'down' : 'up')
+      steps[stepInBar] = STROKE_SYMBOLS[direction]
+    }
+    bars.set(bar, steps)
+  }
+
+  // Most common bar (the earliest on a tie)
+  const counts = new Map<string, number>()
+  let pattern: string | null = null
+  for (const steps of bars.values()) {
+    const row = steps.join('')
+    const count = (counts.get(row) ?? 0) + 1
+    counts.set(row, count)
+    if (pattern === null || count > (counts.get(pattern) ?? 0)) pattern = row
+  }
+
+  return pattern === null
+    ? null
+    : { pattern, stepsPerBeat, beatSec: (beats[beats.length - 1] - beats[0]) / (beats.length - 1) }
+}
+
+/**
+ * When each stroke of a strum pattern falls, for playing it back.
+ *
+ * @param strumPattern - Pattern to play (from getStrumPattern)
+ * @param beatMs - Beat length to play it at
+ * @returns Strokes of one bar with their offset from the downbeat
+ */
+export function getStrumSchedule(
+  strumPattern: StrumPattern,
+  beatMs: number = strumPattern.beatSec * 1000
+): { offsetMs: number; direction: StrumDirection }[] {
+  const stepMs = beatMs / strumPattern.stepsPerBeat
+  return [...strumPattern.pattern].flatMap((symbol, step) => {
+    if (symbol === REST_SYMBOL) return []
+    const direction: StrumDirection = symbol === STROKE_SYMBOLS.up ? 'up' : 'down'
+    return [{ offsetMs: step * stepMs, direction }]
+  })
+}
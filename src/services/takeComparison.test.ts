@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import { compareTakes, findSharedChords, type TakeComparisonRow } from './takeComparison'
+import { analyzeHarmony } from './harmonyAnalysis'
+import { extractFeatures } from './featureExtraction'
+import type { Take, TranscribedNote } from '../domain/types'
+
+describe('takeComparison', () => {
+  // Helper to build an analyzed take from a list of MIDI notes
+  const createAnalyzedTake = (id: string, midiNotes: number[]): Take => {
+    const notes: TranscribedNote[] = midiNotes.map((midi, i) => ({
+      startSec: i * 0.5,
+      endSec: i * 0.5 + 0.4,
+      midi,
+      velocity: 0.8,
+    }))
+    const features = extractFeatures(notes)
+    return {
+      id,
+      name: `Take ${id}`,
+      recording: { blob: new Blob(), audioUrl: '', durationMs: notes.length * 500 },
+      transcription: { notes, noteCount: notes.length, range: { minMidi: 0, maxMidi: 0 } },
+      features,
+      harmony: analyzeHarmony(features),
+      layers: [],
+    }
+  }
+
+  const createUnanalyzedTake = (id: string): Take => ({
+    id,
+    name: `Take ${id}`,
+    recording: { blob: new Blob(), audioUrl: '', durationMs: 1000 },
+    transcription: null,
+    features: null,
+    harmony: null,
+    layers: [],
+  })
+
+  // C major scale ending on C, A minor pentatonic ending on A
+  const C_MAJOR = [60, 62, 64, 65, 67, 69, 71, 72, 67, 64, 60]
+  const A_MINOR = [57, 60, 62, 64, 67, 69, 67, 64, 57]
+
+  describe('compareTakes', () => {
+    it('returns one row per analyzed take', () => {
+      const rows = compareTakes([
+        createAnalyzedTake('1', C_MAJOR),
+        createUnanalyzedTake('2'),
+        createAnalyzedTake('3', A_MINOR),
+      ])
+
+      expect(rows.map((r) => r.takeId)).toEqual(['1', '3'])
+    })
+
+    it('lists the top key candidates with labels and scores', () => {
+      const [row] = compareTakes([createAnalyzedTake('1', C_MAJOR)], 2)
+
+      expect(row.keys).toHaveLength(2)
+      expect(row.keys[0].label).toBe('C Major')
+      expect(row.keys[0].fitScore).toBeGreaterThanOrEqual(row.keys[1].fitScore)
+    })
+
+    it('limits the number of top chords', () => {
+      const [row] = compareTakes([createAnalyzedTake('1', C_MAJOR)], 3, 2)
+      expect(row.topChords).toHaveLength(2)
+    })
+
+    it('uses the selected candidate for chords', () => {
+      const take = createAnalyzedTake('1', C_MAJOR)
+      const [best, ...rest] = take.harmony!.candidates
+      // Pick a key with a different scale (relative modes share their chords)
+      const other = rest.find((c) => c.scaleNotes.some((n) => !best.scaleNotes.includes(n)))!
+      const rows = compareTakes([
+        take,
+        { ...take, id: '2', harmony: { ...take.harmony!, selectedCandidateId: other.id } },
+      ])
+
+      expect(rows[0].topChords).not.toEqual(rows[1].topChords)
+    })
+
+    it('returns no rows when nothing is analyzed', () => {
+      expect(compareTakes([createUnanalyzedTake('1')])).toEqual([])
+    })
+  })
+
+  describe('findSharedChords', () => {
+    const row = (topChords: string[]): TakeComparisonRow => ({
+      takeId: topChords.join(),
+      name: '',
+      noteCount: 0,
+      keys: [],
+      topChords,
+    })
+
+    it('returns chords present in every take', () => {
+      expect(findSharedChords([row(['C', 'G', 'Am']), row(['Am', 'F', 'C'])])).toEqual(['C', 'Am'])
+    })
+
+    it('returns an empty list without rows', () => {
+      expect(findSharedChords([])).toEqual([])
+    })
+  })
+})
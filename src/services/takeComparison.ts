@@ -0,0 +1,86 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Take Comparison: Side-by-side summary of analyzed takes
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { Take } from '../domain/types'
+import { generateChordSuggestions } from './chordSuggestion'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface TakeKeySummary {
+  id: string
+  /** Display label (e.g., "A Minor") */
+  label: string
+  fitScore: number
+}
+
+export interface TakeComparisonRow {
+  takeId: string
+  name: string
+  noteCount: number
+  /** Top key candidates, best first */
+  keys: TakeKeySummary[]
+  /** Top-ranked chord symbols for the take's selected key */
+  topChords: string[]
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+const DEFAULT_KEY_COUNT = 3
+const DEFAULT_CHORD_COUNT = 4
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Comparison
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Summarize the detected keys and top chords of every analyzed take.
+ * Takes that haven't been analyzed yet are skipped.
+ */
+export function compareTakes(
+  takes: Take[],
+  keyCount: number = DEFAULT_KEY_COUNT,
+  chordCount: number = DEFAULT_CHORD_COUNT
+): TakeComparisonRow[] {
+  const rows: TakeComparisonRow[] = []
+
+  for (const take of takes) {
+    if (!take.transcription || !take.features || !take.harmony) continue
+
+    const { candidates, selectedCandidateId } = take.harmony
+    const selected = candidates.find((c) => c.id === selectedCandidateId) ?? candidates[0]
+
+    const topChords = selected
+      ? generateChordSuggestions(selected, take.features)
+          .ranked.slice(0, chordCount)
+          .map((chord) => chord.symbol)
+      : []
+
+    rows.push({
+      takeId: take.id,
+      name: take.name,
+      noteCount: take.transcription.noteCount,
+      keys: candidates.slice(0, keyCount).map((candidate) => ({
+        id: candidate.id,
+        label: `${candidate.tonic} ${candidate.mode}`,
+        fitScore: candidate.fitScore,
+      })),
+      topChords,
+    })
+  }
+
+  return rows
+}
+
+/**
+ * Chord symbols that appear in the top chords of every compared take.
+ */
+export function findSharedChords(rows: TakeComparisonRow[]): string[] {
+  if (rows.length === 0) return []
+  const [first, ...rest] = rows
+  return first.topChords.filter((symbol) => rest.every((row) => row.topChords.includes(symbol)))
+}
@@ -0,0 +1,104 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Transcription Engine: What turns prepared audio into raw notes
+// Onset detection, strums and note cleanup are shared and stay in the service
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type {
+  OnsetEvent,
+  TranscribedNote,
+  TranscriptionEngineId,
+  TranscriptionPreset,
+} from '../domain/types'
+import type { AudioMetrics } from './audioDecoder'
+
+export type { TranscriptionEngineId }
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Note detection thresholds, adapted to the audio metrics and preset (Basic Pitch).
+ */
+export interface AdaptiveThresholds {
+  onsetThreshold: number
+  frameThreshold: number
+  minNoteLength: number
+  minAmplitude: number
+  minNoteDuration: number
+}
+
+export interface EngineInput {
+  /** Mono audio, pre-processed (the harmonic part when it was split) */
+  samples: Float32Array
+  sampleRate: number
+  durationMs: number
+  /** Levels of the audio, for detection that adapts to the recording */
+  metrics: AudioMetrics
+  preset: TranscriptionPreset
+  /** Attacks found in the audio */
+  onsets: OnsetEvent[]
+  /** Thresholds to use instead of the adapted ones */
+  thresholds?: Partial<AdaptiveThresholds>
+  /**
+   * Whether the engine may cache what it works out for this audio (default
+   * true); off for audio that won't be transcribed again, like live windows
+   */
+  cache?: boolean
+}
+
+export interface TranscriptionEngine {
+  readonly id: TranscriptionEngineId
+  /** Get ready to transcribe (e.g. load a model); cheap once it has succeeded */
+  prepare(onProgress?: (message: string) => void): Promise<void>
+  /**
+   * Notes of the audio as the engine finds them, sorted by start time and
+   * not yet snapped to onsets or cleaned up.
+   *
+   * @param onProgress - Called with the share of the audio done (0-1)
+   * @throws TranscriptionCancelledError or DspCancelledError when the signal is aborted
+   */
+  transcribe(
+    input: EngineInput,
+    signal: AbortSignal,
+    onProgress?: (fraction: number) => void
+  ): Promise<TranscribedNote[]>
+}
+
+/** An engine to use, or 'auto' for Basic Pitch with the monophonic engine as fallback */
+export type TranscriptionEngineChoice = TranscriptionEngineId | 'auto'
+
+export interface TranscriptionEngineOption {
+  id: TranscriptionEngineChoice
+  label: string
+  description: string
+}
+
+export const TRANSCRIPTION_ENGINES: TranscriptionEngineOption[] = [
+  {
+    id: 'auto',
+    label: 'Automatic',
+    description: "Basic Pitch, or pitch tracking when the model can't load",
+  },
+  {
+    id: 'basicPitch',
+    label: 'Basic Pitch',
+    description: 'Neural network, hears chords and bends',
+  },
+  {
+    id: 'monophonic',
+    label: 'Pitch tracking',
+    description: 'One note at a time, no model to load',
+  },
+]
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Custom Error for Cancellation
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class TranscriptionCancelledError extends Error {
+  constructor() {
+    super('Transcription cancelled')
+    this.name = 'TranscriptionCancelledError'
+  }
+}
@@ -1,33 +1,48 @@
-import {
-  BasicPitch,
-  noteFramesToTime,
-  outputToNotesPoly,
-  addPitchBendsToNoteEvents,
-  type NoteEventTime,
-} from '@spotify/basic-pitch'
 import type {
   TranscribedNote,
   TranscriptionResult,
   RecordingAsset,
   TranscriptionPreset,
+  TimeRange,
+  ChannelSelection,
+  OnsetEvent,
+  OnsetDetector,
+  StrumEvent,
 } from '../domain/types'
 import {
   prepareAudioForTranscription,
   prepareRawPcmForTranscription,
-  type AudioMetrics,
+  selectChannel,
+  type PreparedAudio,
 } from './audioDecoder'
+import type { NoiseProfile } from './spectralProcessing'
+import type { PreprocessingConfig } from './preprocessingPipeline'
+import { dspWorker, DspCancelledError } from './dspWorker'
+import { hashSamples } from './audioHash'
 import {
-  limitPolyphony,
-  smartMergeNotes,
-  filterIsolatedNoiseNotes,
-  DEFAULT_MAX_POLYPHONY,
-} from './noteProcessing'
+  getStitchBoundary,
+  getNextWindowStart,
+  stitchWindowNotes,
+  STREAM_WINDOW_SEC,
+  STREAM_POLL_MS,
+  type LiveAudioSource,
+} from './streamingTranscription'
+import { trackBeats, getRecordedTempo } from './beatTracking'
+import { analyzeRhythm } from './rhythmAnalysis'
+import { getRecordedMeter } from './meterDetection'
+import { DEFAULT_QUANTIZE_GRID } from './quantization'
+import { detectStrums } from './strumDetection'
+import { DEFAULT_ONSET_DETECTORS } from './onsetDetection'
 import {
-  detectOnsets,
-  snapNotesToOnsets,
-  hasStrongOnsetNear,
-  type OnsetEvent,
-} from './onsetDetection'
+  TranscriptionCancelledError,
+  type AdaptiveThresholds,
+  type TranscriptionEngine,
+  type TranscriptionEngineChoice,
+} from './transcriptionEngine'
+import { basicPitchEngine } from './basicPitchEngine'
+import { monophonicEngine } from './monophonicEngine'
+
+export { TranscriptionCancelledError }
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Constants
@@ -36,136 +51,44 @@ import {
 // Basic Pitch expects 22050Hz sample rate
 const TARGET_SAMPLE_RATE = 22050
 
-// Model path - uses Vite's BASE_URL to work with GitHub Pages subdirectory
-const MODEL_PATH = `${import.meta.env.BASE_URL}basic-pitch-model/model.json`
-
 // ─────────────────────────────────────────────────────────────────────────────
-// Base Transcription Parameters
-// These are the baseline values that get adjusted by adaptive thresholds
+// Transcription Options
 // ─────────────────────────────────────────────────────────────────────────────
 
-// Base onset threshold: 0.5 is the default
-// Higher = stricter onset detection, fewer false positives
-const BASE_ONSET_THRESHOLD = 0.5
-
-// Base frame threshold: requires pitch activation to be above this
-// Higher = requires stronger pitch confidence
-const BASE_FRAME_THRESHOLD = 0.35
-
-// Minimum note length in frames (~11.6ms per frame at 22050Hz)
-// 11 frames ≈ 128ms - minimum for real notes
-const BASE_MIN_NOTE_LENGTH = 11
-
-// Energy tolerance: how quickly a note can decay before being cut off
-const ENERGY_TOLERANCE = 11
-
-// Guitar frequency range (for filtering false positives)
-// Low: ~65Hz supports drop C tuning
-// High: ~3000Hz covers highest frets + upper harmonics
-const GUITAR_MIN_FREQ = 65
-const GUITAR_MAX_FREQ = 3000
-
-// Base amplitude floor for filtering weak notes
-const BASE_MIN_AMPLITUDE = 0.3
-
-// Minimum note duration in seconds (post-processing filter)
-const BASE_MIN_NOTE_DURATION_SEC = 0.06 // 60ms minimum
-
-// ─────────────────────────────────────────────────────────────────────────────
-// Adaptive Threshold Configuration
-// ─────────────────────────────────────────────────────────────────────────────
-
-/**
- * Adaptive thresholds calculated from audio metrics.
- */
-interface AdaptiveThresholds {
-  onsetThreshold: number
-  frameThreshold: number
-  minNoteLength: number
-  minAmplitude: number
-  minNoteDuration: number
+export interface TranscribeOptions {
+  /** Only transcribe this part of the recording */
+  range?: TimeRange
+  /** Channel of a multichannel recording to transcribe (all channels mixed when omitted) */
+  channel?: ChannelSelection
+  /** Room-tone profile of the input the recording was made with */
+  noiseProfile?: NoiseProfile
+  /** Pre-processing stages to run and their params (defaults when omitted) */
+  preprocessing?: PreprocessingConfig
+  /** Onset detection function (the preset's default when omitted) */
+  onsetDetector?: OnsetDetector
+  /** Engine for 'lead' parts ('chord' parts always use Basic Pitch) */
+  engine?: TranscriptionEngineChoice
+  /** Note detection thresholds to use instead of the adapted ones (Basic Pitch) */
+  thresholds?: Partial<AdaptiveThresholds>
 }
 
-/**
- * Calculate adaptive thresholds based on audio metrics.
- *
- * The idea: adjust detection sensitivity based on input characteristics:
- * - Quieter recordings get more sensitive detection (lower thresholds)
- * - Noisier recordings get stricter detection (higher thresholds)
- * - Higher dynamic range suggests more transients (sensitive onset detection)
- */
-function calculateAdaptiveThresholds(
-  metrics: AudioMetrics,
-  preset: TranscriptionPreset
-): AdaptiveThresholds {
-  // Signal-to-noise ratio estimate (how much signal above noise floor)
-  const snrDb = metrics.rmsLevelDb - metrics.noiseFloorDb
-
-  // SNR factor: good SNR (>20dB) = full sensitivity, poor SNR (<10dB) = reduced sensitivity
-  // Range: 0.7 to 1.0
-  const snrFactor = Math.min(1.0, Math.max(0.7, 0.5 + snrDb / 40))
-
-  // Dynamic range factor: high dynamic range (>15dB) indicates clear transients
-  // For lead playing, we want more sensitive onset detection with high dynamics
-  // Range: 0.85 to 1.0
-  const dynamicFactor = metrics.hasTransients ? 0.9 : 1.0
-
-  // Level factor: after normalization, this reflects original recording quality
-  // Very quiet original recordings may have more noise even after normalization
-  // Use the original RMS level before normalization
-  // Range: 0.8 to 1.0
-  const originalLevel = metrics.rmsLevelDb
-  const levelFactor = Math.min(1.0, Math.max(0.8, 0.6 - originalLevel / 50))
-
-  // Preset adjustments
-  const presetOnsetBoost = preset === 'chord' ? 0.05 : 0
-  const presetFrameBoost = preset === 'chord' ? 0.05 : 0
-  const presetMinLengthBoost = preset === 'chord' ? 2 : 0
-
-  // Calculate final thresholds
-  // For thresholds, lower = more sensitive, so multiply by factors
-  const onsetThreshold = Math.min(
-    0.7,
-    Math.max(0.3, (BASE_ONSET_THRESHOLD + presetOnsetBoost) * snrFactor)
-  )
-
-  const frameThreshold = Math.min(
-    0.5,
-    Math.max(0.2, (BASE_FRAME_THRESHOLD + presetFrameBoost) * snrFactor * dynamicFactor)
-  )
-
-  // Min note length: increase for noisy signals
-  const minNoteLength = Math.round((BASE_MIN_NOTE_LENGTH + presetMinLengthBoost) / snrFactor)
-
-  // Min amplitude: lower for clean signals with good dynamics
-  const minAmplitude = Math.min(
-    0.5,
-    Math.max(0.2, BASE_MIN_AMPLITUDE * levelFactor * (metrics.hasTransients ? 0.9 : 1.0))
-  )
-
-  // Min duration: slightly shorter for signals with clear transients
-  const minNoteDuration = metrics.hasTransients
-    ? BASE_MIN_NOTE_DURATION_SEC * 0.8
-    : BASE_MIN_NOTE_DURATION_SEC
-
-  return {
-    onsetThreshold,
-    frameThreshold,
-    minNoteLength,
-    minAmplitude,
-    minNoteDuration,
-  }
+/** Audio of a recording prepared for transcription, and the onsets found in it */
+interface PreparedTake {
+  /** Settings the audio was prepared with (from getPreparationKey) */
+  key: string
+  audio: PreparedAudio
+  onsets: Map<OnsetDetector, OnsetEvent[]>
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Custom Error for Cancellation
-// ─────────────────────────────────────────────────────────────────────────────
-
-export class TranscriptionCancelledError extends Error {
-  constructor() {
-    super('Transcription cancelled')
-    this.name = 'TranscriptionCancelledError'
-  }
+/** Settings a detectNotes run uses besides the audio */
+interface DetectionSettings {
+  preset: TranscriptionPreset
+  onsetDetector: OnsetDetector
+  thresholds?: Partial<AdaptiveThresholds>
+  /** Onsets already found in the audio with this detector (skips onset detection) */
+  onsets?: OnsetEvent[]
+  /** Let the engine cache its output (see EngineInput.cache) */
+  cache?: boolean
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -173,42 +96,43 @@ export class TranscriptionCancelledError extends Error {
 // ─────────────────────────────────────────────────────────────────────────────
 
 class TranscriptionServiceImpl {
-  private basicPitch: BasicPitch | null = null
-  private modelLoadingPromise: Promise<BasicPitch> | null = null
   private currentAbortController: AbortController | null = null
+  // Audio prepared for each recording (for its last settings), so a preset
+  // or threshold change doesn't prepare it again
+  private preparedTakes = new WeakMap<RecordingAsset, PreparedTake>()
 
   /**
-   * Ensure the Basic Pitch model is loaded (lazy loading with deduplication)
+   * Ensure the Basic Pitch model is loaded (e.g. to preload it)
    */
-  async ensureModelLoaded(onProgress?: (message: string) => void): Promise<BasicPitch> {
-    // Return existing instance
-    if (this.basicPitch) {
-      return this.basicPitch
-    }
-
-    // Return in-flight loading promise
-    if (this.modelLoadingPromise) {
-      return this.modelLoadingPromise
-    }
-
-    // Start loading
-    onProgress?.('Loading pitch detection model...')
+  ensureModelLoaded(onProgress?: (message: string) => void): Promise<void> {
+    return basicPitchEngine.prepare(onProgress)
+  }
 
-    this.modelLoadingPromise = (async () => {
+  /**
+   * The engine to transcribe a part with, ready to use.
+   *
+   * 'lead' parts can use the monophonic engine, picked or as the fallback
+   * ('auto') when the Basic Pitch model can't be loaded; 'chord' parts need
+   * Basic Pitch.
+   */
+  private async prepareEngine(
+    preset: TranscriptionPreset,
+    choice: TranscriptionEngineChoice,
+    onProgress?: (message: string) => void
+  ): Promise<TranscriptionEngine> {
+    if (preset !== 'lead' || choice !== 'monophonic') {
       try {
-        const bp = new BasicPitch(MODEL_PATH)
-        // Force the model to load by accessing it
-        await bp.model
-        this.basicPitch = bp
-        onProgress?.('Model loaded')
-        return bp
+        await basicPitchEngine.prepare(onProgress)
+        return basicPitchEngine
       } catch (error) {
-        this.modelLoadingPromise = null
-        throw error
+        if (preset !== 'lead' || choice !== 'auto') throw error
+        console.warn('[Transcription] Model failed to load, falling back to pitch tracking:', error)
+        onProgress?.('Model unavailable, using pitch tracking...')
       }
-    })()
+    }
 
-    return this.modelLoadingPromise
+    await monophonicEngine.prepare()
+    return monophonicEngine
   }
 
   /**
@@ -238,15 +162,30 @@ class TranscriptionServiceImpl {
    * Now includes adaptive thresholds based on audio analysis for improved
    * detection across different recording conditions.
    *
+   * The prepared audio and its onsets are kept for each recording, and
+   * Basic Pitch's output is cached by audio hash, so transcribing the same
+   * recording again with another preset or thresholds skips pre-processing,
+   * onset detection and model inference.
+   *
    * @param recordingAsset - The recorded audio to transcribe
    * @param preset - 'lead' for single notes/riffs, 'chord' for strumming (default: 'lead')
    * @param onProgress - Progress callback
+   * @param options - Optional region to transcribe (note times are relative to its start)
    */
   async transcribe(
     recordingAsset: RecordingAsset,
     preset: TranscriptionPreset = 'lead',
-    onProgress?: (percent: number, message?: string) => void
+    onProgress?: (percent: number, message?: string) => void,
+    options: TranscribeOptions = {}
   ): Promise<TranscriptionResult> {
+    const {
+      range,
+      channel,
+      onsetDetector = DEFAULT_ONSET_DETECTORS[preset],
+      engine: engineChoice = 'auto',
+      thresholds,
+    } = options
+
     // Cancel any existing transcription
     this.cancel()
 
@@ -255,172 +194,279 @@ class TranscriptionServiceImpl {
     const signal = this.currentAbortController.signal
 
     try {
-      // Step 1: Load model
+      // Step 1: Load model (or fall back to pitch tracking)
       onProgress?.(0, 'Loading model...')
-      const basicPitch = await this.ensureModelLoaded((msg) => onProgress?.(5, msg))
+      const engine = await this.prepareEngine(preset, engineChoice, (msg) => onProgress?.(5, msg))
 
       // Check for cancellation
       if (signal.aborted) {
         throw new TranscriptionCancelledError()
       }
 
-      // Step 2: Prepare audio (lossless or lossy path)
-      // Now includes metrics from audio analysis
-      let audioData: Float32Array
-      let durationMs: number
-      let metrics: AudioMetrics
-
-      if (recordingAsset.pcmData && recordingAsset.pcmSampleRate) {
-        // HQ Path: Use raw PCM data (lossless)
-        onProgress?.(10, 'Preparing audio (HQ lossless)...')
-        const prepared = await prepareRawPcmForTranscription(
-          recordingAsset.pcmData,
-          recordingAsset.pcmSampleRate,
-          TARGET_SAMPLE_RATE
-        )
-        audioData = prepared.audioData
-        durationMs = prepared.durationMs
-        metrics = prepared.metrics
+      // Step 2: Prepare audio (lossless or lossy path), or reuse the audio
+      // prepared last time with the same settings
+      const preparationKey = getPreparationKey(options)
+      let take = this.preparedTakes.get(recordingAsset)
+      if (take?.key !== preparationKey) {
+        take = {
+          key: preparationKey,
+          audio: await this.prepareAudio(recordingAsset, options, signal, onProgress),
+          onsets: new Map(),
+        }
+        this.preparedTakes.set(recordingAsset, take)
       } else {
-        // Fallback: Decode compressed blob (lossy)
-        onProgress?.(10, 'Decoding audio...')
-        const prepared = await prepareAudioForTranscription(recordingAsset.blob, TARGET_SAMPLE_RATE)
-        audioData = prepared.audioData
-        durationMs = prepared.durationMs
-        metrics = prepared.metrics
+        onProgress?.(10, 'Reusing prepared audio...')
       }
+      const { audioData, percussiveData, durationMs, metrics, report } = take.audio
 
       // Check for cancellation
       if (signal.aborted) {
         throw new TranscriptionCancelledError()
       }
 
-      // Step 3: Calculate adaptive thresholds based on audio metrics
-      const thresholds = calculateAdaptiveThresholds(metrics, preset)
-
-      // Step 3b: Run onset detection for improved timing
-      const detectedOnsets = detectOnsets(audioData, TARGET_SAMPLE_RATE)
-
-      // Log metrics and thresholds for debugging (development only)
-      if (import.meta.env.DEV) {
-        console.log('[Transcription] Audio metrics:', {
-          peakDb: metrics.peakLevelDb.toFixed(1),
-          rmsDb: metrics.rmsLevelDb.toFixed(1),
-          noiseFloorDb: metrics.noiseFloorDb.toFixed(1),
-          dynamicRangeDb: metrics.dynamicRangeDb.toFixed(1),
-          hasTransients: metrics.hasTransients,
-        })
-        console.log('[Transcription] Adaptive thresholds:', {
-          onset: thresholds.onsetThreshold.toFixed(3),
-          frame: thresholds.frameThreshold.toFixed(3),
-          minNoteLength: thresholds.minNoteLength,
-          minAmplitude: thresholds.minAmplitude.toFixed(3),
-          minNoteDuration: thresholds.minNoteDuration.toFixed(3),
-        })
-        console.log('[Transcription] Detected onsets:', detectedOnsets.length)
-      }
-
-      // Step 4: Run inference
-      onProgress?.(15, 'Transcribing...')
-
-      // Collect results from the callback - accumulate all frames
-      const allFrames: number[][] = []
-      const allOnsets: number[][] = []
-      const allContours: number[][] = []
-
-      await basicPitch.evaluateModel(
-        audioData,
-        // onComplete callback - called incrementally with each batch of results
-        (frames, onsets, contours) => {
-          // Check for cancellation during model evaluation
-          if (signal.aborted) return
-
-          // Accumulate results from each callback
-          allFrames.push(...frames)
-          allOnsets.push(...onsets)
-          allContours.push(...contours)
+      // Steps 3-6: Detect notes with thresholds adapted to the audio
+      // (the worker keeps the audio it gets, so it gets copies of the prepared audio)
+      const { notes, onsets, strums } = await this.detectNotes(
+        engine,
+        {
+          audioData: audioData.slice(),
+          percussiveData: percussiveData?.slice(),
+          durationMs,
+          metrics,
         },
-        // percentCallback - Basic Pitch returns percent as 0..1, not 0..100
-        (percent) => {
-          if (signal.aborted) return
-
-          // Scale percent (0..1) to 15-90 range for overall progress
-          const scaledPercent = 15 + percent * 75
-          onProgress?.(scaledPercent, `Transcribing... ${Math.round(percent * 100)}%`)
-        }
+        { preset, onsetDetector, thresholds, onsets: take.onsets.get(onsetDetector) },
+        signal,
+        onProgress
       )
+      take.onsets.set(onsetDetector, onsets)
+
+      // Step 7: Tempo, beat grid and bars (relative to the region, like the notes).
+      // A take recorded to the click has its tempo and meter known; otherwise
+      // they're found from the onsets
+      const tempo = recordingAsset.tempo
+        ? getRecordedTempo(recordingAsset.tempo, durationMs / 1000, range?.startSec)
+        : trackBeats(onsets, durationMs / 1000)
+      const meter =
+        recordingAsset.tempo &&
+        getRecordedMeter(recordingAsset.tempo, durationMs / 1000, range?.startSec)
 
-      // Check for cancellation after model evaluation
-      if (signal.aborted) {
-        throw new TranscriptionCancelledError()
+      onProgress?.(100, 'Complete')
+
+      return {
+        ...toTranscriptionResult(notes, preset),
+        engine: engine.id,
+        onsets,
+        ...(strums ? { strums } : {}),
+        ...(tempo
+          ? analyzeRhythm(tempo, { notes, onsets, strums }, DEFAULT_QUANTIZE_GRID, meter)
+          : {}),
+        ...(range ? { region: range } : {}),
+        ...(channel !== undefined ? { channel } : {}),
+        preprocessing: report,
       }
+    } catch (error) {
+      // Worker tasks stop with their own error when the signal aborts
+      throw error instanceof DspCancelledError ? new TranscriptionCancelledError() : error
+    } finally {
+      // Clear the abort controller when done (success or error)
+      this.currentAbortController = null
+    }
+  }
 
-      // Step 5: Convert to note events using adaptive thresholds
-      onProgress?.(90, 'Processing notes...')
-
-      // Preset-specific settings
-      // Lead: inferOnsets + melodiaTrick help detect melody continuity
-      // Chord: disable both to reduce ghost notes from dense strumming
-      const inferOnsets = preset === 'lead'
-      const melodiaTrick = preset === 'lead'
-
-      // Convert frames/onsets to note events using adaptive thresholds
-      const noteEvents = outputToNotesPoly(
-        allFrames,
-        allOnsets,
-        thresholds.onsetThreshold,
-        thresholds.frameThreshold,
-        thresholds.minNoteLength,
-        inferOnsets,
-        GUITAR_MAX_FREQ,
-        GUITAR_MIN_FREQ,
-        melodiaTrick,
-        ENERGY_TOLERANCE
+  /**
+   * Prepare the audio of a recording for transcription: lossless PCM data
+   * when available (from AudioWorklet capture), otherwise the decoded blob.
+   */
+  private async prepareAudio(
+    recordingAsset: RecordingAsset,
+    { range, channel, noiseProfile, preprocessing }: TranscribeOptions,
+    signal: AbortSignal,
+    onProgress?: (percent: number, message?: string) => void
+  ): Promise<PreparedAudio> {
+    if (recordingAsset.pcmData && recordingAsset.pcmSampleRate) {
+      // HQ Path: Use raw PCM data (lossless)
+      onProgress?.(10, 'Preparing audio (HQ lossless)...')
+      const pcmData =
+        channel !== undefined && recordingAsset.pcmChannels
+          ? selectChannel(recordingAsset.pcmChannels, channel)
+          : recordingAsset.pcmData
+      return prepareRawPcmForTranscription(
+        pcmData,
+        recordingAsset.pcmSampleRate,
+        TARGET_SAMPLE_RATE,
+        range,
+        { noiseProfile, config: preprocessing, signal }
       )
+    }
 
-      // Check for cancellation
-      if (signal.aborted) {
-        throw new TranscriptionCancelledError()
-      }
+    // Fallback: Decode compressed blob (lossy)
+    onProgress?.(10, 'Decoding audio...')
+    return prepareAudioForTranscription(recordingAsset.blob, TARGET_SAMPLE_RATE, range, channel, {
+      noiseProfile,
+      config: preprocessing,
+      signal,
+    })
+  }
 
-      // Add pitch bends from contours
-      const notesWithBends = addPitchBendsToNoteEvents(allContours, noteEvents)
+  /**
+   * Transcribe audio while it is being recorded.
+   *
+   * Windows of STREAM_WINDOW_SEC are transcribed every STREAM_HOP_SEC as the
+   * source grows, and their notes are stitched into one result that is
+   * reported after each window. Runs until the signal is aborted.
+   *
+   * @param source - Audio being captured
+   * @param preset - 'lead' for single notes/riffs, 'chord' for strumming
+   * @param onUpdate - Called with the notes found so far (times from the start of the source)
+   * @param signal - Abort to stop listening (e.g. when recording stops)
+   * @param engineChoice - Engine for the 'lead' preset
+   */
+  async transcribeLive(
+    source: LiveAudioSource,
+    preset: TranscriptionPreset,
+    onUpdate: (result: TranscriptionResult) => void,
+    signal: AbortSignal,
+    engineChoice: TranscriptionEngineChoice = 'auto'
+  ): Promise<void> {
+    const engine = await this.prepareEngine(preset, engineChoice)
+    let notes: TranscribedNote[] = []
+    let windowStartSec = 0
 
-      // Convert to timed notes
-      const allTimedNotes = noteFramesToTime(notesWithBends)
+    try {
+      while (!signal.aborted) {
+        const { sampleRate } = source
+        const windowEnd = Math.round((windowStartSec + STREAM_WINDOW_SEC) * sampleRate)
+        if (source.length < windowEnd) {
+          await waitMs(STREAM_POLL_MS, signal)
+          continue
+        }
 
-      // Filter out weak/hallucinated notes using adaptive thresholds
-      const timedNotes = allTimedNotes.filter((note) => {
-        // Filter 1: Amplitude must be above adaptive minimum
-        if (note.amplitude < thresholds.minAmplitude) return false
+        const prepared = await prepareRawPcmForTranscription(
+          source.read(Math.round(windowStartSec * sampleRate), windowEnd),
+          sampleRate,
+          TARGET_SAMPLE_RATE,
+          undefined,
+          { signal }
+        )
+        const { notes: windowNotes } = await this.detectNotes(
+          engine,
+          prepared,
+          // Windows aren't transcribed again, so they'd only push takes out of the cache
+          { preset, onsetDetector: DEFAULT_ONSET_DETECTORS[preset], cache: false },
+          signal
+        )
 
-        // Filter 2: Duration must be above adaptive minimum
-        if (note.durationSeconds < thresholds.minNoteDuration) return false
+        const offset = windowStartSec
+        notes = stitchWindowNotes(
+          notes,
+          windowNotes.map((note) => ({
+            ...note,
+            startSec: note.startSec + offset,
+            endSec: note.endSec + offset,
+          })),
+          getStitchBoundary(windowStartSec)
+        )
+        onUpdate(toTranscriptionResult(notes, preset))
 
-        return true
-      })
+        windowStartSec = getNextWindowStart(windowStartSec, source.length / sampleRate)
+      }
+    } catch (error) {
+      if (!(error instanceof TranscriptionCancelledError || error instanceof DspCancelledError)) {
+        throw error
+      }
+    }
+  }
+
+  /**
+   * Run an engine on prepared audio and turn its output into notes
+   * (onset snapping and note cleanup).
+   *
+   * Onset detection and note cleanup run in the DSP worker. When the audio
+   * was split into harmonic and percussive parts, the engine gets the
+   * harmonic part (audioData) and onset detection the percussive one.
+   * The onsets are returned with the notes for beat tracking, and for the
+   * 'chord' preset the strums (found before onset snapping evens out the
+   * stagger between strings).
+   *
+   * @throws TranscriptionCancelledError or DspCancelledError when the signal is aborted
+   */
+  private async detectNotes(
+    engine: TranscriptionEngine,
+    {
+      audioData,
+      percussiveData,
+      durationMs,
+      metrics,
+    }: Pick<PreparedAudio, 'audioData' | 'percussiveData' | 'durationMs' | 'metrics'>,
+    { preset, onsetDetector, thresholds, onsets, cache }: DetectionSettings,
+    signal: AbortSignal,
+    onProgress?: (percent: number, message?: string) => void
+  ): Promise<{ notes: TranscribedNote[]; onsets: OnsetEvent[]; strums?: StrumEvent[] }> {
+    // Step 3: Run onset detection for improved timing, unless the onsets are known
+    // (the audio comes back from the worker with the onsets)
+    let detectedOnsets = onsets
+    let samples = audioData
+    if (!detectedOnsets) {
+      const onsetResult = await dspWorker.run(
+        {
+          type: 'detectOnsets',
+          samples: percussiveData ?? audioData,
+          sampleRate: TARGET_SAMPLE_RATE,
+          detector: onsetDetector,
+        },
+        signal
+      )
+      detectedOnsets = onsetResult.onsets
+      if (!percussiveData) samples = onsetResult.samples
+    }
 
-      // Step 6: Convert to our TranscribedNote format with onset enhancement
-      onProgress?.(95, 'Finalizing...')
+    // Log metrics for debugging (development only)
+    if (import.meta.env.DEV) {
+      console.log('[Transcription] Audio metrics:', {
+        peakDb: metrics.peakLevelDb.toFixed(1),
+        rmsDb: metrics.rmsLevelDb.toFixed(1),
+        noiseFloorDb: metrics.noiseFloorDb.toFixed(1),
+        dynamicRangeDb: metrics.dynamicRangeDb.toFixed(1),
+        hasTransients: metrics.hasTransients,
+      })
+      console.log('[Transcription] Detected onsets:', detectedOnsets.length, `(${onsetDetector})`)
+    }
 
-      const notes = convertToTranscribedNotes(timedNotes, durationMs, detectedOnsets)
+    // Steps 4-5: Run the engine (thresholds adapted to the audio metrics)
+    onProgress?.(15, 'Transcribing...')
+
+    const modelNotes = await engine.transcribe(
+      {
+        samples,
+        sampleRate: TARGET_SAMPLE_RATE,
+        durationMs,
+        metrics,
+        preset,
+        onsets: detectedOnsets,
+        thresholds,
+        cache,
+      },
+      signal,
+      // Scale progress (0..1) to 15-90 range for overall progress
+      (fraction) =>
+        onProgress?.(15 + fraction * 75, `Transcribing... ${Math.round(fraction * 100)}%`)
+    )
+
+    // Check for cancellation after the engine
+    if (signal.aborted) {
+      throw new TranscriptionCancelledError()
+    }
 
-      // Calculate range
-      const midiValues = notes.map((n) => n.midi)
-      const minMidi = midiValues.length > 0 ? Math.min(...midiValues) : 0
-      const maxMidi = midiValues.length > 0 ? Math.max(...midiValues) : 0
+    // Step 6: Onset enhancement and cleanup
+    onProgress?.(95, 'Finalizing...')
 
-      onProgress?.(100, 'Complete')
+    const strums = preset === 'chord' ? detectStrums(modelNotes, detectedOnsets) : undefined
 
-      return {
-        notes,
-        noteCount: notes.length,
-        range: { minMidi, maxMidi },
-      }
-    } finally {
-      // Clear the abort controller when done (success or error)
-      this.currentAbortController = null
-    }
+    const { notes } = await dspWorker.run(
+      { type: 'cleanUpNotes', notes: modelNotes, onsets: detectedOnsets },
+      signal
+    )
+    return { notes, onsets: detectedOnsets, ...(strums ? { strums } : {}) }
   }
 
   /**
@@ -428,8 +474,7 @@ class TranscriptionServiceImpl {
    */
   reset(): void {
     this.cancel()
-    this.basicPitch = null
-    this.modelLoadingPromise = null
+    basicPitchEngine.reset()
   }
 }
 
@@ -438,72 +483,67 @@ class TranscriptionServiceImpl {
 // ─────────────────────────────────────────────────────────────────────────────
 
 /**
- * Convert Basic Pitch NoteEventTime[] to our TranscribedNote[] format.
- *
- * Processing pipeline:
- * 1. Convert to our TranscribedNote format
- * 2. Snap note start times to detected onsets (improved timing)
- * 3. Filter isolated noise notes (weak notes with no neighbors)
- * 4. Apply polyphony limit (max 6 simultaneous notes for guitar)
- * 5. Smart merge with pitch bend awareness
- * 6. Filter weak notes without clear onset support
+ * Key of the settings audio is prepared with: audio prepared with equal
+ * keys is the same. Noise profiles are compared by content, as they are
+ * loaded afresh for each transcription.
  */
-function convertToTranscribedNotes(
-  timedNotes: NoteEventTime[],
-  _durationMs: number,
-  detectedOnsets: OnsetEvent[] = []
-): TranscribedNote[] {
-  // Step 1: Convert to our format
-  let notes = timedNotes
-    .map((note) => ({
-      startSec: note.startTimeSeconds,
-      endSec: note.startTimeSeconds + note.durationSeconds,
-      midi: note.pitchMidi,
-      velocity: note.amplitude,
-      pitchBend: note.pitchBends,
-    }))
-    .sort((a, b) => a.startSec - b.startSec)
-
-  // Step 2: Snap note start times to detected onsets for better timing
-  if (detectedOnsets.length > 0) {
-    notes = snapNotesToOnsets(notes, detectedOnsets, 0.03) // 30ms snap window
-  }
-
-  // Step 3: Filter isolated noise notes (weak notes far from other notes)
-  const noiseFiltered = filterIsolatedNoiseNotes(notes)
-
-  // Step 4: Apply polyphony limit (filter hallucinated harmonics/artifacts)
-  const polyLimited = limitPolyphony(noiseFiltered, DEFAULT_MAX_POLYPHONY)
-
-  // Step 5: Smart merge with pitch bend awareness
-  const merged = smartMergeNotes(polyLimited)
+function getPreparationKey({
+  range,
+  channel,
+  noiseProfile,
+  preprocessing,
+}: TranscribeOptions): string {
+  return JSON.stringify({
+    range,
+    channel,
+    preprocessing,
+    noiseProfile: noiseProfile && {
+      spectrum: hashSamples(noiseProfile.spectrum),
+      sampleRate: noiseProfile.sampleRate,
+      noiseFloorDb: noiseProfile.noiseFloorDb,
+    },
+  })
+}
 
-  // Step 6: Additional filtering - remove weak notes that don't have onset support
-  // This helps catch false positives that passed through other filters
-  const onsetFiltered =
-    detectedOnsets.length > 0 ? filterWeakNotesWithoutOnset(merged, detectedOnsets) : merged
+/**
+ * Wrap notes in a TranscriptionResult with their pitch range.
+ */
+function toTranscriptionResult(
+  notes: TranscribedNote[],
+  preset: TranscriptionPreset
+): TranscriptionResult {
+  const midiValues = notes.map((n) => n.midi)
+  const minMidi = midiValues.length > 0 ? Math.min(...midiValues) : 0
+  const maxMidi = midiValues.length > 0 ? Math.max(...midiValues) : 0
 
-  return onsetFiltered
+  return {
+    notes,
+    noteCount: notes.length,
+    range: { minMidi, maxMidi },
+    preset,
+  }
 }
 
 /**
- * Filter out weak notes that don't have a corresponding detected onset.
- * Strong notes are kept regardless of onset detection.
+ * Wait for a while, or until the signal is aborted.
  */
-function filterWeakNotesWithoutOnset(
-  notes: TranscribedNote[],
-  onsets: OnsetEvent[],
-  weakThreshold: number = 0.4, // Notes below this velocity are considered "weak"
-  onsetSearchWindow: number = 0.05 // 50ms window to find onset
-): TranscribedNote[] {
-  return notes.filter((note) => {
-    // Strong notes are always kept
-    if ((note.velocity ?? 1) >= weakThreshold) {
-      return true
+function waitMs(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) {
+      resolve()
+      return
     }
 
-    // For weak notes, require onset support
-    return hasStrongOnsetNear(onsets, note.startSec, onsetSearchWindow, 0.2)
+    // The listener goes when the wait ends, so polls don't pile them up on the signal
+    const onAbort = () => {
+      clearTimeout(timeout)
+      resolve()
+    }
+    const timeout = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal.addEventListener('abort', onAbort, { once: true })
   })
 }
 
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getTunerReading,
+  getTuning,
+  readTuner,
+  DEFAULT_TUNER_SETTINGS,
+  TUNINGS,
+  type TunerSettings,
+} from './tuner'
+
+describe('tuner', () => {
+  const SAMPLE_RATE = 44100
+
+  const detune = (frequency: number, cents: number) => frequency * Math.pow(2, cents / 1200)
+
+  const createTone = (frequency: number, amplitude = 0.3): Float32Array => {
+    const block = new Float32Array(2048)
+    for (let i = 0; i < block.length; i++) {
+      block[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE)
+    }
+    return block
+  }
+
+  describe('getTuning', () => {
+    it('lists six strings for every tuning', () => {
+      for (const tuning of TUNINGS) {
+        expect(tuning.strings).toHaveLength(6)
+      }
+    })
+
+    it('lowers the low string in drop D', () => {
+      expect(getTuning('dropD').strings[0]).toBe('D2')
+    })
+  })
+
+  describe('getTunerReading', () => {
+    it('names the nearest note and its offset', () => {
+      const reading = getTunerReading(detune(440, 12), DEFAULT_TUNER_SETTINGS)
+
+      expect(reading.noteName).toBe('A4')
+      expect(reading.midi).toBe(69)
+      expect(reading.cents).toBeCloseTo(12, 5)
+    })
+
+    it('reports flat notes with a negative offset', () => {
+      const reading = getTunerReading(detune(196, -20), DEFAULT_TUNER_SETTINGS)
+
+      expect(reading.noteName).toBe('G3')
+      expect(reading.cents).toBeCloseTo(-20, 0)
+    })
+
+    it('measures against the reference pitch', () => {
+      const settings: TunerSettings = { ...DEFAULT_TUNER_SETTINGS, referenceHz: 442 }
+
+      expect(getTunerReading(442, settings).cents).toBeCloseTo(0, 5)
+      expect(getTunerReading(440, settings).cents).toBeCloseTo(-7.85, 1)
+    })
+
+    it('picks the nearest open string of the tuning', () => {
+      // Low E string tuned down a whole step
+      const frequency = 73.42
+      const standard = getTunerReading(frequency, DEFAULT_TUNER_SETTINGS)
+      const dropD = getTunerReading(frequency, { ...DEFAULT_TUNER_SETTINGS, tuningId: 'dropD' })
+
+      expect(standard.string).toMatchObject({ index: 0, noteName: 'E2' })
+      expect(standard.string.cents).toBeCloseTo(-200, 0)
+      expect(dropD.string).toMatchObject({ index: 0, noteName: 'D2' })
+      expect(dropD.string.cents).toBeCloseTo(0, 0)
+    })
+  })
+
+  describe('readTuner', () => {
+    it('reads a played string', () => {
+      const reading = readTuner(createTone(110), SAMPLE_RATE, DEFAULT_TUNER_SETTINGS)
+
+      expect(reading?.noteName).toBe('A2')
+      expect(reading?.string.index).toBe(1)
+    })
+
+    it('ignores quiet input', () => {
+      expect(readTuner(createTone(110, 0.0005), SAMPLE_RATE, DEFAULT_TUNER_SETTINGS)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,242 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Tuner: Chromatic tuner on live input, with target string tunings
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { useState, useEffect, useRef } from 'react'
+import { midiToFrequency, midiToNoteName, noteNameToMidi, frequencyToMidi } from './noteUtils'
+import { detectPitch } from './pitchDetection'
+import { measureLevel } from './audioAnalysis'
+import { createStreamAnalyser, METER_FFT_SIZE } from './levelMeter'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type TuningId = 'standard' | 'dropD' | 'halfStepDown' | 'dadgad' | 'openG'
+
+export interface Tuning {
+  id: TuningId
+  name: string
+  /** Open strings from lowest to highest (e.g. 'E2') */
+  strings: string[]
+}
+
+export interface TunerSettings {
+  /** Frequency of A4 in Hz */
+  referenceHz: number
+  tuningId: TuningId
+}
+
+export interface TunerReading {
+  frequency: number
+  /** Nearest note (e.g. 'A4') */
+  noteName: string
+  midi: number
+  /** Offset from the nearest note (-50 to +50, negative = flat) */
+  cents: number
+  /** Nearest open string of the selected tuning */
+  string: {
+    /** 0 = lowest string */
+    index: number
+    noteName: string
+    /** Offset from the open string (negative = flat) */
+    cents: number
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const TUNINGS: Tuning[] = [
+  { id: 'standard', name: 'Standard', strings: ['E2', 'A2', 'D3', 'G3', 'B3', 'E4'] },
+  { id: 'dropD', name: 'Drop D', strings: ['D2', 'A2', 'D3', 'G3', 'B3', 'E4'] },
+  {
+    id: 'halfStepDown',
+    name: 'Half step down',
+    strings: ['D#2', 'G#2', 'C#3', 'F#3', 'A#3', 'D#4'],
+  },
+  { id: 'dadgad', name: 'DADGAD', strings: ['D2', 'A2', 'D3', 'G3', 'A3', 'D4'] },
+  { id: 'openG', name: 'Open G', strings: ['D2', 'G2', 'D3', 'G3', 'B3', 'D4'] },
+]
+
+/** Reference pitches offered in the settings (A4 in Hz) */
+export const REFERENCE_PITCH_OPTIONS_HZ = [
+  415, 430, 432, 435, 438, 439, 440, 441, 442, 443, 444, 446,
+]
+
+export const DEFAULT_TUNER_SETTINGS: TunerSettings = {
+  referenceHz: 440,
+  tuningId: 'standard',
+}
+
+/** Offsets within this many cents count as in tune */
+export const IN_TUNE_CENTS = 5
+
+// How often the input is read
+const TUNER_INTERVAL_MS = 50
+
+// Blocks quieter than this are ignored (room noise between strings)
+const MIN_TUNER_LEVEL_DB = -55
+
+// Estimates less periodic than this are ignored (pick noise, several strings ringing)
+const MIN_CLARITY = 0.8
+
+// Keep showing the last reading this long after the note fades, so the display doesn't flicker
+const READING_HOLD_MS = 500
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Readings
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Look up a tuning by id (standard when unknown).
+ */
+export function getTuning(tuningId: TuningId): Tuning {
+  return TUNINGS.find((tuning) => tuning.id === tuningId) ?? TUNINGS[0]
+}
+
+/**
+ * Offset in cents of a frequency from a MIDI note.
+ */
+function centsFrom(frequency: number, midi: number, referenceHz: number): number {
+  return 1200 * Math.log2(frequency / midiToFrequency(midi, referenceHz))
+}
+
+/**
+ * Turn a detected frequency into what the tuner shows: the nearest note,
+ * and the nearest open string of the tuning with its offset.
+ */
+export function getTunerReading(frequency: number, settings: TunerSettings): TunerReading {
+  const { referenceHz } = settings
+  const exactMidi = frequencyToMidi(frequency, referenceHz)
+  const midi = Math.round(exactMidi)
+
+  const stringMidis = getTuning(settings.tuningId).strings.map(noteNameToMidi)
+  const index = stringMidis.reduce(
+    (best, stringMidi, i) =>
+      Math.abs(stringMidi - exactMidi) < Math.abs(stringMidis[best] - exactMidi) ? i : best,
+    0
+  )
+
+  return {
+    frequency,
+    noteName: midiToNoteName(midi),
+    midi,
+    cents: centsFrom(frequency, midi, referenceHz),
+    string: {
+      index,
+      noteName: midiToNoteName(stringMidis[index]),
+      cents: centsFrom(frequency, stringMidis[index], referenceHz),
+    },
+  }
+}
+
+/**
+ * Read the tuner from a block of live input.
+ *
+ * @returns The reading, or null when the block is too quiet or has no clear pitch
+ */
+export function readTuner(
+  block: Float32Array,
+  sampleRate: number,
+  settings: TunerSettings
+): TunerReading | null {
+  if (measureLevel(block).rmsLevelDb < MIN_TUNER_LEVEL_DB) return null
+  const estimate = detectPitch(block, sampleRate)
+  if (!estimate || estimate.clarity < MIN_CLARITY) return null
+  return getTunerReading(estimate.frequency, settings)
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Hook
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface UseTunerReturn {
+  /** Latest reading (null while nothing clear is playing) */
+  reading: TunerReading | null
+  error: string | null
+}
+
+/**
+ * Listen to an input and estimate the pitch of each block while active.
+ * The microphone is only open while active is true.
+ *
+ * @param active - Whether the tuner is shown
+ * @param settings - Reference pitch and tuning
+ * @param deviceId - Input device (system default when omitted)
+ */
+export function useTuner(
+  active: boolean,
+  settings: TunerSettings,
+  deviceId?: string
+): UseTunerReturn {
+  const [reading, setReading] = useState<TunerReading | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Settings can change while listening without reopening the input
+  const settingsRef = useRef(settings)
+  useEffect(() => {
+    settingsRef.current = settings
+  }, [settings])
+
+  useEffect(() => {
+    if (!active) return
+
+    let cancelled = false
+    let stream: MediaStream | null = null
+    let closeAnalyser: (() => void) | null = null
+    let interval: ReturnType<typeof setInterval> | null = null
+
+    navigator.mediaDevices
+      .getUserMedia({
+        audio: {
+          // Speech processing bends and gates sustained notes
+          echoCancellation: false,
+          noiseSuppression: false,
+          autoGainControl: false,
+          ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+        },
+      })
+      .then((mediaStream) => {
+        stream = mediaStream
+        if (cancelled) {
+          mediaStream.getTracks().forEach((track) => track.stop())
+          return
+        }
+
+        const { analyser, close } = createStreamAnalyser(mediaStream)
+        closeAnalyser = close
+        const sampleRate = analyser.context.sampleRate
+        const buffer = new Float32Array(METER_FFT_SIZE)
+
+        let lastReadingMs = -Infinity
+        setError(null)
+        interval = setInterval(() => {
+          analyser.getFloatTimeDomainData(buffer)
+          const next = readTuner(buffer, sampleRate, settingsRef.current)
+          const now = performance.now()
+          if (next) {
+            lastReadingMs = now
+            setReading(next)
+          } else if (now - lastReadingMs > READING_HOLD_MS) {
+            setReading(null)
+          }
+        }, TUNER_INTERVAL_MS)
+      })
+      .catch((err) => {
+        console.warn('Tuner input unavailable:', err)
+        if (!cancelled) setError('Could not access the microphone for the tuner.')
+      })
+
+    return () => {
+      cancelled = true
+      if (interval) clearInterval(interval)
+      closeAnalyser?.()
+      stream?.getTracks().forEach((track) => track.stop())
+      setReading(null)
+    }
+  }, [active, deviceId])
+
+  return { reading, error }
+}
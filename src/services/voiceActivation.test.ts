@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { VoiceActivityDetector, type VoiceActivityEvent } from './voiceActivation'
+
+describe('voiceActivation', () => {
+  const SAMPLE_RATE = 44100
+  const BLOCK_SIZE = 2048
+  const BLOCK_MS = 50
+
+  // Deterministic low-level noise (about -60 dBFS)
+  const createNoiseBlock = (seed: number): Float32Array => {
+    const block = new Float32Array(BLOCK_SIZE)
+    let state = seed
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+      state = (state * 1103515245 + 12345) % 2147483648
+      block[i] = (state / 2147483648 - 0.5) * 0.003
+    }
+    return block
+  }
+
+  const createToneBlock = (amplitude: number): Float32Array => {
+    const block = new Float32Array(BLOCK_SIZE)
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+      block[i] = amplitude * Math.sin((2 * Math.PI * 220 * i) / SAMPLE_RATE)
+    }
+    return block
+  }
+
+  // Feed blocks every 50ms and collect the events with their times
+  const run = (detector: VoiceActivityDetector, blocks: Float32Array[], startMs = 0) =>
+    blocks
+      .map((block, i) => ({
+        timeMs: startMs + i * BLOCK_MS,
+        event: detector.process(block, SAMPLE_RATE, startMs + i * BLOCK_MS),
+      }))
+      .filter((entry): entry is { timeMs: number; event: VoiceActivityEvent } => !!entry.event)
+
+  const noise = (count: number) => Array.from({ length: count }, (_, i) => createNoiseBlock(i + 1))
+
+  describe('VoiceActivityDetector', () => {
+    it('stays armed while only room noise comes in', () => {
+      const detector = new VoiceActivityDetector(2000)
+      expect(run(detector, noise(40))).toEqual([])
+      expect(detector.isTriggered).toBe(false)
+    })
+
+    it('starts on an attack above the noise floor', () => {
+      const detector = new VoiceActivityDetector(2000)
+      const events = run(detector, [...noise(20), createToneBlock(0.3)])
+
+      expect(events).toEqual([{ timeMs: 1000, event: 'start' }])
+      expect(detector.isTriggered).toBe(true)
+    })
+
+    it('places the trigger level above the measured noise floor', () => {
+      const detector = new VoiceActivityDetector(2000)
+      run(detector, noise(20))
+
+      // Noise sits around -60 dBFS; the trigger is at least 10 dB above it
+      expect(detector.triggerLevelDb).toBeGreaterThanOrEqual(-50)
+    })
+
+    it('does not trigger before the room has been measured', () => {
+      const detector = new VoiceActivityDetector(2000)
+      expect(run(detector, [createToneBlock(0.3)])).toEqual([])
+    })
+
+    it('starts on a gradual swell that stays loud', () => {
+      const detector = new VoiceActivityDetector(2000)
+      // Each block is less than 3x the energy of the last, so none is an attack
+      const swell = [0.01, 0.015, 0.02, 0.025, 0.03].map(createToneBlock)
+      const events = run(detector, [...noise(20), ...swell])
+
+      expect(events.map((e) => e.event)).toEqual(['start'])
+    })
+
+    it('stops after the configured stretch of silence', () => {
+      const detector = new VoiceActivityDetector(1000)
+      const playing = Array.from({ length: 10 }, () => createToneBlock(0.3))
+      const events = run(detector, [...noise(20), ...playing, ...noise(30)])
+
+      // Playing from 1000ms to 1450ms, silence from 1500ms - stop 1000ms later
+      expect(events).toEqual([
+        { timeMs: 1000, event: 'start' },
+        { timeMs: 2500, event: 'stop' },
+      ])
+    })
+
+    it('keeps recording through short pauses', () => {
+      const detector = new VoiceActivityDetector(1000)
+      const playing = Array.from({ length: 5 }, () => createToneBlock(0.3))
+      const events = run(detector, [...noise(20), ...playing, ...noise(10), ...playing])
+
+      expect(events.map((e) => e.event)).toEqual(['start'])
+    })
+  })
+})
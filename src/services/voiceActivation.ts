@@ -0,0 +1,153 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Voice Activation: Start recording when playing begins, stop after silence
+// Uses the noise floor and transient logic of analyzeAudio
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+  analyzeAudio,
+  isTransientFrame,
+  measureLevel,
+  LOW_LEVEL_THRESHOLD_DBFS,
+  MIN_SIGNAL_TO_NOISE_DB,
+} from './audioAnalysis'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface VoiceActivationSettings {
+  /** Wait for the input to rise above the noise floor before capturing */
+  enabled: boolean
+  /** Stop automatically after this much silence */
+  silenceMs: number
+}
+
+/**
+ * What the detector noticed in a block:
+ * - start: playing began (capture should start, keeping the pre-roll)
+ * - stop: the input has been silent long enough to end the take
+ */
+export type VoiceActivityEvent = 'start' | 'stop'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Audio kept from before the trigger so the first attack isn't cut off */
+export const PRE_ROLL_MS = 500
+
+/** Silence lengths offered in the settings */
+export const SILENCE_TIMEOUT_OPTIONS_MS = [1000, 2000, 3000, 5000]
+
+export const DEFAULT_VOICE_ACTIVATION_SETTINGS: VoiceActivationSettings = {
+  enabled: false,
+  silenceMs: 2000,
+}
+
+// Listen to the room for this long before the first trigger is allowed
+const MIN_CALIBRATION_MS = 300
+
+// Noise floor is estimated from the most recent stretch of room tone
+const CALIBRATION_WINDOW_MS = 2000
+
+// A swell without a clear attack (e.g. volume knob) triggers after this many loud blocks
+const SUSTAINED_TRIGGER_BLOCKS = 3
+
+// Silence sits this far below the trigger level, so decaying notes don't stop the take
+const SILENCE_HYSTERESIS_DB = 6
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Detector
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Decides when an armed recording should start and stop.
+ *
+ * While armed, the blocks heard so far are treated as room tone and their
+ * noise floor is measured with analyzeAudio. Playing is detected when a block
+ * rises clearly above that floor with an attack (or stays above it for a few
+ * blocks). Once triggered, the floor is frozen and the take stops after the
+ * configured stretch of silence.
+ */
+export class VoiceActivityDetector {
+  private roomTone: { timeMs: number; block: Float32Array }[] = []
+  private armedAtMs: number | null = null
+  private noiseFloorDb = -Infinity
+  private prevEnergy = 0
+  private loudBlocks = 0
+  private triggered = false
+  private quietSinceMs: number | null = null
+  private stopped = false
+
+  constructor(private readonly silenceMs: number) {}
+
+  /**
+   * Feed the latest block of input.
+   *
+   * @param block - Samples (copied when kept for calibration)
+   * @param sampleRate - Sample rate of the block
+   * @param timeMs - Time the block was read
+   * @returns An event when the take should start or stop (each reported once), null otherwise
+   */
+  process(block: Float32Array, sampleRate: number, timeMs: number): VoiceActivityEvent | null {
+    if (this.stopped) return null
+    if (this.armedAtMs === null) this.armedAtMs = timeMs
+
+    const { rmsLevelDb, rmsLinear } = measureLevel(block)
+    const energy = rmsLinear * rmsLinear
+    const isTransient = isTransientFrame(this.prevEnergy, energy)
+    this.prevEnergy = energy
+
+    if (!this.triggered) {
+      const calibrated = timeMs - this.armedAtMs >= MIN_CALIBRATION_MS
+      const isLoud = calibrated && rmsLevelDb >= this.triggerLevelDb
+      this.loudBlocks = isLoud ? this.loudBlocks + 1 : 0
+
+      if (isLoud && (isTransient || this.loudBlocks >= SUSTAINED_TRIGGER_BLOCKS)) {
+        this.triggered = true
+        this.roomTone = []
+        return 'start'
+      }
+
+      this.addRoomTone(block, sampleRate, timeMs)
+      return null
+    }
+
+    if (rmsLevelDb >= this.triggerLevelDb - SILENCE_HYSTERESIS_DB) {
+      this.quietSinceMs = null
+      return null
+    }
+    if (this.quietSinceMs === null) this.quietSinceMs = timeMs
+    if (timeMs - this.quietSinceMs < this.silenceMs) return null
+    this.stopped = true
+    return 'stop'
+  }
+
+  /** Whether playing has been detected */
+  get isTriggered(): boolean {
+    return this.triggered
+  }
+
+  /**
+   * Level a block has to reach to count as playing: clearly above the room's
+   * noise floor, and loud enough to transcribe.
+   */
+  get triggerLevelDb(): number {
+    return Math.max(this.noiseFloorDb + MIN_SIGNAL_TO_NOISE_DB, LOW_LEVEL_THRESHOLD_DBFS)
+  }
+
+  private addRoomTone(block: Float32Array, sampleRate: number, timeMs: number): void {
+    this.roomTone.push({ timeMs, block: block.slice() })
+    while (this.roomTone[0].timeMs < timeMs - CALIBRATION_WINDOW_MS) {
+      this.roomTone.shift()
+    }
+
+    const samples = new Float32Array(this.roomTone.reduce((sum, b) => sum + b.block.length, 0))
+    let offset = 0
+    for (const { block: roomBlock } of this.roomTone) {
+      samples.set(roomBlock, offset)
+      offset += roomBlock.length
+    }
+    this.noiseFloorDb = analyzeAudio(samples, sampleRate).noiseFloorDb
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { computeWaveformPeaks, clampSelection, isFullSelection } from './waveform'
+
+describe('waveform', () => {
+  describe('computeWaveformPeaks', () => {
+    it('returns one normalized peak per bucket', () => {
+      const samples = new Float32Array([0.1, -0.2, 0.4, -0.8, 0.2, 0.1])
+      const peaks = computeWaveformPeaks(samples, 3)
+
+      expect(peaks).toHaveLength(3)
+      expect(peaks[0]).toBeCloseTo(0.25)
+      expect(peaks[1]).toBeCloseTo(1)
+      expect(peaks[2]).toBeCloseTo(0.25)
+    })
+
+    it('handles more buckets than samples', () => {
+      const peaks = computeWaveformPeaks(new Float32Array([0.5, -1]), 4)
+      expect(peaks).toHaveLength(4)
+      expect(Math.max(...peaks)).toBe(1)
+    })
+
+    it('returns zeros for silence', () => {
+      expect(computeWaveformPeaks(new Float32Array(100), 4)).toEqual([0, 0, 0, 0])
+    })
+
+    it('returns zeros for empty audio', () => {
+      expect(computeWaveformPeaks(new Float32Array(0), 2)).toEqual([0, 0])
+    })
+  })
+
+  describe('clampSelection', () => {
+    it('keeps valid selections unchanged', () => {
+      expect(clampSelection({ startSec: 1, endSec: 4 }, 10)).toEqual({ startSec: 1, endSec: 4 })
+    })
+
+    it('clamps to the recording bounds', () => {
+      expect(clampSelection({ startSec: -1, endSec: 12 }, 10)).toEqual({ startSec: 0, endSec: 10 })
+    })
+
+    it('enforces a minimum length', () => {
+      expect(clampSelection({ startSec: 2, endSec: 2.1 }, 10, 0.5)).toEqual({
+        startSec: 2,
+        endSec: 2.5,
+      })
+    })
+
+    it('keeps the minimum length at the end of the recording', () => {
+      expect(clampSelection({ startSec: 9.9, endSec: 10 }, 10, 0.5)).toEqual({
+        startSec: 9.5,
+        endSec: 10,
+      })
+    })
+
+    it('handles recordings shorter than the minimum length', () => {
+      expect(clampSelection({ startSec: 0.1, endSec: 0.2 }, 0.3, 0.5)).toEqual({
+        startSec: 0,
+        endSec: 0.3,
+      })
+    })
+  })
+
+  describe('isFullSelection', () => {
+    it('detects selections covering the whole recording', () => {
+      expect(isFullSelection({ startSec: 0, endSec: 10 }, 10)).toBe(true)
+      expect(isFullSelection({ startSec: 0.005, endSec: 9.995 }, 10)).toBe(true)
+    })
+
+    it('detects trimmed selections', () => {
+      expect(isFullSelection({ startSec: 0.5, endSec: 10 }, 10)).toBe(false)
+      expect(isFullSelection({ startSec: 0, endSec: 8 }, 10)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,113 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Waveform: Overview peaks and region selection for the recorder display
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { useEffect, useState } from 'react'
+import type { RecordingAsset, TimeRange } from '../domain/types'
+import { decodeAudioBlob, audioBufferToChannels } from './audioDecoder'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Number of bars drawn in the waveform overview */
+export const WAVEFORM_BUCKETS = 120
+
+/** Shortest region that can be selected for transcription */
+export const MIN_SELECTION_SEC = 0.5
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Peaks
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Reduce audio to one peak value per bucket, scaled so the loudest bucket is 1.
+ */
+export function computeWaveformPeaks(samples: Float32Array, bucketCount: number): number[] {
+  const peaks = new Array<number>(bucketCount).fill(0)
+  if (samples.length === 0 || bucketCount <= 0) return peaks
+
+  const bucketSize = samples.length / bucketCount
+  let maxPeak = 0
+
+  for (let b = 0; b < bucketCount; b++) {
+    const start = Math.floor(b * bucketSize)
+    const end = Math.max(start + 1, Math.floor((b + 1) * bucketSize))
+    let peak = 0
+    for (let i = start; i < end && i < samples.length; i++) {
+      const abs = Math.abs(samples[i])
+      if (abs > peak) peak = abs
+    }
+    peaks[b] = peak
+    if (peak > maxPeak) maxPeak = peak
+  }
+
+  return maxPeak > 0 ? peaks.map((p) => p / maxPeak) : peaks
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Selection
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Keep a selection inside the recording and at least minLengthSec long.
+ */
+export function clampSelection(
+  range: TimeRange,
+  durationSec: number,
+  minLengthSec: number = MIN_SELECTION_SEC
+): TimeRange {
+  const minLength = Math.min(minLengthSec, durationSec)
+  const startSec = Math.min(Math.max(0, range.startSec), durationSec - minLength)
+  const endSec = Math.min(durationSec, Math.max(range.endSec, startSec + minLength))
+  return { startSec, endSec }
+}
+
+/**
+ * Check if a selection covers the whole recording (so no trimming is needed).
+ */
+export function isFullSelection(range: TimeRange, durationSec: number): boolean {
+  const toleranceSec = 0.01
+  return range.startSec <= toleranceSec && range.endSec >= durationSec - toleranceSec
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Hook
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Compute waveform peaks for a recording, one row per channel.
+ * Uses the PCM data when available, otherwise decodes the blob.
+ */
+export function useWaveformPeaks(
+  recordingAsset: RecordingAsset | null,
+  bucketCount: number = WAVEFORM_BUCKETS
+): number[][] | null {
+  const [peaks, setPeaks] = useState<number[][] | null>(null)
+
+  useEffect(() => {
+    setPeaks(null)
+    if (!recordingAsset) return
+
+    const toPeaks = (channels: Float32Array[]) =>
+      channels.map((channel) => computeWaveformPeaks(channel, bucketCount))
+
+    if (recordingAsset.pcmData) {
+      setPeaks(toPeaks(recordingAsset.pcmChannels ?? [recordingAsset.pcmData]))
+      return
+    }
+
+    let cancelled = false
+    decodeAudioBlob(recordingAsset.blob)
+      .then(({ audioBuffer }) => {
+        if (!cancelled) setPeaks(toPeaks(audioBufferToChannels(audioBuffer)))
+      })
+      .catch((err) => console.warn('Could not draw waveform:', err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [recordingAsset, bucketCount])
+
+  return peaks
+}